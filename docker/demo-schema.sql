@@ -0,0 +1,152 @@
+-- Schema and sample data for the local Postgres data backend (NEXT_PUBLIC_DATA_BACKEND=postgres).
+-- Runs once when the demo database volume is created (see docker-compose-demo.yml).
+-- Tables and columns mirror the Supabase project; classes are generated around the current week.
+
+CREATE TABLE "Teachers" (
+  "Teacher_ID" serial PRIMARY KEY,
+  "Teacher_name" text NOT NULL,
+  "Department" text,
+  "Teacher_Type" text
+);
+
+INSERT INTO "Teachers" ("Teacher_name", "Department", "Teacher_Type") VALUES
+  ('John Smith', 'English', 'Native'),
+  ('Sarah Johnson', 'English', 'Native'),
+  ('Li Wei', 'English', 'Local'),
+  ('Wang Mei', 'English', 'Local'),
+  ('Robert Davis', 'English', 'Native');
+
+CREATE TABLE "Students-English" (
+  "Student_ID" serial PRIMARY KEY,
+  "Student_name" text NOT NULL,
+  "Age" integer,
+  "Level" text
+);
+
+INSERT INTO "Students-English" ("Student_name", "Age", "Level") VALUES
+  ('Zhang Wei', 7, 'Sprouts1'),
+  ('Li Na', 8, 'Sprouts2'),
+  ('Chen Jie', 9, 'Guardians3'),
+  ('Wang Fang', 10, 'Clovers1A'),
+  ('Liu Yang', 11, 'Clovers2A');
+
+CREATE TABLE "Substitutions" (
+  id serial PRIMARY KEY,
+  "Entry_Key" text NOT NULL,
+  "Table_Name" text NOT NULL,
+  "Entry_ID" integer NOT NULL,
+  "Date" date NOT NULL,
+  "Original_Teacher_ID" integer NOT NULL,
+  "Substitute_Teacher_ID" integer NOT NULL,
+  "Reason" text,
+  "Created_At" timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE TABLE "Teacher-Availability" (
+  id serial PRIMARY KEY,
+  "Teacher_ID" integer NOT NULL,
+  "Kind" text NOT NULL CHECK ("Kind" IN ('weekly', 'leave', 'limit')),
+  "Day_Of_Week" integer,
+  "Start" text,
+  "End" text,
+  "From_Date" date,
+  "To_Date" date,
+  "Reason" text,
+  "Max_Hours_Per_Week" numeric,
+  "Target_Hours_Per_Week" numeric
+);
+
+INSERT INTO "Teacher-Availability" ("Teacher_ID", "Kind", "Day_Of_Week", "Start", "End", "Max_Hours_Per_Week", "Target_Hours_Per_Week") VALUES
+  (3, 'weekly', 1, '08:00', '17:00', NULL, NULL),
+  (3, 'weekly', 3, '08:00', '17:00', NULL, NULL),
+  (3, 'weekly', 5, '08:00', '17:00', NULL, NULL),
+  (1, 'limit', NULL, NULL, NULL, NULL, 15),
+  (2, 'limit', NULL, NULL, NULL, 25, 18),
+  (5, 'limit', NULL, NULL, NULL, 20, 12);
+
+-- Sample hourly rates for the payroll timesheets; the most specific matching row applies
+CREATE TABLE "Pay-Rates" (
+  id serial PRIMARY KEY,
+  "Category" text NOT NULL,
+  "Teacher_Type" text,
+  "Course_Kind" text,
+  "Substitution" boolean,
+  "Hourly_Rate" numeric
+);
+
+INSERT INTO "Pay-Rates" ("Category", "Teacher_Type", "Course_Kind", "Substitution", "Hourly_Rate") VALUES
+  ('Native', 'Native', NULL, NULL, 600),
+  ('Native workshop', 'Native', 'Workshop', NULL, 700),
+  ('Native substitution', 'Native', NULL, true, 650),
+  ('Local', 'Local', NULL, NULL, 400),
+  ('Local workshop', 'Local', 'Workshop', NULL, 450),
+  ('Local substitution', 'Local', NULL, true, 430);
+
+-- The built-in course catalogue; edit it on the Course Families page (/courses)
+CREATE TABLE "Course-Families" (
+  id serial PRIMARY KEY,
+  "Family_Key" text NOT NULL UNIQUE,
+  "Label" text NOT NULL,
+  "Color" text,
+  "Course_Match" text,
+  "Level_Match" text,
+  "Levels" text,
+  "Sort_Order" integer
+);
+
+INSERT INTO "Course-Families" ("Family_Key", "Label", "Color", "Course_Match", "Level_Match", "Levels", "Sort_Order") VALUES
+  ('sprouts', 'Sprouts', 'purple', 'sprout', '', '', 1),
+  ('clovers', 'Clovers', 'emerald', 'clover', '', '', 2),
+  ('guardians', 'Guardians', 'blue', 'guardian', '', '', 3),
+  ('workshops', 'Workshops', 'amber', 'workshop, special', '', '', 4),
+  ('advanced', 'Advanced', 'rose', '', 'advanced, adv', '', 5);
+
+-- One calendar table per course, each with 15 classes over three weeks starting this Monday
+DO $$
+DECLARE
+  course text;
+  teachers text[] := ARRAY['John Smith', 'Sarah Johnson', 'Li Wei', 'Wang Mei', 'Robert Davis'];
+  monday date := date_trunc('week', current_date)::date;
+  i integer;
+BEGIN
+  FOREACH course IN ARRAY ARRAY['Sprouts1', 'Sprouts2', 'Clovers1A', 'Clovers2A', 'Guardians3'] LOOP
+    EXECUTE format(
+      'CREATE TABLE %I (
+        id serial PRIMARY KEY,
+        "Visit" integer NOT NULL,
+        "Date" date NOT NULL,
+        "Course" text NOT NULL,
+        "Level" text NOT NULL,
+        "Day1" text,
+        "Day2" text,
+        "Start" text,
+        "End" text,
+        "Unit" text,
+        "Meeting" text,
+        "Class.ID" text,
+        "NT-Led" boolean DEFAULT false,
+        "Status" text,
+        "Status_Reason" text,
+        "Makeup_Of" integer
+      )',
+      course || '-Course-Calendar'
+    );
+
+    FOR i IN 0..14 LOOP
+      EXECUTE format(
+        'INSERT INTO %I ("Visit", "Date", "Course", "Level", "Day1", "Start", "End", "Unit", "Class.ID", "NT-Led")
+         VALUES ($1, $2, $3, $3, $4, $5, $6, $7, $8, $9)',
+        course || '-Course-Calendar'
+      ) USING
+        i / 5 + 1,
+        monday + (i / 5) * 7 + (i % 5),
+        course,
+        teachers[(i + 1) % 5 + 1],
+        CASE WHEN i % 2 = 1 THEN '14:00' ELSE '09:00' END,
+        CASE WHEN i % 2 = 1 THEN '16:00' ELSE '11:00' END,
+        'Unit ' || (i / 3 + 1),
+        course || '-' || lpad((i + 1)::text, 3, '0'),
+        i % 3 = 0;
+    END LOOP;
+  END LOOP;
+END $$;
@@ -0,0 +1,24 @@
+/** @type {import('jest').Config} */
+const jestConfig = {
+  testEnvironment: 'node',
+  roots: ['<rootDir>/src'],
+  testMatch: ['**/__tests__/**/*.test.ts'],
+  moduleNameMapper: {
+    '^@/(.*)$': '<rootDir>/src/$1'
+  },
+  transform: {
+    // Next compiles with ES modules and the bundler resolver; Jest needs CommonJS
+    '^.+\\.tsx?$': ['ts-jest', {
+      tsconfig: {
+        module: 'commonjs',
+        moduleResolution: 'node',
+        jsx: 'react-jsx',
+        esModuleInterop: true,
+        strict: true,
+        target: 'ES2017'
+      }
+    }]
+  }
+};
+
+module.exports = jestConfig;
@@ -6,6 +6,11 @@ const nextConfig = {
     domains: ['tdcxyktnqtdeyvcpogyg.supabase.co'],
     formats: ['image/avif', 'image/webp'],
   },
+  experimental: {
+    // pdfkit reads its font metrics from disk at runtime and pg loads optional native bindings,
+    // so neither may be bundled
+    serverComponentsExternalPackages: ['pdfkit', 'pg'],
+  },
   // Additional env variables that should be available to the client
   env: {
     SUPABASE_URL: process.env.SUPABASE_URL,
@@ -17,6 +22,11 @@ const nextConfig = {
       config.optimization.minimize = true;
     }
     
+    // The Postgres driver is only used on the server (see src/lib/repository/postgres.ts)
+    if (!isServer) {
+      config.resolve.alias = { ...config.resolve.alias, pg: false };
+    }
+    
     return config;
   },
 };
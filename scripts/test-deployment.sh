@@ -7,7 +7,6 @@ set -e
 # Configuration
 PROJECT_ROOT=$(dirname "$(dirname "$0")")
 DOCKER_DIR="$PROJECT_ROOT/docker"
-ENV_FILE="$PROJECT_ROOT/.env"
 TAG="test"
 COMPOSE_FILE="$DOCKER_DIR/docker-compose-demo.yml"
 
@@ -16,27 +15,12 @@ echo "Testing deployment of Teaching Scheduler"
 echo "Project root: $PROJECT_ROOT"
 echo "Using compose file: $COMPOSE_FILE"
 
-# Ensure we have environment variables
-if [ ! -f "$ENV_FILE" ]; then
-    echo "Error: .env file not found at $ENV_FILE"
-    echo "Please create a .env file with SUPABASE_URL and SUPABASE_KEY"
-    exit 1
-fi
-
-# Load environment variables
-source "$ENV_FILE"
-
-# Validate required environment variables
-if [ -z "$SUPABASE_URL" ] || [ -z "$SUPABASE_KEY" ]; then
-    echo "Error: SUPABASE_URL and SUPABASE_KEY must be set in .env file"
-    exit 1
-fi
+# The demo uses its own local Postgres database (see docker-compose-demo.yml), so no credentials are needed
 
 # Start the test deployment
 echo "Starting test deployment..."
 cd "$PROJECT_ROOT"
-TAG=$TAG SUPABASE_URL=$SUPABASE_URL SUPABASE_KEY=$SUPABASE_KEY \
-    docker-compose -f "$COMPOSE_FILE" up -d
+TAG=$TAG docker-compose -f "$COMPOSE_FILE" up -d
 
 # Check if the container is running
 echo "Checking if container is running..."
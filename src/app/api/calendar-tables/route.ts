@@ -0,0 +1,15 @@
+import { getCalendarTables } from '@/lib/supabase/data';
+import { apiError, apiSuccess, withDataSource } from '@/lib/api/response';
+
+/**
+ * Calendar tables API endpoint
+ * Lists the Course-Calendar tables entries can be read from and written to.
+ */
+export async function GET() {
+  try {
+    const { data: tables, source } = await withDataSource(getCalendarTables);
+    return apiSuccess(tables, { source });
+  } catch (error) {
+    return apiError(error, 'Error listing calendar tables');
+  }
+}
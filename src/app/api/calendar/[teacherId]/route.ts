@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { format, addWeeks, subWeeks } from 'date-fns';
+import { getClassAssignments, getTeacherById } from '@/lib/supabase/data';
+import { buildIcsCalendar } from '@/lib/export/ics';
+import { withDataSource } from '@/lib/api/response';
+
+/**
+ * Teacher calendar feed endpoint: /api/calendar/{teacherId}.ics
+ * Serves a teacher's classes as an iCalendar feed that calendar apps can subscribe to.
+ * Query parameters:
+ * - from / to: optional yyyy-MM-dd date range (defaults to 4 weeks back to 12 weeks ahead)
+ * - download: when set, the feed is served as a file attachment
+ * Event times are taken to be in the SCHEDULE_TIMEZONE environment variable (an IANA name) when set
+ * and written in UTC; without it they are floating local times.
+ * Responds with 503 instead of a feed when the database is unavailable, so subscribed calendar
+ * apps keep their last copy rather than importing fallback classes.
+ */
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DEFAULT_WEEKS_BACK = 4;
+const DEFAULT_WEEKS_AHEAD = 12;
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { teacherId: string } }
+) {
+  try {
+    const teacherId = Number(params.teacherId.replace(/\.ics$/i, ''));
+    if (!Number.isInteger(teacherId) || teacherId <= 0) {
+      return NextResponse.json({ error: 'Invalid teacher ID' }, { status: 400 });
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const now = new Date();
+    const from = searchParams.get('from') || format(subWeeks(now, DEFAULT_WEEKS_BACK), 'yyyy-MM-dd');
+    const to = searchParams.get('to') || format(addWeeks(now, DEFAULT_WEEKS_AHEAD), 'yyyy-MM-dd');
+
+    if (!DATE_PATTERN.test(from) || !DATE_PATTERN.test(to)) {
+      return NextResponse.json(
+        { error: 'from and to must be dates in yyyy-MM-dd format' },
+        { status: 400 }
+      );
+    }
+
+    const { data: feed, source } = await withDataSource(async () => {
+      const teacher = await getTeacherById(teacherId);
+      if (!teacher) return null;
+      const { assignments } = await getClassAssignments({ from, to, teacherId });
+      return { teacher, assignments };
+    });
+
+    if (source === 'fallback') {
+      return NextResponse.json(
+        { error: 'The schedule database is unavailable' },
+        { status: 503, headers: { 'Retry-After': '300' } }
+      );
+    }
+    if (!feed) {
+      return NextResponse.json({ error: `Teacher ${teacherId} not found` }, { status: 404 });
+    }
+
+    const { teacher, assignments } = feed;
+    const body = buildIcsCalendar(assignments, {
+      calendarName: `${teacher.Teacher_name} - Classes`,
+      timezone: process.env.SCHEDULE_TIMEZONE || undefined
+    });
+
+    const headers: Record<string, string> = {
+      'Content-Type': 'text/calendar; charset=utf-8',
+      'Cache-Control': 'no-cache, no-store, must-revalidate'
+    };
+    if (searchParams.has('download')) {
+      headers['Content-Disposition'] = `attachment; filename="teacher-${teacherId}.ics"`;
+    }
+
+    return new NextResponse(body, { status: 200, headers });
+  } catch (error) {
+    console.error('Calendar feed error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
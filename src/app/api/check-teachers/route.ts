@@ -1,41 +1,30 @@
 import { NextResponse } from 'next/server';
-import { supabase } from '@/lib/supabase/client';
+import { getRepository } from '@/lib/repository';
 
 export async function GET() {
   try {
-    // Get teachers data
-    let query = supabase
-      .from('Teachers')
-      .select('*');
-      
-    // Check if the query object has the limit method before calling it
-    if (typeof query === 'object' && query !== null && 'limit' in query && typeof query.limit === 'function') {
-      query = query.limit(3);
-    }
-    
-    const { data: teachers, error } = await query;
-
-    if (error) {
+    const repository = getRepository();
+    let teachers: Record<string, any>[];
+    try {
+      teachers = await repository.select('Teachers', { limit: 3 });
+    } catch (error) {
       return NextResponse.json(
         { 
-          error: error.message, 
+          error: error instanceof Error ? error.message : String(error), 
           status: 'error'
         },
         { status: 500 }
       );
     }
 
-    // Get column info if available
-    let infoQuery = supabase
-      .from('Teachers')
-      .select('*');
-      
-    // Check if the query object has the limit method before calling it
-    if (typeof infoQuery === 'object' && infoQuery !== null && 'limit' in infoQuery && typeof infoQuery.limit === 'function') {
-      infoQuery = infoQuery.limit(0);
+    // Get the row count if available
+    let tableInfo: { rowCount: number } | null = null;
+    let tableError: string | null = null;
+    try {
+      tableInfo = { rowCount: await repository.count('Teachers') };
+    } catch (error) {
+      tableError = error instanceof Error ? error.message : String(error);
     }
-    
-    const { data: tableInfo, error: tableError } = await infoQuery;
 
     // Extract column names from first record
     const columnNames = teachers && teachers.length > 0 
@@ -46,8 +35,8 @@ export async function GET() {
       success: true,
       teachers: teachers,
       columnNames: columnNames,
-      tableInfo: tableInfo || null,
-      tableError: tableError ? tableError.message : null,
+      tableInfo,
+      tableError,
     });
   } catch (err: any) {
     return NextResponse.json(
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getScheduleConflicts } from '@/lib/supabase/data';
+import { supabaseService } from '@/lib/supabase/service';
+import { ScheduleConflict, ConflictType } from '@/lib/scheduling/conflicts';
+
+/**
+ * Schedule conflicts API endpoint
+ * Query parameters:
+ * - from / to: optional yyyy-MM-dd date range
+ * - minBreak: minimum break between two classes of the same teacher, in minutes
+ */
+
+interface ConflictsResponse {
+  conflicts: ScheduleConflict[];
+  totalCount: number;
+  counts: Record<ConflictType, number>;
+  isOffline: boolean;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const from = searchParams.get('from') || undefined;
+    const to = searchParams.get('to') || undefined;
+    const minBreakParam = searchParams.get('minBreak');
+
+    if ((from && !DATE_PATTERN.test(from)) || (to && !DATE_PATTERN.test(to))) {
+      return NextResponse.json(
+        { error: 'from and to must be dates in yyyy-MM-dd format' },
+        { status: 400 }
+      );
+    }
+
+    const minBreakMinutes = minBreakParam !== null ? parseInt(minBreakParam, 10) : undefined;
+    if (minBreakMinutes !== undefined && (isNaN(minBreakMinutes) || minBreakMinutes < 0)) {
+      return NextResponse.json(
+        { error: 'minBreak must be a non-negative number of minutes' },
+        { status: 400 }
+      );
+    }
+
+    const conflicts = await getScheduleConflicts({ from, to }, { minBreakMinutes });
+
+    const counts: Record<ConflictType, number> = {
+      'double-booking': 0,
+      'no-break': 0,
+      'unassigned': 0,
+      'outside-availability': 0,
+      'over-hours': 0
+    };
+    conflicts.forEach(conflict => {
+      counts[conflict.type]++;
+    });
+
+    const response: ConflictsResponse = {
+      conflicts,
+      totalCount: conflicts.length,
+      counts,
+      isOffline: supabaseService.isOffline()
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error('Error detecting schedule conflicts:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to detect conflicts' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,78 @@
+import { NextRequest } from 'next/server';
+import { findMakeupSlotsForEntry, getMissingStatusColumns, rescheduleCalendarEntry } from '@/lib/supabase/data';
+import { supabaseService } from '@/lib/supabase/service';
+import { getEntryStatus } from '@/lib/scheduling/normalize';
+import { ApiError, apiError, apiSuccess, withDataSource } from '@/lib/api/response';
+import { parseDateRange, parseId, readJsonBody, requireCalendarTable, validateEntryInput } from '@/lib/api/validation';
+import { getEntryOrThrow } from '@/lib/api/entries';
+
+/**
+ * Rescheduling endpoint for a single class: /api/entries/{tableName}/{entryId}/reschedule
+ * GET proposes free slots for a make-up class (optional from / to, defaulting to the next two weeks).
+ * POST moves the class to { date, start, end, reason? }: a make-up entry linked to the original
+ * is created and the original is marked rescheduled. Writes are refused while offline.
+ */
+
+interface RouteContext {
+  params: { tableName: string; entryId: string };
+}
+
+async function resolveParams({ params }: RouteContext): Promise<{ tableName: string; entryId: number }> {
+  return {
+    tableName: await requireCalendarTable(decodeURIComponent(params.tableName)),
+    entryId: parseId(params.entryId, 'entry ID')
+  };
+}
+
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const { tableName, entryId } = await resolveParams(context);
+    const { from, to } = parseDateRange(request.nextUrl.searchParams);
+    await getEntryOrThrow(tableName, entryId);
+
+    const { data: slots, source } = await withDataSource(() => findMakeupSlotsForEntry(tableName, entryId, { from, to }));
+    return apiSuccess(slots, { source });
+  } catch (error) {
+    return apiError(error, 'Error finding make-up slots');
+  }
+}
+
+export async function POST(request: NextRequest, context: RouteContext) {
+  try {
+    const { tableName, entryId } = await resolveParams(context);
+    const body = await readJsonBody(request);
+
+    if (!body.date || !body.start || !body.end) {
+      throw new ApiError('validation_error', 'Invalid make-up slot', ['date, start and end are required']);
+    }
+    // The slot is checked like an entry's Date, Start and End
+    const slot = validateEntryInput({ Date: body.date, Start: body.start, End: body.end }, { partial: true });
+    if (body.reason !== undefined && typeof body.reason !== 'string') {
+      throw new ApiError('validation_error', 'Invalid make-up slot', ['reason must be text']);
+    }
+
+    if (supabaseService.isOffline()) {
+      throw new ApiError('offline', 'Cannot change calendar entries while offline');
+    }
+    const missingColumns = await getMissingStatusColumns(tableName);
+    if (missingColumns.length > 0) {
+      throw new ApiError('validation_error', `${tableName} cannot hold rescheduled classes`, [
+        `the table has no ${missingColumns.join(', ')} column${missingColumns.length > 1 ? 's' : ''}`
+      ]);
+    }
+    const entry = await getEntryOrThrow(tableName, entryId);
+    if (getEntryStatus(entry) === 'rescheduled') {
+      throw new ApiError('validation_error', `Entry ${entryId} was already rescheduled`);
+    }
+
+    const { original, makeup } = await rescheduleCalendarEntry(
+      tableName,
+      entryId,
+      { date: slot.Date!, start: slot.Start!, end: slot.End! },
+      body.reason?.trim() || undefined
+    );
+    return apiSuccess({ original: { ...original, tableName }, makeup: { ...makeup, tableName } }, { status: 201 });
+  } catch (error) {
+    return apiError(error, 'Error rescheduling calendar entry');
+  }
+}
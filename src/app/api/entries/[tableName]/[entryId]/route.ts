@@ -0,0 +1,66 @@
+import { NextRequest } from 'next/server';
+import { deleteCalendarEntry, updateCalendarEntry } from '@/lib/supabase/data';
+import { supabaseService } from '@/lib/supabase/service';
+import { ApiError, apiError, apiSuccess, withDataSource } from '@/lib/api/response';
+import { parseId, readJsonBody, requireCalendarTable, validateEntryInput } from '@/lib/api/validation';
+import { getEntryOrThrow } from '@/lib/api/entries';
+
+/**
+ * Single calendar entry API endpoint: /api/entries/{tableName}/{entryId}
+ * GET reads the entry, PATCH updates the fields in the JSON body, DELETE removes it.
+ * Writes are refused while offline.
+ */
+
+interface RouteContext {
+  params: { tableName: string; entryId: string };
+}
+
+async function resolveParams({ params }: RouteContext): Promise<{ tableName: string; entryId: number }> {
+  return {
+    tableName: await requireCalendarTable(decodeURIComponent(params.tableName)),
+    entryId: parseId(params.entryId, 'entry ID')
+  };
+}
+
+function requireOnline(): void {
+  if (supabaseService.isOffline()) {
+    throw new ApiError('offline', 'Cannot change calendar entries while offline');
+  }
+}
+
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const { tableName, entryId } = await resolveParams(context);
+    const { data: entry, source } = await withDataSource(() => getEntryOrThrow(tableName, entryId));
+    return apiSuccess(entry, { source });
+  } catch (error) {
+    return apiError(error, 'Error loading calendar entry');
+  }
+}
+
+export async function PATCH(request: NextRequest, context: RouteContext) {
+  try {
+    const { tableName, entryId } = await resolveParams(context);
+    const changes = validateEntryInput(await readJsonBody(request), { partial: true });
+    requireOnline();
+
+    const updated = await updateCalendarEntry(tableName, entryId, changes);
+    return apiSuccess({ ...updated, tableName });
+  } catch (error) {
+    return apiError(error, 'Error updating calendar entry');
+  }
+}
+
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  try {
+    const { tableName, entryId } = await resolveParams(context);
+    requireOnline();
+    // Deleting an unknown row succeeds silently in Supabase, so check that it exists first
+    await getEntryOrThrow(tableName, entryId);
+
+    await deleteCalendarEntry(tableName, entryId);
+    return apiSuccess({ tableName, id: entryId, deleted: true });
+  } catch (error) {
+    return apiError(error, 'Error deleting calendar entry');
+  }
+}
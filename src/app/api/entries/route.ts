@@ -0,0 +1,61 @@
+import { NextRequest } from 'next/server';
+import { createCalendarEntry } from '@/lib/supabase/data';
+import { supabaseService } from '@/lib/supabase/service';
+import { ApiError, apiError, apiSuccess, withDataSource } from '@/lib/api/response';
+import { paginate, parsePagination } from '@/lib/api/pagination';
+import { EntryInput, parseBooleanParam, parseDateRange, parseId, readJsonBody, requireCalendarTable, validateEntryInput } from '@/lib/api/validation';
+import { queryEntries } from '@/lib/api/entries';
+
+/**
+ * Calendar entries API endpoint
+ *
+ * GET lists entries across calendar tables. Query parameters:
+ * - tableName: only entries of one Course-Calendar table
+ * - from / to: yyyy-MM-dd date range
+ * - teacherId: only classes the teacher leads or assists in
+ * - course: case-insensitive part of the course name
+ * - ntLed: true or false
+ * - page / pageSize: pagination (pageSize defaults to 50)
+ *
+ * POST creates an entry from a { tableName, entry } body.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const { from, to } = parseDateRange(searchParams);
+    const teacherIdParam = searchParams.get('teacherId');
+    const tableNameParam = searchParams.get('tableName');
+    const filters = {
+      tableName: tableNameParam ? await requireCalendarTable(tableNameParam) : undefined,
+      from,
+      to,
+      teacherId: teacherIdParam ? parseId(teacherIdParam, 'teacher ID') : undefined,
+      course: searchParams.get('course')?.trim() || undefined,
+      ntLed: parseBooleanParam(searchParams, 'ntLed')
+    };
+    const paging = parsePagination(searchParams);
+
+    const { data: entries, source } = await withDataSource(() => queryEntries(filters));
+    const { items, pagination } = paginate(entries, paging);
+    return apiSuccess(items, { source, pagination });
+  } catch (error) {
+    return apiError(error, 'Error listing calendar entries');
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await readJsonBody(request);
+    const tableName = await requireCalendarTable(typeof body.tableName === 'string' ? body.tableName : null);
+    const entry = validateEntryInput(body.entry, { partial: false }) as EntryInput;
+
+    if (supabaseService.isOffline()) {
+      throw new ApiError('offline', 'Cannot change calendar entries while offline');
+    }
+
+    const created = await createCalendarEntry(tableName, entry);
+    return apiSuccess({ ...created, tableName }, { status: 201 });
+  } catch (error) {
+    return apiError(error, 'Error creating calendar entry');
+  }
+}
@@ -1,5 +1,8 @@
 import { NextResponse } from 'next/server';
 import { supabaseService, ConnectionStatus } from '@/lib/supabase/service';
+import { DataBackend, getDataBackend } from '@/lib/repository';
+import { SchemaDiagnostic, getCalendarTableSchemas, getSchemaDiagnostics } from '@/lib/schema';
+import { CacheStats, getCacheStats } from '@/lib/supabase/queryCache';
 import os from 'os';
 
 /**
@@ -11,6 +14,8 @@ import os from 'os';
  * - Uptime
  * - Environment
  * - Database connection status
+ * - Calendar tables that deviate from the declared schema
+ * - Query cache size and hit/miss statistics
  * - Server resource usage
  */
 
@@ -22,6 +27,7 @@ interface HealthResponse {
   uptime: number;
   environment: string;
   database?: {
+    backend: DataBackend;
     status: ConnectionStatus;
     isOffline: boolean;
     error?: string;
@@ -29,6 +35,11 @@ interface HealthResponse {
     pingError?: string;
     supabaseUrl?: string;
   };
+  calendarSchema?: {
+    inspectedTables: string[];
+    diagnostics: SchemaDiagnostic[];
+  };
+  cache?: CacheStats;
   system?: {
     platform: string;
     arch: string;
@@ -75,11 +86,21 @@ export async function GET(request: Request) {
     const isOffline = supabaseService.isOffline();
     
     health.database = {
+      backend: getDataBackend(),
       status: connectionStatus,
       isOffline,
       error: lastError ? lastError.message : undefined,
     };
     
+    // Calendar tables inspected so far and how they deviate from the declared schema
+    health.calendarSchema = {
+      inspectedTables: getCalendarTableSchemas().map(schema => schema.tableName),
+      diagnostics: getSchemaDiagnostics({ includeInfo: detailed })
+    };
+    
+    // Query cache statistics since the server started
+    health.cache = getCacheStats();
+
     // Check database connection (triggers a ping) if requested
     if (checkDatabase) {
       try {
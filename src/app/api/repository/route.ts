@@ -0,0 +1,76 @@
+import { NextResponse } from 'next/server';
+import { RepositoryError, getDataBackend, getRepository } from '@/lib/repository';
+import type { RepositoryRequest } from '@/lib/repository/http';
+import { isAppTable } from '@/lib/schema';
+
+const STATUS_BY_CODE: Record<RepositoryError['code'], number> = {
+  not_found: 404,
+  unavailable: 503,
+  query_failed: 500
+};
+
+function errorResponse(error: RepositoryError) {
+  return NextResponse.json(
+    { error: { code: error.code, message: error.message, backendCode: error.backendCode } },
+    { status: STATUS_BY_CODE[error.code] }
+  );
+}
+
+/**
+ * Run a repository operation for the browser when the data backend is local Postgres.
+ * Not found unless that backend is configured (the Supabase backend is reached directly by the
+ * browser), and limited to the tables the app uses.
+ */
+export async function POST(request: Request) {
+  if (getDataBackend() !== 'postgres' || !process.env.DATABASE_URL) {
+    return NextResponse.json({ error: { code: 'not_found', message: 'Not found' } }, { status: 404 });
+  }
+
+  let body: RepositoryRequest;
+  try {
+    body = await request.json();
+  } catch {
+    return errorResponse(new RepositoryError('query_failed', 'Request body must be valid JSON'));
+  }
+
+  try {
+    const repository = getRepository();
+
+    if (body.operation === 'ping') {
+      await repository.ping();
+      return NextResponse.json({ data: null });
+    }
+    if (body.operation === 'listTables') {
+      return NextResponse.json({ data: (await repository.listTables()).filter(isAppTable) });
+    }
+
+    // Only the app's tables of the public schema can be reached
+    if (typeof body.table !== 'string' || !isAppTable(body.table) || !(await repository.listTables()).includes(body.table)) {
+      return errorResponse(new RepositoryError('not_found', `Table ${String(body.table)} not found`));
+    }
+
+    switch (body.operation) {
+      case 'listColumns':
+        return NextResponse.json({ data: await repository.listColumns(body.table) });
+      case 'select':
+        return NextResponse.json({ data: await repository.select(body.table, body.query) });
+      case 'count':
+        return NextResponse.json({ data: await repository.count(body.table, body.query) });
+      case 'insert':
+        return NextResponse.json({ data: await repository.insert(body.table, body.row) });
+      case 'update':
+        return NextResponse.json({ data: await repository.update(body.table, body.match, body.changes) });
+      case 'delete':
+        await repository.delete(body.table, body.match);
+        return NextResponse.json({ data: null });
+      default:
+        return errorResponse(new RepositoryError('query_failed', 'Unknown operation'));
+    }
+  } catch (error) {
+    if (error instanceof RepositoryError) {
+      return errorResponse(error);
+    }
+    console.error('Repository request failed:', error);
+    return errorResponse(new RepositoryError('query_failed', error instanceof Error ? error.message : 'Unknown error'));
+  }
+}
@@ -0,0 +1,24 @@
+import { NextRequest } from 'next/server';
+import { getTeacherById } from '@/lib/supabase/data';
+import { ApiError, apiError, apiSuccess, withDataSource } from '@/lib/api/response';
+import { parseId } from '@/lib/api/validation';
+
+/**
+ * Single teacher API endpoint: /api/teachers/{teacherId}
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { teacherId: string } }
+) {
+  try {
+    const teacherId = parseId(params.teacherId, 'teacher ID');
+    const { data: teacher, source } = await withDataSource(() => getTeacherById(teacherId));
+    if (!teacher) {
+      throw new ApiError('not_found', `Teacher ${teacherId} not found`);
+    }
+
+    return apiSuccess(teacher, { source });
+  } catch (error) {
+    return apiError(error, 'Error loading teacher');
+  }
+}
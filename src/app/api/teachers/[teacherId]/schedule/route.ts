@@ -0,0 +1,49 @@
+import { NextRequest } from 'next/server';
+import { format, startOfWeek, endOfWeek } from 'date-fns';
+import { getClassAssignments, getTeacherById } from '@/lib/supabase/data';
+import { compareEntries, getEntryDate } from '@/lib/scheduling/normalize';
+import { ApiError, apiError, apiSuccess, withDataSource } from '@/lib/api/response';
+import { parseDateRange, parseId } from '@/lib/api/validation';
+
+/**
+ * Teacher schedule API endpoint: /api/teachers/{teacherId}/schedule
+ * Returns the classes a teacher leads or assists in, with their role and any substitution.
+ * Query parameters:
+ * - from / to: yyyy-MM-dd date range (defaults to the current week, at most 366 days)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { teacherId: string } }
+) {
+  try {
+    const teacherId = parseId(params.teacherId, 'teacher ID');
+    const range = parseDateRange(request.nextUrl.searchParams);
+    const now = new Date();
+    const from = range.from || format(startOfWeek(now, { weekStartsOn: 1 }), 'yyyy-MM-dd');
+    const to = range.to || format(endOfWeek(now, { weekStartsOn: 1 }), 'yyyy-MM-dd');
+
+    const { data, source } = await withDataSource(async () => {
+      const teacher = await getTeacherById(teacherId);
+      if (!teacher) {
+        throw new ApiError('not_found', `Teacher ${teacherId} not found`);
+      }
+
+      const { assignments } = await getClassAssignments({ from, to, teacherId });
+      const classes = assignments
+        .map(assignment => ({
+          tableName: assignment.tableName,
+          role: assignment.role,
+          daySlot: assignment.daySlot,
+          substituteFor: assignment.substituteFor,
+          entry: assignment.entry
+        }))
+        .sort((a, b) => compareEntries(a.entry, b.entry));
+
+      return { teacher, from, to, classes };
+    });
+
+    return apiSuccess(data, { source });
+  } catch (error) {
+    return apiError(error, 'Error loading teacher schedule');
+  }
+}
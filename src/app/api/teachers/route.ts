@@ -0,0 +1,36 @@
+import { NextRequest } from 'next/server';
+import { getTeachers } from '@/lib/supabase/data';
+import { isNativeTeacher } from '@/lib/scheduling/assignments';
+import { ApiError, apiError, apiSuccess, withDataSource } from '@/lib/api/response';
+import { paginate, parsePagination } from '@/lib/api/pagination';
+
+/**
+ * Teachers API endpoint
+ * Query parameters:
+ * - type: native or local
+ * - search: case-insensitive part of the teacher name
+ * - page / pageSize: pagination (pageSize defaults to 50)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const type = searchParams.get('type');
+    const search = searchParams.get('search')?.trim().toLowerCase();
+    const paging = parsePagination(searchParams);
+
+    if (type !== null && type !== 'native' && type !== 'local') {
+      throw new ApiError('validation_error', 'type must be native or local');
+    }
+
+    const { data: teachers, source } = await withDataSource(getTeachers);
+    const matching = teachers
+      .filter(teacher => type === null || isNativeTeacher(teacher) === (type === 'native'))
+      .filter(teacher => !search || (teacher.Teacher_name || '').toLowerCase().includes(search))
+      .sort((a, b) => (a.Teacher_name || '').localeCompare(b.Teacher_name || ''));
+
+    const { items, pagination } = paginate(matching, paging);
+    return apiSuccess(items, { source, pagination });
+  } catch (error) {
+    return apiError(error, 'Error listing teachers');
+  }
+}
@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { endOfMonth, format, startOfMonth } from 'date-fns';
+import { getTimesheets } from '@/lib/supabase/data';
+import { ApiError, apiError, apiSuccess, withDataSource } from '@/lib/api/response';
+import { parseDateRange, parseId } from '@/lib/api/validation';
+import { TimesheetSignOff, buildTimesheetCsv, buildTimesheetSummaryCsv, buildTimesheetWorkbook } from '@/lib/export/timesheet';
+
+/**
+ * Payroll timesheet endpoint
+ * Query parameters:
+ * - from / to: the pay period, yyyy-MM-dd (defaults to the current month)
+ * - teacherId: only one teacher
+ * - format: json (default), csv or xlsx. CSV is one teacher's timesheet with teacherId,
+ *   the summary otherwise; XLSX has a summary sheet and a sheet per teacher
+ * - preparedBy: name printed in the sign-off block
+ */
+
+const FORMATS = ['json', 'csv', 'xlsx'];
+
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const range = parseDateRange(searchParams);
+    const today = new Date();
+    const from = range.from || format(startOfMonth(today), 'yyyy-MM-dd');
+    const to = range.to || format(endOfMonth(today), 'yyyy-MM-dd');
+    if (to < from) {
+      throw new ApiError('validation_error', 'to must not be before from');
+    }
+
+    const teacherIdParam = searchParams.get('teacherId');
+    const teacherId = teacherIdParam ? parseId(teacherIdParam, 'teacher ID') : undefined;
+
+    const outputFormat = searchParams.get('format') || 'json';
+    if (!FORMATS.includes(outputFormat)) {
+      throw new ApiError('validation_error', 'format must be json, csv or xlsx');
+    }
+
+    const { data: timesheets, source } = await withDataSource(() => getTimesheets({ from, to, teacherId }));
+    if (outputFormat === 'json') {
+      return apiSuccess(timesheets, { source });
+    }
+
+    const signOff: TimesheetSignOff = {
+      generatedAt: new Date().toISOString(),
+      preparedBy: searchParams.get('preparedBy')?.trim() || undefined
+    };
+    const headers = {
+      'Cache-Control': 'no-cache, no-store, must-revalidate',
+      'X-Data-Source': source
+    };
+
+    if (outputFormat === 'xlsx') {
+      return new NextResponse(buildTimesheetWorkbook(timesheets, signOff), {
+        status: 200,
+        headers: {
+          ...headers,
+          'Content-Type': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+          'Content-Disposition': `attachment; filename="timesheets-${from}-to-${to}.xlsx"`
+        }
+      });
+    }
+
+    if (teacherId !== undefined && timesheets.length === 0) {
+      throw new ApiError('not_found', `No classes for teacher ${teacherId} between ${from} and ${to}`);
+    }
+    const csv = teacherId !== undefined
+      ? buildTimesheetCsv(timesheets[0], signOff)
+      : buildTimesheetSummaryCsv(timesheets, signOff);
+    const fileName = teacherId !== undefined
+      ? `timesheet-${teacherId}-${from}-to-${to}.csv`
+      : `timesheets-summary-${from}-to-${to}.csv`;
+    return new NextResponse(csv, {
+      status: 200,
+      headers: {
+        ...headers,
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${fileName}"`
+      }
+    });
+  } catch (error) {
+    return apiError(error, 'Error building timesheets');
+  }
+}
@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { format, parseISO, startOfWeek, addDays, isValid } from 'date-fns';
+import { Teacher, getClassAssignments, getCourseFamilies, getTeacherAvailability, getTeachers } from '@/lib/supabase/data';
+import { TimetablePage, buildTimetablePdf } from '@/lib/export/pdf';
+
+/**
+ * Weekly timetable PDF endpoint: /api/timetable/pdf
+ * Query parameters:
+ * - week: any yyyy-MM-dd date in the week to print (defaults to the current week)
+ * - teacherId: print a single teacher; without it every teacher gets their own page
+ * - download: when set, the PDF is served as a file attachment
+ */
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const week = searchParams.get('week') || format(new Date(), 'yyyy-MM-dd');
+    if (!DATE_PATTERN.test(week) || !isValid(parseISO(week))) {
+      return NextResponse.json({ error: 'week must be a date in yyyy-MM-dd format' }, { status: 400 });
+    }
+
+    const teacherIdParam = searchParams.get('teacherId');
+    const teacherId = teacherIdParam === null ? undefined : Number(teacherIdParam);
+    if (teacherId !== undefined && (!Number.isInteger(teacherId) || teacherId <= 0)) {
+      return NextResponse.json({ error: 'Invalid teacher ID' }, { status: 400 });
+    }
+
+    const weekStart = startOfWeek(parseISO(week), { weekStartsOn: 1 });
+    const from = format(weekStart, 'yyyy-MM-dd');
+    const to = format(addDays(weekStart, 6), 'yyyy-MM-dd');
+
+    // The course catalogue is loaded for the class colours and the legend
+    const [allTeachers, { assignments }, availability, families] = await Promise.all([
+      getTeachers(),
+      getClassAssignments({ from, to, teacherId }),
+      getTeacherAvailability(),
+      getCourseFamilies()
+    ]);
+
+    let teachers: Teacher[] = allTeachers;
+    if (teacherId !== undefined) {
+      teachers = allTeachers.filter(teacher => teacher.Teacher_ID === teacherId);
+      if (teachers.length === 0) {
+        return NextResponse.json({ error: `Teacher ${teacherId} not found` }, { status: 404 });
+      }
+    }
+
+    const pages: TimetablePage[] = [...teachers]
+      .sort((a, b) => a.Teacher_name.localeCompare(b.Teacher_name))
+      .map(teacher => ({
+        teacherName: teacher.Teacher_name,
+        teacherType: teacher.Teacher_Type,
+        assignments: assignments.filter(assignment => assignment.teacherId === teacher.Teacher_ID),
+        availability: availability.find(item => item.teacherId === teacher.Teacher_ID)
+      }));
+
+    const pdf = await buildTimetablePdf(pages, {
+      weekStart,
+      families,
+      title: teacherId !== undefined
+        ? `${teachers[0].Teacher_name} - week of ${from}`
+        : `All staff - week of ${from}`
+    });
+
+    const fileName = teacherId !== undefined ? `timetable-${teacherId}-${from}.pdf` : `timetable-all-${from}.pdf`;
+    const disposition = searchParams.has('download') ? 'attachment' : 'inline';
+
+    return new NextResponse(pdf, {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `${disposition}; filename="${fileName}"`,
+        'Cache-Control': 'no-cache, no-store, must-revalidate'
+      }
+    });
+  } catch (error) {
+    console.error('Timetable PDF error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
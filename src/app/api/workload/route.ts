@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { endOfMonth, format, startOfMonth } from 'date-fns';
+import { getWorkloadReport } from '@/lib/supabase/data';
+import { ApiError, apiError, apiSuccess, withDataSource } from '@/lib/api/response';
+import { parseDateRange, parseId } from '@/lib/api/validation';
+import { WorkloadPeriod, workloadClassesToCsv, workloadReportToCsv } from '@/lib/scheduling/workload';
+
+/**
+ * Teacher workload report endpoint
+ * Query parameters:
+ * - from / to: yyyy-MM-dd date range (defaults to the current month)
+ * - period: week (default) or month
+ * - teacherId: only one teacher
+ * - format: json (default) or csv
+ * - detail: with format=csv, "classes" lists every class instead of the totals per period
+ */
+
+const PERIODS: WorkloadPeriod[] = ['week', 'month'];
+
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const range = parseDateRange(searchParams);
+    const today = new Date();
+    const from = range.from || format(startOfMonth(today), 'yyyy-MM-dd');
+    const to = range.to || format(endOfMonth(today), 'yyyy-MM-dd');
+    if (to < from) {
+      throw new ApiError('validation_error', 'to must not be before from');
+    }
+
+    const period = (searchParams.get('period') || 'week') as WorkloadPeriod;
+    if (!PERIODS.includes(period)) {
+      throw new ApiError('validation_error', 'period must be week or month');
+    }
+
+    const teacherIdParam = searchParams.get('teacherId');
+    const teacherId = teacherIdParam ? parseId(teacherIdParam, 'teacher ID') : undefined;
+
+    const outputFormat = searchParams.get('format') || 'json';
+    if (outputFormat !== 'json' && outputFormat !== 'csv') {
+      throw new ApiError('validation_error', 'format must be json or csv');
+    }
+
+    const { data: report, source } = await withDataSource(() => getWorkloadReport({ from, to, teacherId }, period));
+
+    if (outputFormat === 'csv') {
+      const classes = searchParams.get('detail') === 'classes';
+      const csv = classes ? workloadClassesToCsv(report) : workloadReportToCsv(report);
+      const fileName = `workload-${classes ? 'classes-' : ''}${from}-to-${to}.csv`;
+      return new NextResponse(csv, {
+        status: 200,
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="${fileName}"`,
+          'Cache-Control': 'no-cache, no-store, must-revalidate',
+          'X-Data-Source': source
+        }
+      });
+    }
+
+    return apiSuccess(report, { source });
+  } catch (error) {
+    return apiError(error, 'Error building workload report');
+  }
+}
@@ -0,0 +1,190 @@
+'use client';
+
+import { useState, useEffect, useMemo } from 'react';
+import { format, parseISO, startOfWeek, addWeeks, subWeeks, addDays } from 'date-fns';
+import { getScheduleConflicts } from '@/lib/supabase/data';
+import { ScheduleConflict, ConflictType, DEFAULT_MIN_BREAK_MINUTES } from '@/lib/scheduling/conflicts';
+import { supabaseService } from '@/lib/supabase/service';
+import FallbackIndicator from '@/components/FallbackIndicator';
+import SkeletonLoader from '@/components/SkeletonLoader';
+
+const CONFLICT_LABELS: Record<ConflictType, string> = {
+  'double-booking': 'Double-booked teacher',
+  'no-break': 'No break between classes',
+  'unassigned': 'No teacher assigned',
+  'outside-availability': 'Outside availability',
+  'over-hours': 'Over weekly hours'
+};
+
+export default function ConflictsPage() {
+  const [weekStart, setWeekStart] = useState<Date>(startOfWeek(new Date(), { weekStartsOn: 1 }));
+  const [weeks, setWeeks] = useState<number>(1);
+  const [minBreak, setMinBreak] = useState<number>(DEFAULT_MIN_BREAK_MINUTES);
+  const [typeFilter, setTypeFilter] = useState<ConflictType | 'all'>('all');
+  const [conflicts, setConflicts] = useState<ScheduleConflict[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isOffline, setIsOffline] = useState<boolean>(supabaseService.isOffline());
+
+  const range = useMemo(() => ({
+    from: format(weekStart, 'yyyy-MM-dd'),
+    to: format(addDays(addWeeks(weekStart, weeks), -1), 'yyyy-MM-dd')
+  }), [weekStart, weeks]);
+
+  // Listen for connection status changes to detect offline mode
+  useEffect(() => {
+    const observer = {
+      onConnectionStatusChanged: () => {
+        setIsOffline(supabaseService.isOffline());
+      }
+    };
+
+    supabaseService.addObserver(observer);
+    return () => {
+      supabaseService.removeObserver(observer);
+    };
+  }, []);
+
+  useEffect(() => {
+    async function loadConflicts() {
+      setLoading(true);
+      setError(null);
+      try {
+        const result = await getScheduleConflicts(range, { minBreakMinutes: minBreak });
+        setConflicts(result);
+      } catch (err) {
+        console.error('Error loading schedule conflicts:', err);
+        setError(err instanceof Error ? err.message : String(err));
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    loadConflicts();
+  }, [range, minBreak]);
+
+  const filteredConflicts = useMemo(() =>
+    typeFilter === 'all' ? conflicts : conflicts.filter(conflict => conflict.type === typeFilter)
+  , [conflicts, typeFilter]);
+
+  // Group conflicts by date for display
+  const conflictsByDate = useMemo(() => {
+    const groups = new Map<string, ScheduleConflict[]>();
+    filteredConflicts.forEach(conflict => {
+      groups.set(conflict.date, [...(groups.get(conflict.date) || []), conflict]);
+    });
+    return Array.from(groups.entries());
+  }, [filteredConflicts]);
+
+  const countByType = (type: ConflictType) => conflicts.filter(conflict => conflict.type === type).length;
+
+  return (
+    <div className="flex flex-col h-full">
+      {isOffline && <FallbackIndicator />}
+
+      <div className="bg-white shadow-sm p-4 rounded-lg mb-4">
+        <div className="flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <h1 className="text-xl font-semibold text-gray-900">Schedule Conflicts</h1>
+            <p className="text-sm text-gray-500">
+              {format(parseISO(range.from), 'MMM d')} - {format(parseISO(range.to), 'MMM d, yyyy')}
+            </p>
+          </div>
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <button
+              onClick={() => setWeekStart(subWeeks(weekStart, 1))}
+              className="px-3 py-2 bg-gray-200 text-gray-700 rounded hover:bg-gray-300 disabled:opacity-50"
+              disabled={loading}
+            >
+              &lt; Prev Week
+            </button>
+            <button
+              onClick={() => setWeekStart(addWeeks(weekStart, 1))}
+              className="px-3 py-2 bg-gray-200 text-gray-700 rounded hover:bg-gray-300 disabled:opacity-50"
+              disabled={loading}
+            >
+              Next Week &gt;
+            </button>
+            <select
+              value={weeks}
+              onChange={(e) => setWeeks(Number(e.target.value))}
+              className="px-2 py-2 border border-gray-300 rounded"
+            >
+              <option value={1}>1 week</option>
+              <option value={2}>2 weeks</option>
+              <option value={4}>4 weeks</option>
+            </select>
+            <label className="flex items-center gap-1 text-gray-600">
+              Min. break
+              <input
+                type="number"
+                min={0}
+                value={minBreak}
+                onChange={(e) => setMinBreak(Math.max(0, Number(e.target.value) || 0))}
+                className="w-16 px-2 py-2 border border-gray-300 rounded"
+              />
+              min
+            </label>
+          </div>
+        </div>
+
+        <div className="mt-4 flex flex-wrap gap-2 text-xs">
+          <button
+            onClick={() => setTypeFilter('all')}
+            className={`px-2 py-1 rounded-full ${typeFilter === 'all' ? 'bg-indigo-100 text-indigo-700' : 'bg-gray-100 text-gray-600'}`}
+          >
+            All ({conflicts.length})
+          </button>
+          {(Object.keys(CONFLICT_LABELS) as ConflictType[]).map(type => (
+            <button
+              key={type}
+              onClick={() => setTypeFilter(type)}
+              className={`px-2 py-1 rounded-full ${typeFilter === type ? 'bg-indigo-100 text-indigo-700' : 'bg-gray-100 text-gray-600'}`}
+            >
+              {CONFLICT_LABELS[type]} ({countByType(type)})
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {loading && (
+        <div className="p-4">
+          <SkeletonLoader type="text" width="100%" height="20px" className="mb-2" />
+          <SkeletonLoader type="text" width="90%" height="20px" className="mb-2" />
+          <SkeletonLoader type="text" width="95%" height="20px" />
+        </div>
+      )}
+
+      {error && <div className="p-4 text-red-500">Error: {error}</div>}
+
+      {!loading && !error && conflictsByDate.length === 0 && (
+        <div className="bg-white rounded-lg shadow-sm p-8 text-center text-sm text-gray-500">
+          No conflicts found for this period.
+        </div>
+      )}
+
+      {!loading && !error && conflictsByDate.map(([date, dateConflicts]) => (
+        <div key={date} className="bg-white rounded-lg shadow-sm mb-4 overflow-hidden">
+          <div className="px-4 py-2 bg-gray-50 border-b text-sm font-medium text-gray-700">
+            {date ? format(parseISO(date), 'EEEE, MMM d, yyyy') : 'No date'}
+          </div>
+          <ul className="divide-y divide-gray-100">
+            {dateConflicts.map(conflict => (
+              <li key={conflict.id} className="px-4 py-3 flex items-start gap-3">
+                <span className={`mt-0.5 px-2 py-0.5 rounded-full text-xs font-medium ${
+                  conflict.severity === 'error' ? 'bg-red-100 text-red-700' : 'bg-amber-100 text-amber-700'
+                }`}>
+                  {CONFLICT_LABELS[conflict.type]}
+                </span>
+                <div className="text-sm">
+                  <p className="text-gray-900">{conflict.message}</p>
+                  <p className="text-xs text-gray-500 mt-0.5">{conflict.entryKeys.join(', ')}</p>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      ))}
+    </div>
+  );
+}
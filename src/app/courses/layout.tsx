@@ -0,0 +1,9 @@
+import Layout from '@/components/Layout';
+
+export default function CoursesLayout({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  return <Layout>{children}</Layout>;
+} 
\ No newline at end of file
@@ -0,0 +1,387 @@
+'use client';
+
+import { useState, useEffect, useMemo } from 'react';
+import { CalendarEntry, getCalendarEntries, getCalendarTables, getCourseFamilies, saveCourseFamilies } from '@/lib/supabase/data';
+import {
+  COURSE_COLOR_NAMES,
+  CourseColorName,
+  CourseFamilyDefinition,
+  DEFAULT_COURSE_FAMILIES,
+  OTHER_COURSE_FAMILY,
+  matchCourseFamily,
+  toCourseFamilyKey,
+  validateCourseFamilies
+} from '@/lib/scheduling/courseCatalogue';
+import { COURSE_PALETTE } from '@/lib/scheduling/courseColors';
+import { supabaseService } from '@/lib/supabase/service';
+import FallbackIndicator from '@/components/FallbackIndicator';
+import SkeletonLoader from '@/components/SkeletonLoader';
+
+// A family as edited: the lists are kept as typed and split when the catalogue is built
+interface FamilyDraft {
+  key: string;
+  label: string;
+  color: CourseColorName;
+  coursePatterns: string;
+  levelPatterns: string;
+  levels: string;
+  /** Not saved yet, so the key can still be changed */
+  isNew: boolean;
+}
+
+function toDraft(family: CourseFamilyDefinition): FamilyDraft {
+  return {
+    key: family.key,
+    label: family.label,
+    color: family.color,
+    coursePatterns: family.coursePatterns.join(', '),
+    levelPatterns: family.levelPatterns.join(', '),
+    levels: family.levels.join(', '),
+    isNew: false
+  };
+}
+
+function splitList(value: string): string[] {
+  return value.split(',').map(item => item.trim()).filter(Boolean);
+}
+
+function toFamily(draft: FamilyDraft): CourseFamilyDefinition {
+  return {
+    key: toCourseFamilyKey(draft.key || draft.label),
+    label: draft.label.trim(),
+    color: draft.color,
+    coursePatterns: splitList(draft.coursePatterns),
+    levelPatterns: splitList(draft.levelPatterns),
+    levels: splitList(draft.levels)
+  };
+}
+
+// Distinct course and level combinations no family matches, shown so they can be added
+const MAX_UNMATCHED_SHOWN = 20;
+
+/**
+ * Course catalogue admin: the families classes are grouped by for filters, colours, the legend,
+ * the dashboard and the workload report, and the rules that match classes to them
+ */
+export default function CoursesPage() {
+  const [drafts, setDrafts] = useState<FamilyDraft[]>([]);
+  const [entries, setEntries] = useState<CalendarEntry[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [saving, setSaving] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [sample, setSample] = useState<{ course: string; level: string }>({ course: '', level: '' });
+  const [isOffline, setIsOffline] = useState<boolean>(supabaseService.isOffline());
+
+  // Listen for connection status changes to detect offline mode
+  useEffect(() => {
+    const observer = {
+      onConnectionStatusChanged: () => {
+        setIsOffline(supabaseService.isOffline());
+      }
+    };
+
+    supabaseService.addObserver(observer);
+    return () => {
+      supabaseService.removeObserver(observer);
+    };
+  }, []);
+
+  useEffect(() => {
+    async function loadCatalogue() {
+      setLoading(true);
+      setError(null);
+      try {
+        const families = await getCourseFamilies();
+        setDrafts(families.map(toDraft));
+
+        // Every class in the calendars, to preview how the edited catalogue groups them
+        const tables = await getCalendarTables();
+        const tableEntries = await Promise.all(tables.map(tableName => getCalendarEntries(tableName)));
+        setEntries(tableEntries.flat());
+      } catch (err) {
+        console.error('Error loading the course catalogue:', err);
+        setError(err instanceof Error ? err.message : String(err));
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    loadCatalogue();
+  }, []);
+
+  const families = useMemo(() => drafts.map(toFamily), [drafts]);
+  const errors = useMemo(() => validateCourseFamilies(families), [families]);
+
+  // How the classes in the calendars would be grouped by the edited catalogue
+  const preview = useMemo(() => {
+    const counts = new Map<string, number>();
+    const unmatched = new Map<string, number>();
+    entries.forEach(entry => {
+      const family = matchCourseFamily(entry.Course, entry.Level, families)?.key || OTHER_COURSE_FAMILY;
+      counts.set(family, (counts.get(family) || 0) + 1);
+      if (family === OTHER_COURSE_FAMILY) {
+        const name = `${entry.Course || '(no course)'} ${entry.Level || ''}`.trim();
+        unmatched.set(name, (unmatched.get(name) || 0) + 1);
+      }
+    });
+    return {
+      counts,
+      unmatched: Array.from(unmatched.entries()).sort((a, b) => b[1] - a[1]).slice(0, MAX_UNMATCHED_SHOWN)
+    };
+  }, [entries, families]);
+
+  const sampleFamily = sample.course || sample.level ? matchCourseFamily(sample.course, sample.level, families) : undefined;
+
+  const updateDraft = (index: number, changes: Partial<FamilyDraft>) => {
+    setMessage(null);
+    setDrafts(items => items.map((item, i) => (i === index ? { ...item, ...changes } : item)));
+  };
+
+  const moveDraft = (index: number, offset: number) => {
+    setMessage(null);
+    setDrafts(items => {
+      const next = [...items];
+      const [item] = next.splice(index, 1);
+      next.splice(index + offset, 0, item);
+      return next;
+    });
+  };
+
+  const addDraft = () => {
+    setMessage(null);
+    setDrafts(items => [
+      ...items,
+      { key: '', label: '', color: COURSE_COLOR_NAMES[items.length % COURSE_COLOR_NAMES.length], coursePatterns: '', levelPatterns: '', levels: '', isNew: true }
+    ]);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const saved = await saveCourseFamilies(families);
+      setDrafts(saved.map(toDraft));
+      setMessage(`Saved ${saved.length} course families`);
+    } catch (err) {
+      console.error('Error saving the course catalogue:', err);
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputClass = 'w-full border border-gray-300 rounded px-2 py-1 text-sm focus:outline-none focus:ring-1 focus:ring-indigo-500';
+
+  return (
+    <div className="flex flex-col h-full">
+      {isOffline && <FallbackIndicator />}
+
+      <div className="bg-white shadow-sm p-4 rounded-lg mb-4">
+        <div className="flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <h1 className="text-xl font-semibold text-gray-900">Course Families</h1>
+            <p className="text-sm text-gray-500">
+              How classes are grouped and coloured in the calendars, filters, dashboard and workload report.
+              A class belongs to the first family whose course text appears in its course name, otherwise to the
+              first family with a matching level word.
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <button
+              onClick={() => setDrafts(DEFAULT_COURSE_FAMILIES.map(family => ({ ...toDraft(family), isNew: true })))}
+              disabled={loading || saving}
+              className="px-3 py-1.5 text-sm border border-gray-300 rounded shadow-sm hover:bg-gray-50 disabled:opacity-50"
+            >
+              Start from defaults
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={loading || saving || isOffline || errors.length > 0}
+              title={isOffline ? 'The catalogue cannot be changed while offline' : undefined}
+              className="px-3 py-1.5 text-sm text-white bg-indigo-600 rounded shadow-sm hover:bg-indigo-700 disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : 'Save'}
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {error && <div className="p-4 text-red-500">Error: {error}</div>}
+      {message && <div className="p-4 text-green-700">{message}</div>}
+
+      {loading ? (
+        <SkeletonLoader type="text" width="100%" height="200px" />
+      ) : (
+        <>
+          <div className="bg-white rounded-lg shadow-sm mb-4 overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead className="text-xs text-gray-500 uppercase">
+                <tr>
+                  <th className="px-2 py-2 w-16" />
+                  <th className="px-2 py-2 text-left">Label / key</th>
+                  <th className="px-2 py-2 text-left">Colour</th>
+                  <th className="px-2 py-2 text-left">Course contains</th>
+                  <th className="px-2 py-2 text-left">Level word</th>
+                  <th className="px-2 py-2 text-left">Levels</th>
+                  <th className="px-2 py-2 text-right">Classes</th>
+                  <th className="px-2 py-2" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {drafts.map((draft, index) => (
+                  <tr key={index} className="align-top">
+                    <td className="px-2 py-2 whitespace-nowrap">
+                      <button
+                        onClick={() => moveDraft(index, -1)}
+                        disabled={index === 0}
+                        title="Match before the family above"
+                        className="px-1 text-gray-500 hover:text-indigo-600 disabled:opacity-30"
+                      >
+                        ▲
+                      </button>
+                      <button
+                        onClick={() => moveDraft(index, 1)}
+                        disabled={index === drafts.length - 1}
+                        title="Match after the family below"
+                        className="px-1 text-gray-500 hover:text-indigo-600 disabled:opacity-30"
+                      >
+                        ▼
+                      </button>
+                    </td>
+                    <td className="px-2 py-2 min-w-[10rem]">
+                      <input
+                        value={draft.label}
+                        onChange={(e) => updateDraft(index, { label: e.target.value })}
+                        placeholder="Label"
+                        className={inputClass}
+                      />
+                      {draft.isNew ? (
+                        <input
+                          value={draft.key}
+                          onChange={(e) => updateDraft(index, { key: e.target.value })}
+                          placeholder={toCourseFamilyKey(draft.label) || 'key'}
+                          className={`${inputClass} mt-1 text-xs`}
+                        />
+                      ) : (
+                        <div className="mt-1 text-xs text-gray-500">{draft.key}</div>
+                      )}
+                    </td>
+                    <td className="px-2 py-2">
+                      <div className="flex items-center gap-1">
+                        <span className={`w-3 h-5 inline-block border-l-4 rounded-sm ${COURSE_PALETTE[draft.color].regular.className}`} />
+                        <select
+                          value={draft.color}
+                          onChange={(e) => updateDraft(index, { color: e.target.value as CourseColorName })}
+                          className="border border-gray-300 rounded py-1 text-sm"
+                        >
+                          {COURSE_COLOR_NAMES.map(color => <option key={color} value={color}>{color}</option>)}
+                        </select>
+                      </div>
+                    </td>
+                    <td className="px-2 py-2 min-w-[10rem]">
+                      <input
+                        value={draft.coursePatterns}
+                        onChange={(e) => updateDraft(index, { coursePatterns: e.target.value })}
+                        placeholder="e.g. sprout, seedling"
+                        className={inputClass}
+                      />
+                    </td>
+                    <td className="px-2 py-2 min-w-[8rem]">
+                      <input
+                        value={draft.levelPatterns}
+                        onChange={(e) => updateDraft(index, { levelPatterns: e.target.value })}
+                        placeholder="e.g. advanced"
+                        className={inputClass}
+                      />
+                    </td>
+                    <td className="px-2 py-2 min-w-[8rem]">
+                      <input
+                        value={draft.levels}
+                        onChange={(e) => updateDraft(index, { levels: e.target.value })}
+                        placeholder="e.g. 1, 2, 3"
+                        className={inputClass}
+                      />
+                    </td>
+                    <td className="px-2 py-2 text-right text-gray-600">
+                      {preview.counts.get(families[index].key) || 0}
+                    </td>
+                    <td className="px-2 py-2">
+                      <button
+                        onClick={() => {
+                          setMessage(null);
+                          setDrafts(items => items.filter((_, i) => i !== index));
+                        }}
+                        className="text-xs text-red-600 hover:text-red-800"
+                      >
+                        Remove
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+                <tr>
+                  <td />
+                  <td colSpan={5} className="px-2 py-2 text-gray-500">Other (classes no family matches)</td>
+                  <td className="px-2 py-2 text-right text-gray-600">{preview.counts.get(OTHER_COURSE_FAMILY) || 0}</td>
+                  <td />
+                </tr>
+              </tbody>
+            </table>
+            <div className="px-4 py-2 border-t border-gray-100">
+              <button onClick={addDraft} className="text-sm text-indigo-600 hover:text-indigo-800">+ Add family</button>
+            </div>
+          </div>
+
+          {errors.length > 0 && (
+            <ul className="bg-red-50 border border-red-200 text-red-700 text-sm rounded-lg p-3 mb-4 list-disc list-inside">
+              {errors.map(item => <li key={item}>{item}</li>)}
+            </ul>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="bg-white rounded-lg shadow-sm p-4">
+              <h2 className="text-sm font-medium text-gray-700 mb-2">Try a class</h2>
+              <div className="flex gap-2">
+                <input
+                  value={sample.course}
+                  onChange={(e) => setSample({ ...sample, course: e.target.value })}
+                  placeholder="Course"
+                  className={inputClass}
+                />
+                <input
+                  value={sample.level}
+                  onChange={(e) => setSample({ ...sample, level: e.target.value })}
+                  placeholder="Level"
+                  className={inputClass}
+                />
+              </div>
+              {(sample.course || sample.level) && (
+                <p className="mt-2 text-sm text-gray-700">
+                  {sampleFamily ? (
+                    <span className={`px-2 py-0.5 border-l-4 rounded ${COURSE_PALETTE[sampleFamily.color].regular.className}`}>
+                      {sampleFamily.label}
+                    </span>
+                  ) : 'Other - no family matches'}
+                </p>
+              )}
+            </div>
+
+            <div className="bg-white rounded-lg shadow-sm p-4">
+              <h2 className="text-sm font-medium text-gray-700 mb-2">Classes no family matches</h2>
+              {preview.unmatched.length === 0 ? (
+                <p className="text-sm text-gray-500">Every class in the calendars belongs to a family.</p>
+              ) : (
+                <ul className="text-sm text-gray-700 space-y-0.5">
+                  {preview.unmatched.map(([name, count]) => (
+                    <li key={name}>{name} <span className="text-gray-500">({count})</span></li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
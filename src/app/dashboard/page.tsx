@@ -1,6 +1,7 @@
 'use client';
 
 import React, { useState, useEffect } from 'react';
+import Link from 'next/link';
 // Charting libraries
 import {
   Chart as ChartJS,
@@ -21,8 +22,18 @@ import {
   CalendarEntry, 
   getTeachers, 
   getCalendarTables, 
-  getCalendarEntries 
+  getCalendarEntries,
+  getClassAssignments,
+  getCourseFamilies
 } from '@/lib/supabase/data'; 
+import {
+  ClassAssignment,
+  UnresolvedAssignment
+} from '@/lib/scheduling/assignments';
+import { getCourseFamily, isNTLedEntry } from '@/lib/scheduling/normalize';
+import { CourseFamilyDefinition, getCourseFamilyKeys, getCourseFamilyLabel } from '@/lib/scheduling/courseCatalogue';
+import { getCourseFamilyColors } from '@/lib/scheduling/courseColors';
+import { getContactMinutesByTeacher } from '@/lib/scheduling/workload';
 import SkeletonLoader from '@/components/SkeletonLoader';
 
 // Register ChartJS components
@@ -47,15 +58,19 @@ const DashboardPage = () => {
   // Note: Fetching ALL calendar entries might be inefficient for large datasets.
   // Consider fetching aggregated data or implementing pagination/filtering if performance becomes an issue.
   const [allCalendarEntries, setAllCalendarEntries] = useState<CalendarEntry[]>([]);
+  const [assignments, setAssignments] = useState<ClassAssignment[]>([]);
+  const [unresolvedAssignments, setUnresolvedAssignments] = useState<UnresolvedAssignment[]>([]);
+  const [courseFamilies, setCourseFamilies] = useState<CourseFamilyDefinition[]>([]);
 
   useEffect(() => {
-    const fetchData = async () => {
-      setIsLoading(true);
+    const fetchData = async (showLoading: boolean = true) => {
+      if (showLoading) setIsLoading(true);
       setError(null);
       try {
         // Fetch teachers directly using the imported function
         const fetchedTeachers = await getTeachers();
         setTeachers(fetchedTeachers);
+        setCourseFamilies(await getCourseFamilies());
 
         // Fetch calendar tables directly
         const calendarTables = await getCalendarTables();
@@ -67,6 +82,11 @@ const DashboardPage = () => {
         }
         setAllCalendarEntries(entries);
 
+        // Workload comes from the resolved teacher assignments
+        const resolution = await getClassAssignments();
+        setAssignments(resolution.assignments);
+        setUnresolvedAssignments(resolution.unresolved);
+
       } catch (err: any) {
         console.error("Error fetching dashboard data:", err);
         setError(`Failed to load dashboard data: ${err.message || 'Unknown error'}`);
@@ -76,6 +96,19 @@ const DashboardPage = () => {
     };
 
     fetchData();
+
+    // Reload from the updated cache when a colleague changes teachers or classes
+    const supabaseService = SupabaseService.getInstance();
+    const observer = {
+      onConnectionStatusChanged: () => {},
+      onDataChanged: () => {
+        fetchData(false);
+      }
+    };
+    supabaseService.addObserver(observer);
+    return () => {
+      supabaseService.removeObserver(observer);
+    };
   }, []);
 
   // Calculate statistics
@@ -84,39 +117,29 @@ const DashboardPage = () => {
   let nonNtLedCount = 0;
   let totalScheduledClasses = 0;
   let totalTeachers = 0;
+  let unassignedClasses = 0;
+  const classesByFamily: { [family: string]: number } = {};
 
   if (!isLoading && !error) {
     totalTeachers = teachers.length;
     totalScheduledClasses = allCalendarEntries.length;
+    unassignedClasses = new Set(unresolvedAssignments.map(item => item.entryKey)).size;
 
-    // Initialize workload count for all teachers
-    teachers.forEach(teacher => {
-      teacherWorkload[teacher.Teacher_name] = 0;
-    });
-
+    // Count NT-Led vs Non-NT-Led
     allCalendarEntries.forEach(entry => {
-      // Count NT-Led vs Non-NT-Led
-      // Normalize NT-Led value (could be boolean or string)
-      const isNtLed = entry['NT-Led'] === true || String(entry['NT-Led']).toLowerCase() === 'true';
-      if (isNtLed) {
+      if (isNTLedEntry(entry)) {
         ntLedCount++;
-        // Assign NT-Led classes to all Native teachers (approximation for dashboard)
-        // Note: This differs from the schedule view logic which might be more specific.
-        // A better approach would be a dedicated field or clearer assignment logic.
-        teachers.forEach(teacher => {
-          if (teacher.Teacher_Type?.toLowerCase() === 'native') {
-            teacherWorkload[teacher.Teacher_name] = (teacherWorkload[teacher.Teacher_name] || 0) + 1;
-          }
-        });
       } else {
         nonNtLedCount++;
-        // Assign to specific teachers listed in Day1/Day2
-        [entry.Day1, entry.Day2].forEach(assignedTeacherName => {
-          if (assignedTeacherName && teacherWorkload.hasOwnProperty(assignedTeacherName)) {
-            teacherWorkload[assignedTeacherName]++;
-          }
-        });
       }
+      const family = getCourseFamily(entry.Course, entry.Level, courseFamilies);
+      classesByFamily[family] = (classesByFamily[family] || 0) + 1;
+    });
+
+    // Contact hours of the classes actually assigned to each teacher
+    const contactMinutes = getContactMinutesByTeacher(assignments);
+    teachers.forEach(teacher => {
+      teacherWorkload[teacher.Teacher_name] = Math.round((contactMinutes[teacher.Teacher_ID] || 0) / 6) / 10;
     });
   }
 
@@ -125,6 +148,9 @@ const DashboardPage = () => {
   const workloadData = Object.values(teacherWorkload);
   const classTypeData = [nonNtLedCount, ntLedCount]; // Order: Non-NT, NT
 
+  // Families of the course catalogue with classes, in catalogue order
+  const familyKeys = getCourseFamilyKeys(courseFamilies).filter(family => classesByFamily[family] > 0);
+
   // Chart configurations
   const workloadChartOptions = {
     responsive: true,
@@ -134,7 +160,7 @@ const DashboardPage = () => {
       },
       title: {
         display: true,
-        text: 'Teacher Workload (Number of Classes)',
+        text: 'Teacher Workload (Contact Hours)',
       },
     },
     scales: {
@@ -142,7 +168,7 @@ const DashboardPage = () => {
         beginAtZero: true,
         title: {
           display: true,
-          text: 'Number of Classes'
+          text: 'Contact Hours'
         }
       }
     }
@@ -152,7 +178,7 @@ const DashboardPage = () => {
     labels: teacherNames,
     datasets: [
       {
-        label: 'Classes Assigned',
+        label: 'Contact Hours',
         data: workloadData,
         backgroundColor: 'rgba(54, 162, 235, 0.6)', // Blue
         borderColor: 'rgba(54, 162, 235, 1)',
@@ -193,6 +219,32 @@ const DashboardPage = () => {
     ],
   };
 
+  const courseFamilyChartOptions = {
+    responsive: true,
+    plugins: {
+      legend: {
+        position: 'top' as const,
+      },
+      title: {
+        display: true,
+        text: 'Classes by Course Family',
+      },
+    },
+  };
+
+  const courseFamilyChartData = {
+    labels: familyKeys.map(family => getCourseFamilyLabel(family, courseFamilies)),
+    datasets: [
+      {
+        label: '# of Classes',
+        data: familyKeys.map(family => classesByFamily[family]),
+        backgroundColor: familyKeys.map(family => getCourseFamilyColors(family, courseFamilies).regular.border),
+        borderColor: familyKeys.map(family => getCourseFamilyColors(family, courseFamilies).ntLed.border),
+        borderWidth: 1,
+      },
+    ],
+  };
+
   return (
     <div className="p-4">
       <h1 className="text-2xl font-semibold mb-4">Statistical Dashboard</h1>
@@ -228,6 +280,12 @@ const DashboardPage = () => {
               <p className="text-3xl font-semibold text-gray-900">{totalScheduledClasses}</p>
             </div>
             
+            {/* Stat Card 3: Classes without a resolvable teacher */}
+            <div className="bg-white p-4 rounded shadow">
+              <h3 className="text-lg font-medium text-gray-500">Unassigned Classes</h3>
+              <p className={`text-3xl font-semibold ${unassignedClasses > 0 ? 'text-amber-600' : 'text-gray-900'}`}>{unassignedClasses}</p>
+            </div>
+            
             {/* Add more stat cards here */}
           </div>
 
@@ -240,6 +298,9 @@ const DashboardPage = () => {
               ) : (
                 <p className="text-gray-500">No workload data available.</p>
               )}
+              <Link href="/workload" className="mt-2 inline-block text-sm text-indigo-600 hover:text-indigo-800">
+                Weekly and monthly report &rarr;
+              </Link>
             </div>
 
             {/* Class Type Distribution Chart */}
@@ -250,6 +311,18 @@ const DashboardPage = () => {
                 <p className="text-gray-500">No class type data available.</p>
               )}
             </div>
+
+            {/* Classes per course family, coloured as in the calendars */}
+            <div className="bg-white p-4 rounded shadow flex flex-col justify-center items-center" style={{ maxHeight: '400px' }}>
+              {familyKeys.length > 0 ? (
+                <Doughnut options={courseFamilyChartOptions} data={courseFamilyChartData} />
+              ) : (
+                <p className="text-gray-500">No course family data available.</p>
+              )}
+              <Link href="/courses" className="mt-2 inline-block text-sm text-indigo-600 hover:text-indigo-800">
+                Edit course families &rarr;
+              </Link>
+            </div>
           </div>
           
           {/* Placeholder for future charts/tables */}
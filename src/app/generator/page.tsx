@@ -0,0 +1,375 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { format, addWeeks, startOfWeek } from 'date-fns';
+import {
+  CalendarEntry,
+  applyScheduleChanges,
+  getCalendarTables,
+  getClassAssignments,
+  getStoredCalendarEntries,
+  getTeacherAvailability,
+  getTeachers
+} from '@/lib/supabase/data';
+import { CourseRequirement, GeneratorResult, generateSchedule, inferRequirements } from '@/lib/scheduling/generator';
+import { ScheduleDiff, diffSchedule } from '@/lib/scheduling/diff';
+import { supabaseService } from '@/lib/supabase/service';
+import FallbackIndicator from '@/components/FallbackIndicator';
+import ScheduleDiffPreview from '@/components/ScheduleDiffPreview';
+
+const WEEKDAYS = [
+  { value: 1, label: 'Mon' },
+  { value: 2, label: 'Tue' },
+  { value: 3, label: 'Wed' },
+  { value: 4, label: 'Thu' },
+  { value: 5, label: 'Fri' },
+  { value: 6, label: 'Sat' },
+  { value: 7, label: 'Sun' }
+];
+
+function createRequirement(tableName: string): CourseRequirement {
+  return {
+    tableName,
+    course: '',
+    level: '',
+    classId: '',
+    visits: 10,
+    durationMinutes: 60,
+    ntLed: false,
+    allowedDays: [1, 2, 3, 4, 5],
+    allowedStartTimes: ['09:00', '14:00']
+  };
+}
+
+export default function GeneratorPage() {
+  const nextMonday = startOfWeek(addWeeks(new Date(), 1), { weekStartsOn: 1 });
+  const [startDate, setStartDate] = useState<string>(format(nextMonday, 'yyyy-MM-dd'));
+  const [endDate, setEndDate] = useState<string>(format(addWeeks(nextMonday, 12), 'yyyy-MM-dd'));
+  const [tables, setTables] = useState<string[]>([]);
+  const [requirements, setRequirements] = useState<CourseRequirement[]>([]);
+  const [result, setResult] = useState<GeneratorResult | null>(null);
+  const [diff, setDiff] = useState<ScheduleDiff | null>(null);
+  // Whether the term's stored Visits of the generated classes that the proposal leaves out are removed
+  const [removeMissing, setRemoveMissing] = useState<boolean>(false);
+  const [working, setWorking] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isOffline, setIsOffline] = useState<boolean>(supabaseService.isOffline());
+
+  // Listen for connection status changes to detect offline mode
+  useEffect(() => {
+    const observer = {
+      onConnectionStatusChanged: () => {
+        setIsOffline(supabaseService.isOffline());
+      }
+    };
+
+    supabaseService.addObserver(observer);
+    return () => {
+      supabaseService.removeObserver(observer);
+    };
+  }, []);
+
+  useEffect(() => {
+    getCalendarTables()
+      .then(setTables)
+      .catch(err => console.error('Error loading calendar tables:', err));
+  }, []);
+
+  // Any edit invalidates the current proposal
+  const updateRequirements = (next: CourseRequirement[]) => {
+    setRequirements(next);
+    setResult(null);
+    setDiff(null);
+  };
+
+  const updateRequirement = (index: number, changes: Partial<CourseRequirement>) => {
+    updateRequirements(requirements.map((item, i) => (i === index ? { ...item, ...changes } : item)));
+  };
+
+  const handleLoadFromTable = async (tableName: string) => {
+    setWorking('Loading classes...');
+    setError(null);
+    try {
+      // Requirements inferred from fallback entries would describe classes that do not exist
+      const entries = await getStoredCalendarEntries(tableName);
+      updateRequirements([
+        ...requirements.filter(item => item.tableName !== tableName),
+        ...inferRequirements(tableName, entries)
+      ]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setWorking(null);
+    }
+  };
+
+  const handleGenerate = async () => {
+    const invalid = requirements.find(item => !item.classId || item.visits < 1 || item.allowedDays.length === 0);
+    if (invalid) {
+      setError('Every class needs a Class.ID, at least one Visit and at least one allowed day');
+      return;
+    }
+
+    setWorking('Generating...');
+    setError(null);
+    setMessage(null);
+    try {
+      const targetTables = Array.from(new Set(requirements.map(item => item.tableName)));
+      const [teachers, availability, termResolution, existingEntries] = await Promise.all([
+        getTeachers(),
+        getTeacherAvailability(),
+        getClassAssignments({ from: startDate, to: endDate }),
+        // The proposal replaces the stored classes, so it must not be compared with fallback data
+        Promise.all(targetTables.map(tableName => getStoredCalendarEntries(tableName)))
+      ]);
+
+      // Classes in tables that are not being generated keep their teachers busy
+      const fixedAssignments = termResolution.assignments.filter(item => !targetTables.includes(item.tableName));
+
+      const generated = generateSchedule({
+        requirements,
+        startDate,
+        endDate,
+        teachers,
+        availability,
+        fixedAssignments
+      });
+
+      const existing: Record<string, CalendarEntry[]> = {};
+      targetTables.forEach((tableName, index) => {
+        existing[tableName] = existingEntries[index];
+      });
+
+      setResult(generated);
+      // Only the term is replaced; earlier and later Visits of the same classes are left alone
+      setDiff(diffSchedule(existing, generated.entries, { range: { from: startDate, to: endDate }, removeMissing }));
+    } catch (err) {
+      console.error('Error generating schedule:', err);
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setWorking(null);
+    }
+  };
+
+  const handleApply = async () => {
+    if (!diff || diff.changes.length === 0) return;
+    if (!window.confirm(`Write ${diff.changes.length} changes to the calendar tables?`)) return;
+
+    setWorking('Applying...');
+    setError(null);
+    try {
+      const { applied, failed } = await applyScheduleChanges(diff.changes);
+      setMessage(isOffline
+        ? `Offline: saved ${applied} changes on this device. They will be written when back online.`
+        : `Applied ${applied} changes${failed.length > 0 ? `, ${failed.length} failed` : ''}`);
+      if (failed.length > 0) {
+        setError(failed.map(item => `${item.change.tableName}: ${item.error}`).join('\n'));
+      }
+      setDiff(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setWorking(null);
+    }
+  };
+
+  return (
+    <div className="flex flex-col h-full">
+      {isOffline && <FallbackIndicator />}
+
+      <div className="bg-white shadow-sm p-4 rounded-lg mb-4">
+        <h1 className="text-xl font-semibold text-gray-900 mb-1">Schedule Generator</h1>
+        <p className="text-sm text-gray-500 mb-4">
+          Proposes calendar entries for a term. Nothing is written until you review and apply the changes.
+        </p>
+        <div className="flex flex-wrap items-end gap-4 text-sm">
+          <div>
+            <label className="block text-xs font-medium text-gray-600 mb-1">Term start</label>
+            <input
+              type="date"
+              value={startDate}
+              onChange={(e) => { setStartDate(e.target.value); setDiff(null); }}
+              className="px-2 py-1 border rounded text-xs h-7"
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-600 mb-1">Term end</label>
+            <input
+              type="date"
+              value={endDate}
+              onChange={(e) => { setEndDate(e.target.value); setDiff(null); }}
+              className="px-2 py-1 border rounded text-xs h-7"
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-600 mb-1">Start from classes in</label>
+            <select
+              value=""
+              onChange={(e) => e.target.value && handleLoadFromTable(e.target.value)}
+              className="px-2 py-1 border rounded text-xs h-7"
+            >
+              <option value="">Select a table...</option>
+              {tables.map(table => <option key={table} value={table}>{table}</option>)}
+            </select>
+          </div>
+          <button
+            onClick={() => updateRequirements([...requirements, createRequirement(tables[0] || '')])}
+            className="px-3 py-1 bg-gray-200 text-gray-700 rounded hover:bg-gray-300"
+          >
+            Add class
+          </button>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-lg shadow-sm mb-4 overflow-x-auto">
+        <table className="min-w-full text-xs">
+          <thead className="bg-gray-50 text-gray-600">
+            <tr>
+              <th className="px-2 py-2 text-left">Table</th>
+              <th className="px-2 py-2 text-left">Class.ID</th>
+              <th className="px-2 py-2 text-left">Course</th>
+              <th className="px-2 py-2 text-left">Level</th>
+              <th className="px-2 py-2 text-left">Visits</th>
+              <th className="px-2 py-2 text-left">Minutes</th>
+              <th className="px-2 py-2 text-left">NT-Led</th>
+              <th className="px-2 py-2 text-left">Days</th>
+              <th className="px-2 py-2 text-left">Start times</th>
+              <th className="px-2 py-2"></th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {requirements.length === 0 && (
+              <tr>
+                <td colSpan={10} className="px-4 py-6 text-center text-gray-500">
+                  Add classes or start from an existing calendar table.
+                </td>
+              </tr>
+            )}
+            {requirements.map((requirement, index) => (
+              <tr key={index}>
+                <td className="px-2 py-1">
+                  <select
+                    value={requirement.tableName}
+                    onChange={(e) => updateRequirement(index, { tableName: e.target.value })}
+                    className="px-1 py-0.5 border rounded"
+                  >
+                    {tables.map(table => <option key={table} value={table}>{table}</option>)}
+                  </select>
+                </td>
+                <td className="px-2 py-1">
+                  <input value={requirement.classId} onChange={(e) => updateRequirement(index, { classId: e.target.value })} className="w-24 px-1 py-0.5 border rounded" />
+                </td>
+                <td className="px-2 py-1">
+                  <input value={requirement.course} onChange={(e) => updateRequirement(index, { course: e.target.value })} className="w-24 px-1 py-0.5 border rounded" />
+                </td>
+                <td className="px-2 py-1">
+                  <input value={requirement.level} onChange={(e) => updateRequirement(index, { level: e.target.value })} className="w-16 px-1 py-0.5 border rounded" />
+                </td>
+                <td className="px-2 py-1">
+                  <input type="number" min={1} value={requirement.visits} onChange={(e) => updateRequirement(index, { visits: Number(e.target.value) || 0 })} className="w-14 px-1 py-0.5 border rounded" />
+                </td>
+                <td className="px-2 py-1">
+                  <input type="number" min={15} step={15} value={requirement.durationMinutes} onChange={(e) => updateRequirement(index, { durationMinutes: Number(e.target.value) || 0 })} className="w-16 px-1 py-0.5 border rounded" />
+                </td>
+                <td className="px-2 py-1">
+                  <input
+                    type="checkbox"
+                    checked={requirement.ntLed}
+                    onChange={(e) => updateRequirement(index, { ntLed: e.target.checked, ntLedVisits: undefined })}
+                    title={requirement.ntLedVisits ? `Visits ${requirement.ntLedVisits.join(', ')} are NT-Led` : undefined}
+                  />
+                  {!requirement.ntLed && requirement.ntLedVisits && (
+                    <span className="ml-1 text-gray-500">{requirement.ntLedVisits.length} visits</span>
+                  )}
+                </td>
+                <td className="px-2 py-1 whitespace-nowrap">
+                  {WEEKDAYS.map(day => (
+                    <label key={day.value} className="mr-1">
+                      <input
+                        type="checkbox"
+                        checked={requirement.allowedDays.includes(day.value)}
+                        onChange={(e) => updateRequirement(index, {
+                          allowedDays: e.target.checked
+                            ? [...requirement.allowedDays, day.value].sort()
+                            : requirement.allowedDays.filter(value => value !== day.value)
+                        })}
+                      />
+                      <span className="ml-0.5">{day.label}</span>
+                    </label>
+                  ))}
+                </td>
+                <td className="px-2 py-1">
+                  <input
+                    value={requirement.allowedStartTimes.join(', ')}
+                    onChange={(e) => updateRequirement(index, {
+                      allowedStartTimes: e.target.value.split(',').map(value => value.trim()).filter(Boolean)
+                    })}
+                    className="w-32 px-1 py-0.5 border rounded"
+                  />
+                </td>
+                <td className="px-2 py-1">
+                  <button
+                    onClick={() => updateRequirements(requirements.filter((_, i) => i !== index))}
+                    className="text-red-600 hover:text-red-800"
+                  >
+                    Remove
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <div className="p-3 border-t flex items-center justify-end gap-4">
+          <label className="text-xs text-gray-600">
+            <input
+              type="checkbox"
+              checked={removeMissing}
+              onChange={(e) => { setRemoveMissing(e.target.checked); setDiff(null); }}
+              className="mr-1"
+            />
+            Remove this term&apos;s Visits the proposal leaves out
+          </label>
+          <button
+            onClick={handleGenerate}
+            disabled={requirements.length === 0 || working !== null}
+            className="px-3 py-2 text-sm bg-indigo-600 text-white rounded hover:bg-indigo-700 disabled:opacity-50"
+          >
+            {working === 'Generating...' ? working : 'Generate proposal'}
+          </button>
+        </div>
+      </div>
+
+      {working && working !== 'Generating...' && <div className="p-4 text-sm text-gray-500">{working}</div>}
+      {error && <div className="p-4 text-red-500 whitespace-pre-line">Error: {error}</div>}
+      {message && <div className="p-4 text-green-700">{message}</div>}
+
+      {result && result.unplaced.length > 0 && (
+        <div className="bg-white rounded-lg shadow-sm mb-4 overflow-hidden">
+          <div className="px-4 py-2 bg-red-50 border-b text-sm font-medium text-red-700">
+            {result.unplaced.length} visits could not be placed
+          </div>
+          <ul className="divide-y divide-gray-100 text-sm">
+            {result.unplaced.map(item => (
+              <li key={`${item.requirement.classId}-${item.visit}`} className="px-4 py-2 text-gray-700">
+                {item.requirement.classId} Visit {item.visit}: {item.reason}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {diff && (
+        <ScheduleDiffPreview
+          diff={diff}
+          note={result?.exhausted && (
+            <span className="ml-2 text-xs text-amber-600">(search limit reached, some choices are greedy)</span>
+          )}
+          onApply={handleApply}
+          applyDisabled={working !== null}
+          applyTitle={isOffline ? 'Offline: the changes are saved on this device and written when back online' : undefined}
+        />
+      )}
+    </div>
+  );
+}
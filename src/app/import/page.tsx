@@ -0,0 +1,246 @@
+'use client';
+
+import { useState, useEffect, useMemo } from 'react';
+import { applyScheduleChanges, getCalendarTables, getStoredCalendarEntries } from '@/lib/supabase/data';
+import {
+  ColumnMapping,
+  IMPORT_FIELDS,
+  ImportSheet,
+  ImportValidation,
+  REQUIRED_IMPORT_FIELDS,
+  readSpreadsheet,
+  suggestColumnMapping,
+  toProposedEntries,
+  validateImportRows
+} from '@/lib/import/calendarImport';
+import { ScheduleDiff, diffSchedule } from '@/lib/scheduling/diff';
+import { supabaseService } from '@/lib/supabase/service';
+import FallbackIndicator from '@/components/FallbackIndicator';
+import ScheduleDiffPreview from '@/components/ScheduleDiffPreview';
+
+// Number of error report rows shown before the list is truncated
+const MAX_ERRORS_SHOWN = 200;
+
+export default function ImportPage() {
+  const [tables, setTables] = useState<string[]>([]);
+  const [tableName, setTableName] = useState<string>('');
+  const [sheet, setSheet] = useState<ImportSheet | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [diff, setDiff] = useState<ScheduleDiff | null>(null);
+  const [working, setWorking] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isOffline, setIsOffline] = useState<boolean>(supabaseService.isOffline());
+
+  // Listen for connection status changes to detect offline mode
+  useEffect(() => {
+    const observer = {
+      onConnectionStatusChanged: () => {
+        setIsOffline(supabaseService.isOffline());
+      }
+    };
+
+    supabaseService.addObserver(observer);
+    return () => {
+      supabaseService.removeObserver(observer);
+    };
+  }, []);
+
+  useEffect(() => {
+    getCalendarTables()
+      .then(calendarTables => {
+        setTables(calendarTables);
+        setTableName(current => current || calendarTables[0] || '');
+      })
+      .catch(err => console.error('Error loading calendar tables:', err));
+  }, []);
+
+  const validation: ImportValidation | null = useMemo(
+    () => (sheet && mapping ? validateImportRows(sheet, mapping) : null),
+    [sheet, mapping]
+  );
+
+  // Rebuild the preview whenever the rows or the target table change
+  useEffect(() => {
+    setDiff(null);
+    if (!validation || !tableName || validation.rows.length === 0) return;
+
+    // Diff against the stored rows only: a preview against fallback data would overwrite real classes
+    let cancelled = false;
+    getStoredCalendarEntries(tableName)
+      .then(existing => {
+        if (cancelled) return;
+        setDiff(diffSchedule({ [tableName]: existing }, toProposedEntries(tableName, validation.rows)));
+      })
+      .catch(err => {
+        console.error('Error loading existing entries:', err);
+        if (cancelled) return;
+        setError(`Cannot preview the import: ${err instanceof Error ? err.message : String(err)}`);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [validation, tableName]);
+
+  const handleFileChange = async (file: File | undefined) => {
+    setError(null);
+    setMessage(null);
+    setSheet(null);
+    setMapping(null);
+    if (!file) return;
+
+    setWorking('Reading file...');
+    try {
+      const result = readSpreadsheet(await file.arrayBuffer(), file.name);
+      setSheet(result);
+      setMapping(suggestColumnMapping(result.headers));
+
+      // Suggest the calendar table named after the file, e.g. "Sprouts1-Course-Calendar.xlsx"
+      const matchingTable = tables.find(table => file.name.toLowerCase().startsWith(table.toLowerCase()));
+      if (matchingTable) setTableName(matchingTable);
+    } catch (err) {
+      console.error('Error reading spreadsheet:', err);
+      setError(`Could not read ${file.name}: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setWorking(null);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!diff || !sheet || diff.changes.length === 0) return;
+
+    if (!isOffline && !window.confirm(`Write ${diff.changes.length} changes to ${tableName}?`)) return;
+    await applyChanges(diff.changes, sheet.fileName);
+    setSheet(null);
+    setMapping(null);
+  };
+
+  const applyChanges = async (changes: ScheduleDiff['changes'], fileName: string) => {
+    setWorking('Importing...');
+    setError(null);
+    try {
+      // While offline the changes go to the offline edit queue and are written on reconnect
+      const { applied, failed } = await applyScheduleChanges(changes);
+      setMessage(isOffline
+        ? `Offline: saved ${applied} changes from ${fileName} on this device. They will be written when back online.`
+        : `Imported ${applied} changes from ${fileName}${failed.length > 0 ? `, ${failed.length} failed` : ''}`);
+      if (failed.length > 0) {
+        setError(failed.map(item => `${item.change.after?.['Class.ID'] || ''} Visit ${item.change.after?.Visit}: ${item.error}`).join('\n'));
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setWorking(null);
+    }
+  };
+
+  return (
+    <div className="flex flex-col h-full">
+      {isOffline && <FallbackIndicator />}
+
+      <div className="bg-white shadow-sm p-4 rounded-lg mb-4">
+        <h1 className="text-xl font-semibold text-gray-900 mb-1">Import Course Calendar</h1>
+        <p className="text-sm text-gray-500 mb-4">
+          Upload a CSV or Excel file, check the column mapping and errors, then review the changes before importing.
+        </p>
+        <div className="flex flex-wrap items-end gap-4 text-sm">
+          <div>
+            <label className="block text-xs font-medium text-gray-600 mb-1">File</label>
+            <input
+              type="file"
+              accept=".csv,.xlsx,.xls"
+              onChange={(e) => handleFileChange(e.target.files?.[0])}
+              className="text-xs"
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-600 mb-1">Target table</label>
+            <select
+              value={tableName}
+              onChange={(e) => setTableName(e.target.value)}
+              className="px-2 py-1 border rounded text-xs h-7"
+            >
+              {tables.map(table => <option key={table} value={table}>{table}</option>)}
+            </select>
+          </div>
+        </div>
+      </div>
+
+      {working && <div className="p-4 text-sm text-gray-500">{working}</div>}
+      {error && <div className="p-4 text-red-500 whitespace-pre-line">Error: {error}</div>}
+      {message && <div className="p-4 text-green-700">{message}</div>}
+
+      {sheet && mapping && (
+        <div className="bg-white rounded-lg shadow-sm mb-4 overflow-hidden">
+          <div className="px-4 py-2 bg-gray-50 border-b text-sm font-medium text-gray-700">
+            Column mapping ({sheet.rows.length} rows in {sheet.fileName})
+          </div>
+          <div className="p-4 grid grid-cols-2 md:grid-cols-4 lg:grid-cols-6 gap-3 text-xs">
+            {IMPORT_FIELDS.map(field => (
+              <label key={field} className="block">
+                <span className="block font-medium text-gray-600 mb-1">
+                  {field}{REQUIRED_IMPORT_FIELDS.includes(field) && <span className="text-red-500">*</span>}
+                </span>
+                <select
+                  value={mapping[field] ?? ''}
+                  onChange={(e) => setMapping({
+                    ...mapping,
+                    [field]: e.target.value === '' ? null : Number(e.target.value)
+                  })}
+                  className="w-full px-1 py-0.5 border rounded"
+                >
+                  <option value="">Not imported</option>
+                  {sheet.headers.map((header, index) => (
+                    <option key={index} value={index}>{header || `Column ${index + 1}`}</option>
+                  ))}
+                </select>
+              </label>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {validation && validation.errors.length > 0 && (
+        <div className="bg-white rounded-lg shadow-sm mb-4 overflow-hidden">
+          <div className="px-4 py-2 bg-red-50 border-b text-sm font-medium text-red-700">
+            {validation.invalidRowCount} rows have errors and will not be imported
+          </div>
+          <table className="min-w-full text-xs">
+            <thead className="bg-gray-50 text-gray-600">
+              <tr>
+                <th className="px-4 py-1 text-left w-16">Row</th>
+                <th className="px-4 py-1 text-left w-24">Column</th>
+                <th className="px-4 py-1 text-left">Problem</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {validation.errors.slice(0, MAX_ERRORS_SHOWN).map((rowError, index) => (
+                <tr key={index}>
+                  <td className="px-4 py-1 text-gray-500">{rowError.rowNumber}</td>
+                  <td className="px-4 py-1 text-gray-700">{rowError.field || ''}</td>
+                  <td className="px-4 py-1 text-gray-900">{rowError.message}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {validation.errors.length > MAX_ERRORS_SHOWN && (
+            <p className="px-4 py-2 text-xs text-gray-500">
+              {validation.errors.length - MAX_ERRORS_SHOWN} more errors not shown.
+            </p>
+          )}
+        </div>
+      )}
+
+      {diff && (
+        <ScheduleDiffPreview
+          diff={diff}
+          applyLabel={isOffline ? `Save ${diff.changes.length} changes offline` : `Import ${diff.changes.length} changes`}
+          onApply={handleImport}
+          applyDisabled={working !== null}
+          applyTitle={isOffline ? 'Offline: the changes are saved on this device and written when back online' : undefined}
+        />
+      )}
+    </div>
+  );
+}
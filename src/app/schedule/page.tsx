@@ -1,12 +1,30 @@
 'use client';
 
-import { useState, useEffect, useMemo } from 'react';
-import { format, parse, addDays, subDays, startOfWeek, endOfWeek, eachDayOfInterval, parseISO } from 'date-fns';
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { format, parseISO } from 'date-fns';
 import TeacherSelect from '@/components/TeacherSelect';
 import DateSelect from '@/components/DateSelect';
 import WeeklyCalendar from '@/components/WeeklyCalendar';
+import DayView from '@/components/DayView';
+import MonthView from '@/components/MonthView';
+import StaffTimeline from '@/components/StaffTimeline';
+import CourseFilterMenu from '@/components/CourseFilterMenu';
 import { CalendarEntry, Teacher } from '@/lib/supabase/data';
-import { getTeacherSchedule, getCalendarEntries, getCalendarTables, getTeacherById } from '@/lib/supabase/data';
+import { getTeacherSchedule, getCalendarEntries, getCalendarTables, getTeacherById, getTeachers, getClassAssignments, getTeacherAvailability, getCourseFamilies } from '@/lib/supabase/data';
+import { AssignmentResolution, ClassAssignment, isSameEntry } from '@/lib/scheduling/assignments';
+import { getEntryDate, isNTLedEntry } from '@/lib/scheduling/normalize';
+import { ScheduleConflict, detectConflicts } from '@/lib/scheduling/conflicts';
+import { TeacherAvailability } from '@/lib/scheduling/availability';
+import { EntryEdit } from '@/lib/scheduling/moves';
+import { CourseFamilyDefinition, getActiveCourseFamilies } from '@/lib/scheduling/courseCatalogue';
+import {
+  CALENDAR_VIEW_LABELS,
+  CALENDAR_VIEW_STEPS,
+  CalendarView,
+  CourseFilter,
+  getViewRange,
+  shiftDate
+} from '@/lib/scheduling/calendarViews';
 import { ErrorBoundary } from '@/components/ErrorBoundary';
 import { supabaseService } from '@/lib/supabase/service';
 import FallbackIndicator from '@/components/FallbackIndicator';
@@ -20,23 +38,39 @@ export default function SchedulePage() {
   const [selectedTeacherId, setSelectedTeacherId] = useState<number | null>(null);
   const [selectedTeacher, setSelectedTeacher] = useState<Teacher | null>(null);
   const [calendarEntries, setCalendarEntries] = useState<CalendarEntry[]>([]);
+  const [weekAssignments, setWeekAssignments] = useState<ClassAssignment[]>([]);
+  const [weekResolution, setWeekResolution] = useState<AssignmentResolution>({ assignments: [], unresolved: [] });
+  const [weekConflicts, setWeekConflicts] = useState<ScheduleConflict[]>([]);
+  const [availability, setAvailability] = useState<TeacherAvailability[]>([]);
+  const [teachers, setTeachers] = useState<Teacher[]>([]);
+  // Drag-and-drop edits that can be undone; kept here as the calendar is rebuilt when the week or view changes
+  const [editHistory, setEditHistory] = useState<EntryEdit[]>([]);
   const [loading, setLoading] = useState<boolean>(false);
+  // Reloading the data shown, e.g. after a colleague's change, while the calendar stays on screen
+  const [refreshing, setRefreshing] = useState<boolean>(false);
+  // Only the latest load may set the data, so a slow refresh cannot overwrite a newer week
+  const loadIdRef = useRef(0);
   const [error, setError] = useState<string | null>(null);
   const [debugInfo, setDebugInfo] = useState<string[]>([]);
-  const [viewMode, setViewMode] = useState<'table' | 'weekly'>('weekly');
+  const [viewMode, setViewMode] = useState<CalendarView>('weekly');
+  // Shared by every view, so switching views keeps what is filtered
+  const [courseFilter, setCourseFilter] = useState<CourseFilter>('all');
+  const [courseFamilies, setCourseFamilies] = useState<CourseFamilyDefinition[]>(getActiveCourseFamilies);
   const [showDebug, setShowDebug] = useState<boolean>(false);
   const [isOffline, setIsOffline] = useState<boolean>(supabaseService.isOffline());
   
-  // Calculate week range for display
-  const weekDates = useMemo(() => {
-    const currentDate = parse(selectedDate, 'yyyy-MM-dd', new Date());
-    const weekStart = startOfWeek(currentDate, { weekStartsOn: 1 }); // Start on Monday
-    const weekEnd = addDays(weekStart, 6); // End on Sunday
-    return {
-      start: format(weekStart, 'MMM d'),
-      end: format(weekEnd, 'MMM d, yyyy')
-    };
-  }, [selectedDate]);
+  // The month view loads the whole month; the other views load the week around the selected day
+  const loadRange = useMemo(
+    () => getViewRange(viewMode === 'month' ? 'month' : 'weekly', selectedDate),
+    [viewMode, selectedDate]
+  );
+  
+  // Describe the dates shown, e.g. "Oct 19 - Oct 25, 2026"
+  const displayedRange = useMemo(() => {
+    const range = getViewRange(viewMode, selectedDate);
+    const end = format(parseISO(range.to), 'MMM d, yyyy');
+    return range.from === range.to ? end : `${format(parseISO(range.from), 'MMM d')} - ${end}`;
+  }, [viewMode, selectedDate]);
   
   // Add debug log function
   const addDebugLog = (message: string) => {
@@ -82,103 +116,90 @@ export default function SchedulePage() {
     loadTeacherDetails();
   }, [selectedTeacherId]);
 
-  // Extract loadCalendarData as a separate function
-  const loadCalendarData = async () => {
-    setLoading(true);
-    setError(null);
-    setCalendarEntries([]);
+  // Load the data of the range shown. A refresh keeps the current entries on screen while it
+  // reloads, so the calendar's open dialogs, drags and undo history survive it.
+  const loadCalendarData = async (refresh = false) => {
+    const loadId = ++loadIdRef.current;
+    const isCurrent = () => loadId === loadIdRef.current;
+    if (refresh) {
+      setRefreshing(true);
+    } else {
+      setLoading(true);
+      setError(null);
+      setCalendarEntries([]);
+    }
     
     try {
       addDebugLog(`Loading schedule for date: ${selectedDate}`);
       
-      // For weekly view, we need to load the entire week's data
-      const currentDate = parse(selectedDate, 'yyyy-MM-dd', new Date());
-      const weekStart = startOfWeek(currentDate, { weekStartsOn: 1 }); // Start on Monday
-      const weekEnd = endOfWeek(currentDate, { weekStartsOn: 1 }); // End on Sunday
+      addDebugLog(`Loading data for ${loadRange.from} to ${loadRange.to}`);
       
-      const daysInWeek = eachDayOfInterval({ start: weekStart, end: weekEnd });
-      addDebugLog(`Loading data for week: ${format(weekStart, 'yyyy-MM-dd')} to ${format(weekEnd, 'yyyy-MM-dd')}`);
+      // Load the week's teacher assignments for the per-teacher class counts and conflict badges
+      const [weekResolution, teacherAvailability, allTeachers, catalogue] = await Promise.all([
+        getClassAssignments(loadRange),
+        getTeacherAvailability(),
+        getTeachers(),
+        getCourseFamilies()
+      ]);
+      if (!isCurrent()) return;
+      setCourseFamilies(catalogue);
+      setWeekAssignments(weekResolution.assignments);
+      setWeekResolution(weekResolution);
+      setAvailability(teacherAvailability);
+      setTeachers(allTeachers);
+      if (weekResolution.unresolved.length > 0) {
+        addDebugLog(`${weekResolution.unresolved.length} class slots this week could not be assigned to a teacher`);
+      }
+      
+      const conflicts = detectConflicts(weekResolution, { availability: teacherAvailability });
+      setWeekConflicts(conflicts);
+      if (conflicts.length > 0) {
+        addDebugLog(`Detected ${conflicts.length} schedule conflicts this week`);
+      }
       
       if (selectedTeacherId !== null) {
         addDebugLog(`Loading schedule for teacher ID: ${selectedTeacherId}`);
         
-        // Load teacher data for the entire week in parallel for better performance
-        const teacherPromises = daysInWeek.map(day => {
-          const dayString = format(day, 'yyyy-MM-dd');
-          return getTeacherSchedule(selectedTeacherId, dayString);
-        });
+        // Load the whole week in one range query per calendar table
+        const entries = await getTeacherSchedule(selectedTeacherId, loadRange);
+        if (!isCurrent()) return;
         
-        // Wait for all days to load
-        const weekResults = await Promise.all(teacherPromises);
+        // Count NT-Led classes for debugging
+        const ntLedClasses = entries.filter(isNTLedEntry);
+        addDebugLog(`${loadRange.from} to ${loadRange.to}: Found ${entries.length} entries (${ntLedClasses.length} are NT-Led)`);
         
-        // Combine all results
-        const allWeekEntries: CalendarEntry[] = weekResults.flatMap((entries, index) => {
-          const dayString = format(daysInWeek[index], 'yyyy-MM-dd');
-          
-          // Count NT-Led classes for debugging
-          const ntLedClasses = entries.filter(entry => 
-            entry['NT-Led'] === true || 
-            (typeof entry['NT-Led'] === 'string' && entry['NT-Led'].toLowerCase() === 'yes')
-          );
-          
-          if (entries.length > 0) {
-            addDebugLog(`${dayString}: Found ${entries.length} entries (${ntLedClasses.length} are NT-Led)`);
-            
-            // Log each NT-Led class for debugging
-            ntLedClasses.forEach(entry => {
-              addDebugLog(`NT-Led class on ${dayString}: ${entry.Course} ${entry.Level} (${entry['Class.ID']}) at ${entry.Start}-${entry.End}`);
-            });
-          }
-          
-          return entries;
+        // Log each NT-Led class for debugging
+        ntLedClasses.forEach(entry => {
+          addDebugLog(`NT-Led class on ${getEntryDate(entry)}: ${entry.Course} ${entry.Level} (${entry['Class.ID']}) at ${entry.Start}-${entry.End}`);
         });
         
-        addDebugLog(`Total week entries: ${allWeekEntries.length}`);
-        setCalendarEntries(allWeekEntries);
+        setCalendarEntries(entries);
       } else {
         // No teacher selected, get all entries for the entire week
         const calendarTables = await getCalendarTables();
         addDebugLog(`Found ${calendarTables.length} calendar tables: ${calendarTables.join(', ')}`);
         
-        // Create an array of promises for all day/table combinations
-        const allQueries: Promise<CalendarEntry[]>[] = [];
-        const queryInfo: { day: Date; tableName: string }[] = [];
-        
-        // For each day in the week
-        for (const day of daysInWeek) {
-          const dayString = format(day, 'yyyy-MM-dd');
-          
-          // For each calendar table
-          for (const tableName of calendarTables) {
-            // Create a promise for this day/table combination
-            allQueries.push(
-              getCalendarEntries(tableName, { date: dayString })
-                .catch(error => {
-                  addDebugLog(`Error fetching from ${tableName} for ${dayString}: ${error.message}`);
-                  return [] as CalendarEntry[]; // Return empty array on error
-                })
-            );
-            queryInfo.push({ day, tableName });
-          }
-        }
+        // One range query per table covers every day of the week
+        const results = await Promise.all(
+          calendarTables.map(tableName =>
+            getCalendarEntries(tableName, loadRange)
+              .catch(error => {
+                addDebugLog(`Error fetching from ${tableName} for ${loadRange.from} to ${loadRange.to}: ${error.message}`);
+                return [] as CalendarEntry[]; // Return empty array on error
+              })
+          )
+        );
         
-        // Execute all queries in parallel
-        const results = await Promise.all(allQueries);
+        if (!isCurrent()) return;
         
         // Process all results
         const allWeekEntries: CalendarEntry[] = [];
         results.forEach((entries, index) => {
-          const { day, tableName } = queryInfo[index];
-          const dayString = format(day, 'yyyy-MM-dd');
-          
           if (entries.length > 0) {
             // Count NT-Led classes for debugging
-            const ntLedClasses = entries.filter(entry => 
-              entry['NT-Led'] === true || 
-              (typeof entry['NT-Led'] === 'string' && entry['NT-Led'].toLowerCase() === 'yes')
-            );
+            const ntLedClasses = entries.filter(isNTLedEntry);
             
-            addDebugLog(`${dayString} - ${tableName}: Found ${entries.length} entries (${ntLedClasses.length} are NT-Led)`);
+            addDebugLog(`${calendarTables[index]}: Found ${entries.length} entries (${ntLedClasses.length} are NT-Led)`);
             allWeekEntries.push(...entries);
           }
         });
@@ -188,27 +209,28 @@ export default function SchedulePage() {
       }
     } catch (error) {
       console.error('Error loading calendar data:', error);
-      setError(`Failed to load schedule: ${(error as Error).message}`);
       addDebugLog(`Error: ${(error as Error).message}`);
+      // A failed refresh leaves the entries already shown in place
+      if (isCurrent() && !refresh) {
+        setError(`Failed to load schedule: ${(error as Error).message}`);
+      }
     } finally {
-      setLoading(false);
+      if (isCurrent()) {
+        setLoading(false);
+        setRefreshing(false);
+      }
     }
   };
 
   // Load calendar entries when date or teacher changes
   useEffect(() => {
     loadCalendarData();
-  }, [selectedDate, selectedTeacherId]);
+  }, [loadRange, selectedTeacherId]);
 
-  // Function to identify which table/course level an entry belongs to
-  const identifyTableFromEntry = (entry: CalendarEntry): string => {
-    const course = entry.Course?.toLowerCase() || '';
-    if (course.includes('sprouts1')) return 'Sprouts1';
-    if (course.includes('sprouts2')) return 'Sprouts2';
-    if (course.includes('clovers1') || course.includes('clover1')) return 'Clovers1A';
-    if (course.includes('clovers2') || course.includes('clover2')) return 'Clovers2A';
-    if (course.includes('guardians3') || course.includes('guardian3')) return 'Guardians3';
-    return 'Unknown';
+  // Every class of the week is either assigned or unresolved, so the resolution knows each entry's table
+  const getEntryTable = (entry: CalendarEntry): string | undefined => {
+    const match = [...weekResolution.assignments, ...weekResolution.unresolved].find(item => isSameEntry(item.entry, entry));
+    return match?.tableName;
   };
 
   // Handle date selection
@@ -217,18 +239,28 @@ export default function SchedulePage() {
     addDebugLog(`Date changed to: ${date}`);
   };
 
-  // Navigate to previous day
-  const handlePreviousDay = () => {
-    const date = parse(selectedDate, 'yyyy-MM-dd', new Date());
-    const newDate = subDays(date, 1);
-    setSelectedDate(format(newDate, 'yyyy-MM-dd'));
+  // Navigate to the previous/next day, week or month, depending on the view
+  const dateStep = CALENDAR_VIEW_STEPS[viewMode];
+  const handlePrevious = () => {
+    setSelectedDate(shiftDate(selectedDate, dateStep, -1));
+  };
+
+  const handleNext = () => {
+    setSelectedDate(shiftDate(selectedDate, dateStep, 1));
   };
 
-  // Navigate to next day
-  const handleNextDay = () => {
-    const date = parse(selectedDate, 'yyyy-MM-dd', new Date());
-    const newDate = addDays(date, 1);
-    setSelectedDate(format(newDate, 'yyyy-MM-dd'));
+  // Build the URL of a teacher's calendar feed; webcal:// links open the calendar app's subscribe dialog
+  const calendarFeedUrl = (teacherId: number, scheme: 'webcal' | 'http') => {
+    const path = `/api/calendar/${teacherId}.ics`;
+    if (typeof window === 'undefined') return path;
+    return scheme === 'webcal' ? `webcal://${window.location.host}${path}` : `${window.location.origin}${path}`;
+  };
+
+  // Build the URL of the printable timetable PDF for the selected week; all teachers when none is selected
+  const timetablePdfUrl = (teacherId: number | null) => {
+    const params = new URLSearchParams({ week: selectedDate });
+    if (teacherId !== null) params.set('teacherId', String(teacherId));
+    return `/api/timetable/pdf?${params.toString()}`;
   };
 
   // Handle teacher selection
@@ -236,9 +268,10 @@ export default function SchedulePage() {
     setSelectedTeacherId(teacherId);
   };
 
-  // Toggle view mode
-  const toggleViewMode = () => {
-    setViewMode(viewMode === 'table' ? 'weekly' : 'table');
+  // Open a day from the month view
+  const handleDayOpen = (date: string) => {
+    setSelectedDate(date);
+    setViewMode('day');
   };
 
   // Get selected teacher display info
@@ -267,11 +300,11 @@ export default function SchedulePage() {
     console.error("Calendar Error Details:", errorInfo);
   };
 
-  // Handle data refresh request (called after synchronization)
+  // Handle data refresh request (after synchronization, edits and colleagues' changes)
   const handleRefreshData = () => {
-    addDebugLog('Data refresh requested after synchronization');
-    // Reload the calendar data for the current teacher and date
-    loadCalendarData();
+    addDebugLog('Data refresh requested');
+    // Reload the calendar data for the current teacher and date without unmounting the calendar
+    loadCalendarData(true);
   };
 
   const errorFallback = <ErrorFallbackComponent />; // Define a reusable fallback component instance
@@ -289,7 +322,7 @@ export default function SchedulePage() {
             <TeacherSelect 
               selectedTeacherId={selectedTeacherId}
               onTeacherSelect={handleTeacherSelect}
-              calendarEntries={calendarEntries}
+              assignments={weekAssignments}
             />
           </ErrorBoundary>
           
@@ -298,30 +331,59 @@ export default function SchedulePage() {
             <DateSelect 
               selectedDate={selectedDate}
               onDateSelect={handleDateSelect} 
+              step={dateStep}
             />
           </ErrorBoundary>
 
           <div className="flex items-center justify-between md:justify-end space-x-2">
             <button 
-              onClick={handlePreviousDay} 
+              onClick={handlePrevious} 
               className="px-3 py-2 bg-gray-200 text-gray-700 rounded hover:bg-gray-300 disabled:opacity-50 print-hide"
               disabled={loading}
+              title="Left arrow key"
             >
-              &lt; Prev Week
+              &lt; Prev {dateStep === 'day' ? 'Day' : dateStep === 'week' ? 'Week' : 'Month'}
             </button>
             <button 
-              onClick={handleNextDay} 
+              onClick={handleNext} 
               className="px-3 py-2 bg-gray-200 text-gray-700 rounded hover:bg-gray-300 disabled:opacity-50 print-hide"
               disabled={loading}
+              title="Right arrow key"
             >
-              Next Week &gt;
+              Next {dateStep === 'day' ? 'Day' : dateStep === 'week' ? 'Week' : 'Month'} &gt;
             </button>
-            <button onClick={handleRefreshData} disabled={loading} className="p-2 bg-green-100 text-green-700 rounded disabled:opacity-50 print-hide">
-              {loading ? 'Refreshing...' : 'Refresh'}
+            {selectedTeacherId !== null && (
+              <>
+                <a
+                  href={calendarFeedUrl(selectedTeacherId, 'webcal')}
+                  className="p-2 bg-indigo-100 text-indigo-700 rounded print-hide"
+                  title="Subscribe to this teacher's classes in a calendar app"
+                >
+                  Subscribe
+                </a>
+                <a
+                  href={`${calendarFeedUrl(selectedTeacherId, 'http')}?download=1`}
+                  className="p-2 bg-indigo-100 text-indigo-700 rounded print-hide"
+                >
+                  Download .ics
+                </a>
+              </>
+            )}
+            <button onClick={handleRefreshData} disabled={loading || refreshing} className="p-2 bg-green-100 text-green-700 rounded disabled:opacity-50 print-hide">
+              {loading || refreshing ? 'Refreshing...' : 'Refresh'}
             </button>
             <button onClick={() => window.print()} className="p-2 bg-blue-100 text-blue-700 rounded print-hide">
               Print
             </button>
+            <a
+              href={timetablePdfUrl(selectedTeacherId)}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="p-2 bg-blue-100 text-blue-700 rounded print-hide"
+              title={selectedTeacherId !== null ? "This teacher's week as a PDF" : 'Every teacher\'s week as a PDF, one page per teacher'}
+            >
+              {selectedTeacherId !== null ? 'PDF' : 'All staff PDF'}
+            </a>
             <button onClick={() => setShowDebug(!showDebug)} className="p-2 bg-yellow-100 text-yellow-700 rounded print-hide">Debug</button>
           </div>
         </div>
@@ -330,7 +392,25 @@ export default function SchedulePage() {
             Filtering by: {selectedTeacher.Teacher_name} ({selectedTeacher.Teacher_Type || 'Unknown Type'})
           </div>
         )}
-        <div className="mt-1 text-sm text-gray-500 print-show">Displaying week: {weekDates.start} - {weekDates.end}</div>
+        <div className="mt-2 flex flex-wrap items-center justify-between gap-2">
+          <div className="text-sm text-gray-500 print-show">
+            Displaying {displayedRange}
+          </div>
+          <div className="flex items-center gap-2 print-hide">
+            <div className="inline-flex rounded border border-gray-300 overflow-hidden text-xs">
+              {(Object.keys(CALENDAR_VIEW_LABELS) as CalendarView[]).map(view => (
+                <button
+                  key={view}
+                  onClick={() => setViewMode(view)}
+                  className={`px-3 py-1 ${viewMode === view ? 'bg-indigo-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'}`}
+                >
+                  {CALENDAR_VIEW_LABELS[view]}
+                </button>
+              ))}
+            </div>
+            {viewMode !== 'weekly' && <CourseFilterMenu value={courseFilter} onChange={setCourseFilter} families={courseFamilies} />}
+          </div>
+        </div>
       </div>
 
       {/* Calendar View */}
@@ -342,15 +422,58 @@ export default function SchedulePage() {
         )}
         {error && <div className="p-4 text-red-500">Error: {error}</div>}
         {!loading && !error && 
-          <ErrorBoundary fallback={errorFallback} onError={handleCalendarError} key={`calendar-${selectedDate}-${selectedTeacherId}`}>
-            <WeeklyCalendar 
+          <ErrorBoundary fallback={errorFallback} onError={handleCalendarError} key={`calendar-${viewMode}-${selectedDate}-${selectedTeacherId}`}>
+            {viewMode === 'day' && (
+              <DayView
+                entries={calendarEntries}
+                date={selectedDate}
+                courseFilter={courseFilter}
+                conflicts={weekConflicts}
+                availability={selectedTeacherId !== null
+                  ? availability.find(item => item.teacherId === selectedTeacherId)
+                  : undefined}
+              />
+            )}
+            {viewMode === 'month' && (
+              <MonthView
+                entries={calendarEntries}
+                date={selectedDate}
+                courseFilter={courseFilter}
+                conflicts={weekConflicts}
+                onSelectDay={handleDayOpen}
+              />
+            )}
+            {viewMode === 'timeline' && (
+              <StaffTimeline
+                teachers={teachers}
+                assignments={weekResolution.assignments}
+                date={selectedDate}
+                courseFilter={courseFilter}
+                conflicts={weekConflicts}
+                selectedTeacherId={selectedTeacherId}
+              />
+            )}
+            {viewMode === 'weekly' && <WeeklyCalendar 
               entries={calendarEntries} 
               currentDate={selectedDate}
               selectedTeacher={selectedTeacher}
               isLoading={loading}
               usingFallbackData={isOffline}
               onRefreshRequest={handleRefreshData}
-            />
+              conflicts={weekConflicts}
+              availability={selectedTeacherId !== null
+                ? availability.find(item => item.teacherId === selectedTeacherId)
+                : undefined}
+              getEntryTable={getEntryTable}
+              teachers={teachers}
+              assignments={weekResolution.assignments}
+              teacherAvailability={availability}
+              editHistory={editHistory}
+              onEditHistoryChange={setEditHistory}
+              courseFilter={courseFilter}
+              onCourseFilterChange={setCourseFilter}
+              courseFamilies={courseFamilies}
+            />}
           </ErrorBoundary>
         }
       </div>
@@ -0,0 +1,233 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { format, parseISO } from 'date-fns';
+import TeacherSelect from '@/components/TeacherSelect';
+import FallbackIndicator from '@/components/FallbackIndicator';
+import SkeletonLoader from '@/components/SkeletonLoader';
+import { ErrorBoundary } from '@/components/ErrorBoundary';
+import { findSubstitutes, getSubstitutions, getTeachers, recordSubstitution, Teacher } from '@/lib/supabase/data';
+import { AffectedClass, Substitution } from '@/lib/scheduling/substitutes';
+import { getEntryDate } from '@/lib/scheduling/normalize';
+import { supabaseService } from '@/lib/supabase/service';
+
+// Number of ranked candidates shown per class
+const MAX_CANDIDATES = 5;
+
+export default function SubstitutesPage() {
+  const today = format(new Date(), 'yyyy-MM-dd');
+  const [teacherId, setTeacherId] = useState<number | null>(null);
+  const [from, setFrom] = useState<string>(today);
+  const [to, setTo] = useState<string>(today);
+  const [reason, setReason] = useState<string>('');
+  const [affectedClasses, setAffectedClasses] = useState<AffectedClass[] | null>(null);
+  const [substitutions, setSubstitutions] = useState<Substitution[]>([]);
+  const [teachers, setTeachers] = useState<Teacher[]>([]);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [savingKey, setSavingKey] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isOffline, setIsOffline] = useState<boolean>(supabaseService.isOffline());
+
+  // Listen for connection status changes to detect offline mode
+  useEffect(() => {
+    const observer = {
+      onConnectionStatusChanged: () => {
+        setIsOffline(supabaseService.isOffline());
+      }
+    };
+
+    supabaseService.addObserver(observer);
+    return () => {
+      supabaseService.removeObserver(observer);
+    };
+  }, []);
+
+  // Load the recorded substitutions and teacher names for the history list
+  const loadSubstitutions = async () => {
+    const [recorded, allTeachers] = await Promise.all([getSubstitutions(), getTeachers()]);
+    setSubstitutions(recorded);
+    setTeachers(allTeachers);
+  };
+
+  useEffect(() => {
+    loadSubstitutions().catch(err => console.error('Error loading substitutions:', err));
+  }, []);
+
+  const teacherName = (id: number) =>
+    teachers.find(teacher => Number(teacher.Teacher_ID) === id)?.Teacher_name || `Teacher ${id}`;
+
+  const handleFindSubstitutes = async () => {
+    if (teacherId === null) return;
+    if (to < from) {
+      setError('The end date must not be before the start date');
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    try {
+      const result = await findSubstitutes({ teacherId, from, to, reason: reason || undefined });
+      setAffectedClasses(result);
+    } catch (err) {
+      console.error('Error finding substitutes:', err);
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleAccept = async (affected: AffectedClass, substituteTeacherId: number) => {
+    const { assignment } = affected;
+    setSavingKey(assignment.entryKey);
+    setError(null);
+    try {
+      await recordSubstitution({
+        entryKey: assignment.entryKey,
+        tableName: assignment.tableName,
+        entryId: assignment.entry.id,
+        date: getEntryDate(assignment.entry),
+        originalTeacherId: assignment.teacherId,
+        substituteTeacherId,
+        reason: reason || undefined
+      });
+
+      // Re-plan so later classes see the substitute's new load
+      await Promise.all([handleFindSubstitutes(), loadSubstitutions()]);
+    } catch (err) {
+      console.error('Error recording substitution:', err);
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setSavingKey(null);
+    }
+  };
+
+  return (
+    <div className="flex flex-col h-full">
+      {isOffline && <FallbackIndicator />}
+
+      <div className="bg-white shadow-sm p-4 rounded-lg mb-4">
+        <h1 className="text-xl font-semibold text-gray-900 mb-4">Substitute Teachers</h1>
+        <div className="grid grid-cols-1 md:grid-cols-5 gap-4 items-end text-sm">
+          <div className="md:col-span-2">
+            <label className="block text-xs font-medium text-gray-600 mb-1">Absent teacher</label>
+            <ErrorBoundary>
+              <TeacherSelect selectedTeacherId={teacherId} onTeacherSelect={setTeacherId} />
+            </ErrorBoundary>
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-600 mb-1">From</label>
+            <input
+              type="date"
+              value={from}
+              onChange={(e) => setFrom(e.target.value)}
+              className="w-full px-2 py-1 border rounded text-xs h-7"
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-600 mb-1">To</label>
+            <input
+              type="date"
+              value={to}
+              onChange={(e) => setTo(e.target.value)}
+              className="w-full px-2 py-1 border rounded text-xs h-7"
+            />
+          </div>
+          <button
+            onClick={handleFindSubstitutes}
+            disabled={teacherId === null || loading}
+            className="px-3 py-2 bg-indigo-600 text-white rounded hover:bg-indigo-700 disabled:opacity-50"
+          >
+            {loading ? 'Searching...' : 'Find substitutes'}
+          </button>
+        </div>
+        <div className="mt-3 text-sm">
+          <input
+            type="text"
+            placeholder="Reason (optional, e.g. sick leave)"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            className="w-full md:w-1/2 px-2 py-1 border rounded text-xs h-7"
+          />
+        </div>
+      </div>
+
+      {error && <div className="p-4 text-red-500">Error: {error}</div>}
+
+      {loading && (
+        <div className="p-4">
+          <SkeletonLoader type="text" width="100%" height="20px" className="mb-2" />
+          <SkeletonLoader type="text" width="90%" height="20px" />
+        </div>
+      )}
+
+      {!loading && affectedClasses && affectedClasses.length === 0 && (
+        <div className="bg-white rounded-lg shadow-sm p-8 text-center text-sm text-gray-500 mb-4">
+          {teacherId !== null ? teacherName(teacherId) : 'This teacher'} has no classes in this period.
+        </div>
+      )}
+
+      {!loading && affectedClasses && affectedClasses.map(affected => {
+        const { assignment, candidates, requiredTeacherType } = affected;
+        const entry = assignment.entry;
+
+        return (
+          <div key={`${assignment.entryKey}-${assignment.daySlot}`} className="bg-white rounded-lg shadow-sm mb-4 overflow-hidden">
+            <div className="px-4 py-2 bg-gray-50 border-b flex flex-wrap justify-between gap-2 text-sm">
+              <div className="font-medium text-gray-800">
+                {format(parseISO(getEntryDate(entry)), 'EEE, MMM d')} · {entry.Start || 'TBD'} - {entry.End || 'TBD'} · {entry.Course} {entry.Level}
+                {entry['Class.ID'] && <span className="text-gray-500"> ({entry['Class.ID']})</span>}
+              </div>
+              <div className="text-xs text-gray-500">
+                {assignment.role === 'lead' ? 'Lead' : 'Assistant'}
+                {requiredTeacherType && <span className="ml-2 bg-indigo-100 text-indigo-800 rounded-full px-2 py-0.5">Requires {requiredTeacherType}</span>}
+              </div>
+            </div>
+            {candidates.length === 0 ? (
+              <p className="px-4 py-3 text-sm text-red-600">No available substitute for this class.</p>
+            ) : (
+              <ul className="divide-y divide-gray-100">
+                {candidates.slice(0, MAX_CANDIDATES).map((candidate, index) => (
+                  <li key={candidate.teacher.Teacher_ID} className="px-4 py-2 flex items-center justify-between text-sm">
+                    <div>
+                      <span className="text-gray-400 mr-2">{index + 1}.</span>
+                      <span className="text-gray-900">{candidate.teacher.Teacher_name}</span>
+                      <span className="ml-2 text-xs text-gray-400">({candidate.teacher.Teacher_Type || 'Unknown'})</span>
+                      <span className="ml-2 text-xs bg-gray-100 text-gray-600 rounded px-1.5 py-0.5" title="Classes this week">
+                        {candidate.load} {candidate.load === 1 ? 'class' : 'classes'}
+                      </span>
+                    </div>
+                    <button
+                      onClick={() => handleAccept(affected, Number(candidate.teacher.Teacher_ID))}
+                      disabled={savingKey !== null}
+                      className="px-2 py-1 text-xs bg-green-100 text-green-700 rounded hover:bg-green-200 disabled:opacity-50"
+                    >
+                      {savingKey === assignment.entryKey ? 'Saving...' : 'Accept'}
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        );
+      })}
+
+      <div className="bg-white rounded-lg shadow-sm overflow-hidden">
+        <div className="px-4 py-2 bg-gray-50 border-b text-sm font-medium text-gray-700">Recorded substitutions</div>
+        {substitutions.length === 0 ? (
+          <p className="px-4 py-3 text-sm text-gray-500">No substitutions recorded.</p>
+        ) : (
+          <ul className="divide-y divide-gray-100">
+            {substitutions.map(substitution => (
+              <li key={substitution.id} className="px-4 py-2 text-sm text-gray-700">
+                {substitution.date}: {teacherName(substitution.substituteTeacherId)} covers {teacherName(substitution.originalTeacherId)}
+                <span className="ml-2 text-xs text-gray-400">{substitution.entryKey}</span>
+                {substitution.id < 0 && <span className="ml-2 text-xs text-amber-600">(saved locally)</span>}
+                {substitution.reason && <span className="ml-2 text-xs text-gray-500">- {substitution.reason}</span>}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
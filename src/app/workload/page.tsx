@@ -0,0 +1,256 @@
+'use client';
+
+import React, { useState, useEffect, useMemo } from 'react';
+import { format, parseISO, startOfMonth, endOfMonth, addMonths, subMonths } from 'date-fns';
+import { getWorkloadReport } from '@/lib/supabase/data';
+import { getCourseFamilyKeys, getCourseFamilyLabel } from '@/lib/scheduling/courseCatalogue';
+import { TeacherWorkload, WorkloadPeriod, WorkloadReport, WorkloadStatus, formatHours } from '@/lib/scheduling/workload';
+import { supabaseService } from '@/lib/supabase/service';
+import FallbackIndicator from '@/components/FallbackIndicator';
+import SkeletonLoader from '@/components/SkeletonLoader';
+
+const STATUS_LABELS: Record<WorkloadStatus, string> = {
+  'over-maximum': 'Over maximum',
+  'under-target': 'Under target',
+  'on-target': 'On target',
+  'no-target': 'No target'
+};
+
+const STATUS_STYLES: Record<WorkloadStatus, string> = {
+  'over-maximum': 'bg-red-100 text-red-700',
+  'under-target': 'bg-amber-100 text-amber-700',
+  'on-target': 'bg-green-100 text-green-700',
+  'no-target': 'bg-gray-100 text-gray-600'
+};
+
+function getRowKey(row: TeacherWorkload): string {
+  return `${row.teacherId}|${row.periodStart}`;
+}
+
+export default function WorkloadPage() {
+  const [month, setMonth] = useState<Date>(startOfMonth(new Date()));
+  const [period, setPeriod] = useState<WorkloadPeriod>('week');
+  const [report, setReport] = useState<WorkloadReport | null>(null);
+  const [expandedRow, setExpandedRow] = useState<string | null>(null);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isOffline, setIsOffline] = useState<boolean>(supabaseService.isOffline());
+
+  const range = useMemo(() => ({
+    from: format(month, 'yyyy-MM-dd'),
+    to: format(endOfMonth(month), 'yyyy-MM-dd')
+  }), [month]);
+
+  // Listen for connection status changes to detect offline mode
+  useEffect(() => {
+    const observer = {
+      onConnectionStatusChanged: () => {
+        setIsOffline(supabaseService.isOffline());
+      }
+    };
+
+    supabaseService.addObserver(observer);
+    return () => {
+      supabaseService.removeObserver(observer);
+    };
+  }, []);
+
+  useEffect(() => {
+    async function loadReport() {
+      setLoading(true);
+      setError(null);
+      try {
+        setReport(await getWorkloadReport(range, period));
+      } catch (err) {
+        console.error('Error loading workload report:', err);
+        setError(err instanceof Error ? err.message : String(err));
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    loadReport();
+  }, [range, period]);
+
+  // Group rows by period for display
+  const rowsByPeriod = useMemo(() => {
+    const groups = new Map<string, TeacherWorkload[]>();
+    report?.rows.forEach(row => {
+      groups.set(row.periodStart, [...(groups.get(row.periodStart) || []), row]);
+    });
+    return Array.from(groups.entries());
+  }, [report]);
+
+  // Hours per course family, in the catalogue order the report was built with
+  const familyKeys = report ? getCourseFamilyKeys(report.families) : [];
+
+  const csvUrl = (detail?: 'classes') =>
+    `/api/workload?from=${range.from}&to=${range.to}&period=${period}&format=csv${detail ? `&detail=${detail}` : ''}`;
+
+  return (
+    <div className="flex flex-col h-full">
+      {isOffline && <FallbackIndicator />}
+
+      <div className="bg-white shadow-sm p-4 rounded-lg mb-4">
+        <div className="flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <h1 className="text-xl font-semibold text-gray-900">Teacher Workload</h1>
+            <p className="text-sm text-gray-500">
+              Contact hours for {format(month, 'MMMM yyyy')}
+            </p>
+          </div>
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <button
+              onClick={() => setMonth(subMonths(month, 1))}
+              className="px-3 py-2 bg-gray-200 text-gray-700 rounded hover:bg-gray-300 disabled:opacity-50"
+              disabled={loading}
+            >
+              &lt; Prev Month
+            </button>
+            <button
+              onClick={() => setMonth(addMonths(month, 1))}
+              className="px-3 py-2 bg-gray-200 text-gray-700 rounded hover:bg-gray-300 disabled:opacity-50"
+              disabled={loading}
+            >
+              Next Month &gt;
+            </button>
+            <select
+              value={period}
+              onChange={(e) => setPeriod(e.target.value as WorkloadPeriod)}
+              className="px-2 py-2 border border-gray-300 rounded"
+            >
+              <option value="week">Per week</option>
+              <option value="month">Per month</option>
+            </select>
+            <a
+              href={csvUrl()}
+              className="px-3 py-2 bg-indigo-600 text-white rounded hover:bg-indigo-700"
+            >
+              Export CSV
+            </a>
+            <a
+              href={csvUrl('classes')}
+              className="px-3 py-2 bg-white border border-indigo-600 text-indigo-600 rounded hover:bg-indigo-50"
+            >
+              Export classes
+            </a>
+            <a
+              href={`/api/timesheets?from=${range.from}&to=${range.to}&format=xlsx`}
+              className="px-3 py-2 bg-white border border-indigo-600 text-indigo-600 rounded hover:bg-indigo-50"
+            >
+              Timesheets (XLSX)
+            </a>
+          </div>
+        </div>
+      </div>
+
+      {loading && (
+        <div className="p-4">
+          <SkeletonLoader type="text" width="100%" height="20px" className="mb-2" />
+          <SkeletonLoader type="text" width="90%" height="20px" className="mb-2" />
+          <SkeletonLoader type="text" width="95%" height="20px" />
+        </div>
+      )}
+
+      {error && <div className="p-4 text-red-500">Error: {error}</div>}
+
+      {!loading && !error && rowsByPeriod.length === 0 && (
+        <div className="bg-white rounded-lg shadow-sm p-8 text-center text-sm text-gray-500">
+          No classes found for this month.
+        </div>
+      )}
+
+      {!loading && !error && rowsByPeriod.map(([periodStart, rows]) => (
+        <div key={periodStart} className="bg-white rounded-lg shadow-sm mb-4 overflow-x-auto">
+          <div className="px-4 py-2 bg-gray-50 border-b text-sm font-medium text-gray-700">
+            {period === 'week'
+              ? `Week of ${format(parseISO(periodStart), 'MMM d, yyyy')}`
+              : format(parseISO(periodStart), 'MMMM yyyy')}
+          </div>
+          <table className="min-w-full text-sm">
+            <thead className="text-xs text-gray-500 uppercase">
+              <tr>
+                <th className="px-4 py-2 text-left">Teacher</th>
+                <th className="px-2 py-2 text-right">Classes</th>
+                <th className="px-2 py-2 text-right">Hours</th>
+                {familyKeys.map(family => (
+                  <th key={family} className="px-2 py-2 text-right">{getCourseFamilyLabel(family, report?.families)}</th>
+                ))}
+                <th className="px-2 py-2 text-right">NT-Led</th>
+                <th className="px-2 py-2 text-right">Target / Max</th>
+                <th className="px-4 py-2 text-left">Status</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {rows.map(row => {
+                const rowKey = getRowKey(row);
+                const expanded = expandedRow === rowKey;
+                return (
+                  <React.Fragment key={rowKey}>
+                    <tr
+                      className="hover:bg-gray-50 cursor-pointer"
+                      onClick={() => setExpandedRow(expanded ? null : rowKey)}
+                    >
+                      <td className="px-4 py-2 text-gray-900">
+                        <span className="mr-1 text-gray-400">{expanded ? '▾' : '▸'}</span>
+                        {row.teacherName}
+                        {row.teacherType && <span className="ml-1 text-xs text-gray-500">({row.teacherType})</span>}
+                      </td>
+                      <td className="px-2 py-2 text-right">{row.classCount}</td>
+                      <td className="px-2 py-2 text-right font-medium">{formatHours(row.contactMinutes)}</td>
+                      {familyKeys.map(family => (
+                        <td key={family} className="px-2 py-2 text-right text-gray-600">
+                          {row.minutesByFamily[family] > 0 ? formatHours(row.minutesByFamily[family]) : '-'}
+                        </td>
+                      ))}
+                      <td className="px-2 py-2 text-right text-gray-600">
+                        {row.ntLedMinutes > 0 ? formatHours(row.ntLedMinutes) : '-'}
+                      </td>
+                      <td className="px-2 py-2 text-right text-gray-600">
+                        {row.targetMinutes !== undefined ? formatHours(row.targetMinutes) : '-'}
+                        {' / '}
+                        {row.maxMinutes !== undefined ? formatHours(row.maxMinutes) : '-'}
+                      </td>
+                      <td className="px-4 py-2">
+                        <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[row.status]}`}>
+                          {STATUS_LABELS[row.status]}
+                        </span>
+                        {row.untimedClasses > 0 && (
+                          <span className="ml-2 text-xs text-amber-600">
+                            {row.untimedClasses} without times
+                          </span>
+                        )}
+                      </td>
+                    </tr>
+                    {expanded && (
+                      <tr>
+                        <td colSpan={familyKeys.length + 6} className="px-8 py-2 bg-gray-50">
+                          {row.classes.length === 0 ? (
+                            <p className="text-xs text-gray-500">No classes in this period.</p>
+                          ) : (
+                            <ul className="text-xs text-gray-700 space-y-1">
+                              {row.classes.map(item => (
+                                <li key={item.assignment.entryKey}>
+                                  {format(parseISO(item.date), 'EEE MMM d')} {item.assignment.entry.Start || '?'}-{item.assignment.entry.End || '?'}
+                                  {' · '}{item.assignment.entry.Course} {item.assignment.entry.Level}
+                                  {item.assignment.entry['Class.ID'] && ` (${item.assignment.entry['Class.ID']})`}
+                                  {' · '}{formatHours(item.minutes)}h
+                                  {item.ntLed && ' · NT-Led'}
+                                  {item.assignment.role === 'assistant' && ' · assistant'}
+                                </li>
+                              ))}
+                            </ul>
+                          )}
+                        </td>
+                      </tr>
+                    )}
+                  </React.Fragment>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      ))}
+    </div>
+  );
+}
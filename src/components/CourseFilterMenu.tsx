@@ -0,0 +1,94 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { CourseFilter } from '@/lib/scheduling/calendarViews';
+import { CourseFamilyDefinition, getActiveCourseFamilies, getCourseFamilyLabel } from '@/lib/scheduling/courseCatalogue';
+import { COURSE_PALETTE } from '@/lib/scheduling/courseColors';
+
+interface CourseFilterMenuProps {
+  value: CourseFilter;
+  onChange: (filter: CourseFilter) => void;
+  /** Families offered; the active course catalogue by default */
+  families?: CourseFamilyDefinition[];
+}
+
+/**
+ * Dropdown for the course filter shared by the schedule views
+ */
+export default function CourseFilterMenu({ value, onChange, families = getActiveCourseFamilies() }: CourseFilterMenuProps) {
+  const [showOptions, setShowOptions] = useState<boolean>(false);
+  const dropdownRef = useRef<HTMLDivElement>(null);
+  
+  // Handle clicks outside the filter dropdown
+  useEffect(() => {
+    function handleClickOutside(event: MouseEvent) {
+      if (dropdownRef.current && !dropdownRef.current.contains(event.target as Node)) {
+        setShowOptions(false);
+      }
+    }
+    
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+    };
+  }, []);
+  
+  return (
+    <div className="relative inline-block text-left" ref={dropdownRef}>
+      <button 
+        onClick={() => setShowOptions(!showOptions)}
+        className="inline-flex items-center px-2 py-1 text-xs border border-gray-300 rounded shadow-sm hover:bg-gray-50 focus:outline-none focus:ring-1 focus:ring-indigo-500"
+      >
+        <svg xmlns="http://www.w3.org/2000/svg" className="h-3 w-3 mr-1" viewBox="0 0 20 20" fill="currentColor">
+          <path fillRule="evenodd" d="M3 3a1 1 0 011-1h12a1 1 0 011 1v3a1 1 0 01-.293.707L12 11.414V15a1 1 0 01-.293.707l-2 2A1 1 0 018 17v-5.586L3.293 6.707A1 1 0 013 6V3z" clipRule="evenodd" />
+        </svg>
+        {value === 'all' ? 'Filter' : `Filtered: ${value === 'ntled' ? 'NT-Led' : getCourseFamilyLabel(value, families)}`}
+      </button>
+      
+      {showOptions && (
+        <div className="absolute right-0 mt-1 w-48 bg-white shadow-lg rounded-md overflow-hidden z-10 border border-gray-200">
+          <div className="py-1">
+            <button 
+              onClick={() => {
+                onChange('all');
+                setShowOptions(false);
+              }}
+              className={`w-full px-4 py-2 text-left text-xs ${value === 'all' ? 'bg-indigo-50 text-indigo-700' : 'hover:bg-gray-50'}`}
+            >
+              All Courses
+            </button>
+            
+            <div className="px-3 py-1 text-xs font-medium text-gray-500 bg-gray-50">Course Type</div>
+            
+            {families.map(family => (
+              <button 
+                key={family.key}
+                onClick={() => {
+                  onChange(family.key);
+                  setShowOptions(false);
+                }}
+                className={`w-full px-4 py-2 text-left text-xs flex items-center ${value === family.key ? 'bg-indigo-50 text-indigo-700' : 'hover:bg-gray-50'}`}
+              >
+                <span className={`w-2 h-2 mr-2 inline-block border-l-4 rounded-sm ${COURSE_PALETTE[family.color].ntLed.className}`}></span>
+                {family.label}
+              </button>
+            ))}
+            
+            <div className="px-3 py-1 text-xs font-medium text-gray-500 bg-gray-50">Teacher Type</div>
+            
+            <button 
+              onClick={() => {
+                onChange('ntled');
+                setShowOptions(false);
+              }}
+              className={`w-full px-4 py-2 text-left text-xs flex items-center ${value === 'ntled' ? 'bg-indigo-50 text-indigo-700' : 'hover:bg-gray-50'}`}
+            >
+              <span className="w-2 h-2 mr-2 inline-block bg-indigo-100 border border-indigo-500 rounded-sm"></span>
+              NT-Led Only
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -2,15 +2,22 @@
 
 import { useState, useRef, useEffect } from 'react';
 import { format, addDays, subDays, parseISO, isToday, isSameDay, startOfWeek, addWeeks, subWeeks } from 'date-fns';
+import { DateStep, shiftDate } from '@/lib/scheduling/calendarViews';
 
 interface DateSelectProps {
   selectedDate: string; // Format: 'yyyy-MM-dd'
   onDateSelect: (date: string) => void;
   onPreviousDay?: () => void; // Optional prop for previous day navigation
   onNextDay?: () => void; // Optional prop for next day navigation
+  /** How far the left/right arrow keys move the date; matches the view being shown */
+  step?: DateStep;
 }
 
-export default function DateSelect({ selectedDate, onDateSelect, onPreviousDay, onNextDay }: DateSelectProps) {
+/**
+ * Date picker with keyboard navigation for the whole page: the left/right arrow keys move
+ * to the previous/next day, week or month and T goes to today, unless the user is typing.
+ */
+export default function DateSelect({ selectedDate, onDateSelect, onPreviousDay, onNextDay, step = 'day' }: DateSelectProps) {
   const [showCalendar, setShowCalendar] = useState(false);
   const calendarRef = useRef<HTMLDivElement>(null);
   const buttonRef = useRef<HTMLButtonElement>(null);
@@ -63,6 +70,28 @@ export default function DateSelect({ selectedDate, onDateSelect, onPreviousDay,
     };
   }, []);
   
+  // Keyboard navigation, shared by every view that shows this picker
+  useEffect(() => {
+    function handleKeyDown(event: KeyboardEvent) {
+      if (event.ctrlKey || event.metaKey || event.altKey || event.defaultPrevented) return;
+      if ((event.target as HTMLElement)?.closest?.('input, textarea, select, [contenteditable="true"]')) return;
+      
+      if (event.key === 'ArrowLeft' || event.key === 'ArrowRight') {
+        event.preventDefault();
+        onDateSelect(shiftDate(selectedDate, step, event.key === 'ArrowLeft' ? -1 : 1));
+      } else if (event.key === 't' || event.key === 'T') {
+        onDateSelect(format(new Date(), 'yyyy-MM-dd'));
+      } else if (event.key === 'Escape') {
+        setShowCalendar(false);
+      }
+    }
+    
+    window.addEventListener('keydown', handleKeyDown);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [selectedDate, step, onDateSelect]);
+  
   // Navigate to previous weeks
   const showPreviousWeeks = () => {
     setVisibleWeekStart(subWeeks(visibleWeekStart, 2));
@@ -0,0 +1,127 @@
+'use client';
+
+import { useMemo } from 'react';
+import { format, parseISO } from 'date-fns';
+import { CalendarEntry } from '@/lib/supabase/data';
+import { CourseFilter, matchesCourseFilter } from '@/lib/scheduling/calendarViews';
+import { ScheduleConflict, getConflictsForEntry } from '@/lib/scheduling/conflicts';
+import { TeacherAvailability, getDayAvailability } from '@/lib/scheduling/availability';
+import { getCourseColor } from '@/lib/scheduling/courseColors';
+import { compareByStartTime, getEntryDate, getEntryStatus, isHeldEntry, isNTLedEntry, normalizeEntry } from '@/lib/scheduling/normalize';
+import { ENTRY_STATUS_BADGE_STYLES, ENTRY_STATUS_LABELS } from '@/lib/scheduling/reschedule';
+import { formatMinutes } from '@/lib/scheduling/time';
+
+interface DayViewProps {
+  entries: CalendarEntry[];
+  date: string;
+  courseFilter: CourseFilter;
+  conflicts?: ScheduleConflict[];
+  availability?: TeacherAvailability;
+}
+
+// Hours always shown, widened to fit classes outside them
+const FIRST_HOUR = 8;
+const LAST_HOUR = 20;
+
+/**
+ * One day's classes in an hourly grid; each class is listed in the hour it starts
+ */
+export default function DayView({ entries, date, courseFilter, conflicts = [], availability }: DayViewProps) {
+  const dayEntries = useMemo(
+    () => entries
+      .filter(entry => getEntryDate(entry) === date && matchesCourseFilter(entry, courseFilter))
+      .sort(compareByStartTime),
+    [entries, date, courseFilter]
+  );
+
+  const { hours, untimed, byHour } = useMemo(() => {
+    const byHour = new Map<number, CalendarEntry[]>();
+    const untimed: CalendarEntry[] = [];
+    let first = FIRST_HOUR;
+    let last = LAST_HOUR;
+
+    dayEntries.forEach(entry => {
+      const { startMinutes, endMinutes } = normalizeEntry(entry);
+      if (startMinutes === null) {
+        untimed.push(entry);
+        return;
+      }
+      const hour = Math.floor(startMinutes / 60);
+      byHour.set(hour, [...(byHour.get(hour) || []), entry]);
+      first = Math.min(first, hour);
+      last = Math.max(last, Math.ceil((endMinutes ?? startMinutes) / 60) - 1);
+    });
+
+    return { hours: Array.from({ length: last - first + 1 }, (_, i) => first + i), untimed, byHour };
+  }, [dayEntries]);
+
+  const dayAvailability = getDayAvailability(availability, date);
+  const dayConflictCount = conflicts.filter(conflict => conflict.date === date).length;
+
+  const renderEntry = (entry: CalendarEntry) => {
+    const entryConflicts = getConflictsForEntry(conflicts, entry);
+    const status = getEntryStatus(entry);
+    const teachers = [entry.Day1, entry.Day2].filter(Boolean).join(' / ');
+
+    return (
+      <div
+        key={`${entry.id}-${entry.Course}-${entry['Class.ID']}-${entry.Start}`}
+        title={entryConflicts.map(conflict => conflict.message).join('\n') || undefined}
+        className={`relative w-48 p-1.5 text-xs border-l-4 rounded ${getCourseColor(entry).className} ${
+          isHeldEntry(entry) ? '' : 'line-through opacity-60'
+        }`}
+      >
+        {entryConflicts.length > 0 && (
+          <span className="absolute top-0.5 right-0.5 bg-red-600 text-white rounded-full px-1.5 text-[10px] font-bold">
+            {entryConflicts.length}
+          </span>
+        )}
+        <div className="font-semibold">{entry.Start || 'TBD'} - {entry.End || 'TBD'}</div>
+        <div className="truncate">{entry.Course} {entry.Level} {entry['Class.ID'] ? `(${entry['Class.ID']})` : ''}</div>
+        <div className="truncate opacity-75">{teachers || 'No teacher'}</div>
+        {isNTLedEntry(entry) && <div className="text-[10px] font-medium uppercase">NT-Led</div>}
+        {status !== 'scheduled' && (
+          <span className={`inline-block mt-0.5 px-1 rounded text-[10px] font-medium uppercase ${ENTRY_STATUS_BADGE_STYLES[status]}`}>
+            {ENTRY_STATUS_LABELS[status]}
+          </span>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="bg-white shadow overflow-hidden sm:rounded-lg border border-gray-200">
+      <div className="px-4 py-3 border-b border-gray-200 bg-gray-50 flex flex-wrap items-center gap-2">
+        <h3 className="text-lg leading-6 font-medium text-gray-900">{format(parseISO(date), 'EEEE, MMM d, yyyy')}</h3>
+        <span className="text-xs bg-gray-100 rounded-full px-2 py-0.5">
+          {dayEntries.length} {dayEntries.length === 1 ? 'class' : 'classes'}
+        </span>
+        {dayConflictCount > 0 && (
+          <span className="text-xs bg-red-100 text-red-700 rounded-full px-2 py-0.5">
+            {dayConflictCount} {dayConflictCount === 1 ? 'conflict' : 'conflicts'}
+          </span>
+        )}
+        {dayAvailability.unavailableAllDay ? (
+          <span className="text-xs text-gray-500 italic">{dayAvailability.detail}</span>
+        ) : dayAvailability.windows.length > 0 && (
+          <span className="text-xs text-gray-500">
+            Available {dayAvailability.windows.map(window => `${window.start}-${window.end}`).join(', ')}
+          </span>
+        )}
+      </div>
+
+      {untimed.length > 0 && (
+        <div className="flex border-b border-gray-200">
+          <div className="w-16 shrink-0 px-2 py-2 text-xs text-gray-500">No time</div>
+          <div className="flex flex-wrap gap-1 p-1">{untimed.map(renderEntry)}</div>
+        </div>
+      )}
+      {hours.map(hour => (
+        <div key={hour} className="flex border-b border-gray-100 min-h-[3rem]">
+          <div className="w-16 shrink-0 px-2 py-1 text-xs text-gray-500 border-r border-gray-100">{formatMinutes(hour * 60)}</div>
+          <div className="flex flex-wrap gap-1 p-1">{(byHour.get(hour) || []).map(renderEntry)}</div>
+        </div>
+      ))}
+    </div>
+  );
+}
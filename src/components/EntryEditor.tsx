@@ -0,0 +1,238 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { CalendarEntry, Teacher, getCalendarTables } from '@/lib/supabase/data';
+import { ClassAssignment, getTeacherLabel } from '@/lib/scheduling/assignments';
+import { TeacherAvailability } from '@/lib/scheduling/availability';
+import {
+  EntryFormErrors,
+  EntryFormField,
+  EntryFormValues,
+  getEntryFormChanges,
+  getEntryFormValues,
+  validateEntryForm
+} from '@/lib/scheduling/entryForm';
+import { checkEntryChange } from '@/lib/scheduling/moves';
+import { matchCourseFamily } from '@/lib/scheduling/courseCatalogue';
+import { ENTRY_STATUSES, EntryStatus } from '@/lib/scheduling/normalize';
+import { ENTRY_STATUS_LABELS } from '@/lib/scheduling/reschedule';
+
+interface EntryEditorProps {
+  /** The entry to edit; a new class is created when omitted */
+  entry?: CalendarEntry;
+  /** The entry's table, or the table a new class is proposed in */
+  tableName?: string;
+  /** Starting values of a new class, e.g. the day it was added on */
+  defaults?: Partial<CalendarEntry>;
+  teachers: Teacher[];
+  /** The week's assignments and every teacher's availability, to check the class against */
+  assignments: ClassAssignment[];
+  teacherAvailability?: TeacherAvailability[];
+  /** Save the columns to write; called once the form is valid, after which the editor closes */
+  onSubmit: (tableName: string, changes: Partial<Omit<CalendarEntry, 'id'>>, original?: CalendarEntry) => void;
+  onClose: () => void;
+}
+
+const inputClass = 'mt-1 w-full px-2 py-1 border border-gray-300 rounded';
+
+/**
+ * Create a calendar entry or edit every column of an existing one
+ */
+export default function EntryEditor({
+  entry,
+  tableName,
+  defaults,
+  teachers,
+  assignments,
+  teacherAvailability,
+  onSubmit,
+  onClose
+}: EntryEditorProps) {
+  const [values, setValues] = useState<EntryFormValues>(() => getEntryFormValues(tableName || '', entry || defaults));
+  const [errors, setErrors] = useState<EntryFormErrors>({});
+  const [tables, setTables] = useState<string[]>(tableName ? [tableName] : []);
+
+  // New classes can go to any calendar table; an entry stays in its own
+  useEffect(() => {
+    if (entry) return;
+    getCalendarTables()
+      .then(calendarTables => {
+        setTables(calendarTables);
+        setValues(current => (current.tableName ? current : { ...current, tableName: calendarTables[0] || '' }));
+      })
+      .catch(err => console.error('Error loading calendar tables:', err));
+  }, [entry]);
+
+  const teacherOptions = useMemo(
+    () => [...teachers]
+      .sort((a, b) => (a.Teacher_name || '').localeCompare(b.Teacher_name || ''))
+      .map(teacher => ({ value: getTeacherLabel(teacher, teachers), teacher })),
+    [teachers]
+  );
+
+  // Scheduling problems the class would cause, checked as the form changes
+  const check = useMemo(() => {
+    const { entry: formEntry } = validateEntryForm(values, teachers);
+    if (!formEntry) return null;
+    const context = { teachers, assignments, availability: teacherAvailability };
+    return entry
+      ? checkEntryChange(values.tableName, entry, getEntryFormChanges(formEntry, entry), context)
+      : checkEntryChange(values.tableName, { ...formEntry, id: 0 }, {}, context);
+  }, [values, entry, teachers, assignments, teacherAvailability]);
+
+  const setValue = <K extends EntryFormField>(field: K, value: EntryFormValues[K]) => {
+    setValues(current => ({ ...current, [field]: value }));
+    setErrors(current => ({ ...current, [field]: undefined }));
+  };
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    const result = validateEntryForm(values, teachers);
+    setErrors(result.errors);
+    if (!result.entry || (check && !check.allowed)) return;
+
+    const changes = getEntryFormChanges(result.entry, entry);
+    if (Object.keys(changes).length > 0) {
+      onSubmit(values.tableName, changes, entry);
+    }
+    onClose();
+  };
+
+  const fieldError = (field: EntryFormField) =>
+    errors[field] && <span className="block text-xs text-red-600">{errors[field]}</span>;
+
+  // The levels of the course's family in the course catalogue are offered for the Level field
+  const levelOptions = matchCourseFamily(values.Course, values.Level)?.levels || [];
+
+  const textInput = (field: 'Course' | 'Level' | 'Unit' | 'Class.ID' | 'Meeting' | 'Status_Reason', label: string) => (
+    <label className="block text-gray-700">
+      {label}
+      <input
+        type="text"
+        value={values[field]}
+        onChange={(e) => setValue(field, e.target.value)}
+        list={field === 'Level' && levelOptions.length > 0 ? 'entry-level-options' : undefined}
+        className={inputClass}
+      />
+      {field === 'Level' && (
+        <datalist id="entry-level-options">
+          {levelOptions.map(level => <option key={level} value={level} />)}
+        </datalist>
+      )}
+      {fieldError(field)}
+    </label>
+  );
+
+  const teacherInput = (field: 'Day1' | 'Day2', label: string) => (
+    <label className="block text-gray-700">
+      {label}
+      <select value={values[field]} onChange={(e) => setValue(field, e.target.value)} className={inputClass}>
+        <option value="">No teacher</option>
+        {values[field] && !teacherOptions.some(option => option.value === values[field]) && (
+          <option value={values[field]}>{values[field]} (not a known teacher)</option>
+        )}
+        {teacherOptions.map(option => (
+          <option key={option.teacher.Teacher_ID} value={option.value}>
+            {option.teacher.Teacher_name} {option.teacher.Teacher_Type ? `(${option.teacher.Teacher_Type})` : ''}
+          </option>
+        ))}
+      </select>
+      {fieldError(field)}
+    </label>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-20">
+      <form onSubmit={handleSubmit} className="bg-white p-6 rounded-lg shadow-lg w-full max-w-2xl max-h-[90vh] overflow-y-auto text-sm">
+        <h2 className="text-xl font-bold mb-4">{entry ? 'Edit class' : 'Add class'}</h2>
+
+        <div className="grid grid-cols-2 gap-3">
+          <label className="block text-gray-700 col-span-2">
+            Calendar table
+            <select
+              value={values.tableName}
+              onChange={(e) => setValue('tableName', e.target.value)}
+              disabled={!!entry}
+              className={`${inputClass} disabled:bg-gray-100`}
+            >
+              {!values.tableName && <option value="">Choose a table</option>}
+              {tables.map(table => <option key={table} value={table}>{table}</option>)}
+            </select>
+            {fieldError('tableName')}
+          </label>
+
+          {textInput('Course', 'Course')}
+          {textInput('Level', 'Level')}
+
+          <label className="block text-gray-700">
+            Date
+            <input type="date" value={values.Date} onChange={(e) => setValue('Date', e.target.value)} className={inputClass} />
+            {fieldError('Date')}
+          </label>
+          <label className="block text-gray-700">
+            Visit
+            <input type="number" min={1} step={1} value={values.Visit} onChange={(e) => setValue('Visit', e.target.value)} className={inputClass} />
+            {fieldError('Visit')}
+          </label>
+
+          <label className="block text-gray-700">
+            Start
+            <input type="time" step={300} value={values.Start} onChange={(e) => setValue('Start', e.target.value)} className={inputClass} />
+            {fieldError('Start')}
+          </label>
+          <label className="block text-gray-700">
+            End
+            <input type="time" step={300} value={values.End} onChange={(e) => setValue('End', e.target.value)} className={inputClass} />
+            {fieldError('End')}
+          </label>
+
+          {teacherInput('Day1', 'Teacher (Day1)')}
+          {teacherInput('Day2', 'Teacher (Day2)')}
+
+          <label className="flex items-center gap-2 text-gray-700 col-span-2">
+            <input type="checkbox" checked={values['NT-Led']} onChange={(e) => setValue('NT-Led', e.target.checked)} />
+            NT-Led (led by a Native teacher)
+            {fieldError('NT-Led')}
+          </label>
+
+          {textInput('Unit', 'Unit')}
+          {textInput('Class.ID', 'Class ID')}
+          {textInput('Meeting', 'Meeting')}
+
+          <label className="block text-gray-700">
+            Status
+            <select value={values.Status} onChange={(e) => setValue('Status', e.target.value as EntryStatus)} className={inputClass}>
+              {ENTRY_STATUSES.map(status => <option key={status} value={status}>{ENTRY_STATUS_LABELS[status]}</option>)}
+            </select>
+          </label>
+          {textInput('Status_Reason', 'Status reason')}
+          <label className="block text-gray-700">
+            Make-up of entry ID
+            <input type="number" min={1} step={1} value={values.Makeup_Of} onChange={(e) => setValue('Makeup_Of', e.target.value)} className={inputClass} />
+            {fieldError('Makeup_Of')}
+          </label>
+        </div>
+
+        {check && (check.errors.length > 0 || check.warnings.length > 0) && (
+          <div className="mt-4 space-y-1">
+            {check.errors.map(message => <p key={message} className="text-red-700">{message}</p>)}
+            {check.warnings.map(message => <p key={message} className="text-amber-700">{message}</p>)}
+          </div>
+        )}
+
+        <div className="mt-6 flex justify-end gap-2">
+          <button type="button" onClick={onClose} className="px-4 py-2 bg-gray-200 text-gray-700 rounded hover:bg-gray-300">
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={!!check && !check.allowed}
+            className="px-4 py-2 bg-indigo-600 text-white rounded hover:bg-indigo-700 disabled:opacity-50"
+          >
+            {entry ? 'Save' : 'Add class'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
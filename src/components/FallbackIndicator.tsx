@@ -1,7 +1,9 @@
 'use client';
 
 import { useState, useEffect } from 'react';
+import { format, parseISO } from 'date-fns';
 import { supabaseService } from '@/lib/supabase/service';
+import { addSnapshotListener, getServedDataAsOf, removeSnapshotListener } from '@/lib/supabase/offlineStore';
 
 interface FallbackIndicatorProps {
   position?: 'top' | 'inline';
@@ -20,6 +22,8 @@ export default function FallbackIndicator({
 }: FallbackIndicatorProps) {
   const [isOffline, setIsOffline] = useState<boolean>(supabaseService.isOffline());
   const [expanded, setExpanded] = useState<boolean>(false);
+  // Fetch time of the saved data being shown; null when synthetic fallback data is shown
+  const [dataAsOf, setDataAsOf] = useState<string | null>(getServedDataAsOf());
 
   // Listen for connection status changes
   useEffect(() => {
@@ -35,6 +39,16 @@ export default function FallbackIndicator({
     };
   }, []);
 
+  // Listen for saved snapshots being served in place of live data
+  useEffect(() => {
+    const listener = () => setDataAsOf(getServedDataAsOf());
+
+    addSnapshotListener(listener);
+    return () => {
+      removeSnapshotListener(listener);
+    };
+  }, []);
+
   // Don't render anything if we're online
   if (!isOffline) {
     return null;
@@ -52,7 +66,9 @@ export default function FallbackIndicator({
           <path fillRule="evenodd" d="M8.257 3.099c.765-1.36 2.722-1.36 3.486 0l5.58 9.92c.75 1.334-.213 2.98-1.742 2.98H4.42c-1.53 0-2.493-1.646-1.743-2.98l5.58-9.92zM11 13a1 1 0 11-2 0 1 1 0 012 0zm-1-8a1 1 0 00-1 1v3a1 1 0 002 0V6a1 1 0 00-1-1z" clipRule="evenodd" />
         </svg>
         <div className="font-medium text-xs">
-          Using Fallback Data
+          {dataAsOf 
+            ? `Offline: data as of ${format(parseISO(dataAsOf), 'MMM d, HH:mm')}` 
+            : 'Using Fallback Data'}
         </div>
         {showDetails && (
           <button 
@@ -69,7 +85,11 @@ export default function FallbackIndicator({
       
       {showDetails && expanded && (
         <div className="mt-1.5 text-xs text-amber-700 max-w-md pl-5">
-          <p>The application is currently using local fallback data because it cannot connect to the Supabase database.</p>
+          <p>
+            {dataAsOf 
+              ? 'The application cannot connect to the Supabase database and is showing the data last loaded on this device. Changes made since then are not shown.' 
+              : 'The application is currently using local fallback data because it cannot connect to the Supabase database.'}
+          </p>
           <div className="mt-1 flex space-x-2">
             <button 
               onClick={() => supabaseService.reconnect()}
@@ -33,6 +33,42 @@ export default function Layout({ children }: LayoutProps) {
                 >
                   Schedule
                 </Link>
+                <Link 
+                  href="/conflicts" 
+                  className="border-transparent text-gray-500 hover:border-gray-300 hover:text-gray-700 inline-flex items-center px-1 pt-1 border-b-2 text-sm font-medium"
+                >
+                  Conflicts
+                </Link>
+                <Link 
+                  href="/substitutes" 
+                  className="border-transparent text-gray-500 hover:border-gray-300 hover:text-gray-700 inline-flex items-center px-1 pt-1 border-b-2 text-sm font-medium"
+                >
+                  Substitutes
+                </Link>
+                <Link 
+                  href="/workload" 
+                  className="border-transparent text-gray-500 hover:border-gray-300 hover:text-gray-700 inline-flex items-center px-1 pt-1 border-b-2 text-sm font-medium"
+                >
+                  Workload
+                </Link>
+                <Link 
+                  href="/generator" 
+                  className="border-transparent text-gray-500 hover:border-gray-300 hover:text-gray-700 inline-flex items-center px-1 pt-1 border-b-2 text-sm font-medium"
+                >
+                  Generator
+                </Link>
+                <Link 
+                  href="/import" 
+                  className="border-transparent text-gray-500 hover:border-gray-300 hover:text-gray-700 inline-flex items-center px-1 pt-1 border-b-2 text-sm font-medium"
+                >
+                  Import
+                </Link>
+                <Link 
+                  href="/courses" 
+                  className="border-transparent text-gray-500 hover:border-gray-300 hover:text-gray-700 inline-flex items-center px-1 pt-1 border-b-2 text-sm font-medium"
+                >
+                  Courses
+                </Link>
                 <Link 
                   href="/dashboard" 
                   className="border-transparent text-gray-500 hover:border-gray-300 hover:text-gray-700 inline-flex items-center px-1 pt-1 border-b-2 text-sm font-medium"
@@ -0,0 +1,96 @@
+'use client';
+
+import { useMemo } from 'react';
+import { addDays, differenceInCalendarDays, format, parseISO } from 'date-fns';
+import { CalendarEntry } from '@/lib/supabase/data';
+import { CourseFilter, getViewRange, matchesCourseFilter } from '@/lib/scheduling/calendarViews';
+import { ScheduleConflict } from '@/lib/scheduling/conflicts';
+import { getEntryDate, isHeldEntry, isNTLedEntry } from '@/lib/scheduling/normalize';
+
+interface MonthViewProps {
+  entries: CalendarEntry[];
+  date: string;
+  courseFilter: CourseFilter;
+  conflicts?: ScheduleConflict[];
+  /** Called with a day of the grid, e.g. to open it in the day view */
+  onSelectDay: (date: string) => void;
+}
+
+interface DaySummary {
+  classes: number;
+  ntLed: number;
+  cancelled: number;
+}
+
+/**
+ * A month at a glance: the class, NT-Led, cancelled and conflict counts of every day
+ */
+export default function MonthView({ entries, date, courseFilter, conflicts = [], onSelectDay }: MonthViewProps) {
+  const month = format(parseISO(date), 'yyyy-MM');
+  const today = format(new Date(), 'yyyy-MM-dd');
+
+  const days = useMemo(() => {
+    const { from, to } = getViewRange('month', date);
+    const length = differenceInCalendarDays(parseISO(to), parseISO(from)) + 1;
+    return Array.from({ length }, (_, i) => format(addDays(parseISO(from), i), 'yyyy-MM-dd'));
+  }, [date]);
+
+  const summaries = useMemo(() => {
+    const byDay = new Map<string, DaySummary>();
+    entries.filter(entry => matchesCourseFilter(entry, courseFilter)).forEach(entry => {
+      const day = getEntryDate(entry);
+      const summary = byDay.get(day) || { classes: 0, ntLed: 0, cancelled: 0 };
+      summary.classes++;
+      if (isNTLedEntry(entry)) summary.ntLed++;
+      if (!isHeldEntry(entry)) summary.cancelled++;
+      byDay.set(day, summary);
+    });
+    return byDay;
+  }, [entries, courseFilter]);
+
+  // Busier days get a darker background, relative to the busiest day shown
+  const busiest = Math.max(1, ...Array.from(summaries.values()).map(summary => summary.classes));
+
+  return (
+    <div className="bg-white shadow overflow-hidden sm:rounded-lg border border-gray-200">
+      <div className="px-4 py-3 border-b border-gray-200 bg-gray-50">
+        <h3 className="text-lg leading-6 font-medium text-gray-900">{format(parseISO(date), 'MMMM yyyy')}</h3>
+      </div>
+      <div className="grid grid-cols-7 text-center text-xs font-medium text-gray-500 border-b border-gray-200">
+        {['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'].map(day => <div key={day} className="py-1">{day}</div>)}
+      </div>
+      <div className="grid grid-cols-7 divide-x divide-y divide-gray-100">
+        {days.map(day => {
+          const summary = summaries.get(day);
+          const dayConflicts = conflicts.filter(conflict => conflict.date === day).length;
+          const intensity = summary ? summary.classes / busiest : 0;
+
+          return (
+            <button
+              key={day}
+              onClick={() => onSelectDay(day)}
+              title="Open in the day view"
+              className={`min-h-[5rem] p-1.5 text-left text-xs hover:ring-2 hover:ring-inset hover:ring-indigo-300 ${
+                day.startsWith(month) ? 'text-gray-800' : 'text-gray-400'
+              } ${intensity > 0.66 ? 'bg-indigo-100' : intensity > 0.33 ? 'bg-indigo-50' : ''}`}
+            >
+              <div className={`font-medium ${day === date ? 'text-indigo-600 font-bold' : day === today ? 'text-blue-600' : ''}`}>
+                {format(parseISO(day), 'd')}
+              </div>
+              {summary && (
+                <div className="mt-1 space-y-0.5">
+                  <div>{summary.classes} {summary.classes === 1 ? 'class' : 'classes'}</div>
+                  {summary.ntLed > 0 && <div className="text-indigo-700">{summary.ntLed} NT-Led</div>}
+                  {summary.cancelled > 0 && <div className="text-gray-500">{summary.cancelled} cancelled</div>}
+                </div>
+              )}
+              {dayConflicts > 0 && (
+                <div className="mt-0.5 text-red-700">{dayConflicts} {dayConflicts === 1 ? 'conflict' : 'conflicts'}</div>
+              )}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,169 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { addDays, format, parseISO } from 'date-fns';
+import {
+  CalendarEntry,
+  cancelCalendarEntry,
+  findMakeupSlotsForEntry,
+  getMissingStatusColumns,
+  rescheduleCalendarEntry,
+  restoreCalendarEntry
+} from '@/lib/supabase/data';
+import { MakeupSlot } from '@/lib/scheduling/reschedule';
+import { getEntryStatus } from '@/lib/scheduling/normalize';
+
+interface RescheduleDialogProps {
+  entry: CalendarEntry;
+  tableName: string;
+  /** Called after the class was cancelled, restored or moved */
+  onChanged: () => void;
+  onClose: () => void;
+}
+
+/**
+ * Cancel, restore or reschedule a class. Rescheduling proposes free slots for the class's
+ * teachers and creates a make-up class linked to the original. Tables without the status
+ * columns only get a note saying which columns to add.
+ */
+export default function RescheduleDialog({ entry, tableName, onChanged, onClose }: RescheduleDialogProps) {
+  const status = getEntryStatus(entry);
+  const today = format(new Date(), 'yyyy-MM-dd');
+  const [reason, setReason] = useState<string>(entry.Status_Reason || '');
+  const [from, setFrom] = useState<string>(today);
+  const [to, setTo] = useState<string>(format(addDays(parseISO(today), 13), 'yyyy-MM-dd'));
+  const [slots, setSlots] = useState<MakeupSlot[] | null>(null);
+  const [working, setWorking] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  // The status columns the table lacks; null while they are being checked
+  const [missingColumns, setMissingColumns] = useState<string[] | null>(null);
+
+  useEffect(() => {
+    let active = true;
+    getMissingStatusColumns(tableName).then(columns => {
+      if (active) setMissingColumns(columns);
+    });
+    return () => {
+      active = false;
+    };
+  }, [tableName]);
+
+  const run = async (action: () => Promise<unknown>) => {
+    setWorking(true);
+    setError(null);
+    try {
+      await action();
+      onChanged();
+      onClose();
+    } catch (err) {
+      console.error('Error changing class status:', err);
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const findSlots = async () => {
+    setWorking(true);
+    setError(null);
+    try {
+      setSlots(await findMakeupSlotsForEntry(tableName, entry.id, { from, to }));
+    } catch (err) {
+      console.error('Error finding make-up slots:', err);
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  if (missingColumns === null) return null;
+
+  if (missingColumns.length > 0) {
+    return (
+      <div className="mt-4 pt-4 border-t border-gray-200 text-sm text-gray-500">
+        Classes in {tableName} cannot be cancelled or rescheduled: the table has no {missingColumns.join(', ')} column{missingColumns.length > 1 ? 's' : ''}.
+      </div>
+    );
+  }
+
+  return (
+    <div className="mt-4 pt-4 border-t border-gray-200 text-sm">
+      <label className="block text-gray-700">
+        Reason
+        <input
+          type="text"
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          placeholder="e.g. Public holiday, typhoon"
+          className="mt-1 w-full px-2 py-1 border border-gray-300 rounded"
+        />
+      </label>
+
+      <div className="mt-3 flex flex-wrap gap-2">
+        {status === 'cancelled' ? (
+          <button
+            onClick={() => run(() => restoreCalendarEntry(tableName, entry.id))}
+            disabled={working}
+            className="px-3 py-1 bg-green-600 text-white rounded hover:bg-green-700 disabled:opacity-50"
+          >
+            Restore class
+          </button>
+        ) : status !== 'rescheduled' && (
+          <button
+            onClick={() => run(() => cancelCalendarEntry(tableName, entry.id, reason.trim() || undefined))}
+            disabled={working}
+            className="px-3 py-1 bg-red-600 text-white rounded hover:bg-red-700 disabled:opacity-50"
+          >
+            Cancel class
+          </button>
+        )}
+      </div>
+
+      {status !== 'rescheduled' && (
+        <div className="mt-3">
+          <div className="flex flex-wrap items-end gap-2">
+            <label className="text-gray-700">
+              From
+              <input type="date" value={from} onChange={(e) => setFrom(e.target.value)} className="ml-1 px-2 py-1 border border-gray-300 rounded" />
+            </label>
+            <label className="text-gray-700">
+              To
+              <input type="date" value={to} onChange={(e) => setTo(e.target.value)} className="ml-1 px-2 py-1 border border-gray-300 rounded" />
+            </label>
+            <button
+              onClick={findSlots}
+              disabled={working || !from || !to || to < from}
+              className="px-3 py-1 bg-indigo-600 text-white rounded hover:bg-indigo-700 disabled:opacity-50"
+            >
+              Find make-up slots
+            </button>
+          </div>
+
+          {slots && slots.length === 0 && (
+            <p className="mt-2 text-gray-500">
+              No free slots for this class&apos;s teachers in these dates{entry.Start && entry.End ? '' : ' (the class has no start/end time)'}.
+            </p>
+          )}
+          {slots && slots.length > 0 && (
+            <ul className="mt-2 max-h-48 overflow-y-auto divide-y divide-gray-100 border border-gray-200 rounded">
+              {slots.map(slot => (
+                <li key={`${slot.date}-${slot.start}`} className="flex items-center justify-between px-2 py-1">
+                  <span>{format(parseISO(slot.date), 'EEE MMM d')} {slot.start}-{slot.end}</span>
+                  <button
+                    onClick={() => run(() => rescheduleCalendarEntry(tableName, entry.id, slot, reason.trim() || undefined))}
+                    disabled={working}
+                    className="px-2 py-0.5 text-xs bg-indigo-100 text-indigo-700 rounded hover:bg-indigo-200 disabled:opacity-50"
+                  >
+                    Move here
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {error && <p className="mt-2 text-red-600">{error}</p>}
+    </div>
+  );
+}
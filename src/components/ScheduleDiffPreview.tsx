@@ -0,0 +1,83 @@
+'use client';
+
+import { useMemo } from 'react';
+import { ScheduleChange, ScheduleChangeType, ScheduleDiff } from '@/lib/scheduling/diff';
+
+interface ScheduleDiffPreviewProps {
+  diff: ScheduleDiff;
+  /** Extra note shown next to the summary */
+  note?: React.ReactNode;
+  /** Label of the apply button; the button is hidden when no onApply is given */
+  applyLabel?: string;
+  onApply?: () => void;
+  applyDisabled?: boolean;
+  applyTitle?: string;
+}
+
+const CHANGE_STYLES: Record<ScheduleChangeType, string> = {
+  add: 'bg-green-50 text-green-800',
+  update: 'bg-amber-50 text-amber-800',
+  remove: 'bg-red-50 text-red-800 line-through'
+};
+
+function describeRow(change: ScheduleChange): string {
+  const row = change.after || change.before!;
+  return `${row.Date?.slice(0, 10)} ${row.Start || ''}-${row.End || ''} · ${row['Class.ID'] || row.Course} Visit ${row.Visit} · ${row.Day1 || 'No teacher'}`;
+}
+
+/**
+ * Row-level preview of the changes a schedule diff would write
+ */
+export default function ScheduleDiffPreview({
+  diff,
+  note,
+  applyLabel,
+  onApply,
+  applyDisabled = false,
+  applyTitle
+}: ScheduleDiffPreviewProps) {
+  const counts = useMemo(() => {
+    const result: Record<ScheduleChangeType, number> = { add: 0, update: 0, remove: 0 };
+    diff.changes.forEach(change => result[change.type]++);
+    return result;
+  }, [diff]);
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm mb-4 overflow-hidden">
+      <div className="px-4 py-2 bg-gray-50 border-b flex flex-wrap items-center justify-between gap-2 text-sm">
+        <div className="font-medium text-gray-700">
+          Preview: {counts.add} added, {counts.update} updated, {counts.remove} removed, {diff.unchangedCount} unchanged
+          {note}
+        </div>
+        {onApply && (
+          <button
+            onClick={onApply}
+            disabled={diff.changes.length === 0 || applyDisabled}
+            title={applyTitle}
+            className="px-3 py-1 bg-green-600 text-white rounded hover:bg-green-700 disabled:opacity-50"
+          >
+            {applyLabel || `Apply ${diff.changes.length} changes`}
+          </button>
+        )}
+      </div>
+      {diff.changes.length === 0 ? (
+        <p className="px-4 py-3 text-sm text-gray-500">No changes to the current calendar.</p>
+      ) : (
+        <ul className="divide-y divide-gray-100 text-xs max-h-96 overflow-y-auto">
+          {diff.changes.map((change, index) => (
+            <li key={index} className={`px-4 py-1.5 ${CHANGE_STYLES[change.type]}`}>
+              <span className="inline-block w-16 font-medium uppercase">{change.type}</span>
+              <span className="text-gray-500 mr-2">{change.tableName}</span>
+              {describeRow(change)}
+              {change.type === 'update' && (
+                <span className="ml-2 text-gray-600">
+                  ({change.changedFields.map(field => `${field}: ${change.before?.[field] ?? ''} → ${change.after?.[field] ?? ''}`).join('; ')})
+                </span>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
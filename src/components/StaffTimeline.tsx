@@ -0,0 +1,167 @@
+'use client';
+
+import { useMemo } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Teacher } from '@/lib/supabase/data';
+import { ClassAssignment } from '@/lib/scheduling/assignments';
+import { CourseFilter, buildTimelineRows, matchesCourseFilter } from '@/lib/scheduling/calendarViews';
+import { ScheduleConflict } from '@/lib/scheduling/conflicts';
+import { getCourseColor } from '@/lib/scheduling/courseColors';
+import { formatMinutes } from '@/lib/scheduling/time';
+
+interface StaffTimelineProps {
+  teachers: Teacher[];
+  /** Resolved assignments covering the day */
+  assignments: ClassAssignment[];
+  date: string;
+  courseFilter: CourseFilter;
+  conflicts?: ScheduleConflict[];
+  /** Show only this teacher's row */
+  selectedTeacherId?: number | null;
+}
+
+// Hours always shown, widened to fit classes outside them
+const FIRST_HOUR = 8;
+const LAST_HOUR = 20;
+
+// Gaps shorter than this are breaks between classes rather than idle time worth pointing out
+const MIN_IDLE_MINUTES = 30;
+
+function formatDuration(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const mins = minutes % 60;
+  return hours > 0 ? `${hours}h${mins > 0 ? ` ${mins}m` : ''}` : `${mins}m`;
+}
+
+/**
+ * The whole school's day: one row per teacher with their classes on a time axis and the idle
+ * gaps between them. Teachers without classes that day are listed below the timeline.
+ */
+export default function StaffTimeline({
+  teachers,
+  assignments,
+  date,
+  courseFilter,
+  conflicts = [],
+  selectedTeacherId
+}: StaffTimelineProps) {
+  const rows = useMemo(() => {
+    const shownTeachers = selectedTeacherId != null
+      ? teachers.filter(teacher => Number(teacher.Teacher_ID) === selectedTeacherId)
+      : teachers;
+    const shownAssignments = assignments.filter(assignment => matchesCourseFilter(assignment.entry, courseFilter));
+    return buildTimelineRows(shownTeachers, shownAssignments, date);
+  }, [teachers, assignments, date, courseFilter, selectedTeacherId]);
+
+  const busyRows = rows
+    .filter(row => row.blocks.length > 0)
+    .sort((a, b) => a.blocks[0].start - b.blocks[0].start || a.teacher.Teacher_name.localeCompare(b.teacher.Teacher_name));
+  const freeTeachers = rows.filter(row => row.blocks.length === 0).map(row => row.teacher);
+
+  const firstMinute = Math.min(FIRST_HOUR * 60, ...busyRows.map(row => Math.floor(row.blocks[0].start / 60) * 60));
+  const lastMinute = Math.max(LAST_HOUR * 60, ...busyRows.flatMap(row => row.blocks.map(block => Math.ceil(block.end / 60) * 60)));
+  const span = lastMinute - firstMinute;
+  const hours = Array.from({ length: span / 60 + 1 }, (_, i) => firstMinute + i * 60);
+  const position = (start: number, end: number) => ({
+    left: `${((start - firstMinute) / span) * 100}%`,
+    width: `${((end - start) / span) * 100}%`
+  });
+
+  const conflictKeys = new Set(conflicts.filter(conflict => conflict.date === date).flatMap(conflict => conflict.entryKeys));
+  const idleMinutes = busyRows.reduce(
+    (sum, row) => sum + row.gaps.filter(gap => gap.end - gap.start >= MIN_IDLE_MINUTES).reduce((total, gap) => total + gap.end - gap.start, 0),
+    0
+  );
+
+  return (
+    <div className="bg-white shadow overflow-hidden sm:rounded-lg border border-gray-200">
+      <div className="px-4 py-3 border-b border-gray-200 bg-gray-50 flex flex-wrap items-center gap-2">
+        <h3 className="text-lg leading-6 font-medium text-gray-900">Staff timeline - {format(parseISO(date), 'EEE MMM d, yyyy')}</h3>
+        <span className="text-xs bg-gray-100 rounded-full px-2 py-0.5">{busyRows.length} teaching</span>
+        {idleMinutes > 0 && (
+          <span className="text-xs bg-amber-100 text-amber-800 rounded-full px-2 py-0.5">
+            {formatDuration(idleMinutes)} idle between classes
+          </span>
+        )}
+      </div>
+
+      {busyRows.length === 0 ? (
+        <p className="p-8 text-center text-sm text-gray-500">No classes with start and end times on this day.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <div className="min-w-[48rem]">
+            <div className="flex border-b border-gray-200">
+              <div className="w-40 shrink-0" />
+              <div className="relative flex-grow h-6">
+                {hours.map(minute => (
+                  <span
+                    key={minute}
+                    className="absolute top-1 -translate-x-1/2 text-[10px] text-gray-500"
+                    style={{ left: `${((minute - firstMinute) / span) * 100}%` }}
+                  >
+                    {formatMinutes(minute)}
+                  </span>
+                ))}
+              </div>
+            </div>
+
+            {busyRows.map(row => (
+              <div key={row.teacher.Teacher_ID} className="flex border-b border-gray-100">
+                <div className="w-40 shrink-0 px-2 py-1 text-xs border-r border-gray-100">
+                  <div className="font-medium truncate">{row.teacher.Teacher_name}</div>
+                  <div className="text-gray-500">
+                    {row.teacher.Teacher_Type || 'Unknown type'} · {formatDuration(row.teachingMinutes)}
+                  </div>
+                </div>
+                <div className="relative flex-grow h-12">
+                  {hours.map(minute => (
+                    <span
+                      key={minute}
+                      className="absolute inset-y-0 border-l border-gray-100"
+                      style={{ left: `${((minute - firstMinute) / span) * 100}%` }}
+                    />
+                  ))}
+                  {row.gaps.filter(gap => gap.end - gap.start >= MIN_IDLE_MINUTES).map(gap => (
+                    <div
+                      key={`gap-${gap.start}`}
+                      title={`Idle ${formatMinutes(gap.start)}-${formatMinutes(gap.end)}`}
+                      className="absolute top-3 bottom-3 flex items-center justify-center text-[10px] text-amber-800 bg-amber-50 border border-dashed border-amber-300 rounded overflow-hidden"
+                      style={position(gap.start, gap.end)}
+                    >
+                      {formatDuration(gap.end - gap.start)}
+                    </div>
+                  ))}
+                  {row.blocks.map(block => {
+                    const { entry } = block.assignment;
+                    return (
+                      <div
+                        key={block.assignment.entryKey}
+                        title={`${formatMinutes(block.start)}-${formatMinutes(block.end)} ${entry.Course} ${entry.Level}${
+                          block.assignment.role === 'assistant' ? ' (assisting)' : ''
+                        }`}
+                        className={`absolute top-1 bottom-1 px-1 text-[10px] leading-tight border-l-4 rounded overflow-hidden ${getCourseColor(entry).className} ${
+                          conflictKeys.has(block.assignment.entryKey) ? 'ring-2 ring-red-500' : ''
+                        }`}
+                        style={position(block.start, block.end)}
+                      >
+                        <div className="font-semibold truncate">{entry.Course} {entry.Level}</div>
+                        <div className="truncate">{formatMinutes(block.start)}-{formatMinutes(block.end)}</div>
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {freeTeachers.length > 0 && (
+        <div className="px-4 py-2 border-t border-gray-200 text-xs text-gray-600">
+          <span className="font-medium">No classes: </span>
+          {freeTeachers.map(teacher => teacher.Teacher_name).sort().join(', ')}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -2,15 +2,165 @@
 
 import { useState, useEffect } from 'react';
 import { supabaseService } from '@/lib/supabase/service';
+import { resolveQueuedMutation, type ConflictResolution } from '@/lib/supabase/data';
+import {
+  addQueueListener,
+  getQueuedMutations,
+  removeQueueListener,
+  type QueuedMutation
+} from '@/lib/supabase/mutationQueue';
 
 interface SynchronizationIndicatorProps {
   position?: 'top' | 'inline';
   className?: string;
 }
 
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null || value === '') return '—';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  return String(value);
+}
+
+function describeMutation(mutation: QueuedMutation): string {
+  switch (mutation.kind) {
+    case 'create-entry':
+      return `New ${mutation.entry.Course} class on ${mutation.entry.Date} (${mutation.tableName})`;
+    case 'update-entry':
+      return `Edit of ${mutation.base.Course} class on ${mutation.base.Date} (${mutation.tableName})`;
+    case 'delete-entry':
+      return `Deletion of ${mutation.base.Course} class on ${mutation.base.Date} (${mutation.tableName})`;
+    case 'record-substitution':
+      return `Substitution on ${mutation.substitution.date}`;
+  }
+}
+
+/**
+ * A queued edit that conflicts with the server or failed to replay, with the choices to settle it
+ */
+function QueuedEditCard({ mutation }: { mutation: QueuedMutation }) {
+  const [merging, setMerging] = useState<boolean>(false);
+  const [mergeFields, setMergeFields] = useState<string[]>([]);
+  const [busy, setBusy] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const resolve = async (resolution: ConflictResolution) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await resolveQueuedMutation(mutation.id, resolution);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+      setBusy(false);
+    }
+  };
+
+  const conflict = mutation.status === 'conflict' ? mutation.conflict : undefined;
+  const server = conflict?.server as Record<string, unknown> | null | undefined;
+  const mine = (field: string): unknown => {
+    if (mutation.kind === 'update-entry') return (mutation.changes as Record<string, unknown>)[field];
+    if (mutation.kind === 'delete-entry') return '(deleted)';
+    return undefined;
+  };
+  // Only edits can keep a subset of their fields
+  const canMerge = mutation.kind === 'update-entry' && server !== null && (conflict?.fields.length || 0) > 1;
+
+  return (
+    <div className="border rounded bg-white p-2 text-xs text-gray-800">
+      <div className="font-medium">{describeMutation(mutation)}</div>
+      {conflict ? (
+        <>
+          <div className="text-amber-700 mt-0.5">
+            {server === null
+              ? 'This class was deleted by someone else while you were offline.'
+              : 'This class was changed by someone else while you were offline.'}
+          </div>
+          {conflict.fields.length > 0 && (
+            <table className="mt-1 w-full">
+              <thead>
+                <tr className="text-left text-gray-500">
+                  {merging && <th className="pr-2">Keep mine</th>}
+                  <th className="pr-2">Field</th>
+                  <th className="pr-2">Yours</th>
+                  <th>Theirs</th>
+                </tr>
+              </thead>
+              <tbody>
+                {conflict.fields.map(field => (
+                  <tr key={field}>
+                    {merging && (
+                      <td className="pr-2">
+                        <input
+                          type="checkbox"
+                          checked={mergeFields.includes(field)}
+                          onChange={e => setMergeFields(prev =>
+                            e.target.checked ? [...prev, field] : prev.filter(item => item !== field)
+                          )}
+                        />
+                      </td>
+                    )}
+                    <td className="pr-2 font-medium">{field}</td>
+                    <td className="pr-2">{formatValue(mine(field))}</td>
+                    <td>{server ? formatValue(server[field]) : '(deleted)'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </>
+      ) : (
+        <div className="text-red-700 mt-0.5">Could not be saved: {mutation.error}</div>
+      )}
+      {error && <div className="text-red-700 mt-1">{error}</div>}
+      <div className="flex flex-wrap gap-1.5 mt-1.5">
+        {merging ? (
+          <>
+            <button
+              onClick={() => resolve({ merge: mergeFields })}
+              disabled={busy}
+              className="px-2 py-0.5 rounded bg-blue-600 text-white disabled:opacity-50"
+            >
+              Save merge
+            </button>
+            <button onClick={() => setMerging(false)} disabled={busy} className="px-2 py-0.5 rounded border">
+              Cancel
+            </button>
+          </>
+        ) : (
+          <>
+            <button
+              onClick={() => resolve('mine')}
+              disabled={busy}
+              className="px-2 py-0.5 rounded bg-blue-600 text-white disabled:opacity-50"
+            >
+              {conflict ? 'Keep mine' : 'Retry'}
+            </button>
+            <button
+              onClick={() => resolve('theirs')}
+              disabled={busy}
+              className="px-2 py-0.5 rounded border disabled:opacity-50"
+            >
+              {conflict ? 'Keep theirs' : 'Discard'}
+            </button>
+            {canMerge && (
+              <button
+                onClick={() => setMerging(true)}
+                disabled={busy}
+                className="px-2 py-0.5 rounded border disabled:opacity-50"
+              >
+                Merge
+              </button>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
 /**
  * SynchronizationIndicator component
- * Displays a visual indicator when data is being synchronized after reconnection
+ * Displays a visual indicator when data is being synchronized after reconnection,
+ * the number of edits queued while offline, and queued edits that need a decision
  */
 export default function SynchronizationIndicator({ 
   position = 'inline', 
@@ -19,6 +169,14 @@ export default function SynchronizationIndicator({
   const [isSynchronizing, setIsSynchronizing] = useState<boolean>(false);
   const [showCompleted, setShowCompleted] = useState<boolean>(false);
   const [completionTimer, setCompletionTimer] = useState<NodeJS.Timeout | null>(null);
+  const [queue, setQueue] = useState<QueuedMutation[]>([]);
+
+  // Follow the offline edit queue
+  useEffect(() => {
+    getQueuedMutations().then(setQueue).catch(() => setQueue([]));
+    addQueueListener(setQueue);
+    return () => removeQueueListener(setQueue);
+  }, []);
 
   // Listen for synchronization events
   useEffect(() => {
@@ -56,11 +214,36 @@ export default function SynchronizationIndicator({
     };
   }, [completionTimer]);
 
-  // Don't render anything if no synchronization is happening or was recently completed
-  if (!isSynchronizing && !showCompleted) {
+  const pendingCount = queue.filter(mutation => mutation.status === 'pending').length;
+  const needsDecision = queue.filter(mutation => mutation.status !== 'pending');
+
+  // Don't render anything if no synchronization is happening or was recently completed and nothing is queued
+  if (!isSynchronizing && !showCompleted && queue.length === 0) {
     return null;
   }
 
+  if (!isSynchronizing && !showCompleted) {
+    return (
+      <div className={`${position === 'top' ? 'w-full px-3 py-2 border-b text-sm' : 'px-2 py-1 text-xs rounded border'} bg-amber-50 border-amber-200 text-amber-800 ${className}`}>
+        {pendingCount > 0 && (
+          <div className="font-medium">
+            {pendingCount} {pendingCount === 1 ? 'edit' : 'edits'} saved offline, will be written on reconnect
+          </div>
+        )}
+        {needsDecision.length > 0 && (
+          <div className="mt-1 space-y-1.5">
+            <div className="font-medium">
+              {needsDecision.length} offline {needsDecision.length === 1 ? 'edit needs' : 'edits need'} your decision
+            </div>
+            {needsDecision.map(mutation => (
+              <QueuedEditCard key={mutation.id} mutation={mutation} />
+            ))}
+          </div>
+        )}
+      </div>
+    );
+  }
+
   // Position-specific styling
   const styles = position === 'top' 
     ? 'w-full px-3 py-2 border-b text-sm' 
@@ -1,7 +1,8 @@
 'use client';
 
 import { useState, useEffect, useMemo, useRef } from 'react';
-import { getTeachers, CalendarEntry } from '@/lib/supabase/data';
+import { getTeachers } from '@/lib/supabase/data';
+import { ClassAssignment, countAssignmentsByTeacher } from '@/lib/scheduling/assignments';
 import { supabaseService } from '@/lib/supabase/service';
 import FallbackIndicator from './FallbackIndicator';
 import LoadingIndicator from './LoadingIndicator';
@@ -10,7 +11,7 @@ import SkeletonLoader from './SkeletonLoader';
 interface TeacherSelectProps {
   selectedTeacherId: number | null;
   onTeacherSelect: (teacherId: number | null) => void;
-  calendarEntries?: CalendarEntry[];
+  assignments?: ClassAssignment[];
 }
 
 // Unique component ID for synchronization
@@ -27,7 +28,7 @@ const FALLBACK_TEACHERS = [
   { id: 7, name: 'Chen Jie', type: 'Local' }
 ];
 
-export default function TeacherSelect({ selectedTeacherId, onTeacherSelect, calendarEntries = [] }: TeacherSelectProps) {
+export default function TeacherSelect({ selectedTeacherId, onTeacherSelect, assignments = [] }: TeacherSelectProps) {
   const [teachers, setTeachers] = useState<Array<{ id: number; name: string; type: string }>>(FALLBACK_TEACHERS);
   const [isLoading, setIsLoading] = useState<boolean>(true);
   const [searchQuery, setSearchQuery] = useState<string>('');
@@ -157,36 +158,8 @@ export default function TeacherSelect({ selectedTeacherId, onTeacherSelect, cale
   // Find the selected teacher
   const selectedTeacher = teachers.find(teacher => teacher.id === selectedTeacherId);
   
-  // Calculate workload (class count) for each teacher based on provided entries
-  const teacherWorkloads = useMemo(() => {
-    const workloads: { [teacherId: number]: number } = {};
-    
-    // Initialize count for all loaded teachers
-    teachers.forEach(t => { workloads[t.id] = 0; });
-
-    calendarEntries.forEach(entry => {
-      const isNtLed = entry['NT-Led'] === true || String(entry['NT-Led']).toLowerCase() === 'true';
-      
-      if (isNtLed) {
-        // Assign NT-Led classes to Native teachers
-        teachers.forEach(teacher => {
-          if (teacher.type.toLowerCase() === 'native') {
-            workloads[teacher.id] = (workloads[teacher.id] || 0) + 1;
-          }
-        });
-      } else {
-        // Assign to specific teachers in Day1/Day2 if they exist in our list
-        [entry.Day1, entry.Day2].forEach(assignedTeacherName => {
-          const teacher = teachers.find(t => t.name === assignedTeacherName);
-          if (teacher) {
-            workloads[teacher.id] = (workloads[teacher.id] || 0) + 1;
-          }
-        });
-      }
-    });
-
-    return workloads;
-  }, [calendarEntries, teachers]);
+  // Calculate workload (class count) for each teacher from the resolved assignments
+  const teacherWorkloads = useMemo(() => countAssignmentsByTeacher(assignments), [assignments]);
   
   // Filter teachers based on search query
   const filteredTeachers = useMemo(() => 
@@ -2,15 +2,66 @@
 
 import { useState, useEffect, useMemo, useRef } from 'react';
 import { format, parseISO, startOfWeek, addDays, isWithinInterval, parse } from 'date-fns';
-import { CalendarEntry, Teacher } from '@/lib/supabase/data';
+import { CalendarEntry, Teacher, createCalendarEntry, updateCalendarEntry } from '@/lib/supabase/data';
 import FallbackIndicator from './FallbackIndicator';
 import { supabaseService } from '@/lib/supabase/service';
+import type { DataChange } from '@/lib/supabase/realtime';
+import { isCalendarTable } from '@/lib/schema';
 import LoadingOverlay from './LoadingOverlay';
 import SkeletonLoader from './SkeletonLoader';
+import { ScheduleConflict, getConflictsForEntry } from '@/lib/scheduling/conflicts';
+import { TeacherAvailability, getDayAvailability } from '@/lib/scheduling/availability';
+import { compareByStartTime, getEntryDate, getEntryStatus, isHeldEntry, isNTLedEntry, parseDateValue } from '@/lib/scheduling/normalize';
+import { getCourseColor, getCourseLegend } from '@/lib/scheduling/courseColors';
+import { CourseFamilyDefinition, getActiveCourseFamilies } from '@/lib/scheduling/courseCatalogue';
+import { ENTRY_STATUS_BADGE_STYLES, ENTRY_STATUS_LABELS, findMakeupEntry } from '@/lib/scheduling/reschedule';
+import { ClassAssignment, getTeacherLabel } from '@/lib/scheduling/assignments';
+import { CourseFilter, matchesCourseFilter } from '@/lib/scheduling/calendarViews';
+import {
+  EntryChangeCheck,
+  EntryChanges,
+  EntryEdit,
+  checkEntryChange,
+  getMoveChanges,
+  getPreviousValues,
+  getReassignChanges,
+  isPlacementChange
+} from '@/lib/scheduling/moves';
+import RescheduleDialog from './RescheduleDialog';
+import EntryEditor from './EntryEditor';
+import CourseFilterMenu from './CourseFilterMenu';
+import { PositionedEntry, buildTimeAxis, layoutDayEntries } from '@/lib/scheduling/timeGrid';
+import { formatMinutes } from '@/lib/scheduling/time';
 
 // Unique component ID for synchronization
 const COMPONENT_ID = 'WeeklyCalendar';
 
+// Height of an hour on the time axis, in pixels
+const HOUR_HEIGHT = 48;
+
+// Most edits kept for undo
+const MAX_UNDO_STEPS = 20;
+
+// Where a dragged class can be dropped: a day (keeping its times or at a new start), or a teacher
+type DropTarget =
+  | { kind: 'slot'; date: string; start?: string }
+  | { kind: 'teacher'; teacher: Teacher };
+
+// A class saved from the entry editor, shown until the reloaded entries contain the stored class
+interface OptimisticEntry {
+  key: number;
+  tableName: string;
+  entry: CalendarEntry;
+  /** ID of the row in `tableName` the class replaces; new classes have none */
+  replacesId?: number;
+  /** Whether the save completed; saved classes are dropped when the entries are next reloaded */
+  saved: boolean;
+}
+
+function getDropTargetKey(target: DropTarget): string {
+  return target.kind === 'slot' ? `slot|${target.date}|${target.start || ''}` : `teacher|${target.teacher.Teacher_ID}`;
+}
+
 interface WeeklyCalendarProps {
   entries: CalendarEntry[];
   currentDate: string;
@@ -18,6 +69,30 @@ interface WeeklyCalendarProps {
   isLoading: boolean;
   usingFallbackData?: boolean;
   onRefreshRequest?: () => void;
+  conflicts?: ScheduleConflict[];
+  availability?: TeacherAvailability;
+  /** Calendar table an entry belongs to; when given, classes can be cancelled and rescheduled from the details modal */
+  getEntryTable?: (entry: CalendarEntry) => string | undefined;
+  /** Teachers classes can be dropped onto; with getEntryTable, classes can be dragged to another slot or teacher */
+  teachers?: Teacher[];
+  /** The week's assignments and every teacher's availability, which dragged classes are checked against */
+  assignments?: ClassAssignment[];
+  teacherAvailability?: TeacherAvailability[];
+  /** Edits that can be undone, latest last. Kept by the page, as the calendar is rebuilt on refresh */
+  editHistory?: EntryEdit[];
+  onEditHistoryChange?: (history: EntryEdit[]) => void;
+  courseFilter?: CourseFilter;
+  onCourseFilterChange?: (filter: CourseFilter) => void;
+  /** Course families offered by the filter and shown in the legend; the active catalogue by default */
+  courseFamilies?: CourseFamilyDefinition[];
+  /** Hours the time axis starts and ends at by default (8 and 20); widened to fit classes outside them */
+  dayStartHour?: number;
+  dayEndHour?: number;
+}
+
+function getCurrentMinutes(): number {
+  const now = new Date();
+  return now.getHours() * 60 + now.getMinutes();
 }
 
 export default function WeeklyCalendar({ 
@@ -26,29 +101,45 @@ export default function WeeklyCalendar({
   selectedTeacher,
   isLoading, 
   usingFallbackData = false,
-  onRefreshRequest
+  onRefreshRequest,
+  conflicts = [],
+  availability,
+  getEntryTable,
+  teachers = [],
+  assignments = [],
+  teacherAvailability,
+  editHistory = [],
+  onEditHistoryChange,
+  courseFilter,
+  onCourseFilterChange,
+  courseFamilies = getActiveCourseFamilies(),
+  dayStartHour = 8,
+  dayEndHour = 20
 }: WeeklyCalendarProps) {
   // State for displaying a modal with class details
   const [selectedEntry, setSelectedEntry] = useState<CalendarEntry | null>(null);
   const [showModal, setShowModal] = useState<boolean>(false);
   // Add state for filters
-  const [courseTypeFilter, setCourseTypeFilter] = useState<string>('all');
-  const [showFilterOptions, setShowFilterOptions] = useState<boolean>(false);
-  const filterDropdownRef = useRef<HTMLDivElement>(null);
-  
-  // Handle clicks outside the filter dropdown
-  useEffect(() => {
-    function handleClickOutside(event: MouseEvent) {
-      if (filterDropdownRef.current && !filterDropdownRef.current.contains(event.target as Node)) {
-        setShowFilterOptions(false);
-      }
-    }
-    
-    document.addEventListener('mousedown', handleClickOutside);
-    return () => {
-      document.removeEventListener('mousedown', handleClickOutside);
-    };
-  }, []);
+  // The page can share the course filter between its views; the calendar keeps its own otherwise
+  const [ownCourseFilter, setOwnCourseFilter] = useState<CourseFilter>('all');
+  const courseTypeFilter = courseFilter ?? ownCourseFilter;
+  const setCourseTypeFilter = onCourseFilterChange ?? setOwnCourseFilter;
+  // Drag-and-drop editing: the class being dragged, the target under it and the checks of the targets visited
+  const [dragged, setDragged] = useState<{ entry: CalendarEntry; tableName: string } | null>(null);
+  const [dropTargetKey, setDropTargetKey] = useState<string | null>(null);
+  const [savingEdit, setSavingEdit] = useState<boolean>(false);
+  const [editError, setEditError] = useState<string | null>(null);
+  const dropChecks = useRef(new Map<string, { changes: EntryChanges; check: EntryChangeCheck }>());
+  // The entry editor, and classes saved from it that are shown before the save completes
+  const [editorTarget, setEditorTarget] = useState<{ entry?: CalendarEntry; tableName?: string; defaults?: Partial<CalendarEntry> } | null>(null);
+  const [optimisticEntries, setOptimisticEntries] = useState<OptimisticEntry[]>([]);
+  const nextOptimisticKey = useRef(0);
+  // The hours on the time axis, whether the empty ones before and after the week's classes are folded away, and the "now" line
+  const [axisStartHour, setAxisStartHour] = useState<number>(dayStartHour);
+  const [axisEndHour, setAxisEndHour] = useState<number>(dayEndHour);
+  const [compactHours, setCompactHours] = useState<boolean>(true);
+  const [nowMinutes, setNowMinutes] = useState<number>(getCurrentMinutes);
+  const canEdit = !!getEntryTable && teachers.length > 0;
   
   // Register/unregister component for fallback data
   useEffect(() => {
@@ -63,8 +154,30 @@ export default function WeeklyCalendar({
     };
   }, [usingFallbackData]);
   
-  // Listen for synchronization events
+  // Move the "now" line every minute
   useEffect(() => {
+    const timer = setInterval(() => setNowMinutes(getCurrentMinutes()), 60 * 1000);
+    return () => clearInterval(timer);
+  }, []);
+  
+  // Get start of the current week (Monday)
+  const weekStart = useMemo(() => {
+    const parsedDate = currentDate.includes('T') ? parseISO(currentDate) : parse(currentDate, 'yyyy-MM-dd', new Date());
+    return startOfWeek(parsedDate, { weekStartsOn: 1 });
+  }, [currentDate]);
+  
+  // Listen for synchronization events and colleagues' changes
+  useEffect(() => {
+    const weekFrom = format(weekStart, 'yyyy-MM-dd');
+    const weekTo = format(addDays(weekStart, 6), 'yyyy-MM-dd');
+    
+    // Teacher changes can move classes between teachers; entry deletes may only carry the row ID
+    const affectsWeek = (change: DataChange) => {
+      if (!isCalendarTable(change.table)) return change.table === 'Teachers';
+      const dates = [change.record?.Date, change.oldRecord?.Date].map(parseDateValue).filter((date): date is string => !!date);
+      return dates.length === 0 || dates.some(date => date >= weekFrom && date <= weekTo);
+    };
+    
     const observer = {
       onConnectionStatusChanged: () => {},
       onSynchronizationComplete: () => {
@@ -73,6 +186,12 @@ export default function WeeklyCalendar({
           console.log(`[${COMPONENT_ID}] Synchronization completed, requesting data refresh`);
           onRefreshRequest();
         }
+      },
+      onDataChanged: (changes: DataChange[]) => {
+        if (onRefreshRequest && changes.some(affectsWeek)) {
+          console.log(`[${COMPONENT_ID}] Schedule changed in the database, requesting data refresh`);
+          onRefreshRequest();
+        }
       }
     };
 
@@ -80,13 +199,7 @@ export default function WeeklyCalendar({
     return () => {
       supabaseService.removeObserver(observer);
     };
-  }, [usingFallbackData, onRefreshRequest]);
-  
-  // Get start of the current week (Monday)
-  const weekStart = useMemo(() => {
-    const parsedDate = currentDate.includes('T') ? parseISO(currentDate) : parse(currentDate, 'yyyy-MM-dd', new Date());
-    return startOfWeek(parsedDate, { weekStartsOn: 1 });
-  }, [currentDate]);
+  }, [usingFallbackData, onRefreshRequest, weekStart]);
   
   // Create array of weekdays
   const weekDays = useMemo(() => {
@@ -103,82 +216,56 @@ export default function WeeklyCalendar({
     });
   }, [weekStart]);
   
+  // Classes being saved replace the entries they edit (the same row of the same table)
+  const visibleEntries = useMemo(() => {
+    if (optimisticEntries.length === 0) return entries;
+    const isReplaced = (entry: CalendarEntry) => optimisticEntries.some(item =>
+      item.replacesId === entry.id && (!getEntryTable || getEntryTable(entry) === item.tableName)
+    );
+    return [
+      ...entries.filter(entry => !isReplaced(entry)),
+      ...optimisticEntries.map(item => item.entry)
+    ];
+  }, [entries, optimisticEntries, getEntryTable]);
+  
+  // Once the entries are reloaded after a save, they show the stored class instead
+  useEffect(() => {
+    setOptimisticEntries(items => {
+      const pending = items.filter(item => !item.saved);
+      return pending.length === items.length ? items : pending;
+    });
+  }, [entries]);
+  
   // Group entries by day and time and apply filters
   const entriesByDay = useMemo(() => {
     const groupedEntries = weekDays.map(day => {
       // Filter entries for this day
-      const dayEntries = entries.filter(entry => {
-        if (!entry.Date) return false;
-        const entryDate = entry.Date.includes('T') 
-          ? parseISO(entry.Date) 
-          : parse(entry.Date, 'yyyy-MM-dd', new Date());
-        return format(entryDate, 'yyyy-MM-dd') === day.dateStr;
-      });
+      const dayEntries = visibleEntries.filter(entry => getEntryDate(entry) === day.dateStr);
       
       // Sort entries by start time
-      const sortedEntries = dayEntries.sort((a, b) => {
-        const timeA = a.Start || '00:00';
-        const timeB = b.Start || '00:00';
-        return timeA.localeCompare(timeB);
-      });
+      const sortedEntries = dayEntries.sort(compareByStartTime);
       
       // Apply course type filter
-      const filteredEntries = courseTypeFilter === 'all' 
-        ? sortedEntries 
-        : sortedEntries.filter(entry => {
-            const course = (entry.Course || '').toLowerCase();
-            
-            switch(courseTypeFilter) {
-              case 'sprouts':
-                return course.includes('sprout');
-              case 'clovers':
-                return course.includes('clover');
-              case 'guardians':
-                return course.includes('guardian');
-              case 'workshops':
-                return course.includes('workshop') || course.includes('special');
-              case 'advanced':
-                return (entry.Level || '').toLowerCase().includes('advanced') || 
-                       (entry.Level || '').toLowerCase().includes('a');
-              case 'ntled':
-                const ntLed = entry['NT-Led'];
-                return ntLed === true || (typeof ntLed === 'string' && ntLed.toLowerCase() === 'yes');
-              default:
-                return true;
-            }
-          });
+      const filteredEntries = sortedEntries.filter(entry => matchesCourseFilter(entry, courseTypeFilter));
       
       return {
         ...day,
-        entries: filteredEntries
+        entries: filteredEntries,
+        layout: layoutDayEntries(filteredEntries)
       };
     });
     
     return groupedEntries;
-  }, [entries, weekDays, courseTypeFilter]);
+  }, [visibleEntries, weekDays, courseTypeFilter]);
   
-  // Get unique course types for filtering
-  const courseTypes = useMemo(() => {
-    // Get all unique courses
-    const courses = new Set<string>();
-    
-    entries.forEach(entry => {
-      if (entry.Course) {
-        const course = entry.Course.toLowerCase();
-        if (course.includes('sprout')) courses.add('sprouts');
-        else if (course.includes('clover')) courses.add('clovers');
-        else if (course.includes('guardian')) courses.add('guardians');
-        else if (course.includes('workshop') || course.includes('special')) courses.add('workshops');
-      }
-      
-      if (entry.Level) {
-        const level = entry.Level.toLowerCase();
-        if (level.includes('advanced') || level.includes('a')) courses.add('advanced');
-      }
-    });
-    
-    return Array.from(courses);
-  }, [entries]);
+  // One time axis for the whole week, so the days line up
+  const timeAxis = useMemo(() => buildTimeAxis(entriesByDay.flatMap(day => day.entries), {
+    dayStart: axisStartHour * 60,
+    dayEnd: axisEndHour * 60,
+    hourHeight: HOUR_HEIGHT,
+    collapseEmpty: compactHours,
+    collapsedHeight: 16
+  }), [entriesByDay, axisStartHour, axisEndHour, compactHours]);
   
   // Get the time range for an entry
   const getTimeRange = (entry: CalendarEntry) => {
@@ -193,59 +280,8 @@ export default function WeeklyCalendar({
     setShowModal(true);
   };
   
-  // Determine the class for the entry based on course type and NT-Led status
-  const getEntryClass = (entry: CalendarEntry) => {
-    // Get course type to determine base color
-    const course = (entry.Course || '').toLowerCase();
-    const level = (entry.Level || '').toLowerCase();
-    
-    // Handle both boolean true and string 'yes' values for NT-Led
-    const ntLed = entry['NT-Led'];
-    const isNTLed = ntLed === true || (typeof ntLed === 'string' && ntLed.toLowerCase() === 'yes');
-    
-    // Base style - all entries get a border and rounded corners
-    const baseStyle = "border-l-4 rounded";
-    
-    // Determine color scheme based on course type
-    let colorScheme = '';
-    
-    if (course.includes('sprout')) {
-      // Sprouts classes - purple theme
-      colorScheme = isNTLed 
-        ? 'bg-purple-100 border-purple-500 text-purple-800' 
-        : 'bg-purple-50 border-purple-400 text-purple-700';
-    } 
-    else if (course.includes('clover')) {
-      // Clovers classes - green theme
-      colorScheme = isNTLed 
-        ? 'bg-emerald-100 border-emerald-500 text-emerald-800' 
-        : 'bg-emerald-50 border-emerald-400 text-emerald-700';
-    }
-    else if (course.includes('guardian')) {
-      // Guardians classes - blue theme
-      colorScheme = isNTLed 
-        ? 'bg-blue-100 border-blue-500 text-blue-800' 
-        : 'bg-blue-50 border-blue-400 text-blue-700';
-    }
-    else if (course.includes('workshop') || course.includes('special')) {
-      // Workshop or special classes - amber/yellow theme
-      colorScheme = 'bg-amber-100 border-amber-500 text-amber-800';
-    }
-    else if (level.includes('advanced') || level.includes('a')) {
-      // Advanced level - red/pink theme
-      colorScheme = isNTLed 
-        ? 'bg-rose-100 border-rose-500 text-rose-800' 
-        : 'bg-rose-50 border-rose-400 text-rose-700';
-    }
-    else {
-      // Default for other courses
-      colorScheme = isNTLed 
-        ? 'bg-indigo-100 border-indigo-500 text-indigo-800' 
-        : 'bg-slate-100 border-slate-500 text-slate-800';
-    }
-    
-    return `${baseStyle} ${colorScheme}`;
-  };
+  // Coloured by course family and NT-Led status, with the family's stripe on the left
+  const getEntryClass = (entry: CalendarEntry) => `border-l-4 rounded ${getCourseColor(entry).className}`;
   
   // Generate a unique key for each entry
   const getUniqueEntryKey = (entry: CalendarEntry, day: string, index: number) => {
@@ -268,14 +304,248 @@ export default function WeeklyCalendar({
     return `${course} ${level} (${classId})`;
   };
   
+  // The selected class's table, and its make-up or original class when either is in view
+  const selectedTable = selectedEntry ? getEntryTable?.(selectedEntry) : undefined;
+  const sameClassEntries = selectedEntry
+    ? entries.filter(entry => entry.Course === selectedEntry.Course && (!getEntryTable || getEntryTable(entry) === selectedTable))
+    : [];
+  const selectedMakeup = selectedEntry && getEntryStatus(selectedEntry) === 'rescheduled'
+    ? findMakeupEntry(sameClassEntries, selectedEntry)
+    : undefined;
+  const selectedOriginal = selectedEntry?.Makeup_Of
+    ? sameClassEntries.find(entry => entry.id === selectedEntry.Makeup_Of)
+    : undefined;
+  
   // Close the modal
   const closeModal = () => {
     setShowModal(false);
     setSelectedEntry(null);
   };
   
+  // The changes a drop would make and whether they are allowed, checked once per target while dragging
+  const getDropChange = (target: DropTarget) => {
+    if (!dragged) return null;
+    const key = getDropTargetKey(target);
+    let result = dropChecks.current.get(key);
+    if (!result) {
+      const changes = target.kind === 'slot'
+        ? getMoveChanges(dragged.entry, target.date, target.start)
+        : getReassignChanges(dragged.tableName, dragged.entry, target.teacher, teachers, selectedTeacher?.Teacher_ID);
+      const check = isPlacementChange(dragged.entry, changes)
+        ? checkEntryChange(dragged.tableName, dragged.entry, changes, { teachers, assignments, availability: teacherAvailability })
+        : { allowed: false, errors: ['The class is already there'], warnings: [] };
+      result = { changes, check };
+      dropChecks.current.set(key, result);
+    }
+    return result;
+  };
+  
+  const describeDrop = (entry: CalendarEntry, target: DropTarget) => {
+    if (target.kind === 'teacher') return `Give ${getClassInfo(entry)} to ${target.teacher.Teacher_name}`;
+    return `Move ${getClassInfo(entry)} to ${format(parseISO(target.date), 'EEE MMM d')}${target.start ? ` ${target.start}` : ''}`;
+  };
+  
+  const endDrag = () => {
+    setDragged(null);
+    setDropTargetKey(null);
+  };
+  
+  const handleDragStart = (event: React.DragEvent, entry: CalendarEntry) => {
+    const tableName = getEntryTable?.(entry);
+    if (!tableName) {
+      event.preventDefault();
+      return;
+    }
+    event.dataTransfer.effectAllowed = 'move';
+    event.dataTransfer.setData('text/plain', getClassInfo(entry));
+    dropChecks.current.clear();
+    setEditError(null);
+    setDragged({ entry, tableName });
+  };
+  
+  // Write an edit through the data layer (queued while offline) and remember how to undo it
+  const saveEdit = async (tableName: string, entry: CalendarEntry, changes: EntryChanges, description: string) => {
+    setSavingEdit(true);
+    setEditError(null);
+    try {
+      await updateCalendarEntry(tableName, entry.id, changes);
+      const edit: EntryEdit = { tableName, entryId: entry.id, description, before: getPreviousValues(entry, changes), after: changes };
+      onEditHistoryChange?.([...editHistory, edit].slice(-MAX_UNDO_STEPS));
+      onRefreshRequest?.();
+    } catch (err) {
+      console.error('Error editing class:', err);
+      setEditError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setSavingEdit(false);
+    }
+  };
+  
+  const handleDrop = (event: React.DragEvent, target: DropTarget) => {
+    event.preventDefault();
+    const result = getDropChange(target);
+    const source = dragged;
+    endDrag();
+    if (source && result?.check.allowed) {
+      saveEdit(source.tableName, source.entry, result.changes, describeDrop(source.entry, target));
+    }
+  };
+  
+  // Drops are only accepted (preventDefault) on targets whose check passed
+  const getDropTargetProps = (target: DropTarget) => ({
+    onDragOver: (event: React.DragEvent) => {
+      const result = getDropChange(target);
+      if (!result) return;
+      if (result.check.allowed) {
+        event.preventDefault();
+        event.dataTransfer.dropEffect = 'move';
+      }
+      const key = getDropTargetKey(target);
+      if (dropTargetKey !== key) setDropTargetKey(key);
+    },
+    onDragLeave: () => setDropTargetKey(null),
+    onDrop: (event: React.DragEvent) => handleDrop(event, target)
+  });
+  
+  const getDropTargetClass = (target: DropTarget) => {
+    const key = getDropTargetKey(target);
+    const check = dropChecks.current.get(key)?.check;
+    const active = dropTargetKey === key ? 'ring-2 ring-offset-1' : '';
+    if (!check) return 'border-gray-300 text-gray-500';
+    return check.allowed
+      ? `border-green-400 bg-green-50 text-green-800 ring-green-400 ${active}`
+      : `border-red-300 bg-red-50 text-red-700 ring-red-400 ${active}`;
+  };
+  
+  const activeDropCheck = dropTargetKey ? dropChecks.current.get(dropTargetKey)?.check : undefined;
+  
+  // Show the class at once, then write it; it is shown until the reloaded week contains the stored class
+  const saveEntry = async (tableName: string, changes: Partial<Omit<CalendarEntry, 'id'>>, original?: CalendarEntry) => {
+    const key = nextOptimisticKey.current++;
+    const optimistic: OptimisticEntry = {
+      key,
+      tableName,
+      entry: (original ? { ...original, ...changes } : { ...changes, id: 0 }) as CalendarEntry,
+      replacesId: original?.id,
+      saved: false
+    };
+    setOptimisticEntries(items => [...items, optimistic]);
+    setSavingEdit(true);
+    setEditError(null);
+    try {
+      if (original) {
+        await updateCalendarEntry(tableName, original.id, changes);
+      } else {
+        await createCalendarEntry(tableName, changes as Omit<CalendarEntry, 'id'>);
+      }
+      setOptimisticEntries(items => items.map(item => item.key === key ? { ...item, saved: true } : item));
+      onRefreshRequest?.();
+    } catch (err) {
+      console.error('Error saving class:', err);
+      setOptimisticEntries(items => items.filter(item => item.key !== key));
+      setEditError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setSavingEdit(false);
+    }
+  };
+  
+  // New classes start on the chosen day (and hour, for an hour of the grid), with the teacher being viewed
+  const openNewEntry = (date: string, startMinutes?: number) => {
+    setEditorTarget({
+      defaults: {
+        Date: date,
+        Start: startMinutes !== undefined ? formatMinutes(startMinutes) : undefined,
+        End: startMinutes !== undefined ? formatMinutes(Math.min(startMinutes + 60, 23 * 60 + 59)) : undefined,
+        Day1: selectedTeacher ? getTeacherLabel(selectedTeacher, teachers) : undefined
+      }
+    });
+  };
+  
+  const undoLastEdit = async () => {
+    const edit = editHistory[editHistory.length - 1];
+    if (!edit || savingEdit) return;
+    setSavingEdit(true);
+    setEditError(null);
+    try {
+      await updateCalendarEntry(edit.tableName, edit.entryId, edit.before);
+      onEditHistoryChange?.(editHistory.slice(0, -1));
+      onRefreshRequest?.();
+    } catch (err) {
+      console.error('Error undoing edit:', err);
+      setEditError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setSavingEdit(false);
+    }
+  };
+  
+  // Ctrl+Z (Cmd+Z) undoes the last edit, unless the user is typing
+  useEffect(() => {
+    if (!canEdit || editHistory.length === 0) return;
+    
+    function handleKeyDown(event: KeyboardEvent) {
+      if (!(event.ctrlKey || event.metaKey) || event.shiftKey || event.key.toLowerCase() !== 'z') return;
+      if ((event.target as HTMLElement)?.closest?.('input, textarea, select, [contenteditable="true"]')) return;
+      event.preventDefault();
+      undoLastEdit();
+    }
+    
+    window.addEventListener('keydown', handleKeyDown);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+    };
+  });
+  
+  // A class card; classes with a start time are placed on the time axis, beside any they overlap
+  const renderEntry = (entry: CalendarEntry, dateStr: string, index: number, position?: PositionedEntry) => {
+    const entryConflicts = getConflictsForEntry(conflicts, entry);
+    const outsideAvailability = entryConflicts.some(conflict => conflict.type === 'outside-availability');
+    const status = getEntryStatus(entry);
+    // Cancelled and rescheduled classes are changed from the details modal instead
+    const draggable = canEdit && isHeldEntry(entry) && !savingEdit;
+    const style = position && {
+      top: timeAxis.offsetOf(position.start),
+      height: timeAxis.offsetOf(position.end) - timeAxis.offsetOf(position.start),
+      left: `calc(${(position.column / position.columns) * 100}% + 2px)`,
+      width: `calc(${100 / position.columns}% - 4px)`
+    };
+  
+    return (
+      <div 
+        key={getUniqueEntryKey(entry, dateStr, index)} 
+        onClick={() => handleEntryClick(entry)}
+        draggable={draggable}
+        onDragStart={draggable ? (event) => handleDragStart(event, entry) : undefined}
+        onDragEnd={draggable ? endDrag : undefined}
+        title={entry.Status_Reason ? `${ENTRY_STATUS_LABELS[status]}: ${entry.Status_Reason}` : undefined}
+        style={style}
+        className={`calendar-entry ${position ? 'absolute z-[1] overflow-hidden' : 'relative'} p-1.5 rounded-md text-xs ${draggable ? 'cursor-move' : 'cursor-pointer'} hover:opacity-80 transition-opacity ${getEntryClass(entry)} ${
+          outsideAvailability ? 'outline outline-2 outline-dashed outline-red-400' : ''
+        } ${isHeldEntry(entry) ? '' : 'line-through opacity-60'} ${dragged?.entry === entry ? 'opacity-40' : ''}`}
+      >
+        {entryConflicts.length > 0 && (
+          <span 
+            className="absolute top-0.5 right-0.5 bg-red-600 text-white rounded-full px-1.5 text-[10px] font-bold"
+            title={entryConflicts.map(conflict => conflict.message).join('\n')}
+          >
+            {entryConflicts.length}
+          </span>
+        )}
+        <div className="font-semibold">{getTimeRange(entry)}</div>
+        <div className="truncate">{getClassInfo(entry)}</div>
+        {entry.Unit && <div className="truncate opacity-75">Unit {entry.Unit}</div>}
+        {isNTLedEntry(entry) && (
+          <div className="text-[10px] font-medium uppercase">NT-Led</div>
+        )}
+        {status !== 'scheduled' && (
+          <span className={`inline-block mt-0.5 px-1 rounded text-[10px] font-medium uppercase ${ENTRY_STATUS_BADGE_STYLES[status]}`}>
+            {ENTRY_STATUS_LABELS[status]}
+          </span>
+        )}
+      </div>
+    );
+  };
+  
   // Calculate if the calendar should display the empty state for a specific teacher
-  const showEmptyStateForTeacher = selectedTeacher && entries.length === 0;
+  const showEmptyStateForTeacher = selectedTeacher && visibleEntries.length === 0;
   
   // Improved loading display
   if (isLoading) {
@@ -293,116 +563,88 @@ export default function WeeklyCalendar({
   }
   
   return (
-    <div className="bg-white shadow overflow-hidden sm:rounded-lg border border-gray-200 relative">
+    <div className="weekly-calendar-container bg-white shadow overflow-hidden sm:rounded-lg border border-gray-200 relative">
+      {/* Printed timetables are headed by the teacher and week instead of the screen toolbar */}
+      <div className="print-only px-2 pb-2 mb-2 border-b border-gray-300">
+        <h2 className="text-lg font-bold">{selectedTeacher ? selectedTeacher.Teacher_name : 'All teachers'}</h2>
+        <p className="text-sm">
+          Week of {format(weekStart, 'EEE MMM d')} - {format(addDays(weekStart, 6), 'EEE MMM d, yyyy')}
+        </p>
+      </div>
+      
       {usingFallbackData && (
-        <div className="px-4 py-2 bg-amber-50 border-b border-amber-200">
+        <div className="px-4 py-2 bg-amber-50 border-b border-amber-200 print-hide">
           <FallbackIndicator showDetails={false} />
         </div>
       )}
       
-      <div className="px-4 py-3 sm:px-6 border-b border-gray-200 bg-gray-50 flex justify-between items-center">
+      <div className="px-4 py-3 sm:px-6 border-b border-gray-200 bg-gray-50 flex justify-between items-center print-hide">
         <h3 className="text-lg leading-6 font-medium text-gray-900">
           Weekly Schedule
         </h3>
-        <div className="relative inline-block text-left" ref={filterDropdownRef}>
-          <button 
-            onClick={() => setShowFilterOptions(!showFilterOptions)}
-            className="inline-flex items-center px-2 py-1 text-xs border border-gray-300 rounded shadow-sm hover:bg-gray-50 focus:outline-none focus:ring-1 focus:ring-indigo-500"
+        {canEdit && editHistory.length > 0 && (
+          <button
+            onClick={undoLastEdit}
+            disabled={savingEdit}
+            title={`${editHistory[editHistory.length - 1].description} (Ctrl+Z)`}
+            className="ml-auto mr-2 max-w-xs truncate px-2 py-1 text-xs border border-gray-300 rounded shadow-sm hover:bg-gray-50 disabled:opacity-50"
           >
-            <svg xmlns="http://www.w3.org/2000/svg" className="h-3 w-3 mr-1" viewBox="0 0 20 20" fill="currentColor">
-              <path fillRule="evenodd" d="M3 3a1 1 0 011-1h12a1 1 0 011 1v3a1 1 0 01-.293.707L12 11.414V15a1 1 0 01-.293.707l-2 2A1 1 0 018 17v-5.586L3.293 6.707A1 1 0 013 6V3z" clipRule="evenodd" />
-            </svg>
-            {courseTypeFilter === 'all' ? 'Filter' : `Filtered: ${courseTypeFilter}`}
+            Undo: {editHistory[editHistory.length - 1].description}
           </button>
-          
-          {showFilterOptions && (
-            <div className="absolute right-0 mt-1 w-48 bg-white shadow-lg rounded-md overflow-hidden z-10 border border-gray-200">
-              <div className="py-1">
-                <button 
-                  onClick={() => {
-                    setCourseTypeFilter('all');
-                    setShowFilterOptions(false);
-                  }}
-                  className={`w-full px-4 py-2 text-left text-xs ${courseTypeFilter === 'all' ? 'bg-indigo-50 text-indigo-700' : 'hover:bg-gray-50'}`}
-                >
-                  All Courses
-                </button>
-                
-                <div className="px-3 py-1 text-xs font-medium text-gray-500 bg-gray-50">Course Type</div>
-                
-                <button 
-                  onClick={() => {
-                    setCourseTypeFilter('sprouts');
-                    setShowFilterOptions(false);
-                  }}
-                  className={`w-full px-4 py-2 text-left text-xs flex items-center ${courseTypeFilter === 'sprouts' ? 'bg-indigo-50 text-indigo-700' : 'hover:bg-gray-50'}`}
-                >
-                  <span className="w-2 h-2 mr-2 inline-block bg-purple-100 border-l-4 border-purple-500 rounded-sm"></span>
-                  Sprouts
-                </button>
-                
-                <button 
-                  onClick={() => {
-                    setCourseTypeFilter('clovers');
-                    setShowFilterOptions(false);
-                  }}
-                  className={`w-full px-4 py-2 text-left text-xs flex items-center ${courseTypeFilter === 'clovers' ? 'bg-indigo-50 text-indigo-700' : 'hover:bg-gray-50'}`}
-                >
-                  <span className="w-2 h-2 mr-2 inline-block bg-emerald-100 border-l-4 border-emerald-500 rounded-sm"></span>
-                  Clovers
-                </button>
-                
-                <button 
-                  onClick={() => {
-                    setCourseTypeFilter('guardians');
-                    setShowFilterOptions(false);
-                  }}
-                  className={`w-full px-4 py-2 text-left text-xs flex items-center ${courseTypeFilter === 'guardians' ? 'bg-indigo-50 text-indigo-700' : 'hover:bg-gray-50'}`}
-                >
-                  <span className="w-2 h-2 mr-2 inline-block bg-blue-100 border-l-4 border-blue-500 rounded-sm"></span>
-                  Guardians
-                </button>
-                
-                <button 
-                  onClick={() => {
-                    setCourseTypeFilter('workshops');
-                    setShowFilterOptions(false);
-                  }}
-                  className={`w-full px-4 py-2 text-left text-xs flex items-center ${courseTypeFilter === 'workshops' ? 'bg-indigo-50 text-indigo-700' : 'hover:bg-gray-50'}`}
-                >
-                  <span className="w-2 h-2 mr-2 inline-block bg-amber-100 border-l-4 border-amber-500 rounded-sm"></span>
-                  Workshops
-                </button>
-                
-                <button 
-                  onClick={() => {
-                    setCourseTypeFilter('advanced');
-                    setShowFilterOptions(false);
-                  }}
-                  className={`w-full px-4 py-2 text-left text-xs flex items-center ${courseTypeFilter === 'advanced' ? 'bg-indigo-50 text-indigo-700' : 'hover:bg-gray-50'}`}
-                >
-                  <span className="w-2 h-2 mr-2 inline-block bg-rose-100 border-l-4 border-rose-500 rounded-sm"></span>
-                  Advanced
-                </button>
-                
-                <div className="px-3 py-1 text-xs font-medium text-gray-500 bg-gray-50">Teacher Type</div>
-                
-                <button 
-                  onClick={() => {
-                    setCourseTypeFilter('ntled');
-                    setShowFilterOptions(false);
-                  }}
-                  className={`w-full px-4 py-2 text-left text-xs flex items-center ${courseTypeFilter === 'ntled' ? 'bg-indigo-50 text-indigo-700' : 'hover:bg-gray-50'}`}
-                >
-                  <span className="w-2 h-2 mr-2 inline-block bg-indigo-100 border border-indigo-500 rounded-sm"></span>
-                  NT-Led Only
-                </button>
-              </div>
-            </div>
-          )}
+        )}
+        <div className={`${canEdit && editHistory.length > 0 ? '' : 'ml-auto'} mr-2 flex items-center gap-1 text-xs text-gray-600`}>
+          <label htmlFor="axis-start">Hours</label>
+          <select
+            id="axis-start"
+            value={axisStartHour}
+            onChange={(e) => setAxisStartHour(Number(e.target.value))}
+            className="border border-gray-300 rounded py-0.5 text-xs"
+          >
+            {Array.from({ length: axisEndHour }, (_, hour) => (
+              <option key={hour} value={hour}>{formatMinutes(hour * 60)}</option>
+            ))}
+          </select>
+          <span>-</span>
+          <select
+            aria-label="Day end"
+            value={axisEndHour}
+            onChange={(e) => setAxisEndHour(Number(e.target.value))}
+            className="border border-gray-300 rounded py-0.5 text-xs"
+          >
+            {Array.from({ length: 24 - axisStartHour }, (_, i) => axisStartHour + 1 + i).map(hour => (
+              <option key={hour} value={hour}>{formatMinutes(hour * 60)}</option>
+            ))}
+          </select>
+          <label className="ml-2 flex items-center gap-1" title="Fold away the hours before the first and after the last class of the week">
+            <input type="checkbox" checked={compactHours} onChange={(e) => setCompactHours(e.target.checked)} />
+            Compact
+          </label>
         </div>
+        <CourseFilterMenu value={courseTypeFilter} onChange={setCourseTypeFilter} families={courseFamilies} />
       </div>
       
+      {canEdit && (dragged || savingEdit || editError) && (
+        <div className={`px-4 py-2 border-b text-xs print-hide ${
+          editError || (activeDropCheck && !activeDropCheck.allowed) ? 'bg-red-50 border-red-200 text-red-700' : 'bg-indigo-50 border-indigo-200 text-indigo-800'
+        }`}>
+          {editError ? (
+            <span>Could not save the change: {editError}</span>
+          ) : savingEdit ? (
+            <span>Saving...</span>
+          ) : activeDropCheck ? (
+            <>
+              {activeDropCheck.errors.map(message => <div key={message}>{message}</div>)}
+              {activeDropCheck.warnings.map(message => <div key={message} className="text-amber-700">{message}</div>)}
+              {activeDropCheck.allowed && activeDropCheck.errors.length === 0 && activeDropCheck.warnings.length === 0 && (
+                <span>No conflicts - drop to apply</span>
+              )}
+            </>
+          ) : (
+            <span>Drop the class on an hour to move it there, on a day&apos;s heading to keep its times, or on a teacher to reassign it</span>
+          )}
+        </div>
+      )}
+      
       {showEmptyStateForTeacher && (
         <div className="p-8 text-center">
           <svg className="mx-auto h-12 w-12 text-gray-400" fill="none" viewBox="0 0 24 24" stroke="currentColor" aria-hidden="true">
@@ -412,73 +654,253 @@ export default function WeeklyCalendar({
           <p className="mt-1 text-sm text-gray-500">
             {selectedTeacher?.Teacher_name} has no scheduled classes for the week of {format(weekStart, 'MMM d')}.
           </p>
+          {canEdit && (
+            <button
+              onClick={() => openNewEntry(parseDateValue(currentDate) || format(weekStart, 'yyyy-MM-dd'))}
+              className="mt-4 px-3 py-1 text-sm bg-indigo-600 text-white rounded hover:bg-indigo-700 print-hide"
+            >
+              Add a class
+            </button>
+          )}
         </div>
       )}
       
       {!showEmptyStateForTeacher && (
-        <div className="grid grid-cols-7 divide-x divide-gray-200">
-          {weekDays.map((day) => {
-            const dayEntries = entriesByDay.find(d => d.dateStr === day.dateStr)?.entries || [];
-            const entryCount = dayEntries.length;
-            
-            const ntLedCount = dayEntries.filter(entry => {
-              const ntLed = entry['NT-Led'];
-              return ntLed === true || (typeof ntLed === 'string' && ntLed.toLowerCase() === 'yes');
-            }).length;
-            
-            return (
-              <div key={day.dateStr} className={`flex flex-col ${day.isToday ? 'bg-blue-50' : ''}`}>
-                <div className="text-sm text-gray-600">{day.dayShort}</div>
-                <div className={`text-base ${
-                  day.dateStr === currentDate 
-                    ? 'text-indigo-600 font-bold' 
-                    : day.isToday 
-                      ? 'text-blue-600' 
-                      : ''
-                }`}>
-                  {day.displayDate}
-                  {day.isToday && <span className="ml-1 text-xs text-blue-600">(Today)</span>}
-                </div>
-                {entryCount > 0 && (
-                  <div className="mt-1 text-xs">
-                    <span className="bg-gray-100 rounded-full px-2 py-0.5">
-                      {entryCount} {entryCount === 1 ? 'class' : 'classes'}
-                    </span>
-                    {ntLedCount > 0 && (
-                      <span className="ml-1 bg-indigo-100 text-indigo-800 rounded-full px-2 py-0.5">
-                        {ntLedCount} NT-Led
-                      </span>
+        <div className="flex">
+          <div className="flex-grow min-w-0">
+            <div className="weekly-calendar-grid grid grid-cols-[3rem_repeat(7,minmax(0,1fr))] divide-x divide-gray-200 border-b border-gray-200">
+              <div />
+              {entriesByDay.map((day) => {
+                const dayEntries = day.entries;
+                const entryCount = dayEntries.length;
+              
+                const ntLedCount = dayEntries.filter(isNTLedEntry).length;
+                const cancelledCount = dayEntries.filter(entry => !isHeldEntry(entry)).length;
+              
+                const dayConflictCount = conflicts.filter(conflict => conflict.date === day.dateStr).length;
+                const dayAvailability = getDayAvailability(availability, day.dateStr);
+                const sameTimeTarget: DropTarget = { kind: 'slot', date: day.dateStr };
+              
+                return (
+                  <div 
+                    key={day.dateStr} 
+                    className={`flex flex-col px-1 pb-1 ${
+                      dayAvailability.unavailableAllDay ? 'bg-gray-100' : day.isToday ? 'bg-blue-50' : ''
+                    }`}
+                  >
+                    <div className="text-sm text-gray-600">{day.dayShort}</div>
+                    <div className={`text-base ${
+                      day.dateStr === currentDate 
+                        ? 'text-indigo-600 font-bold' 
+                        : day.isToday 
+                          ? 'text-blue-600' 
+                          : ''
+                    }`}>
+                      {day.displayDate}
+                      {day.isToday && <span className="ml-1 text-xs text-blue-600">(Today)</span>}
+                    </div>
+                    {entryCount > 0 && (
+                      <div className="mt-1 text-xs">
+                        <span className="bg-gray-100 rounded-full px-2 py-0.5">
+                          {entryCount} {entryCount === 1 ? 'class' : 'classes'}
+                        </span>
+                        {ntLedCount > 0 && (
+                          <span className="ml-1 bg-indigo-100 text-indigo-800 rounded-full px-2 py-0.5">
+                            {ntLedCount} NT-Led
+                          </span>
+                        )}
+                        {cancelledCount > 0 && (
+                          <span className="ml-1 bg-gray-200 text-gray-700 rounded-full px-2 py-0.5">
+                            {cancelledCount} cancelled
+                          </span>
+                        )}
+                        {dayConflictCount > 0 && (
+                          <span className="ml-1 bg-red-100 text-red-700 rounded-full px-2 py-0.5">
+                            {dayConflictCount} {dayConflictCount === 1 ? 'conflict' : 'conflicts'}
+                          </span>
+                        )}
+                      </div>
+                    )}
+                    {dayAvailability.unavailableAllDay ? (
+                      <div className="mt-1 text-xs text-gray-500 italic">{dayAvailability.detail}</div>
+                    ) : dayAvailability.windows.length > 0 && (
+                      <div className="mt-1 text-xs text-gray-500">
+                        Available {dayAvailability.windows.map(window => `${window.start}-${window.end}`).join(', ')}
+                      </div>
+                    )}
+                    {/* Classes without a start time can't be placed on the time axis */}
+                    {day.layout.untimed.length > 0 && (
+                      <div className="mt-1 space-y-1">
+                        {day.layout.untimed.map((entry, index) => renderEntry(entry, day.dateStr, index))}
+                      </div>
+                    )}
+                    {dragged && (
+                      <div
+                        {...getDropTargetProps(sameTimeTarget)}
+                        className={`mt-1 px-1 py-0.5 text-[10px] text-center rounded border border-dashed print-hide ${getDropTargetClass(sameTimeTarget)}`}
+                      >
+                        Same time
+                      </div>
                     )}
                   </div>
-                )}
-                <div className="flex-grow p-2 space-y-1 overflow-y-auto min-h-[100px] border-t border-gray-200">
-                  {dayEntries.length === 0 ? (
-                    <p className="text-xs text-gray-400 italic text-center mt-4">No classes</p>
-                  ) : (
-                    dayEntries.map((entry, index) => (
-                      <div 
-                        key={getUniqueEntryKey(entry, day.dateStr, index)} 
-                        onClick={() => handleEntryClick(entry)}
-                        className={`p-1.5 rounded-md text-xs cursor-pointer hover:opacity-80 transition-opacity ${getEntryClass(entry)}`}
+                );
+              })}
+            </div>
+            
+            <div className="weekly-calendar-grid grid grid-cols-[3rem_repeat(7,minmax(0,1fr))] divide-x divide-gray-200">
+              <div className="relative text-[10px] text-gray-500" style={{ height: timeAxis.totalHeight }}>
+                {timeAxis.hours.map(minute => (
+                  <span key={minute} className="absolute right-1 pt-0.5" style={{ top: timeAxis.offsetOf(minute) }}>
+                    {formatMinutes(minute)}
+                  </span>
+                ))}
+              </div>
+              {entriesByDay.map((day) => {
+                const dayAvailability = getDayAvailability(availability, day.dateStr);
+                const axisFrom = timeAxis.segments[0].start;
+                const axisTo = timeAxis.segments[timeAxis.segments.length - 1].end;
+              
+                return (
+                  <div
+                    key={day.dateStr}
+                    className={`relative ${dayAvailability.unavailableAllDay ? 'bg-gray-100' : day.isToday ? 'bg-blue-50' : ''}`}
+                    style={{ height: timeAxis.totalHeight }}
+                  >
+                    {timeAxis.segments.filter(segment => segment.collapsed).map(segment => (
+                      <div
+                        key={segment.start}
+                        title={`No classes ${formatMinutes(segment.start)}-${formatMinutes(segment.end)}`}
+                        className="absolute inset-x-0 bg-gray-50 border-y border-dashed border-gray-200"
+                        style={{ top: timeAxis.offsetOf(segment.start), height: segment.height }}
+                      />
+                    ))}
+                    {timeAxis.hours.map(minute => canEdit ? (
+                      <button
+                        key={minute}
+                        onClick={() => openNewEntry(day.dateStr, minute)}
+                        title={`Add a class at ${formatMinutes(minute)}`}
+                        className="absolute inset-x-0 border-t border-gray-100 hover:bg-indigo-50"
+                        style={{ top: timeAxis.offsetOf(minute), height: HOUR_HEIGHT }}
+                      />
+                    ) : (
+                      <div
+                        key={minute}
+                        className="absolute inset-x-0 border-t border-gray-100"
+                        style={{ top: timeAxis.offsetOf(minute), height: HOUR_HEIGHT }}
+                      />
+                    ))}
+                    {day.layout.positioned.map((item, index) => renderEntry(item.entry, day.dateStr, index, item))}
+                    {day.isToday && nowMinutes >= axisFrom && nowMinutes <= axisTo && (
+                      <div
+                        title={`Now ${formatMinutes(nowMinutes)}`}
+                        className="absolute inset-x-0 z-[2] border-t-2 border-red-500 pointer-events-none print-hide"
+                        style={{ top: timeAxis.offsetOf(nowMinutes) }}
                       >
-                        {/* Entry details - existing code */}
-                        {/* ... */}
+                        <span className="absolute -left-1 -top-[5px] h-2 w-2 rounded-full bg-red-500" />
                       </div>
-                    ))
-                  )}
-                </div>
+                    )}
+                    {dragged && timeAxis.hours.map(minute => {
+                      const target: DropTarget = { kind: 'slot', date: day.dateStr, start: formatMinutes(minute) };
+                      return (
+                        <div
+                          key={getDropTargetKey(target)}
+                          {...getDropTargetProps(target)}
+                          className={`absolute inset-x-0 z-[3] px-1 text-[10px] border border-dashed bg-opacity-60 print-hide ${getDropTargetClass(target)}`}
+                          style={{ top: timeAxis.offsetOf(minute), height: HOUR_HEIGHT }}
+                        >
+                          {target.start}
+                        </div>
+                      );
+                    })}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+          {canEdit && (
+            <aside className="w-40 shrink-0 border-l border-gray-200 print-hide">
+              <div className="px-2 py-2 text-xs font-medium text-gray-500 bg-gray-50 border-b border-gray-200">
+                Teachers
+                <span className="block font-normal">Drop a class on a teacher to reassign it</span>
               </div>
-            );
-          })}
+              <ul className="max-h-[32rem] overflow-y-auto p-1 space-y-1">
+                {[...teachers]
+                  .sort((a, b) => (a.Teacher_name || '').localeCompare(b.Teacher_name || ''))
+                  .map(teacher => {
+                    const target: DropTarget = { kind: 'teacher', teacher };
+                    return (
+                      <li
+                        key={teacher.Teacher_ID}
+                        {...(dragged ? getDropTargetProps(target) : {})}
+                        className={`px-2 py-1 text-xs rounded border ${dragged ? `border-dashed ${getDropTargetClass(target)}` : 'border-transparent text-gray-700'}`}
+                      >
+                        <span className="block truncate">{teacher.Teacher_name}</span>
+                        {teacher.Teacher_Type && <span className="block text-[10px] opacity-75">{teacher.Teacher_Type}</span>}
+                      </li>
+                    );
+                  })}
+              </ul>
+            </aside>
+          )}
         </div>
       )}
       
+      <div className="calendar-legend px-4 py-2 border-t border-gray-200 flex flex-wrap gap-x-4 gap-y-1 text-xs text-gray-600">
+        {getCourseLegend(courseFamilies).map(item => (
+          <span key={item.label} className="inline-flex items-center">
+            <span className={`w-3 h-3 mr-1 inline-block border-l-4 rounded-sm ${item.color.className}`}></span>
+            {item.label}
+          </span>
+        ))}
+      </div>
+      
       {selectedEntry && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center">
-          <div className="bg-white p-8 rounded-lg shadow-lg">
+          <div className="bg-white p-8 rounded-lg shadow-lg w-full max-w-md">
             <h2 className="text-2xl font-bold mb-4">{selectedEntry.Course} - {selectedEntry.Level}</h2>
-            <p>{selectedEntry.Description}</p>
-            <p>{getTimeRange(selectedEntry)}</p>
+            <p>{selectedEntry.Unit}</p>
+            <p className={isHeldEntry(selectedEntry) ? '' : 'line-through'}>
+              {format(parseISO(getEntryDate(selectedEntry) || currentDate), 'EEE MMM d')} {getTimeRange(selectedEntry)}
+            </p>
+            {getEntryStatus(selectedEntry) !== 'scheduled' && (
+              <p className="mt-2 text-sm">
+                <span className="font-medium">{ENTRY_STATUS_LABELS[getEntryStatus(selectedEntry)]}</span>
+                {selectedEntry.Status_Reason && <span>: {selectedEntry.Status_Reason}</span>}
+              </p>
+            )}
+            {selectedMakeup && (
+              <p className="text-sm text-gray-600">
+                Made up on {format(parseISO(getEntryDate(selectedMakeup)), 'EEE MMM d')} {getTimeRange(selectedMakeup)}
+              </p>
+            )}
+            {selectedOriginal && (
+              <p className="text-sm text-gray-600">
+                Replaces the class on {format(parseISO(getEntryDate(selectedOriginal)), 'EEE MMM d')} {getTimeRange(selectedOriginal)}
+              </p>
+            )}
+            {getConflictsForEntry(conflicts, selectedEntry).map(conflict => (
+              <p key={conflict.id} className="mt-2 text-sm text-red-700">{conflict.message}</p>
+            ))}
+            {selectedTable && canEdit && (
+              <button
+                onClick={() => {
+                  setEditorTarget({ entry: selectedEntry, tableName: selectedTable });
+                  closeModal();
+                }}
+                className="mt-4 mr-2 px-4 py-2 bg-gray-200 text-gray-700 rounded hover:bg-gray-300"
+              >
+                Edit
+              </button>
+            )}
+            {selectedTable && (
+              <RescheduleDialog
+                key={`${selectedTable}-${selectedEntry.id}`}
+                entry={selectedEntry}
+                tableName={selectedTable}
+                onChanged={() => onRefreshRequest?.()}
+                onClose={closeModal}
+              />
+            )}
             <button 
               onClick={closeModal}
               className="mt-4 bg-indigo-500 text-white px-4 py-2 rounded"
@@ -488,6 +910,20 @@ export default function WeeklyCalendar({
           </div>
         </div>
       )}
+      
+      {editorTarget && (
+        <EntryEditor
+          key={editorTarget.entry ? `${editorTarget.tableName}-${editorTarget.entry.id}` : `new-${editorTarget.defaults?.Date}`}
+          entry={editorTarget.entry}
+          tableName={editorTarget.tableName}
+          defaults={editorTarget.defaults}
+          teachers={teachers}
+          assignments={assignments}
+          teacherAvailability={teacherAvailability}
+          onSubmit={saveEntry}
+          onClose={() => setEditorTarget(null)}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,83 @@
+import type { CalendarEntry } from '@/lib/supabase/data';
+import { getCalendarEntries, getCalendarTables, getClassAssignments, getStoredCalendarEntry } from '@/lib/supabase/data';
+import { RepositoryError } from '@/lib/repository';
+import { compareEntries, isNTLedEntry } from '@/lib/scheduling/normalize';
+import { ApiError } from './response';
+
+/**
+ * A calendar entry as returned by the REST API, tagged with the table it belongs to
+ * (entry IDs are only unique within a table)
+ */
+export type ApiCalendarEntry = CalendarEntry & { tableName: string };
+
+export interface EntryFilters {
+  tableName?: string;
+  from?: string;
+  to?: string;
+  teacherId?: number;
+  /** Case-insensitive part of the course name */
+  course?: string;
+  ntLed?: boolean;
+}
+
+function compareApiEntries(a: ApiCalendarEntry, b: ApiCalendarEntry): number {
+  return compareEntries(a, b) ||
+    a.tableName.localeCompare(b.tableName) ||
+    a.id - b.id;
+}
+
+/**
+ * Find calendar entries across tables, ordered by date and start time
+ */
+export async function queryEntries(filters: EntryFilters): Promise<ApiCalendarEntry[]> {
+  let entries: ApiCalendarEntry[];
+
+  if (filters.teacherId !== undefined) {
+    // Teacher filtering goes through the resolved assignments, including recorded substitutions
+    const { assignments } = await getClassAssignments({
+      from: filters.from,
+      to: filters.to,
+      teacherId: filters.teacherId
+    });
+    const seen = new Set<string>();
+    entries = assignments
+      .filter(assignment => {
+        if (filters.tableName && assignment.tableName !== filters.tableName) return false;
+        if (seen.has(assignment.entryKey)) return false;
+        seen.add(assignment.entryKey);
+        return true;
+      })
+      .map(assignment => ({ ...assignment.entry, tableName: assignment.tableName }));
+  } else {
+    const tables = filters.tableName ? [filters.tableName] : await getCalendarTables();
+    const range = { from: filters.from, to: filters.to };
+    const tableEntries = await Promise.all(
+      tables.map(async tableName => (await getCalendarEntries(tableName, range)).map(entry => ({ ...entry, tableName })))
+    );
+    entries = tableEntries.flat();
+  }
+
+  const course = filters.course?.toLowerCase();
+  return entries
+    .filter(entry => !course || (entry.Course || '').toLowerCase().includes(course))
+    .filter(entry => filters.ntLed === undefined || isNTLedEntry(entry) === filters.ntLed)
+    .sort(compareApiEntries);
+}
+
+/**
+ * Read a single calendar entry from the database, or throw a not_found ApiError when it does not
+ * exist and an offline one when the database cannot be reached (never answered with fallback data)
+ */
+export async function getEntryOrThrow(tableName: string, id: number): Promise<ApiCalendarEntry> {
+  try {
+    return { ...await getStoredCalendarEntry(tableName, id), tableName };
+  } catch (err) {
+    if (err instanceof RepositoryError && err.code === 'not_found') {
+      throw new ApiError('not_found', err.message);
+    }
+    if (err instanceof RepositoryError && err.code === 'unavailable') {
+      throw new ApiError('offline', err.message);
+    }
+    throw err;
+  }
+}
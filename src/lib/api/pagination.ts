@@ -0,0 +1,50 @@
+import { ApiError } from './response';
+
+export interface PaginationInfo {
+  page: number;
+  pageSize: number;
+  totalCount: number;
+  totalPages: number;
+}
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 500;
+
+/**
+ * Read the page and pageSize query parameters (1-based pages)
+ */
+export function parsePagination(searchParams: URLSearchParams): { page: number; pageSize: number } {
+  const page = Number(searchParams.get('page') ?? 1);
+  const pageSize = Number(searchParams.get('pageSize') ?? DEFAULT_PAGE_SIZE);
+  const problems: string[] = [];
+
+  if (!Number.isInteger(page) || page < 1) {
+    problems.push('page must be a positive whole number');
+  }
+  if (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > MAX_PAGE_SIZE) {
+    problems.push(`pageSize must be a whole number between 1 and ${MAX_PAGE_SIZE}`);
+  }
+  if (problems.length > 0) {
+    throw new ApiError('validation_error', 'Invalid pagination parameters', problems);
+  }
+
+  return { page, pageSize };
+}
+
+/**
+ * Take one page of items
+ */
+export function paginate<T>(
+  items: T[],
+  { page, pageSize }: { page: number; pageSize: number }
+): { items: T[]; pagination: PaginationInfo } {
+  return {
+    items: items.slice((page - 1) * pageSize, page * pageSize),
+    pagination: {
+      page,
+      pageSize,
+      totalCount: items.length,
+      totalPages: Math.max(1, Math.ceil(items.length / pageSize))
+    }
+  };
+}
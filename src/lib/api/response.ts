@@ -0,0 +1,135 @@
+import { NextResponse } from 'next/server';
+import { getFallbackUsageCount } from '@/lib/supabase/data';
+import { supabaseService } from '@/lib/supabase/service';
+import { RepositoryError } from '@/lib/repository';
+import type { PaginationInfo } from './pagination';
+
+/**
+ * Where the data of a response came from. "fallback" means at least part of it is
+ * generated sample data because the database was offline, empty or failing.
+ */
+export type DataSource = 'database' | 'fallback';
+
+export type ApiErrorCode =
+  | 'validation_error'
+  | 'not_found'
+  | 'offline'
+  | 'internal_error';
+
+/**
+ * Metadata sent with every REST API response
+ */
+export interface ApiMeta {
+  source: DataSource;
+  isOffline: boolean;
+  pagination?: PaginationInfo;
+}
+
+export interface ApiSuccessBody<T> {
+  data: T;
+  meta: ApiMeta;
+}
+
+export interface ApiErrorBody {
+  error: {
+    code: ApiErrorCode;
+    message: string;
+    /** Per-field problems for validation errors */
+    details?: string[];
+  };
+  meta: ApiMeta;
+}
+
+const STATUS_BY_CODE: Record<ApiErrorCode, number> = {
+  validation_error: 400,
+  not_found: 404,
+  offline: 503,
+  internal_error: 500
+};
+
+/**
+ * An error a route handler throws to send a specific error response
+ */
+export class ApiError extends Error {
+  readonly code: ApiErrorCode;
+  readonly details?: string[];
+
+  constructor(code: ApiErrorCode, message: string, details?: string[]) {
+    super(message);
+    this.name = 'ApiError';
+    this.code = code;
+    this.details = details;
+  }
+
+  get status(): number {
+    return STATUS_BY_CODE[this.code];
+  }
+}
+
+/**
+ * Run a data loader and report whether its result came from the database or from fallback data,
+ * following the offline/fallback rules of the data layer.
+ * Concurrent requests that use fallback data can make a database result be reported as fallback,
+ * never the other way round.
+ */
+export async function withDataSource<T>(load: () => Promise<T>): Promise<{ data: T; source: DataSource }> {
+  const fallbackCountBefore = getFallbackUsageCount();
+  const offlineBefore = supabaseService.isOffline();
+
+  const data = await load();
+
+  const usedFallback = offlineBefore || supabaseService.isOffline() || getFallbackUsageCount() !== fallbackCountBefore;
+  return { data, source: usedFallback ? 'fallback' : 'database' };
+}
+
+function buildMeta(source: DataSource, pagination?: PaginationInfo): ApiMeta {
+  return {
+    source,
+    isOffline: supabaseService.isOffline(),
+    ...(pagination ? { pagination } : {})
+  };
+}
+
+/**
+ * Send a successful response in the API envelope
+ */
+export function apiSuccess<T>(
+  data: T,
+  options: { source?: DataSource; pagination?: PaginationInfo; status?: number } = {}
+): NextResponse<ApiSuccessBody<T>> {
+  return NextResponse.json(
+    { data, meta: buildMeta(options.source ?? 'database', options.pagination) },
+    { status: options.status ?? 200 }
+  );
+}
+
+/**
+ * Turn any error thrown by a route handler into an error response in the API envelope
+ */
+export function apiError(error: unknown, context: string): NextResponse<ApiErrorBody> {
+  let apiErr: ApiError;
+
+  if (error instanceof ApiError) {
+    apiErr = error;
+  } else if (error instanceof RepositoryError && error.code === 'not_found') {
+    // Updating an unknown id
+    apiErr = new ApiError('not_found', 'Entry not found');
+  } else if (error instanceof RepositoryError && error.code === 'unavailable') {
+    apiErr = new ApiError('offline', error.message);
+  } else {
+    console.error(`${context}:`, error);
+    apiErr = new ApiError('internal_error', error instanceof Error ? error.message : 'Unknown error');
+  }
+
+  return NextResponse.json(
+    {
+      error: {
+        code: apiErr.code,
+        message: apiErr.message,
+        ...(apiErr.details ? { details: apiErr.details } : {})
+      },
+      meta: buildMeta(supabaseService.isOffline() ? 'fallback' : 'database')
+    },
+    { status: apiErr.status }
+  );
+}
@@ -0,0 +1,220 @@
+import { differenceInCalendarDays, isValid, parseISO } from 'date-fns';
+import type { CalendarEntry } from '@/lib/supabase/data';
+import { getCalendarTables } from '@/lib/supabase/data';
+import { ENTRY_STATUSES, EntryStatus } from '@/lib/scheduling/normalize';
+import { parseTimeToMinutes } from '@/lib/scheduling/time';
+import { ApiError } from './response';
+
+export type EntryInput = Omit<CalendarEntry, 'id'>;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_PATTERN = /^\d{2}:\d{2}$/;
+
+// Longest date range a single request may ask for
+export const MAX_RANGE_DAYS = 366;
+
+const TEXT_FIELDS = ['Course', 'Level', 'Unit', 'Class.ID', 'Day1', 'Day2', 'Meeting', 'Status_Reason'] as const;
+const ENTRY_FIELDS = ['Visit', 'Date', 'Start', 'End', 'NT-Led', 'Status', 'Makeup_Of', ...TEXT_FIELDS];
+const REQUIRED_ENTRY_FIELDS = ['Visit', 'Date', 'Course', 'Level'];
+
+function isDate(value: string): boolean {
+  return DATE_PATTERN.test(value) && isValid(parseISO(value));
+}
+
+/**
+ * Read an optional yyyy-MM-dd query parameter
+ */
+export function parseDateParam(searchParams: URLSearchParams, name: string): string | undefined {
+  const value = searchParams.get(name);
+  if (value === null || value === '') return undefined;
+  if (!isDate(value)) {
+    throw new ApiError('validation_error', `${name} must be a date in yyyy-MM-dd format`);
+  }
+  return value;
+}
+
+/**
+ * Read the from/to query parameters, checking their order and the maximum range length
+ */
+export function parseDateRange(
+  searchParams: URLSearchParams,
+  { required = false }: { required?: boolean } = {}
+): { from?: string; to?: string } {
+  const from = parseDateParam(searchParams, 'from');
+  const to = parseDateParam(searchParams, 'to');
+
+  if (required && (!from || !to)) {
+    throw new ApiError('validation_error', 'from and to are required');
+  }
+  if (from && to) {
+    const days = differenceInCalendarDays(parseISO(to), parseISO(from));
+    if (days < 0) {
+      throw new ApiError('validation_error', 'to must not be before from');
+    }
+    if (days >= MAX_RANGE_DAYS) {
+      throw new ApiError('validation_error', `Date ranges are limited to ${MAX_RANGE_DAYS} days`);
+    }
+  }
+
+  return { from, to };
+}
+
+/**
+ * Read an optional yes/no query parameter
+ */
+export function parseBooleanParam(searchParams: URLSearchParams, name: string): boolean | undefined {
+  const value = searchParams.get(name);
+  if (value === null || value === '') return undefined;
+  if (['true', 'yes', '1'].includes(value.toLowerCase())) return true;
+  if (['false', 'no', '0'].includes(value.toLowerCase())) return false;
+  throw new ApiError('validation_error', `${name} must be true or false`);
+}
+
+/**
+ * Parse a positive whole-number ID from a path segment or query parameter
+ */
+export function parseId(value: string | null, label: string): number {
+  const id = Number(value);
+  if (value === null || value === '' || !Number.isInteger(id) || id <= 0) {
+    throw new ApiError('validation_error', `Invalid ${label}`);
+  }
+  return id;
+}
+
+/**
+ * Check that a table is a known Course-Calendar table
+ */
+export async function requireCalendarTable(tableName: string | null): Promise<string> {
+  if (!tableName) {
+    throw new ApiError('validation_error', 'tableName is required');
+  }
+
+  const tables = await getCalendarTables();
+  if (!tables.includes(tableName)) {
+    throw new ApiError('not_found', `Calendar table ${tableName} not found`);
+  }
+  return tableName;
+}
+
+/**
+ * Read a JSON request body
+ */
+export async function readJsonBody(request: Request): Promise<Record<string, unknown>> {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    throw new ApiError('validation_error', 'Request body must be valid JSON');
+  }
+
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    throw new ApiError('validation_error', 'Request body must be a JSON object');
+  }
+  return body as Record<string, unknown>;
+}
+
+/**
+ * Validate calendar entry fields from a request body.
+ * A full entry needs Visit, Date, Course and Level; a partial one (for updates) only the fields it changes.
+ */
+export function validateEntryInput(input: unknown, { partial }: { partial: boolean }): Partial<EntryInput> {
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    throw new ApiError('validation_error', 'entry must be a JSON object');
+  }
+
+  const values = input as Record<string, unknown>;
+  const problems: string[] = [];
+  const entry: Partial<EntryInput> = {};
+
+  Object.keys(values).forEach(field => {
+    if (field === 'id') {
+      problems.push('id is assigned by the database and cannot be set');
+    } else if (!ENTRY_FIELDS.includes(field)) {
+      problems.push(`Unknown field ${field}`);
+    }
+  });
+
+  if (!partial) {
+    REQUIRED_ENTRY_FIELDS.forEach(field => {
+      if (values[field] === undefined || values[field] === null || values[field] === '') {
+        problems.push(`${field} is required`);
+      }
+    });
+  }
+
+  const has = (field: string) => values[field] !== undefined;
+
+  if (has('Visit')) {
+    if (typeof values.Visit !== 'number' || !Number.isInteger(values.Visit) || values.Visit < 1) {
+      problems.push('Visit must be a positive whole number');
+    } else {
+      entry.Visit = values.Visit;
+    }
+  }
+
+  if (has('Date')) {
+    if (typeof values.Date !== 'string' || !isDate(values.Date)) {
+      problems.push('Date must be a date in yyyy-MM-dd format');
+    } else {
+      entry.Date = values.Date;
+    }
+  }
+
+  (['Start', 'End'] as const).forEach(field => {
+    if (!has(field)) return;
+    const value = values[field];
+    if (typeof value !== 'string' || !TIME_PATTERN.test(value) || parseTimeToMinutes(value) === null) {
+      problems.push(`${field} must be a time in HH:mm format`);
+    } else {
+      entry[field] = value;
+    }
+  });
+  if (entry.Start && entry.End && entry.End <= entry.Start) {
+    problems.push('End must be after Start');
+  }
+
+  if (has('NT-Led')) {
+    if (typeof values['NT-Led'] !== 'boolean') {
+      problems.push('NT-Led must be true or false');
+    } else {
+      entry['NT-Led'] = values['NT-Led'];
+    }
+  }
+
+  if (has('Status')) {
+    if (values.Status !== null && !ENTRY_STATUSES.includes(values.Status as EntryStatus)) {
+      problems.push(`Status must be one of ${ENTRY_STATUSES.join(', ')}`);
+    } else {
+      entry.Status = values.Status as EntryStatus | null;
+    }
+  }
+
+  if (has('Makeup_Of')) {
+    const value = values.Makeup_Of;
+    if (value !== null && (typeof value !== 'number' || !Number.isInteger(value) || value < 1)) {
+      problems.push('Makeup_Of must be an entry ID');
+    } else {
+      entry.Makeup_Of = value as number | null;
+    }
+  }
+
+  TEXT_FIELDS.forEach(field => {
+    if (!has(field)) return;
+    const value = values[field];
+    if (value !== null && typeof value !== 'string') {
+      problems.push(`${field} must be text`);
+    } else {
+      // null clears the column
+      (entry as Record<string, unknown>)[field] = value === null ? null : value.trim();
+    }
+  });
+
+  if (partial && Object.keys(entry).length === 0 && problems.length === 0) {
+    problems.push('No fields to update');
+  }
+
+  if (problems.length > 0) {
+    throw new ApiError('validation_error', 'Invalid calendar entry', problems);
+  }
+  return entry;
+}
@@ -0,0 +1,16 @@
+/**
+ * Cell values a CSV export can hold; undefined is written as an empty cell
+ */
+export type CsvValue = string | number | undefined;
+
+function toCsvCell(value: CsvValue): string {
+  const text = value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Write rows as CSV with CRLF line endings, quoting cells that need it
+ */
+export function toCsv(rows: CsvValue[][]): string {
+  return rows.map(row => row.map(toCsvCell).join(',')).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,196 @@
+import { addDays, format, parseISO } from 'date-fns';
+import type { ClassAssignment } from '@/lib/scheduling/assignments';
+import { compareEntries, getEntryDate, isNTLedEntry, normalizeEntry } from '@/lib/scheduling/normalize';
+import { ENTRY_STATUS_LABELS } from '@/lib/scheduling/reschedule';
+
+/**
+ * Options for building an iCalendar feed
+ */
+export interface IcsCalendarOptions {
+  /** Calendar name shown by calendar apps (X-WR-CALNAME) */
+  calendarName: string;
+  /**
+   * IANA timezone the calendar times are in, e.g. "Asia/Shanghai". Event times are converted to UTC
+   * with it, so no VTIMEZONE definition is needed. Times are floating when omitted
+   */
+  timezone?: string;
+  /** Suggested refresh interval for subscribers, in minutes */
+  refreshMinutes?: number;
+}
+
+const PRODUCT_ID = '-//Teaching Scheduler 6//Teacher Schedule//EN';
+const UID_DOMAIN = 'teaching-scheduler-6';
+const DEFAULT_REFRESH_MINUTES = 60;
+
+// RFC 5545 lines must not exceed 75 octets; longer lines are folded
+const MAX_LINE_OCTETS = 75;
+
+/**
+ * Escape a TEXT value (RFC 5545 section 3.3.11)
+ */
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Fold a content line into 75-octet chunks, continuing with a leading space
+ */
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= MAX_LINE_OCTETS) return line;
+
+  const parts: string[] = [];
+  let current = '';
+  for (const char of line) {
+    // Continuation lines start with a space, which counts towards their length
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (encoder.encode(current + char).length > limit) {
+      parts.push(current);
+      current = '';
+    }
+    current += char;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+}
+
+function formatUtcTimestamp(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function formatLocalDateTime(date: string, minutes: number): string {
+  const hours = String(Math.floor(minutes / 60)).padStart(2, '0');
+  const mins = String(minutes % 60).padStart(2, '0');
+  return `${date.replace(/-/g, '')}T${hours}${mins}00`;
+}
+
+/**
+ * Offset of `timezone` from UTC at `instant`, in milliseconds
+ */
+function getTimezoneOffset(instant: Date, timezone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric'
+  }).formatToParts(instant);
+  const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(p => p.type === type)?.value);
+
+  const wallClock = Date.UTC(part('year'), part('month') - 1, part('day'), part('hour'), part('minute'), part('second'));
+  return wallClock - instant.getTime();
+}
+
+/**
+ * Format a wall-clock time in `timezone` as a UTC date-time ("...Z")
+ */
+function formatZonedDateTime(date: string, minutes: number, timezone: string): string {
+  const [year, month, day] = date.split('-').map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, 0, minutes);
+
+  // The offset at the wall-clock time itself; correct once in case a DST change lies in between
+  let instant = wallClock - getTimezoneOffset(new Date(wallClock), timezone);
+  instant = wallClock - getTimezoneOffset(new Date(instant), timezone);
+
+  return formatUtcTimestamp(new Date(instant));
+}
+
+/**
+ * Build a UID that stays the same for a calendar row across feed refreshes
+ */
+export function getEventUid(tableName: string, entryId: number): string {
+  return `${tableName.replace(/[^A-Za-z0-9-]/g, '-')}-${entryId}@${UID_DOMAIN}`;
+}
+
+function buildDescription(assignment: ClassAssignment): string {
+  const { entry } = assignment;
+  const lines = [
+    `Course: ${entry.Course || 'Unknown'}`,
+    `Level: ${entry.Level || 'Unknown'}`,
+    entry.Unit ? `Unit: ${entry.Unit}` : null,
+    entry['Class.ID'] ? `Class.ID: ${entry['Class.ID']}` : null,
+    `NT-Led: ${isNTLedEntry(entry) ? 'Yes' : 'No'}`,
+    `Role: ${assignment.role === 'lead' ? 'Lead' : 'Assistant'}`,
+    assignment.substituteFor ? `Covering for: ${assignment.substituteFor.teacherName}` : null,
+    entry.Status_Reason ? `Reason: ${entry.Status_Reason}` : null
+  ];
+  return lines.filter(line => line !== null).join('\n');
+}
+
+function buildEvent(assignment: ClassAssignment, stamp: string, timezone?: string): string[] {
+  const { entry } = assignment;
+  const { date, startMinutes: start, endMinutes: end, durationMinutes, ntLed, status } = normalizeEntry(entry);
+  const formatTime = (minutes: number) => timezone
+    ? formatZonedDateTime(date, minutes, timezone)
+    : formatLocalDateTime(date, minutes);
+
+  const timing = start !== null && end !== null && durationMinutes !== null
+    ? [
+        `DTSTART:${formatTime(start)}`,
+        `DTEND:${formatTime(end)}`
+      ]
+    : [
+        // Classes without usable times become all-day events
+        `DTSTART;VALUE=DATE:${date.replace(/-/g, '')}`,
+        `DTEND;VALUE=DATE:${format(addDays(parseISO(date), 1), 'yyyyMMdd')}`
+      ];
+
+  const summary = (status !== 'scheduled' ? `${ENTRY_STATUS_LABELS[status]}: ` : '') +
+    `${entry.Course || 'Class'} ${entry.Level || ''}`.trim() + (ntLed ? ' (NT-Led)' : '');
+  // Calendar apps show cancelled events struck through or hide them
+  const cancelled = status === 'cancelled' || status === 'rescheduled';
+
+  return [
+    'BEGIN:VEVENT',
+    `UID:${getEventUid(assignment.tableName, entry.id)}`,
+    `DTSTAMP:${stamp}`,
+    ...timing,
+    `SUMMARY:${escapeText(summary)}`,
+    `DESCRIPTION:${escapeText(buildDescription(assignment))}`,
+    ...(cancelled ? ['STATUS:CANCELLED'] : []),
+    'END:VEVENT'
+  ];
+}
+
+/**
+ * Build an iCalendar (RFC 5545) document with one VEVENT per class in `assignments`.
+ * A class the teacher appears in more than once (e.g. both Day1 and Day2) is exported once.
+ */
+export function buildIcsCalendar(assignments: ClassAssignment[], options: IcsCalendarOptions): string {
+  const stamp = formatUtcTimestamp(new Date());
+  const refreshMinutes = options.refreshMinutes ?? DEFAULT_REFRESH_MINUTES;
+
+  const seen = new Set<string>();
+  const events = assignments
+    .filter(assignment => {
+      if (!getEntryDate(assignment.entry) || seen.has(assignment.entryKey)) return false;
+      seen.add(assignment.entryKey);
+      return true;
+    })
+    .sort((a, b) => compareEntries(a.entry, b.entry))
+    .flatMap(assignment => buildEvent(assignment, stamp, options.timezone));
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(options.calendarName)}`,
+    ...(options.timezone ? [`X-WR-TIMEZONE:${options.timezone}`] : []),
+    `REFRESH-INTERVAL;VALUE=DURATION:PT${refreshMinutes}M`,
+    `X-PUBLISHED-TTL:PT${refreshMinutes}M`,
+    ...events,
+    'END:VCALENDAR'
+  ];
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
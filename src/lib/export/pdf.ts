@@ -0,0 +1,205 @@
+import PDFDocument from 'pdfkit';
+import { addDays, format } from 'date-fns';
+import type { ClassAssignment } from '@/lib/scheduling/assignments';
+import { compareByStartTime, getEntryDate, getEntryStatus, isNTLedEntry } from '@/lib/scheduling/normalize';
+import { ENTRY_STATUS_LABELS } from '@/lib/scheduling/reschedule';
+import { TeacherAvailability, getDayAvailability } from '@/lib/scheduling/availability';
+import { getCourseColor, getCourseLegend } from '@/lib/scheduling/courseColors';
+import type { CourseFamilyDefinition } from '@/lib/scheduling/courseCatalogue';
+
+/**
+ * One teacher's week in a printed timetable
+ */
+export interface TimetablePage {
+  teacherName: string;
+  teacherType?: string;
+  assignments: ClassAssignment[];
+  availability?: TeacherAvailability;
+}
+
+export interface TimetablePdfOptions {
+  /** Monday of the week being printed */
+  weekStart: Date;
+  /** Document title stored in the PDF metadata */
+  title?: string;
+  /** The course catalogue classes are coloured by */
+  families: CourseFamilyDefinition[];
+}
+
+// A4 landscape, in points
+const PAGE_MARGIN = 30;
+const HEADER_HEIGHT = 44;
+const DAY_HEADER_HEIGHT = 22;
+const LEGEND_HEIGHT = 24;
+const ENTRY_HEIGHT = 44;
+const ENTRY_GAP = 4;
+const ENTRY_PADDING = 4;
+const STRIPE_WIDTH = 3;
+
+const GRID_LINE_COLOR = '#d1d5db';
+const MUTED_TEXT_COLOR = '#6b7280';
+const UNAVAILABLE_FILL_COLOR = '#f3f4f6';
+
+/**
+ * Keep a teacher's classes of one day once each (a teacher can appear as both Day1 and Day2),
+ * ordered by start time
+ */
+function getDayAssignments(assignments: ClassAssignment[], date: string): ClassAssignment[] {
+  const seen = new Set<string>();
+  return assignments
+    .filter(assignment => {
+      if (getEntryDate(assignment.entry) !== date || seen.has(assignment.entryKey)) return false;
+      seen.add(assignment.entryKey);
+      return true;
+    })
+    .sort((a, b) => compareByStartTime(a.entry, b.entry));
+}
+
+function drawEntry(
+  doc: PDFKit.PDFDocument,
+  assignment: ClassAssignment,
+  families: CourseFamilyDefinition[],
+  x: number,
+  y: number,
+  width: number
+): void {
+  const { entry } = assignment;
+  const color = getCourseColor(entry, families);
+  const textWidth = width - STRIPE_WIDTH - ENTRY_PADDING * 2;
+  const textX = x + STRIPE_WIDTH + ENTRY_PADDING;
+  const line = { width: textWidth, lineBreak: false, ellipsis: true };
+
+  doc.rect(x, y, width, ENTRY_HEIGHT).fill(color.background);
+  doc.rect(x, y, STRIPE_WIDTH, ENTRY_HEIGHT).fill(color.border);
+
+  const status = getEntryStatus(entry);
+  const tags = [
+    status !== 'scheduled' ? ENTRY_STATUS_LABELS[status] : null,
+    isNTLedEntry(entry) ? 'NT-Led' : null,
+    assignment.role === 'assistant' ? 'Assistant' : null,
+    assignment.substituteFor ? `Covering ${assignment.substituteFor.teacherName}` : null
+  ].filter(tag => tag !== null).join(' · ');
+
+  doc.fillColor(color.text).font('Helvetica-Bold').fontSize(8)
+    .text(`${entry.Start || 'TBD'} - ${entry.End || 'TBD'}`, textX, y + ENTRY_PADDING, line);
+  doc.font('Helvetica').fontSize(7.5)
+    .text(`${entry.Course || 'Class'} ${entry.Level || ''}`.trim(), textX, y + ENTRY_PADDING + 10, line);
+  doc.fontSize(7)
+    .text([entry['Class.ID'], entry.Unit ? `Unit ${entry.Unit}` : null].filter(Boolean).join(' · '), textX, y + ENTRY_PADDING + 19, line);
+  if (tags) {
+    doc.font('Helvetica-Bold').fontSize(6.5).text(tags.toUpperCase(), textX, y + ENTRY_PADDING + 28, line);
+  }
+}
+
+function drawLegend(doc: PDFKit.PDFDocument, families: CourseFamilyDefinition[], y: number): void {
+  let x = PAGE_MARGIN;
+  doc.font('Helvetica').fontSize(8);
+
+  getCourseLegend(families).forEach(item => {
+    doc.rect(x, y, 10, 10).fill(item.color.background);
+    doc.rect(x, y, STRIPE_WIDTH, 10).fill(item.color.border);
+    doc.fillColor('#374151').text(item.label, x + 14, y + 1, { lineBreak: false });
+    x += 14 + doc.widthOfString(item.label) + 16;
+  });
+}
+
+function drawPage(doc: PDFKit.PDFDocument, page: TimetablePage, options: TimetablePdfOptions): void {
+  const { weekStart, families } = options;
+  const pageWidth = doc.page.width - PAGE_MARGIN * 2;
+  const gridTop = PAGE_MARGIN + HEADER_HEIGHT;
+  const gridBottom = doc.page.height - PAGE_MARGIN - LEGEND_HEIGHT;
+  const columnWidth = pageWidth / 7;
+  const weekEnd = addDays(weekStart, 6);
+
+  // Header: teacher and week range
+  doc.fillColor('#111827').font('Helvetica-Bold').fontSize(16)
+    .text(page.teacherName, PAGE_MARGIN, PAGE_MARGIN, { lineBreak: false });
+  doc.fillColor(MUTED_TEXT_COLOR).font('Helvetica').fontSize(10)
+    .text(
+      `Week of ${format(weekStart, 'EEE MMM d')} - ${format(weekEnd, 'EEE MMM d, yyyy')}` +
+        (page.teacherType ? `  ·  ${page.teacherType}` : ''),
+      PAGE_MARGIN,
+      PAGE_MARGIN + 20,
+      { lineBreak: false }
+    );
+
+  for (let day = 0; day < 7; day++) {
+    const date = addDays(weekStart, day);
+    const dateStr = format(date, 'yyyy-MM-dd');
+    const x = PAGE_MARGIN + day * columnWidth;
+    const dayAvailability = getDayAvailability(page.availability, dateStr);
+
+    if (dayAvailability.unavailableAllDay) {
+      doc.rect(x, gridTop, columnWidth, gridBottom - gridTop).fill(UNAVAILABLE_FILL_COLOR);
+    }
+
+    doc.fillColor('#111827').font('Helvetica-Bold').fontSize(9)
+      .text(format(date, 'EEE MMM d'), x + ENTRY_PADDING, gridTop + 6, { width: columnWidth - ENTRY_PADDING * 2, lineBreak: false });
+
+    let y = gridTop + DAY_HEADER_HEIGHT + ENTRY_GAP;
+    if (dayAvailability.unavailableAllDay && dayAvailability.detail) {
+      doc.fillColor(MUTED_TEXT_COLOR).font('Helvetica-Oblique').fontSize(7)
+        .text(dayAvailability.detail, x + ENTRY_PADDING, y, { width: columnWidth - ENTRY_PADDING * 2, lineBreak: false, ellipsis: true });
+      y += 12;
+    }
+
+    const dayAssignments = getDayAssignments(page.assignments, dateStr);
+    const fitting = Math.floor((gridBottom - y) / (ENTRY_HEIGHT + ENTRY_GAP));
+    // Leave room for the "more" note when a day does not fit
+    const shown = dayAssignments.length > fitting ? Math.max(fitting - 1, 0) : dayAssignments.length;
+
+    dayAssignments.slice(0, shown).forEach(assignment => {
+      drawEntry(doc, assignment, families, x + ENTRY_GAP, y, columnWidth - ENTRY_GAP * 2);
+      y += ENTRY_HEIGHT + ENTRY_GAP;
+    });
+
+    if (shown < dayAssignments.length) {
+      doc.fillColor(MUTED_TEXT_COLOR).font('Helvetica').fontSize(7)
+        .text(`+${dayAssignments.length - shown} more`, x + ENTRY_PADDING, y + 2, { lineBreak: false });
+    }
+  }
+
+  // Grid lines are drawn last so the column shading does not cover them
+  doc.lineWidth(0.5).strokeColor(GRID_LINE_COLOR);
+  doc.rect(PAGE_MARGIN, gridTop, pageWidth, gridBottom - gridTop).stroke();
+  doc.moveTo(PAGE_MARGIN, gridTop + DAY_HEADER_HEIGHT).lineTo(PAGE_MARGIN + pageWidth, gridTop + DAY_HEADER_HEIGHT).stroke();
+  for (let day = 1; day < 7; day++) {
+    const x = PAGE_MARGIN + day * columnWidth;
+    doc.moveTo(x, gridTop).lineTo(x, gridBottom).stroke();
+  }
+
+  drawLegend(doc, families, gridBottom + 8);
+}
+
+/**
+ * Render weekly timetables to a PDF, one A4 landscape page per teacher.
+ * Entries use the same course colours as the web calendar.
+ */
+export function buildTimetablePdf(pages: TimetablePage[], options: TimetablePdfOptions): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({
+      size: 'A4',
+      layout: 'landscape',
+      margin: PAGE_MARGIN,
+      autoFirstPage: false,
+      info: { Title: options.title || `Timetable - week of ${format(options.weekStart, 'yyyy-MM-dd')}` }
+    });
+
+    const chunks: Buffer[] = [];
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+
+    pages.forEach(page => {
+      doc.addPage();
+      drawPage(doc, page, options);
+    });
+
+    if (pages.length === 0) {
+      doc.addPage();
+      doc.font('Helvetica').fontSize(12).text('No teachers to print.', PAGE_MARGIN, PAGE_MARGIN);
+    }
+
+    doc.end();
+  });
+}
@@ -0,0 +1,147 @@
+import * as XLSX from 'xlsx';
+import { Timesheet } from '@/lib/scheduling/timesheet';
+import { CsvValue, toCsv } from './csv';
+
+/**
+ * Sign-off details printed on every timesheet
+ */
+export interface TimesheetSignOff {
+  /** When the timesheets were generated, ISO timestamp */
+  generatedAt: string;
+  /** Who generated them, e.g. the scheduler's name */
+  preparedBy?: string;
+}
+
+// Characters Excel does not allow in sheet names
+const INVALID_SHEET_NAME_CHARS = /[\\/?*[\]:]/g;
+const MAX_SHEET_NAME_LENGTH = 31;
+
+// Hours and amounts are written as numbers so spreadsheets can total them
+function toHours(minutes: number): number {
+  return Math.round(minutes / 60 * 100) / 100;
+}
+
+/**
+ * The rows of one teacher's timesheet: header, classes, totals per category and sign-off lines
+ */
+function getTimesheetRows(timesheet: Timesheet, signOff: TimesheetSignOff): CsvValue[][] {
+  return [
+    ['Timesheet', timesheet.teacherName],
+    ['Teacher ID', timesheet.teacherId],
+    ['Teacher Type', timesheet.teacherType],
+    ['Pay Period', `${timesheet.from} to ${timesheet.to}`],
+    [],
+    ['Date', 'Start', 'End', 'Hours', 'Course', 'Level', 'Class ID', 'Role', 'Covering For', 'Category', 'Rate', 'Amount'],
+    ...timesheet.lines.map(line => [
+      line.date,
+      line.start,
+      line.end,
+      toHours(line.minutes),
+      line.course,
+      line.level,
+      line.classId,
+      line.role,
+      line.substituteFor,
+      line.category,
+      line.hourlyRate,
+      line.amount
+    ]),
+    [],
+    ['Category', 'Hours', 'Rate', 'Amount'],
+    ...timesheet.totals.map(total => [
+      total.category,
+      toHours(total.minutes),
+      total.hourlyRate,
+      total.amount
+    ]),
+    ['Total', toHours(timesheet.totalMinutes), undefined, timesheet.totalAmount],
+    ...(timesheet.untimedClasses > 0
+      ? [[`${timesheet.untimedClasses} classes have no start/end time and are not counted in the hours`]]
+      : []),
+    ...(timesheet.cancelledClasses > 0
+      ? [[`${timesheet.cancelledClasses} cancelled or rescheduled classes are not paid`]]
+      : []),
+    [],
+    ['Generated', signOff.generatedAt],
+    ['Prepared by', signOff.preparedBy],
+    ['Teacher signature', '', 'Date', ''],
+    ['Approved by', '', 'Date', '']
+  ];
+}
+
+/**
+ * The summary of a pay period: one row per teacher with their hours and amount
+ */
+function getSummaryRows(timesheets: Timesheet[], signOff: TimesheetSignOff): CsvValue[][] {
+  const categories = Array.from(new Set(timesheets.flatMap(timesheet => timesheet.totals.map(total => total.category))));
+  const from = timesheets[0]?.from;
+  const to = timesheets[0]?.to;
+
+  return [
+    ['Timesheet Summary', from && to ? `${from} to ${to}` : undefined],
+    [],
+    [
+      'Teacher ID', 'Teacher', 'Teacher Type', 'Classes', 'Cancelled Classes',
+      ...categories.map(category => `${category} Hours`), 'Total Hours', 'Total Amount'
+    ],
+    ...timesheets.map(timesheet => [
+      timesheet.teacherId,
+      timesheet.teacherName,
+      timesheet.teacherType,
+      timesheet.lines.length,
+      timesheet.cancelledClasses,
+      ...categories.map(category => {
+        const total = timesheet.totals.find(item => item.category === category);
+        return total ? toHours(total.minutes) : undefined;
+      }),
+      toHours(timesheet.totalMinutes),
+      timesheet.totalAmount
+    ]),
+    [],
+    ['Generated', signOff.generatedAt],
+    ['Prepared by', signOff.preparedBy],
+    ['Approved by', '', 'Date', '']
+  ];
+}
+
+/**
+ * One teacher's timesheet as CSV
+ */
+export function buildTimesheetCsv(timesheet: Timesheet, signOff: TimesheetSignOff): string {
+  return toCsv(getTimesheetRows(timesheet, signOff));
+}
+
+/**
+ * The summary of all timesheets as CSV
+ */
+export function buildTimesheetSummaryCsv(timesheets: Timesheet[], signOff: TimesheetSignOff): string {
+  return toCsv(getSummaryRows(timesheets, signOff));
+}
+
+// Excel sheet names are limited to 31 characters and must be unique within a workbook
+function getSheetName(teacherName: string, used: Set<string>): string {
+  const base = teacherName.replace(INVALID_SHEET_NAME_CHARS, ' ').trim().slice(0, MAX_SHEET_NAME_LENGTH) || 'Teacher';
+  let name = base;
+  for (let i = 2; used.has(name.toLowerCase()); i++) {
+    const suffix = ` (${i})`;
+    name = `${base.slice(0, MAX_SHEET_NAME_LENGTH - suffix.length)}${suffix}`;
+  }
+  used.add(name.toLowerCase());
+  return name;
+}
+
+/**
+ * A workbook with a summary sheet followed by one sheet per teacher
+ */
+export function buildTimesheetWorkbook(timesheets: Timesheet[], signOff: TimesheetSignOff): Buffer {
+  const workbook = XLSX.utils.book_new();
+  const used = new Set<string>(['summary']);
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(getSummaryRows(timesheets, signOff)), 'Summary');
+
+  timesheets.forEach(timesheet => {
+    const sheet = XLSX.utils.aoa_to_sheet(getTimesheetRows(timesheet, signOff));
+    XLSX.utils.book_append_sheet(workbook, sheet, getSheetName(timesheet.teacherName, used));
+  });
+
+  return XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' }) as Buffer;
+}
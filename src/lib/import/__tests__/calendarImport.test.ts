@@ -0,0 +1,95 @@
+import {
+  ImportSheet,
+  readSpreadsheet,
+  suggestColumnMapping,
+  toProposedEntries,
+  validateImportRows
+} from '@/lib/import/calendarImport';
+
+const HEADERS = ['Visit', 'Date', 'Course', 'Level', 'Start Time', 'End Time', 'Class ID', 'NT Led', 'Teacher'];
+
+function sheet(rows: unknown[][]): ImportSheet {
+  return { fileName: 'term.csv', headers: HEADERS, rows };
+}
+
+const validate = (rows: unknown[][]) => validateImportRows(sheet(rows), suggestColumnMapping(HEADERS));
+
+describe('suggestColumnMapping', () => {
+  it('matches header names regardless of case, spaces and punctuation', () => {
+    expect(suggestColumnMapping(['class_id', 'START-TIME', 'Lead Teacher', 'Notes'])).toEqual(
+      expect.objectContaining({ 'Class.ID': 0, Start: 1, Day1: 2, Day2: null, Date: null })
+    );
+  });
+});
+
+describe('validateImportRows', () => {
+  it('converts text and Excel serial dates and times', () => {
+    const result = validate([
+      [1, '03/03/2025', 'Sprouts1', '1', '9:00', '10:30', 'S1-A', 'yes', 'Anna'],
+      [2, 45719, 'Sprouts1', '1', 0.375, 45719.4375, 'S1-A', '', '']
+    ]);
+
+    expect(result.errors).toEqual([]);
+    expect(result.rows.map(row => row.rowNumber)).toEqual([2, 3]);
+    expect(result.rows[0].entry).toEqual(expect.objectContaining({
+      Visit: 1, Date: '2025-03-03', Start: '09:00', End: '10:30', 'NT-Led': true, Day1: 'Anna'
+    }));
+    expect(result.rows[1].entry).toEqual(expect.objectContaining({
+      Date: '2025-03-03', Start: '09:00', End: '10:30', 'NT-Led': false, Day1: undefined
+    }));
+  });
+
+  it('reports each problem with its spreadsheet row and leaves the row out', () => {
+    const result = validate([
+      [1.5, 'someday', 'Sprouts1', '1', '10:00', '09:00', 'S1-A', 'maybe', ''],
+      ['', '', '', '', '', '', '', '', ''],
+      [1, '2025-03-03', '', '1', '09:00', '10:00', 'S1-B', 'no', '']
+    ]);
+
+    expect(result.rows).toEqual([]);
+    expect(result.invalidRowCount).toBe(2);
+    expect(result.errors.map(error => [error.rowNumber, error.field])).toEqual([
+      [2, 'Visit'], [2, 'Date'], [2, 'End'], [2, 'NT-Led'], [4, 'Course']
+    ]);
+  });
+
+  it('reports a repeated Class.ID and Visit as a duplicate of the first row', () => {
+    const row = [1, '2025-03-03', 'Sprouts1', '1', '09:00', '10:00', 'S1-A', 'no', ''];
+    const result = validate([row, row]);
+
+    expect(result.rows).toHaveLength(1);
+    expect(result.errors).toEqual([
+      { rowNumber: 3, field: 'Class.ID', message: 'Duplicate of row 2 (same Class.ID and Visit)' }
+    ]);
+  });
+
+  it('rejects the whole sheet when a required field has no column', () => {
+    const result = validateImportRows(sheet([[1], [2]]), { ...suggestColumnMapping(HEADERS), Date: null });
+
+    expect(result).toEqual({
+      rows: [],
+      errors: [{ rowNumber: 1, field: 'Date', message: 'No column is mapped to Date' }],
+      invalidRowCount: 2
+    });
+  });
+});
+
+describe('readSpreadsheet', () => {
+  it('reads a CSV file keeping blank rows, and proposes its rows for a table', () => {
+    const csv = 'Visit,Date,Course,Level,Start Time,End Time,Class ID,NT Led,Teacher\n' +
+      '1,2025-03-03,Sprouts1,1,09:00,10:00,S1-A,no,Anna\n' +
+      ',,,,,,,,\n' +
+      '2,2025-03-10,Sprouts1,1,09:00,10:00,S1-A,no,Anna\n';
+    const read = readSpreadsheet(new Uint8Array(Buffer.from(csv)).buffer, 'term.csv');
+
+    expect(read.headers).toEqual(HEADERS);
+    expect(read.rows).toHaveLength(3);
+
+    const { rows } = validateImportRows(read, suggestColumnMapping(read.headers));
+    expect(rows.map(row => row.rowNumber)).toEqual([2, 4]);
+    expect(toProposedEntries('Sprouts1-Course-Calendar', rows)).toEqual([
+      { tableName: 'Sprouts1-Course-Calendar', entry: rows[0].entry },
+      { tableName: 'Sprouts1-Course-Calendar', entry: rows[1].entry }
+    ]);
+  });
+});
@@ -0,0 +1,268 @@
+import * as XLSX from 'xlsx';
+import { isValid, parse, format } from 'date-fns';
+import type { CalendarEntry } from '@/lib/supabase/data';
+import { parseBooleanValue } from '@/lib/scheduling/normalize';
+import { formatMinutes, parseTimeToMinutes } from '@/lib/scheduling/time';
+import type { ProposedEntry } from '@/lib/scheduling/diff';
+
+/**
+ * CalendarEntry columns an import can fill
+ */
+export type ImportField =
+  | 'Visit'
+  | 'Date'
+  | 'Course'
+  | 'Level'
+  | 'Start'
+  | 'End'
+  | 'Unit'
+  | 'Class.ID'
+  | 'NT-Led'
+  | 'Day1'
+  | 'Day2';
+
+export const IMPORT_FIELDS: ImportField[] = [
+  'Visit', 'Date', 'Course', 'Level', 'Start', 'End', 'Unit', 'Class.ID', 'NT-Led', 'Day1', 'Day2'
+];
+
+export const REQUIRED_IMPORT_FIELDS: ImportField[] = ['Visit', 'Date', 'Course', 'Level', 'Start', 'End', 'Class.ID'];
+
+/**
+ * Spreadsheet column index for each field; null when the field is not imported
+ */
+export type ColumnMapping = Record<ImportField, number | null>;
+
+/**
+ * A spreadsheet read into a header row and data rows
+ */
+export interface ImportSheet {
+  fileName: string;
+  headers: string[];
+  rows: unknown[][];
+}
+
+/**
+ * A problem with a single spreadsheet row. Row numbers are 1-based spreadsheet rows
+ * (the header is row 1).
+ */
+export interface ImportRowError {
+  rowNumber: number;
+  field?: ImportField;
+  message: string;
+}
+
+export interface ImportedRow {
+  rowNumber: number;
+  entry: Omit<CalendarEntry, 'id'>;
+}
+
+export interface ImportValidation {
+  rows: ImportedRow[];
+  errors: ImportRowError[];
+  /** Number of spreadsheet rows that had at least one error */
+  invalidRowCount: number;
+}
+
+// Header names recognised for each field, compared case-insensitively without spaces, dots, dashes or underscores
+const FIELD_ALIASES: Record<ImportField, string[]> = {
+  'Visit': ['visit', 'visitno', 'visitnumber', 'session', 'lesson'],
+  'Date': ['date', 'classdate'],
+  'Course': ['course', 'coursename', 'program'],
+  'Level': ['level', 'grade'],
+  'Start': ['start', 'starttime', 'from', 'begin'],
+  'End': ['end', 'endtime', 'to', 'finish'],
+  'Unit': ['unit', 'topic'],
+  'Class.ID': ['classid', 'class', 'classcode'],
+  'NT-Led': ['ntled', 'nativeled', 'nt'],
+  'Day1': ['day1', 'teacher', 'teacher1', 'leadteacher'],
+  'Day2': ['day2', 'teacher2', 'assistant', 'assistantteacher']
+};
+
+// Date formats accepted in text cells, tried in order
+const DATE_FORMATS = ['yyyy-MM-dd', 'yyyy/MM/dd', 'dd/MM/yyyy', 'd/M/yyyy', 'MM/dd/yyyy', 'd MMM yyyy', 'MMM d, yyyy'];
+
+// Excel stores dates as days since 1899-12-30
+const EXCEL_EPOCH_UTC = Date.UTC(1899, 11, 30);
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[\s._\-]/g, '');
+}
+
+/**
+ * Read a CSV or Excel file into a header row and data rows.
+ * Cells keep their raw values: Excel dates and times stay serial numbers so they are
+ * converted without timezone shifts.
+ */
+export function readSpreadsheet(data: ArrayBuffer, fileName: string): ImportSheet {
+  const isCsv = /\.csv$/i.test(fileName);
+  const workbook = isCsv
+    ? XLSX.read(new TextDecoder('utf-8').decode(data), { type: 'string', raw: true })
+    : XLSX.read(data, { type: 'array' });
+
+  const [sheetName] = workbook.SheetNames;
+  if (!sheetName) {
+    throw new Error(`${fileName} does not contain any sheets`);
+  }
+
+  const cells = XLSX.utils.sheet_to_json<unknown[]>(workbook.Sheets[sheetName], {
+    header: 1,
+    raw: true,
+    defval: '',
+    // Keep blank rows so row numbers in the error report match the spreadsheet
+    blankrows: true
+  });
+
+  const [headerRow = [], ...rows] = cells;
+  return {
+    fileName,
+    headers: headerRow.map(cell => String(cell).trim()),
+    rows
+  };
+}
+
+/**
+ * Guess which spreadsheet column holds each field from the header names
+ */
+export function suggestColumnMapping(headers: string[]): ColumnMapping {
+  const normalized = headers.map(normalizeHeader);
+  const mapping = {} as ColumnMapping;
+
+  IMPORT_FIELDS.forEach(field => {
+    const index = normalized.findIndex(header => FIELD_ALIASES[field].includes(header));
+    mapping[field] = index >= 0 ? index : null;
+  });
+
+  return mapping;
+}
+
+function isBlank(value: unknown): boolean {
+  return value === null || value === undefined || String(value).trim() === '';
+}
+
+function parseDateCell(value: unknown): string | null {
+  if (typeof value === 'number') {
+    const date = new Date(EXCEL_EPOCH_UTC + Math.floor(value) * MS_PER_DAY);
+    return date.toISOString().slice(0, 10);
+  }
+
+  const text = String(value).trim();
+  for (const dateFormat of DATE_FORMATS) {
+    const parsed = parse(text, dateFormat, new Date());
+    if (isValid(parsed)) return format(parsed, 'yyyy-MM-dd');
+  }
+  return null;
+}
+
+function parseTimeCell(value: unknown): string | null {
+  if (typeof value === 'number') {
+    // Excel times are fractions of a day; a full date-time keeps only its time part.
+    // A whole number such as 9 is a day count, not a time
+    if (Number.isInteger(value) && value !== 0) return null;
+    const minutes = Math.round((value % 1) * 24 * 60);
+    return minutes < 24 * 60 ? formatMinutes(minutes) : null;
+  }
+
+  const minutes = parseTimeToMinutes(String(value));
+  return minutes === null ? null : formatMinutes(minutes);
+}
+
+/**
+ * Convert and validate spreadsheet rows against a column mapping.
+ *
+ * Checks that required fields are present, that Visit is a whole number, that Date,
+ * Start and End are recognisable and End is after Start, that NT-Led is yes/no, and
+ * that no two rows share a Class.ID and Visit. Rows with errors are left out of `rows`.
+ */
+export function validateImportRows(sheet: ImportSheet, mapping: ColumnMapping): ImportValidation {
+  const rows: ImportedRow[] = [];
+  const errors: ImportRowError[] = [];
+  const invalidRows = new Set<number>();
+  const firstRowByKey = new Map<string, number>();
+
+  REQUIRED_IMPORT_FIELDS.forEach(field => {
+    if (mapping[field] === null) {
+      errors.push({ rowNumber: 1, field, message: `No column is mapped to ${field}` });
+      invalidRows.add(1);
+    }
+  });
+  if (invalidRows.size > 0) {
+    return { rows, errors, invalidRowCount: sheet.rows.length };
+  }
+
+  sheet.rows.forEach((cells, index) => {
+    const rowNumber = index + 2;
+    const rowErrors: ImportRowError[] = [];
+    const cell = (field: ImportField) => {
+      const column = mapping[field];
+      return column === null ? '' : cells[column];
+    };
+    const fail = (field: ImportField, message: string) => rowErrors.push({ rowNumber, field, message });
+
+    if (IMPORT_FIELDS.every(field => isBlank(cell(field)))) return;
+
+    REQUIRED_IMPORT_FIELDS.forEach(field => {
+      if (isBlank(cell(field))) fail(field, `${field} is required`);
+    });
+
+    const visit = Number(cell('Visit'));
+    if (!isBlank(cell('Visit')) && (!Number.isInteger(visit) || visit < 1)) {
+      fail('Visit', `Visit "${cell('Visit')}" is not a positive whole number`);
+    }
+
+    const date = isBlank(cell('Date')) ? null : parseDateCell(cell('Date'));
+    if (!isBlank(cell('Date')) && !date) {
+      fail('Date', `Date "${cell('Date')}" is not a recognisable date`);
+    }
+
+    const start = isBlank(cell('Start')) ? null : parseTimeCell(cell('Start'));
+    const end = isBlank(cell('End')) ? null : parseTimeCell(cell('End'));
+    if (!isBlank(cell('Start')) && !start) fail('Start', `Start "${cell('Start')}" is not a recognisable time`);
+    if (!isBlank(cell('End')) && !end) fail('End', `End "${cell('End')}" is not a recognisable time`);
+    if (start && end && end <= start) fail('End', `End ${end} is not after Start ${start}`);
+
+    const ntLed = parseBooleanValue(cell('NT-Led'));
+    if (ntLed === null) fail('NT-Led', `NT-Led "${cell('NT-Led')}" should be yes or no`);
+
+    const classId = String(cell('Class.ID')).trim();
+    const duplicateKey = `${classId}|${visit}`;
+    if (classId && firstRowByKey.has(duplicateKey)) {
+      fail('Class.ID', `Duplicate of row ${firstRowByKey.get(duplicateKey)} (same Class.ID and Visit)`);
+    } else if (classId) {
+      firstRowByKey.set(duplicateKey, rowNumber);
+    }
+
+    if (rowErrors.length > 0) {
+      errors.push(...rowErrors);
+      invalidRows.add(rowNumber);
+      return;
+    }
+
+    const text = (field: ImportField) => (isBlank(cell(field)) ? undefined : String(cell(field)).trim());
+    rows.push({
+      rowNumber,
+      entry: {
+        Visit: visit,
+        Date: date!,
+        Course: text('Course')!,
+        Level: text('Level')!,
+        Start: start!,
+        End: end!,
+        Unit: text('Unit'),
+        'Class.ID': classId,
+        'NT-Led': ntLed!,
+        Day1: text('Day1'),
+        Day2: text('Day2')
+      }
+    });
+  });
+
+  return { rows, errors, invalidRowCount: invalidRows.size };
+}
+
+/**
+ * Turn validated rows into proposed entries for a target calendar table
+ */
+export function toProposedEntries(tableName: string, rows: ImportedRow[]): ProposedEntry[] {
+  return rows.map(row => ({ tableName, entry: row.entry }));
+}
@@ -0,0 +1,62 @@
+import { Row, RowQuery, RowValue, RepositoryError, ScheduleRepository } from '@/lib/repository';
+
+function matches(row: Row, query: RowQuery = {}): boolean {
+  return Object.entries(query.eq || {}).every(([column, value]) => row[column] === value)
+    && Object.entries(query.ilike || {}).every(([column, text]) => String(row[column] ?? '').toLowerCase().includes(text.toLowerCase()))
+    && Object.entries(query.gte || {}).every(([column, value]) => row[column] >= value)
+    && Object.entries(query.lte || {}).every(([column, value]) => row[column] <= value);
+}
+
+/**
+ * Repository holding its tables in memory, for tests of the code above the repository layer
+ */
+export class MemoryRepository implements ScheduleRepository {
+  readonly name = 'memory';
+  private nextId = 100;
+
+  constructor(private readonly tables: Record<string, Row[]>) {}
+
+  /**
+   * The stored rows of a table; throws not_found like a database for unknown tables
+   */
+  rows(table: string): Row[] {
+    if (!this.tables[table]) throw new RepositoryError('not_found', `Table ${table} not found`);
+    return this.tables[table];
+  }
+
+  async ping(): Promise<void> {}
+
+  async listTables(): Promise<string[]> {
+    return Object.keys(this.tables);
+  }
+
+  async listColumns(table: string): Promise<string[]> {
+    return Object.keys(this.rows(table)[0] || {});
+  }
+
+  async select<T extends Row = Row>(table: string, query?: RowQuery): Promise<T[]> {
+    const rows = this.rows(table).filter(row => matches(row, query));
+    return (query?.limit !== undefined ? rows.slice(0, query.limit) : rows) as T[];
+  }
+
+  async count(table: string, query?: RowQuery): Promise<number> {
+    return (await this.select(table, { ...query, limit: undefined })).length;
+  }
+
+  async insert<T extends Row = Row>(table: string, row: Row): Promise<T> {
+    const stored: Row = { id: this.nextId++, ...row };
+    this.rows(table).push(stored);
+    return stored as T;
+  }
+
+  async update<T extends Row = Row>(table: string, match: Record<string, RowValue>, changes: Row): Promise<T> {
+    const row = this.rows(table).find(item => matches(item, { eq: match }));
+    if (!row) throw new RepositoryError('not_found', `No row of ${table} matches`);
+    Object.assign(row, changes);
+    return row as T;
+  }
+
+  async delete(table: string, match: Record<string, RowValue>): Promise<void> {
+    this.tables[table] = this.rows(table).filter(row => !matches(row, { eq: match }));
+  }
+}
@@ -0,0 +1,81 @@
+import { RepositoryError, RepositoryErrorCode, Row, RowQuery, RowValue, ScheduleRepository } from './types';
+
+/**
+ * An operation forwarded to the server's repository by /api/repository
+ */
+export type RepositoryRequest =
+  | { operation: 'ping' }
+  | { operation: 'listTables' }
+  | { operation: 'listColumns'; table: string }
+  | { operation: 'select'; table: string; query?: RowQuery }
+  | { operation: 'count'; table: string; query?: RowQuery }
+  | { operation: 'insert'; table: string; row: Row }
+  | { operation: 'update'; table: string; match: Record<string, RowValue>; changes: Row }
+  | { operation: 'delete'; table: string; match: Record<string, RowValue> };
+
+/**
+ * Repository used in the browser when the backend only runs on the server (local Postgres).
+ * Every call is forwarded to /api/repository.
+ */
+export class HttpRepository implements ScheduleRepository {
+  constructor(
+    readonly name: string,
+    private readonly endpoint: string = '/api/repository'
+  ) {}
+
+  private async call<T>(request: RepositoryRequest): Promise<T> {
+    let response: Response;
+    try {
+      response = await fetch(this.endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(request)
+      });
+    } catch (error) {
+      throw new RepositoryError('unavailable', error instanceof Error ? error.message : String(error));
+    }
+
+    const body = await response.json().catch(() => null);
+    if (!response.ok) {
+      const error = body?.error as { code?: RepositoryErrorCode; message?: string; backendCode?: string } | undefined;
+      throw new RepositoryError(
+        error?.code || 'query_failed',
+        error?.message || `Repository request failed with status ${response.status}`,
+        error?.backendCode
+      );
+    }
+    return body?.data as T;
+  }
+
+  async ping(): Promise<void> {
+    await this.call({ operation: 'ping' });
+  }
+
+  listTables(): Promise<string[]> {
+    return this.call({ operation: 'listTables' });
+  }
+
+  listColumns(table: string): Promise<string[]> {
+    return this.call({ operation: 'listColumns', table });
+  }
+
+  select<T extends Row = Row>(table: string, query?: RowQuery): Promise<T[]> {
+    return this.call({ operation: 'select', table, query });
+  }
+
+  count(table: string, query?: RowQuery): Promise<number> {
+    return this.call({ operation: 'count', table, query });
+  }
+
+  insert<T extends Row = Row>(table: string, row: Row): Promise<T> {
+    return this.call({ operation: 'insert', table, row });
+  }
+
+  update<T extends Row = Row>(table: string, match: Record<string, RowValue>, changes: Row): Promise<T> {
+    return this.call({ operation: 'update', table, match, changes });
+  }
+
+  async delete(table: string, match: Record<string, RowValue>): Promise<void> {
+    await this.call({ operation: 'delete', table, match });
+  }
+}
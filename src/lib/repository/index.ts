@@ -0,0 +1,62 @@
+import { HttpRepository } from './http';
+import { PostgresRepository } from './postgres';
+import { SupabaseRepository } from './supabase';
+import { RepositoryError, ScheduleRepository } from './types';
+
+export * from './types';
+
+/**
+ * Where the schedule data lives:
+ * - supabase: the hosted Supabase project (default)
+ * - postgres: a local Postgres database given by DATABASE_URL, e.g. the one in docker-compose-demo.yml
+ */
+export type DataBackend = 'supabase' | 'postgres';
+
+let repository: ScheduleRepository | null = null;
+
+/**
+ * The backend selected by NEXT_PUBLIC_DATA_BACKEND
+ */
+export function getDataBackend(): DataBackend {
+  const backend = (process.env.NEXT_PUBLIC_DATA_BACKEND || 'supabase').toLowerCase();
+  if (backend === 'postgres' || backend === 'local') return 'postgres';
+  if (backend !== 'supabase') {
+    console.warn(`[DB] Unknown NEXT_PUBLIC_DATA_BACKEND "${backend}", using Supabase`);
+  }
+  return 'supabase';
+}
+
+function createRepository(): ScheduleRepository {
+  if (getDataBackend() === 'supabase') {
+    return new SupabaseRepository();
+  }
+
+  // The Postgres driver only runs on the server; the browser goes through /api/repository
+  if (typeof window !== 'undefined') {
+    return new HttpRepository('postgres');
+  }
+
+  const connectionString = process.env.DATABASE_URL;
+  if (!connectionString) {
+    throw new RepositoryError('unavailable', 'DATABASE_URL must be set when NEXT_PUBLIC_DATA_BACKEND is postgres');
+  }
+  return new PostgresRepository(connectionString);
+}
+
+/**
+ * The repository all data access goes through
+ */
+export function getRepository(): ScheduleRepository {
+  if (!repository) {
+    repository = createRepository();
+    console.log(`[DB] Using ${repository.name} data backend`);
+  }
+  return repository;
+}
+
+/**
+ * Replace the repository, e.g. with an in-memory one in tests
+ */
+export function setRepository(next: ScheduleRepository | null): void {
+  repository = next;
+}
@@ -0,0 +1,178 @@
+import type { Pool } from 'pg';
+import { RepositoryError, Row, RowQuery, RowValue, ScheduleRepository } from './types';
+
+// Return values the way PostgREST does: dates and timestamps as text, bigint and numeric as numbers
+const TYPE_PARSERS: Record<number, (value: string) => unknown> = {
+  20: Number, // int8
+  1700: Number, // numeric
+  1082: value => value, // date
+  1114: value => value, // timestamp
+  1184: value => value // timestamptz
+};
+
+/**
+ * Quote a table or column name; the schedule tables use names like "Class.ID" and "NT-Led"
+ */
+function quoteIdentifier(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+/**
+ * Build a WHERE clause from a query, adding its values to `params`
+ */
+function buildWhere(query: RowQuery, params: unknown[]): string {
+  const conditions: string[] = [];
+  const add = (column: string, operator: string, value: unknown) => {
+    params.push(value);
+    conditions.push(`${quoteIdentifier(column)} ${operator} $${params.length}`);
+  };
+
+  Object.entries(query.eq || {}).forEach(([column, value]) => {
+    if (value === null) {
+      conditions.push(`${quoteIdentifier(column)} IS NULL`);
+    } else {
+      add(column, '=', value);
+    }
+  });
+  Object.entries(query.ilike || {}).forEach(([column, value]) => add(column, 'ILIKE', `%${value}%`));
+  Object.entries(query.gte || {}).forEach(([column, value]) => add(column, '>=', value));
+  Object.entries(query.lte || {}).forEach(([column, value]) => add(column, '<=', value));
+
+  return conditions.length > 0 ? ` WHERE ${conditions.join(' AND ')}` : '';
+}
+
+// Updates and deletes without a filter would touch every row
+function requireMatch(match: Record<string, RowValue>): void {
+  if (Object.keys(match).length === 0) {
+    throw new RepositoryError('query_failed', 'Updates and deletes need at least one column to match');
+  }
+}
+
+function toRepositoryError(error: unknown): RepositoryError {
+  if (error instanceof RepositoryError) return error;
+
+  const code = typeof error === 'object' && error !== null ? (error as { code?: string }).code : undefined;
+  const message = error instanceof Error ? error.message : String(error);
+  // Connection failures (refused, unknown host, SQLSTATE class 08) mean the database is unreachable
+  if (code && (code.startsWith('08') || ['ECONNREFUSED', 'ENOTFOUND', 'ETIMEDOUT'].includes(code))) {
+    return new RepositoryError('unavailable', message, code);
+  }
+  return new RepositoryError('query_failed', message, code);
+}
+
+/**
+ * Repository backed by a local Postgres database, for running the app, demos and tests
+ * without the hosted project. Server only: the browser reaches it through /api/repository.
+ */
+export class PostgresRepository implements ScheduleRepository {
+  readonly name = 'postgres';
+
+  private poolPromise: Promise<Pool> | null = null;
+
+  constructor(private readonly connectionString: string) {}
+
+  private getPool(): Promise<Pool> {
+    if (!this.poolPromise) {
+      // Loaded on first use so the driver never ends up in the browser bundle
+      this.poolPromise = import('pg').then(({ Pool, types }) => new Pool({
+        connectionString: this.connectionString,
+        max: 5,
+        types: {
+          getTypeParser: ((oid: number, format?: 'text' | 'binary') =>
+            TYPE_PARSERS[oid] ?? types.getTypeParser(oid, format)) as typeof types.getTypeParser
+        }
+      }));
+    }
+    return this.poolPromise;
+  }
+
+  private async run<T extends Row>(sql: string, params: unknown[] = []): Promise<T[]> {
+    try {
+      const pool = await this.getPool();
+      const result = await pool.query(sql, params);
+      return result.rows as T[];
+    } catch (error) {
+      throw toRepositoryError(error);
+    }
+  }
+
+  async ping(): Promise<void> {
+    await this.run('SELECT 1');
+  }
+
+  async listTables(): Promise<string[]> {
+    const rows = await this.run<{ table_name: string }>(
+      `SELECT table_name FROM information_schema.tables
+       WHERE table_schema = 'public' AND table_type = 'BASE TABLE'
+       ORDER BY table_name`
+    );
+    return rows.map(row => row.table_name);
+  }
+
+  async listColumns(table: string): Promise<string[]> {
+    const rows = await this.run<{ column_name: string }>(
+      `SELECT column_name FROM information_schema.columns
+       WHERE table_schema = 'public' AND table_name = $1
+       ORDER BY ordinal_position`,
+      [table]
+    );
+    return rows.map(row => row.column_name);
+  }
+
+  async select<T extends Row = Row>(table: string, query: RowQuery = {}): Promise<T[]> {
+    const params: unknown[] = [];
+    let sql = `SELECT * FROM ${quoteIdentifier(table)}${buildWhere(query, params)} ORDER BY 1`;
+    if (query.limit !== undefined) {
+      params.push(query.limit);
+      sql += ` LIMIT $${params.length}`;
+    }
+    return this.run<T>(sql, params);
+  }
+
+  async count(table: string, query: RowQuery = {}): Promise<number> {
+    const params: unknown[] = [];
+    const rows = await this.run<{ count: string }>(
+      `SELECT COUNT(*) AS count FROM ${quoteIdentifier(table)}${buildWhere(query, params)}`,
+      params
+    );
+    return Number(rows[0]?.count || 0);
+  }
+
+  async insert<T extends Row = Row>(table: string, row: Row): Promise<T> {
+    const columns = Object.keys(row);
+    const params = columns.map(column => row[column]);
+    const sql = columns.length > 0
+      ? `INSERT INTO ${quoteIdentifier(table)} (${columns.map(quoteIdentifier).join(', ')})
+         VALUES (${columns.map((_, i) => `$${i + 1}`).join(', ')}) RETURNING *`
+      : `INSERT INTO ${quoteIdentifier(table)} DEFAULT VALUES RETURNING *`;
+    const rows = await this.run<T>(sql, params);
+    return rows[0];
+  }
+
+  async update<T extends Row = Row>(table: string, match: Record<string, RowValue>, changes: Row): Promise<T> {
+    requireMatch(match);
+    const columns = Object.keys(changes);
+    if (columns.length === 0) {
+      const [current] = await this.select<T>(table, { eq: match, limit: 1 });
+      if (!current) throw new RepositoryError('not_found', 'Row not found');
+      return current;
+    }
+
+    const params: unknown[] = columns.map(column => changes[column]);
+    const assignments = columns.map((column, i) => `${quoteIdentifier(column)} = $${i + 1}`).join(', ');
+    const rows = await this.run<T>(
+      `UPDATE ${quoteIdentifier(table)} SET ${assignments}${buildWhere({ eq: match }, params)} RETURNING *`,
+      params
+    );
+    if (rows.length === 0) {
+      throw new RepositoryError('not_found', 'Row not found');
+    }
+    return rows[0];
+  }
+
+  async delete(table: string, match: Record<string, RowValue>): Promise<void> {
+    requireMatch(match);
+    const params: unknown[] = [];
+    await this.run(`DELETE FROM ${quoteIdentifier(table)}${buildWhere({ eq: match }, params)}`, params);
+  }
+}
@@ -0,0 +1,73 @@
+/**
+ * Storage backend behind data.ts.
+ * Repositories work at the level of table rows; caching, fallback data and offline handling
+ * stay in data.ts and the SupabaseService, so every backend behaves the same to the app.
+ */
+
+import type { RealtimeSource } from '@/lib/supabase/realtime';
+
+export type RowValue = string | number | boolean | null;
+
+export type Row = Record<string, any>;
+
+/**
+ * Row filters; all given conditions must match
+ */
+export interface RowQuery {
+  /** Columns that must equal a value */
+  eq?: Record<string, RowValue>;
+  /** Columns that must contain a text, ignoring case */
+  ilike?: Record<string, string>;
+  /** Columns that must be greater than or equal to a value */
+  gte?: Record<string, string | number>;
+  /** Columns that must be less than or equal to a value */
+  lte?: Record<string, string | number>;
+  limit?: number;
+}
+
+export type RepositoryErrorCode = 'not_found' | 'unavailable' | 'query_failed';
+
+/**
+ * Error thrown by repositories, whatever the backend reports
+ */
+export class RepositoryError extends Error {
+  constructor(
+    public readonly code: RepositoryErrorCode,
+    message: string,
+    /** The backend's own error code, e.g. a PostgREST or Postgres SQLSTATE code */
+    public readonly backendCode?: string
+  ) {
+    super(message);
+    this.name = 'RepositoryError';
+  }
+}
+
+export interface ScheduleRepository {
+  /** Backend name for logs and the health endpoint */
+  readonly name: string;
+
+  /** Check that the backend answers; throws when it does not */
+  ping(): Promise<void>;
+
+  /** Names of the tables in the public schema */
+  listTables(): Promise<string[]>;
+
+  /** Column names of a table in table order; empty when they cannot be determined */
+  listColumns(table: string): Promise<string[]>;
+
+  select<T extends Row = Row>(table: string, query?: RowQuery): Promise<T[]>;
+
+  count(table: string, query?: RowQuery): Promise<number>;
+
+  /** Insert a row and return it as stored */
+  insert<T extends Row = Row>(table: string, row: Row): Promise<T>;
+
+  /** Update the row matching the given columns and return it as stored; throws not_found when nothing matched */
+  update<T extends Row = Row>(table: string, match: Record<string, RowValue>, changes: Row): Promise<T>;
+
+  /** Delete the rows matching the given columns */
+  delete(table: string, match: Record<string, RowValue>): Promise<void>;
+
+  /** Source of row changes made by others, when the backend can push them */
+  createRealtimeSource?(): RealtimeSource | null;
+}
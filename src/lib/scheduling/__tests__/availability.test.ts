@@ -0,0 +1,107 @@
+import {
+  TeacherAvailability,
+  buildTeacherAvailability,
+  checkAvailability,
+  findAvailabilityViolations,
+  getDayAvailability
+} from '@/lib/scheduling/availability';
+import { assign, makeEntry } from './fixtures';
+
+// Mondays and Wednesdays 09:00-17:00, on leave Tuesday 2025-03-11 afternoon and all of Wednesday 2025-03-12
+const availability: TeacherAvailability = {
+  teacherId: 1,
+  windows: [
+    { dayOfWeek: 1, start: '09:00', end: '17:00' },
+    { dayOfWeek: 3, start: '09:00', end: '17:00' }
+  ],
+  leave: [
+    { from: '2025-03-11', to: '2025-03-11', startTime: '13:00', endTime: '17:00' },
+    { from: '2025-03-12', to: '2025-03-12', reason: 'Training' }
+  ],
+  maxHoursPerWeek: 2
+};
+
+const minutes = (time: string) => Number(time.slice(0, 2)) * 60 + Number(time.slice(3));
+
+describe('buildTeacherAvailability', () => {
+  it('groups weekly, leave and limit rows by teacher', () => {
+    expect(buildTeacherAvailability([
+      { Teacher_ID: 1, Kind: 'weekly', Day_Of_Week: 1, Start: '09:00', End: '17:00' },
+      { Teacher_ID: 1, Kind: 'leave', From_Date: '2025-03-12T00:00:00', To_Date: null, Reason: 'Training' },
+      { Teacher_ID: 1, Kind: 'limit', Max_Hours_Per_Week: 20, Target_Hours_Per_Week: 15 },
+      { Teacher_ID: 2, Kind: 'weekly', Day_Of_Week: null, Start: '09:00', End: '17:00' }
+    ])).toEqual([
+      {
+        teacherId: 1,
+        windows: [{ dayOfWeek: 1, start: '09:00', end: '17:00' }],
+        leave: [{ from: '2025-03-12', to: '2025-03-12', startTime: undefined, endTime: undefined, reason: 'Training' }],
+        maxHoursPerWeek: 20,
+        targetHoursPerWeek: 15
+      },
+      { teacherId: 2, windows: [], leave: [] }
+    ]);
+  });
+});
+
+describe('checkAvailability', () => {
+  it.each([
+    ['a class filling the window', '2025-03-03', '09:00', '17:00', true],
+    ['a class inside the window', '2025-03-03', '10:00', '11:00', true],
+    ['a class starting before the window', '2025-03-03', '08:30', '09:30', false],
+    ['a class ending after the window', '2025-03-03', '16:30', '17:30', false],
+    ['a day without a window', '2025-03-04', '10:00', '11:00', false],
+    ['a partial leave', '2025-03-10', '12:30', '13:30', true]
+  ])('checks %s', (_, date, start, end, available) => {
+    expect(checkAvailability(availability, date, minutes(start), minutes(end)).available).toBe(available);
+  });
+
+  it('reports leave before working hours', () => {
+    expect(checkAvailability(availability, '2025-03-12', minutes('10:00'), minutes('11:00'))).toEqual({
+      available: false,
+      reason: 'leave',
+      detail: 'On leave (Training)'
+    });
+  });
+
+  it('only blocks the hours of a partial leave', () => {
+    const anyTime: TeacherAvailability = { ...availability, windows: [] };
+    expect(checkAvailability(anyTime, '2025-03-11', minutes('12:00'), minutes('13:00')).available).toBe(true);
+    expect(checkAvailability(anyTime, '2025-03-11', minutes('12:30'), minutes('13:30'))).toMatchObject({ available: false, reason: 'leave' });
+  });
+
+  it('treats teachers without availability or windows as always available', () => {
+    expect(checkAvailability(undefined, '2025-03-04', 0, 60).available).toBe(true);
+    expect(checkAvailability({ teacherId: 1, windows: [], leave: [] }, '2025-03-09', 0, 60).available).toBe(true);
+  });
+});
+
+describe('getDayAvailability', () => {
+  it('summarises working days, days off and days on leave', () => {
+    expect(getDayAvailability(availability, '2025-03-03')).toEqual({
+      date: '2025-03-03',
+      unavailableAllDay: false,
+      windows: [{ dayOfWeek: 1, start: '09:00', end: '17:00' }]
+    });
+    expect(getDayAvailability(availability, '2025-03-04')).toMatchObject({ unavailableAllDay: true, reason: 'outside-hours' });
+    expect(getDayAvailability(availability, '2025-03-12')).toMatchObject({ unavailableAllDay: true, reason: 'leave' });
+  });
+});
+
+describe('findAvailabilityViolations', () => {
+  it('flags classes outside availability and the classes past the weekly cap', () => {
+    const assignments = [
+      assign(1, makeEntry({ Date: '2025-03-03', Start: '09:00', End: '10:00' })),
+      assign(1, makeEntry({ Date: '2025-03-03', Start: '11:00', End: '12:00' })),
+      assign(1, makeEntry({ Date: '2025-03-05', Start: '09:00', End: '10:00' })),
+      assign(1, makeEntry({ Date: '2025-03-04', Start: '09:00', End: '10:00' })),
+      // Next week starts again from zero
+      assign(1, makeEntry({ Date: '2025-03-10', Start: '09:00', End: '10:00' }))
+    ];
+
+    expect(findAvailabilityViolations(assignments, [availability]).map(item => [item.type, item.date])).toEqual([
+      ['outside-availability', '2025-03-04'],
+      ['over-hours', '2025-03-04'],
+      ['over-hours', '2025-03-05']
+    ]);
+  });
+});
@@ -0,0 +1,79 @@
+import { detectConflicts, getConflictsForEntry } from '@/lib/scheduling/conflicts';
+import { assign, makeEntry } from './fixtures';
+
+const detect = (assignments: ReturnType<typeof assign>[], minBreakMinutes?: number) =>
+  detectConflicts({ assignments, unresolved: [] }, { minBreakMinutes });
+
+describe('detectConflicts', () => {
+  it('does not treat classes that share a boundary as overlapping', () => {
+    const first = makeEntry();
+    const second = makeEntry({ Start: '10:00', End: '11:00' });
+
+    expect(detect([assign(1, first), assign(1, second)], 0)).toEqual([]);
+  });
+
+  it('reports back-to-back classes without the minimum break as a warning', () => {
+    const first = makeEntry();
+    const second = makeEntry({ Start: '10:05', End: '11:00' });
+
+    expect(detect([assign(1, first), assign(1, second)])).toEqual([
+      expect.objectContaining({ type: 'no-break', severity: 'warning', teacherId: 1, entries: [first, second] })
+    ]);
+    expect(detect([assign(1, first), assign(1, second)], 5)).toEqual([]);
+  });
+
+  it('reports classes overlapping by a minute as a double-booking', () => {
+    const first = makeEntry();
+    const second = makeEntry({ Start: '09:59', End: '11:00' });
+
+    expect(detect([assign(1, first), assign(1, second)])).toEqual([
+      expect.objectContaining({ type: 'double-booking', severity: 'error', entries: [first, second] })
+    ]);
+  });
+
+  it('reports every class a long class overlaps, but only the next class for breaks', () => {
+    const long = makeEntry({ Start: '09:00', End: '12:00' });
+    const inside = makeEntry({ Start: '10:00', End: '10:30' });
+    const later = makeEntry({ Start: '10:35', End: '11:30' });
+
+    const types = detect([assign(1, long), assign(1, inside), assign(1, later)]).map(conflict => conflict.type);
+    expect(types).toEqual(['double-booking', 'double-booking', 'no-break']);
+  });
+
+  it('ignores other teachers, other days, duplicate slots of one class and cancelled classes', () => {
+    const entry = makeEntry();
+
+    expect(detect([
+      assign(1, entry),
+      assign(1, entry, { daySlot: 'Day2' }),
+      assign(2, makeEntry()),
+      assign(1, makeEntry({ Date: '2025-03-04' })),
+      assign(1, makeEntry({ Status: 'cancelled' }))
+    ])).toEqual([]);
+  });
+
+  it('reports classes without a teacher once', () => {
+    const entry = makeEntry();
+    const conflicts = detectConflicts({
+      assignments: [],
+      unresolved: [
+        { entryKey: `T#${entry.id}`, tableName: 'T', entry, daySlot: 'Day1', reason: 'no-teacher' },
+        { entryKey: `T#${entry.id}`, tableName: 'T', entry, daySlot: 'Day2', reason: 'no-teacher' }
+      ]
+    });
+
+    expect(conflicts).toEqual([expect.objectContaining({ type: 'unassigned', severity: 'error' })]);
+  });
+
+  it('checks availability when it is given', () => {
+    const early = makeEntry({ Start: '07:00', End: '08:00' });
+    const conflicts = detectConflicts(
+      { assignments: [assign(1, early)], unresolved: [] },
+      { availability: [{ teacherId: 1, windows: [{ dayOfWeek: 1, start: '08:00', end: '18:00' }], leave: [] }] }
+    );
+
+    expect(conflicts).toEqual([expect.objectContaining({ type: 'outside-availability', teacherId: 1 })]);
+    expect(getConflictsForEntry(conflicts, { ...early })).toHaveLength(1);
+    expect(getConflictsForEntry(conflicts, makeEntry())).toEqual([]);
+  });
+});
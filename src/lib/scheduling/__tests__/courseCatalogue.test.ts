@@ -0,0 +1,113 @@
+import {
+  CourseColorName,
+  CourseFamilyDefinition,
+  DEFAULT_COURSE_FAMILIES,
+  buildCourseFamilies,
+  getCourseFamilyKeys,
+  getCourseFamilyLabel,
+  matchCourseFamily,
+  toCourseFamilyKey,
+  toCourseFamilyRow,
+  validateCourseFamilies
+} from '@/lib/scheduling/courseCatalogue';
+
+const family = (changes: Partial<CourseFamilyDefinition> = {}): CourseFamilyDefinition => ({
+  key: 'sprouts',
+  label: 'Sprouts',
+  color: 'purple',
+  coursePatterns: ['sprout'],
+  levelPatterns: [],
+  levels: [],
+  ...changes
+});
+
+describe('toCourseFamilyKey', () => {
+  it('lowercases the text and joins its words with dashes', () => {
+    expect(toCourseFamilyKey('  Summer Camp (2025) ')).toBe('summer-camp-2025');
+  });
+});
+
+describe('buildCourseFamilies', () => {
+  it('orders the rows by Sort_Order and splits the list columns', () => {
+    const families = buildCourseFamilies([
+      { Family_Key: 'Clovers', Sort_Order: 2, Course_Match: 'clover', Color: 'Emerald' },
+      { Family_Key: 'Sprouts', Label: 'Little Sprouts', Sort_Order: '1', Course_Match: ' sprout, seed ', Levels: '1, 2,3' },
+      { Family_Key: 'Camps', Level_Match: 'camp', Color: 'gold' }
+    ]);
+
+    expect(families).toEqual([
+      { key: 'sprouts', label: 'Little Sprouts', color: 'slate', coursePatterns: ['sprout', 'seed'], levelPatterns: [], levels: ['1', '2', '3'] },
+      { key: 'clovers', label: 'clovers', color: 'emerald', coursePatterns: ['clover'], levelPatterns: [], levels: [] },
+      { key: 'camps', label: 'camps', color: 'slate', coursePatterns: [], levelPatterns: ['camp'], levels: [] }
+    ]);
+  });
+
+  it('skips rows without a key, with a repeated key or with the reserved key', () => {
+    const families = buildCourseFamilies([
+      { Family_Key: 'Sprouts', Course_Match: 'sprout' },
+      { Family_Key: 'sprouts', Course_Match: 'seed' },
+      { Family_Key: ' ', Course_Match: 'clover' },
+      { Family_Key: 'Other', Course_Match: 'misc' }
+    ]);
+
+    expect(families.map(item => item.coursePatterns)).toEqual([['sprout']]);
+  });
+
+  it('reads back the rows a catalogue is saved as', () => {
+    const rows = DEFAULT_COURSE_FAMILIES.map((item, index) => toCourseFamilyRow(item, index));
+
+    expect(buildCourseFamilies(rows)).toEqual(DEFAULT_COURSE_FAMILIES);
+  });
+});
+
+describe('validateCourseFamilies', () => {
+  it('accepts the default catalogue', () => {
+    expect(validateCourseFamilies(DEFAULT_COURSE_FAMILIES)).toEqual([]);
+  });
+
+  it('reports missing, repeated and reserved keys and families nothing matches', () => {
+    const errors = validateCourseFamilies([
+      family(),
+      family({ label: 'Seeds' }),
+      family({ key: 'other', label: 'Misc' }),
+      family({ key: '', label: '' }),
+      family({ key: 'camps', label: 'Camps', coursePatterns: [], color: 'gold' as CourseColorName })
+    ]);
+
+    expect(errors).toEqual([
+      'Seeds: the key "sprouts" is used by another family',
+      'Misc: "other" is kept for classes no family matches',
+      'Family 4 needs a key',
+      'Family 4 needs a label',
+      'Camps needs a course or level to match',
+      'Camps: unknown colour "gold"'
+    ]);
+  });
+});
+
+describe('matchCourseFamily', () => {
+  it('matches the course name first and falls back to whole words of the level', () => {
+    expect(matchCourseFamily('Sprouts1', 'Advanced 2')?.key).toBe('sprouts');
+    expect(matchCourseFamily('Story Time', 'Advanced 2')?.key).toBe('advanced');
+    expect(matchCourseFamily('Story Time', 'A2')).toBeUndefined();
+    expect(matchCourseFamily('Summer Special', null)?.key).toBe('workshops');
+  });
+
+  it('uses the catalogue it is given', () => {
+    const families = [family({ key: 'camps', label: 'Camps', coursePatterns: ['CAMP'] })];
+
+    expect(matchCourseFamily('Summer camp', '', families)?.key).toBe('camps');
+    expect(matchCourseFamily('Sprouts1', '', families)).toBeUndefined();
+  });
+});
+
+describe('getCourseFamilyKeys and getCourseFamilyLabel', () => {
+  it('list the catalogue keys followed by "other" and label unknown keys as they are', () => {
+    const families = [family()];
+
+    expect(getCourseFamilyKeys(families)).toEqual(['sprouts', 'other']);
+    expect(getCourseFamilyLabel('sprouts', families)).toBe('Sprouts');
+    expect(getCourseFamilyLabel('other', families)).toBe('Other');
+    expect(getCourseFamilyLabel('clovers', families)).toBe('clovers');
+  });
+});
@@ -0,0 +1,65 @@
+import { ProposedEntry, diffSchedule } from '@/lib/scheduling/diff';
+import type { CalendarEntry } from '@/lib/supabase/data';
+
+const TABLE = 'Sprouts1-Course-Calendar';
+
+const stored = (id: number, visit: number, date: string, changes: Partial<CalendarEntry> = {}): CalendarEntry => ({
+  id,
+  Visit: visit,
+  Date: date,
+  Course: 'Sprouts1',
+  Level: '1',
+  Start: '09:00:00',
+  End: '10:00:00',
+  'Class.ID': 'S1-A',
+  ...changes
+});
+
+const proposed = (visit: number, date: string, changes: Partial<CalendarEntry> = {}): ProposedEntry => {
+  const { id, ...entry } = stored(0, visit, date, { Start: '09:00', End: '10:00', ...changes });
+  return { tableName: TABLE, entry };
+};
+
+describe('diffSchedule', () => {
+  it('adds, updates and keeps rows matched by Class.ID and Visit', () => {
+    const diff = diffSchedule(
+      { [TABLE]: [stored(1, 1, '2025-03-03'), stored(2, 2, '2025-03-10')] },
+      [proposed(1, '2025-03-03'), proposed(2, '2025-03-11'), proposed(3, '2025-03-17')]
+    );
+
+    expect(diff.unchangedCount).toBe(1);
+    expect(diff.changes).toEqual([
+      expect.objectContaining({ type: 'update', before: expect.objectContaining({ id: 2 }), changedFields: ['Date'] }),
+      expect.objectContaining({ type: 'add', after: expect.objectContaining({ Visit: 3 }) })
+    ]);
+  });
+
+  it('only removes missing Visits when asked to', () => {
+    const existing = { [TABLE]: [stored(1, 1, '2025-03-03'), stored(2, 2, '2025-03-10')] };
+
+    expect(diffSchedule(existing, [proposed(1, '2025-03-03')]).changes).toEqual([]);
+    expect(diffSchedule(existing, [proposed(1, '2025-03-03')], { removeMissing: true }).changes).toEqual([
+      expect.objectContaining({ type: 'remove', before: expect.objectContaining({ id: 2 }) })
+    ]);
+  });
+
+  it('never removes rows of classes that are not proposed', () => {
+    const existing = { [TABLE]: [stored(1, 1, '2025-03-03'), stored(2, 1, '2025-03-03', { 'Class.ID': 'S1-B' })] };
+
+    expect(diffSchedule(existing, [proposed(1, '2025-03-03')], { removeMissing: true }).changes).toEqual([]);
+  });
+
+  it('keeps rows outside the term, even when their Visit numbers are proposed again', () => {
+    const previousTerm = [stored(1, 1, '2024-09-02'), stored(2, 2, '2024-09-09'), stored(3, 3, '2024-09-16')];
+    const diff = diffSchedule(
+      { [TABLE]: [...previousTerm, stored(4, 1, '2025-03-03')] },
+      [proposed(1, '2025-03-03'), proposed(2, '2025-03-10')],
+      { range: { from: '2025-03-03', to: '2025-05-25' }, removeMissing: true }
+    );
+
+    expect(diff.unchangedCount).toBe(1);
+    expect(diff.changes).toEqual([
+      expect.objectContaining({ type: 'add', after: expect.objectContaining({ Visit: 2, Date: '2025-03-10' }) })
+    ]);
+  });
+});
@@ -0,0 +1,47 @@
+import { ClassAssignment, getEntryKey } from '@/lib/scheduling/assignments';
+import type { CalendarEntry, Teacher } from '@/lib/supabase/data';
+
+export const TABLE = 'Sprouts1-Course-Calendar';
+
+export const teachers: Teacher[] = [
+  { Teacher_ID: 1, Teacher_name: 'Anna', Teacher_Type: 'Native' },
+  { Teacher_ID: 2, Teacher_name: 'Ben', Teacher_Type: 'Local' },
+  { Teacher_ID: 3, Teacher_name: 'Chen', Teacher_Type: 'Local' }
+];
+
+let nextId = 1;
+
+/**
+ * A calendar entry on Monday 2025-03-03 from 09:00 to 10:00, with a new id
+ */
+export function makeEntry(changes: Partial<CalendarEntry> = {}): CalendarEntry {
+  return {
+    id: nextId++,
+    Visit: 1,
+    Date: '2025-03-03',
+    Course: 'Sprouts1',
+    Level: '1',
+    Start: '09:00',
+    End: '10:00',
+    'Class.ID': 'S1-A',
+    ...changes
+  };
+}
+
+/**
+ * The teacher's assignment to an entry, as resolveAssignments would produce it
+ */
+export function assign(teacherId: number, entry: CalendarEntry, changes: Partial<ClassAssignment> = {}): ClassAssignment {
+  const teacher = teachers.find(item => item.Teacher_ID === teacherId);
+  return {
+    entryKey: getEntryKey(TABLE, entry),
+    tableName: TABLE,
+    entry,
+    teacherId,
+    teacherName: teacher?.Teacher_name || String(teacherId),
+    role: 'lead',
+    daySlot: 'Day1',
+    source: 'teacher-id',
+    ...changes
+  };
+}
@@ -0,0 +1,108 @@
+import { CourseRequirement, generateSchedule } from '@/lib/scheduling/generator';
+import type { Teacher } from '@/lib/supabase/data';
+
+const teachers: Teacher[] = [
+  { Teacher_ID: 1, Teacher_name: 'Anna', Teacher_Type: 'Native' },
+  { Teacher_ID: 2, Teacher_name: 'Ben', Teacher_Type: 'Local' }
+];
+
+// The term starts on Monday 2025-03-03
+const term = { startDate: '2025-03-03', endDate: '2025-03-30' };
+
+const requirement = (changes: Partial<CourseRequirement> = {}): CourseRequirement => ({
+  tableName: 'Sprouts1-Course-Calendar',
+  course: 'Sprouts1',
+  level: '1',
+  classId: 'S1-A',
+  visits: 4,
+  durationMinutes: 60,
+  ntLed: false,
+  allowedDays: [1],
+  allowedStartTimes: ['09:00'],
+  ...changes
+});
+
+describe('generateSchedule', () => {
+  it('places every Visit of a feasible term in order, one per week, without double-booking', () => {
+    const result = generateSchedule({
+      ...term,
+      teachers,
+      requirements: [requirement(), requirement({ classId: 'S1-B' })]
+    });
+
+    expect(result.unplaced).toEqual([]);
+    expect(result.exhausted).toBe(false);
+    expect(result.entries).toHaveLength(8);
+
+    const classA = result.entries.filter(item => item.entry['Class.ID'] === 'S1-A');
+    expect(classA.map(item => [item.entry.Visit, item.entry.Date])).toEqual([
+      [1, '2025-03-03'],
+      [2, '2025-03-10'],
+      [3, '2025-03-17'],
+      [4, '2025-03-24']
+    ]);
+    // Both classes share the only slot each week, so they get different teachers
+    result.entries.forEach(item => {
+      const other = result.entries.find(candidate => candidate !== item && candidate.entry.Date === item.entry.Date);
+      expect(other?.teacherId).not.toBe(item.teacherId);
+    });
+    // Every Visit of a class keeps its teacher
+    expect(new Set(classA.map(item => item.teacherId)).size).toBe(1);
+  });
+
+  it('gives NT-Led classes to Native teachers and respects the weekly hour cap', () => {
+    const result = generateSchedule({
+      ...term,
+      teachers,
+      availability: [{ teacherId: 2, windows: [], leave: [], maxHoursPerWeek: 1 }],
+      requirements: [
+        requirement({ visits: 1, ntLed: true }),
+        requirement({ classId: 'S1-B', visits: 1, allowedStartTimes: ['11:00'] }),
+        requirement({ classId: 'S1-C', visits: 1, allowedStartTimes: ['14:00'] })
+      ]
+    });
+
+    expect(result.unplaced).toEqual([]);
+    expect(result.entries.find(item => item.entry['Class.ID'] === 'S1-A')).toMatchObject({ teacherId: 1, entry: { 'NT-Led': true } });
+    expect(result.entries.filter(item => item.teacherId === 2)).toHaveLength(1);
+  });
+
+  it('reports Visits that cannot be placed', () => {
+    const result = generateSchedule({
+      ...term,
+      teachers: [teachers[1]],
+      requirements: [
+        requirement({ visits: 1, ntLed: true }),
+        requirement({ classId: 'S1-B', visits: 6 })
+      ]
+    });
+
+    expect(result.unplaced.map(item => [item.requirement.classId, item.visit, item.reason])).toEqual([
+      ['S1-A', 1, 'No Native teacher for an NT-Led class'],
+      ['S1-B', 5, 'No allowed day falls within the term for this Visit'],
+      ['S1-B', 6, 'No allowed day falls within the term for this Visit']
+    ]);
+    expect(result.entries.map(item => item.entry.Visit)).toEqual([1, 2, 3, 4]);
+  });
+
+  it('stops searching after maxSteps and finishes greedily', () => {
+    // Ten one-Visit classes competing for nine slots of one teacher: no complete schedule exists
+    const startTimes = ['08:00', '09:00', '10:00', '11:00', '12:00', '13:00', '14:00', '15:00', '16:00'];
+    const result = generateSchedule({
+      startDate: '2025-03-03',
+      endDate: '2025-03-03',
+      teachers: [teachers[0]],
+      minBreakMinutes: 0,
+      maxSteps: 20000,
+      requirements: Array.from({ length: 10 }, (_, index) =>
+        requirement({ classId: `S1-${index}`, visits: 1, allowedStartTimes: startTimes })
+      )
+    });
+
+    expect(result.exhausted).toBe(true);
+    expect(result.steps).toBe(20000);
+    expect(result.entries).toHaveLength(9);
+    expect(result.unplaced).toHaveLength(1);
+    expect(result.unplaced[0].reason).toBe('No available teacher in any allowed slot');
+  });
+});
@@ -0,0 +1,103 @@
+import {
+  checkEntryChange,
+  getMoveChanges,
+  getPreviousValues,
+  getReassignChanges,
+  isPlacementChange
+} from '@/lib/scheduling/moves';
+import { TABLE, assign, makeEntry, teachers } from './fixtures';
+
+describe('getMoveChanges', () => {
+  it('keeps the times when only the day changes', () => {
+    expect(getMoveChanges(makeEntry(), '2025-03-04')).toEqual({ Date: '2025-03-04' });
+    expect(getMoveChanges(makeEntry(), '2025-03-04', '09:00')).toEqual({ Date: '2025-03-04' });
+  });
+
+  it('keeps the length of the class when the start time changes', () => {
+    const entry = makeEntry({ Start: '09:00', End: '10:30' });
+
+    expect(getMoveChanges(entry, '2025-03-04', '13:15')).toEqual({ Date: '2025-03-04', Start: '13:15', End: '14:45' });
+  });
+});
+
+describe('getReassignChanges', () => {
+  const [anna, ben] = teachers;
+
+  it('replaces the listed teacher, and Day1 otherwise', () => {
+    const entry = makeEntry({ Day1: 'Anna', Day2: 'Chen' });
+
+    expect(getReassignChanges(TABLE, entry, ben, teachers, 3)).toEqual({ Day2: 'Ben' });
+    expect(getReassignChanges(TABLE, entry, ben, teachers)).toEqual({ Day1: 'Ben' });
+  });
+
+  it('labels a teacher by ID when their name is shared', () => {
+    const namesake = { Teacher_ID: 4, Teacher_name: 'anna ', Teacher_Type: 'Local' };
+
+    expect(getReassignChanges(TABLE, makeEntry(), anna, [...teachers, namesake])).toEqual({ Day1: '1' });
+  });
+});
+
+describe('getPreviousValues', () => {
+  it('returns the replaced values, with empty teacher columns as empty strings', () => {
+    const entry = makeEntry({ Day1: 'Anna' });
+
+    expect(getPreviousValues(entry, { Date: '2025-03-04', Day1: 'Ben', Day2: 'Chen' })).toEqual({
+      Date: '2025-03-03',
+      Day1: 'Anna',
+      Day2: ''
+    });
+  });
+});
+
+describe('isPlacementChange', () => {
+  it('detects moves and teacher changes but not other edits', () => {
+    const entry = makeEntry({ Day1: 'Anna' });
+
+    expect(isPlacementChange(entry, { Date: '2025-03-04' })).toBe(true);
+    expect(isPlacementChange(entry, { Start: '9:30' })).toBe(true);
+    expect(isPlacementChange(entry, { Day1: 'Ben' })).toBe(true);
+    expect(isPlacementChange(entry, { Start: '9:00', Day1: ' Anna ' })).toBe(false);
+    expect(isPlacementChange(entry, { Course: 'Sprouts2' })).toBe(false);
+  });
+});
+
+describe('checkEntryChange', () => {
+  it('rejects unknown teachers and an NT-Led class without a Native lead', () => {
+    const entry = makeEntry({ Day1: 'Anna', 'NT-Led': true });
+
+    expect(checkEntryChange(TABLE, entry, { Day1: 'Dora' }, { teachers, assignments: [] }).errors).toEqual([
+      'Teacher "Dora" in Day1 is not a known teacher'
+    ]);
+    expect(checkEntryChange(TABLE, entry, { Day1: 'Ben' }, { teachers, assignments: [] })).toEqual({
+      allowed: false,
+      errors: ['An NT-Led class must be led by a Native teacher'],
+      warnings: []
+    });
+  });
+
+  it('reports a new double-booking as an error and a short break as a warning', () => {
+    const entry = makeEntry({ Day1: 'Anna' });
+    const other = makeEntry({ Date: '2025-03-04', Start: '10:00', End: '11:00', Day1: 'Anna' });
+    const context = { teachers, assignments: [assign(1, entry), assign(1, other)] };
+
+    const overlap = checkEntryChange(TABLE, entry, { Date: '2025-03-04', Start: '10:30', End: '11:30' }, context);
+    expect(overlap.allowed).toBe(false);
+    expect(overlap.errors).toHaveLength(1);
+
+    const shortBreak = checkEntryChange(TABLE, entry, { Date: '2025-03-04', Start: '08:00', End: '09:55' }, context);
+    expect(shortBreak.allowed).toBe(true);
+    expect(shortBreak.warnings).toHaveLength(1);
+  });
+
+  it('does not count problems the class already had', () => {
+    const entry = makeEntry({ Day1: 'Anna' });
+    const other = makeEntry({ Start: '09:30', End: '10:30', Day1: 'Anna' });
+    const context = { teachers, assignments: [assign(1, entry), assign(1, other)] };
+
+    expect(checkEntryChange(TABLE, entry, { Start: '08:45', End: '09:45' }, context)).toEqual({
+      allowed: true,
+      errors: [],
+      warnings: []
+    });
+  });
+});
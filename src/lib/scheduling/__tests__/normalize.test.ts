@@ -0,0 +1,136 @@
+import {
+  getEntryStatus,
+  isHeldEntry,
+  normalizeEntry,
+  parseBooleanValue,
+  parseDateValue
+} from '@/lib/scheduling/normalize';
+import { parseTimeToMinutes } from '@/lib/scheduling/time';
+import type { CalendarEntry } from '@/lib/supabase/data';
+
+describe('parseBooleanValue', () => {
+  it.each([
+    [true, true],
+    ['yes', true],
+    ['Y', true],
+    [1, true],
+    ['x', true],
+    [' TRUE ', true],
+    [false, false],
+    ['no', false],
+    [0, false],
+    ['', false],
+    [null, false],
+    [undefined, false]
+  ])('reads %p as %p', (value, expected) => {
+    expect(parseBooleanValue(value)).toBe(expected);
+  });
+
+  it.each(['maybe', 2, 'NT'])('returns null for %p', value => {
+    expect(parseBooleanValue(value)).toBeNull();
+  });
+});
+
+describe('parseDateValue', () => {
+  it('keeps ISO dates', () => {
+    expect(parseDateValue('2025-03-04')).toBe('2025-03-04');
+  });
+
+  it('keeps the date part of timestamps whatever their timezone', () => {
+    expect(parseDateValue('2025-03-04T23:30:00+08:00')).toBe('2025-03-04');
+    expect(parseDateValue('2025-03-04 00:00:00')).toBe('2025-03-04');
+  });
+
+  it('reads slash and dot dates', () => {
+    expect(parseDateValue('2025/3/4')).toBe('2025-03-04');
+    expect(parseDateValue('2025/03/04')).toBe('2025-03-04');
+    expect(parseDateValue('2025.03.04')).toBe('2025-03-04');
+  });
+
+  it('reads Date objects as their local date', () => {
+    expect(parseDateValue(new Date(2025, 2, 4, 18, 0))).toBe('2025-03-04');
+  });
+
+  it.each(['', 'next Tuesday', '2025-13-01', '2025-02-30', null, undefined, 20250304])('returns null for %p', value => {
+    expect(parseDateValue(value)).toBeNull();
+  });
+});
+
+describe('parseTimeToMinutes', () => {
+  it.each([
+    ['9:00', 540],
+    ['09:00', 540],
+    ['09:00:00', 540],
+    ['9.30', 570],
+    ['2:30 PM', 870],
+    ['2:30pm', 870],
+    ['12:00 AM', 0],
+    ['12 pm', 720],
+    ['9 a.m.', 540]
+  ])('reads %p as %p minutes', (value, expected) => {
+    expect(parseTimeToMinutes(value)).toBe(expected);
+  });
+
+  it.each(['9', '24:00', '9:75', '13:00 PM', 'noon', '', null, undefined])('returns null for %p', value => {
+    expect(parseTimeToMinutes(value)).toBeNull();
+  });
+});
+
+describe('getEntryStatus and isHeldEntry', () => {
+  const entry = (Status?: string | null, Makeup_Of?: number | null) => ({ Status, Makeup_Of });
+
+  it('treats entries without a status as scheduled and held', () => {
+    expect(getEntryStatus(entry())).toBe('scheduled');
+    expect(getEntryStatus(entry(null))).toBe('scheduled');
+    expect(isHeldEntry(entry())).toBe(true);
+  });
+
+  it('recognises free-text statuses', () => {
+    expect(getEntryStatus(entry('Cancelled - typhoon'))).toBe('cancelled');
+    expect(getEntryStatus(entry('CANCELED'))).toBe('cancelled');
+    expect(getEntryStatus(entry('Re-scheduled'))).toBe('rescheduled');
+    expect(getEntryStatus(entry('moved'))).toBe('rescheduled');
+    expect(getEntryStatus(entry('Make up'))).toBe('make-up');
+    expect(getEntryStatus(entry('make_up'))).toBe('make-up');
+  });
+
+  it('treats entries linked through Makeup_Of as make-ups', () => {
+    expect(getEntryStatus(entry(null, 12))).toBe('make-up');
+    expect(getEntryStatus(entry('', 0))).toBe('make-up');
+  });
+
+  it('only holds scheduled and make-up classes', () => {
+    expect(isHeldEntry(entry('cancelled'))).toBe(false);
+    expect(isHeldEntry(entry('rescheduled'))).toBe(false);
+    expect(isHeldEntry(entry('makeup', 3))).toBe(true);
+    expect(isHeldEntry(entry('scheduled'))).toBe(true);
+  });
+});
+
+describe('normalizeEntry', () => {
+  it('parses the loosely typed columns of a row', () => {
+    const normalized = normalizeEntry({
+      id: 1,
+      Date: '2025/3/4',
+      Start: '2:30 PM',
+      End: '16:00',
+      'NT-Led': 'Yes',
+      Course: 'Sprouts2',
+      Level: '1'
+    } as CalendarEntry);
+
+    expect(normalized).toMatchObject({
+      date: '2025-03-04',
+      startMinutes: 870,
+      endMinutes: 960,
+      durationMinutes: 90,
+      ntLed: true,
+      courseFamily: 'sprouts',
+      status: 'scheduled'
+    });
+  });
+
+  it('leaves the duration unknown when End is not after Start', () => {
+    expect(normalizeEntry({ id: 1, Date: '2025-03-04', Start: '10:00', End: '09:00' } as CalendarEntry).durationMinutes).toBeNull();
+  });
+});
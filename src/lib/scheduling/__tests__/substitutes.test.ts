@@ -0,0 +1,112 @@
+import { applySubstitutions, planSubstitutions, rankSubstitutes } from '@/lib/scheduling/substitutes';
+import { TABLE, assign, makeEntry, teachers } from './fixtures';
+
+const names = (candidates: ReturnType<typeof rankSubstitutes>) => candidates.map(candidate => candidate.teacher.Teacher_name);
+
+describe('rankSubstitutes', () => {
+  it('ranks free teachers by their number of classes, then by name', () => {
+    const target = assign(1, makeEntry());
+    const assignments = [target, assign(2, makeEntry({ Date: '2025-03-04' })), assign(2, makeEntry({ Date: '2025-03-05' }))];
+
+    expect(rankSubstitutes(target, teachers, assignments, [1])).toEqual([
+      { teacher: teachers[2], load: 0 },
+      { teacher: teachers[1], load: 2 }
+    ]);
+  });
+
+  it('leaves out teachers teaching at the same time, but not a class ending as it starts', () => {
+    const target = assign(1, makeEntry());
+    const assignments = [
+      target,
+      assign(2, makeEntry({ Start: '09:30', End: '10:30' })),
+      assign(3, makeEntry({ Start: '08:00', End: '09:00' }))
+    ];
+
+    expect(names(rankSubstitutes(target, teachers, assignments, [1]))).toEqual(['Chen']);
+  });
+
+  it('only lets Native teachers lead NT-Led classes', () => {
+    const lead = assign(2, makeEntry({ 'NT-Led': true }));
+    const assistant = assign(2, makeEntry({ 'NT-Led': true }), { role: 'assistant' });
+
+    expect(names(rankSubstitutes(lead, teachers, [], [2]))).toEqual(['Anna']);
+    expect(names(rankSubstitutes(assistant, teachers, [], [2]))).toEqual(['Anna', 'Chen']);
+  });
+
+  it('leaves out teachers outside their availability', () => {
+    const target = assign(1, makeEntry());
+    const availability = [
+      { teacherId: 2, windows: [{ dayOfWeek: 1, start: '13:00', end: '18:00' }], leave: [] },
+      { teacherId: 3, windows: [], leave: [{ from: '2025-03-03', to: '2025-03-07' }] }
+    ];
+
+    expect(rankSubstitutes(target, teachers, [target], [1], availability)).toEqual([]);
+  });
+
+  it('leaves out teachers the class would take over their weekly hour cap', () => {
+    const target = assign(1, makeEntry({ Date: '2025-03-05' }));
+    const assignments = [
+      target,
+      // Ben already teaches 3 hours this week, Chen 3 hours the week before
+      assign(2, makeEntry({ Date: '2025-03-03', Start: '09:00', End: '12:00' })),
+      assign(3, makeEntry({ Date: '2025-02-28', Start: '09:00', End: '12:00' }))
+    ];
+    const availability = [
+      { teacherId: 2, windows: [], leave: [], maxHoursPerWeek: 3 },
+      { teacherId: 3, windows: [], leave: [], maxHoursPerWeek: 3 }
+    ];
+
+    expect(names(rankSubstitutes(target, teachers, assignments, [1], availability))).toEqual(['Chen']);
+    // Exactly reaching the cap is allowed
+    availability[0].maxHoursPerWeek = 4;
+    expect(names(rankSubstitutes(target, teachers, assignments, [1], availability))).toEqual(['Ben', 'Chen']);
+  });
+});
+
+describe('planSubstitutions', () => {
+  it('lists the absent teacher\'s held classes in the absence with their candidates', () => {
+    const monday = assign(1, makeEntry());
+    const tuesday = assign(1, makeEntry({ Date: '2025-03-04', 'NT-Led': true }));
+    const resolution = {
+      assignments: [
+        tuesday,
+        monday,
+        assign(1, makeEntry({ Date: '2025-03-05', Status: 'cancelled' })),
+        assign(1, makeEntry({ Date: '2025-03-10' })),
+        assign(2, makeEntry({ Date: '2025-03-04' }))
+      ],
+      unresolved: []
+    };
+
+    const affected = planSubstitutions({ teacherId: 1, from: '2025-03-03', to: '2025-03-07' }, teachers, resolution);
+    expect(affected.map(item => item.assignment)).toEqual([monday, tuesday]);
+    expect(affected[1].requiredTeacherType).toBe('Native');
+    expect(affected[1].candidates).toEqual([]);
+    expect(names(affected[0].candidates)).toEqual(['Chen', 'Ben']);
+  });
+});
+
+describe('applySubstitutions', () => {
+  it('gives the substitute the original teacher\'s slot in that class only', () => {
+    const covered = assign(1, makeEntry());
+    const other = assign(1, makeEntry({ Date: '2025-03-04' }));
+    const result = applySubstitutions({ assignments: [covered, other], unresolved: [] }, [{
+      id: 7,
+      entryKey: covered.entryKey,
+      tableName: TABLE,
+      entryId: covered.entry.id,
+      date: '2025-03-03',
+      originalTeacherId: 1,
+      substituteTeacherId: 3,
+      createdAt: '2025-03-01T00:00:00.000Z'
+    }], teachers);
+
+    expect(result.assignments[0]).toMatchObject({
+      teacherId: 3,
+      teacherName: 'Chen',
+      role: 'lead',
+      substituteFor: { teacherId: 1, teacherName: 'Anna', substitutionId: 7 }
+    });
+    expect(result.assignments[1]).toBe(other);
+  });
+});
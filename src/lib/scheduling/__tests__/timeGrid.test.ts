@@ -0,0 +1,79 @@
+import { buildTimeAxis, layoutDayEntries } from '@/lib/scheduling/timeGrid';
+import { makeEntry } from './fixtures';
+
+const HOUR = 60;
+
+describe('layoutDayEntries', () => {
+  it('gives classes that do not overlap the full width', () => {
+    const morning = makeEntry({ Start: '09:00', End: '10:00' });
+    const next = makeEntry({ Start: '10:00', End: '11:00' });
+
+    expect(layoutDayEntries([next, morning]).positioned.map(item => [item.entry, item.column, item.columns])).toEqual([
+      [morning, 0, 1],
+      [next, 0, 1]
+    ]);
+  });
+
+  it('splits a group of overlapping classes into columns, reusing a column once it is free', () => {
+    const long = makeEntry({ Start: '09:00', End: '12:00' });
+    const first = makeEntry({ Start: '09:30', End: '10:30' });
+    const second = makeEntry({ Start: '10:30', End: '11:30' });
+    const third = makeEntry({ Start: '10:00', End: '11:00' });
+
+    const { positioned } = layoutDayEntries([long, first, second, third]);
+    expect(positioned.map(item => [item.entry, item.column, item.columns])).toEqual([
+      [long, 0, 3],
+      [first, 1, 3],
+      [third, 2, 3],
+      [second, 1, 3]
+    ]);
+  });
+
+  it('draws short classes at a readable length and returns classes without a start time apart', () => {
+    const short = makeEntry({ Start: '09:00', End: '09:05' });
+    const noEnd = makeEntry({ Start: '13:00', End: undefined });
+    const untimed = makeEntry({ Start: undefined, End: undefined });
+
+    const result = layoutDayEntries([short, noEnd, untimed]);
+    expect(result.positioned.map(item => [item.start, item.end])).toEqual([[540, 560], [780, 800]]);
+    expect(result.untimed).toEqual([untimed]);
+  });
+});
+
+describe('buildTimeAxis', () => {
+  const day = { dayStart: 8 * HOUR, dayEnd: 20 * HOUR, hourHeight: 48 };
+
+  it('shows the configured day, widened to whole hours around early and late classes', () => {
+    const axis = buildTimeAxis([makeEntry({ Start: '07:30', End: '08:30' }), makeEntry({ Start: '20:00', End: '20:45' })], day);
+
+    expect(axis.segments).toEqual([{ start: 7 * HOUR, end: 21 * HOUR, height: 14 * 48, collapsed: false }]);
+    expect(axis.hours[0]).toBe(7 * HOUR);
+    expect(axis.hours).toHaveLength(14);
+    expect(axis.offsetOf(9 * HOUR + 30)).toBe(2.5 * 48);
+  });
+
+  it('collapses the empty hours before the first and after the last class', () => {
+    const axis = buildTimeAxis([makeEntry({ Start: '10:15', End: '11:00' }), makeEntry({ Start: '13:00', End: '14:30' })], {
+      ...day,
+      collapseEmpty: true,
+      collapsedHeight: 10
+    });
+
+    expect(axis.segments).toEqual([
+      { start: 8 * HOUR, end: 10 * HOUR, height: 10, collapsed: true },
+      { start: 10 * HOUR, end: 15 * HOUR, height: 5 * 48, collapsed: false },
+      { start: 15 * HOUR, end: 20 * HOUR, height: 10, collapsed: true }
+    ]);
+    expect(axis.hours).toEqual([10, 11, 12, 13, 14].map(hour => hour * HOUR));
+    expect(axis.totalHeight).toBe(260);
+    expect(axis.offsetOf(9 * HOUR)).toBe(5);
+    expect(axis.offsetOf(10 * HOUR + 15)).toBe(10 + 12);
+    expect(axis.offsetOf(20 * HOUR)).toBe(260);
+  });
+
+  it('keeps the configured day of an empty week', () => {
+    const axis = buildTimeAxis([], { ...day, collapseEmpty: true });
+
+    expect(axis.segments).toEqual([{ start: 8 * HOUR, end: 20 * HOUR, height: 12 * 48, collapsed: false }]);
+  });
+});
@@ -0,0 +1,92 @@
+import { DEFAULT_COURSE_FAMILIES } from '@/lib/scheduling/courseCatalogue';
+import { DEFAULT_PAY_RATES, PayRate, buildPayRates, buildTimesheets, findPayRate } from '@/lib/scheduling/timesheet';
+import { assign, makeEntry, teachers } from './fixtures';
+
+const rates: PayRate[] = [
+  { category: 'Native', teacherType: 'native', hourlyRate: 300 },
+  { category: 'Native substitution', teacherType: 'native', substitution: true, hourlyRate: 350 },
+  { category: 'Native workshop', teacherType: 'native', courseKind: 'workshop', hourlyRate: 200 },
+  { category: 'Local', teacherType: 'local' }
+];
+
+const period = { from: '2025-03-01', to: '2025-03-31' };
+
+describe('buildPayRates', () => {
+  it('reads categories, optional criteria and rates from Pay-Rates rows', () => {
+    expect(buildPayRates([
+      { Category: ' Native substitution ', Teacher_Type: 'Native', Course_Kind: '', Substitution: 'yes', Hourly_Rate: '350' },
+      { Category: 'Local workshop', Teacher_Type: 'local', Course_Kind: 'Workshop', Substitution: null, Hourly_Rate: null },
+      { Category: 'Any', Substitution: 'no', Hourly_Rate: 'n/a' },
+      { Category: ' ' }
+    ])).toEqual([
+      { category: 'Native substitution', teacherType: 'native', courseKind: undefined, substitution: true, hourlyRate: 350 },
+      { category: 'Local workshop', teacherType: 'local', courseKind: 'workshop', substitution: undefined, hourlyRate: undefined },
+      { category: 'Any', teacherType: undefined, courseKind: undefined, substitution: false, hourlyRate: undefined }
+    ]);
+  });
+});
+
+describe('findPayRate', () => {
+  it('picks the most specific matching category', () => {
+    expect(findPayRate(rates, 'native', 'regular', false)?.category).toBe('Native');
+    expect(findPayRate(rates, 'native', 'regular', true)?.category).toBe('Native substitution');
+    expect(findPayRate(rates, 'local', 'workshop', false)?.category).toBe('Local');
+    expect(findPayRate([{ category: 'Native', teacherType: 'native' }], 'local', 'regular', false)).toBeUndefined();
+  });
+
+  it('gives ties to the first listed category', () => {
+    expect(findPayRate(DEFAULT_PAY_RATES, 'native', 'workshop', true)?.category).toBe('Native substitution');
+  });
+});
+
+describe('buildTimesheets', () => {
+  it('prices each class once at its category rate and totals by category', () => {
+    const regular = makeEntry({ Start: '09:00', End: '10:30' });
+    const workshop = makeEntry({ Course: 'Summer Workshop', Date: '2025-03-04', Start: '13:00', End: '15:00' });
+    const covered = makeEntry({ Date: '2025-03-05' });
+
+    const [timesheet] = buildTimesheets([
+      assign(1, regular),
+      assign(1, regular, { daySlot: 'Day2', role: 'assistant' }),
+      assign(1, workshop),
+      assign(1, covered, { substituteFor: { teacherId: 2, teacherName: 'Ben', substitutionId: 1 } })
+    ], teachers, rates, period, DEFAULT_COURSE_FAMILIES);
+
+    expect(timesheet.lines.map(line => [line.date, line.category, line.minutes, line.amount])).toEqual([
+      ['2025-03-03', 'Native', 90, 450],
+      ['2025-03-04', 'Native workshop', 120, 400],
+      ['2025-03-05', 'Native substitution', 60, 350]
+    ]);
+    expect(timesheet.lines[2].substituteFor).toBe('Ben');
+    expect(timesheet.totals).toEqual([
+      { category: 'Native', minutes: 90, hourlyRate: 300, amount: 450 },
+      { category: 'Native workshop', minutes: 120, hourlyRate: 200, amount: 400 },
+      { category: 'Native substitution', minutes: 60, hourlyRate: 350, amount: 350 }
+    ]);
+    expect(timesheet).toMatchObject({ totalMinutes: 270, totalAmount: 1200, untimedClasses: 0, cancelledClasses: 0 });
+  });
+
+  it('counts cancelled and untimed classes and leaves out classes outside the period', () => {
+    const [timesheet] = buildTimesheets([
+      assign(2, makeEntry({ Status: 'cancelled' })),
+      assign(2, makeEntry({ Date: '2025-03-04', Start: undefined, End: undefined })),
+      assign(2, makeEntry({ Date: '2025-04-01' }))
+    ], teachers, rates, period, DEFAULT_COURSE_FAMILIES);
+
+    expect(timesheet).toMatchObject({ teacherName: 'Ben', totalMinutes: 0, untimedClasses: 1, cancelledClasses: 1 });
+    expect(timesheet.lines).toEqual([expect.objectContaining({ category: 'Local', minutes: 0, amount: undefined })]);
+    expect(timesheet.totalAmount).toBeUndefined();
+  });
+
+  it('files classes no rate matches as unrated and sorts timesheets by teacher name', () => {
+    const timesheets = buildTimesheets([
+      assign(3, makeEntry()),
+      assign(1, makeEntry({ Date: '2025-03-04' }))
+    ], teachers, [{ category: 'Native', teacherType: 'native' }], period, DEFAULT_COURSE_FAMILIES);
+
+    expect(timesheets.map(timesheet => [timesheet.teacherName, timesheet.lines[0].category])).toEqual([
+      ['Anna', 'Native'],
+      ['Chen', 'Unrated']
+    ]);
+  });
+});
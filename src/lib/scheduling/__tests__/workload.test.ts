@@ -0,0 +1,99 @@
+import { DEFAULT_COURSE_FAMILIES } from '@/lib/scheduling/courseCatalogue';
+import {
+  buildWorkloadReport,
+  formatHours,
+  getContactMinutesByTeacher,
+  getPeriodStart,
+  workloadReportToCsv
+} from '@/lib/scheduling/workload';
+import { assign, makeEntry, teachers } from './fixtures';
+
+const families = DEFAULT_COURSE_FAMILIES;
+
+describe('getPeriodStart', () => {
+  it('finds the Monday of the week and the first day of the month', () => {
+    expect(getPeriodStart('2025-03-09', 'week')).toBe('2025-03-03');
+    expect(getPeriodStart('2025-03-10', 'week')).toBe('2025-03-10');
+    expect(getPeriodStart('2025-03-31', 'month')).toBe('2025-03-01');
+  });
+});
+
+describe('buildWorkloadReport', () => {
+  it('totals contact hours per teacher and week, counting each class once', () => {
+    const sprouts = makeEntry({ Start: '09:00', End: '10:30', 'NT-Led': true });
+    const workshop = makeEntry({ Course: 'Workshop', Date: '2025-03-04', Start: '13:00', End: '14:00' });
+    const report = buildWorkloadReport([
+      assign(1, sprouts),
+      assign(1, sprouts, { daySlot: 'Day2' }),
+      assign(1, workshop),
+      assign(1, makeEntry({ Date: '2025-03-05', Status: 'cancelled' })),
+      assign(1, makeEntry({ Date: '2025-03-06', Start: undefined, End: undefined })),
+      assign(1, makeEntry({ Date: '2025-03-10' }))
+    ], teachers, [], { period: 'week', families });
+
+    expect(report.rows.map(row => [row.teacherName, row.periodStart, row.periodEnd, row.classCount, row.contactMinutes])).toEqual([
+      ['Anna', '2025-03-03', '2025-03-09', 3, 150],
+      ['Anna', '2025-03-10', '2025-03-16', 1, 60]
+    ]);
+    expect(report.rows[0]).toMatchObject({
+      ntLedMinutes: 90,
+      untimedClasses: 1,
+      status: 'no-target',
+      minutesByFamily: { sprouts: 90, workshops: 60, clovers: 0, other: 0 }
+    });
+  });
+
+  it('compares hours with the weekly target and maximum, prorated to the report range', () => {
+    const availability = [
+      { teacherId: 1, windows: [], leave: [], targetHoursPerWeek: 2, maxHoursPerWeek: 3 },
+      { teacherId: 2, windows: [], leave: [], targetHoursPerWeek: 7 },
+      { teacherId: 3, windows: [], leave: [], maxHoursPerWeek: 1 }
+    ];
+    const report = buildWorkloadReport([
+      assign(1, makeEntry({ Start: '09:00', End: '11:00' })),
+      assign(3, makeEntry({ Start: '13:00', End: '15:00' }))
+    ], teachers, availability, { period: 'week', from: '2025-03-03', to: '2025-03-09', families });
+
+    expect(report.rows.map(row => [row.teacherName, row.targetMinutes, row.maxMinutes, row.status])).toEqual([
+      ['Anna', 120, 180, 'on-target'],
+      ['Ben', 420, undefined, 'under-target'],
+      ['Chen', undefined, 60, 'over-maximum']
+    ]);
+
+    // A range starting on Thursday only counts four days of the week
+    const partial = buildWorkloadReport([], teachers, availability, { period: 'week', from: '2025-03-06', to: '2025-03-09', families });
+    expect(partial.rows.find(row => row.teacherId === 2)?.targetMinutes).toBe(240);
+  });
+
+  it('gives every teacher a row for every period of the range', () => {
+    const report = buildWorkloadReport([], teachers, [], { period: 'month', from: '2025-02-15', to: '2025-03-15', families });
+
+    expect(report.rows.map(row => `${row.periodStart} ${row.teacherName}`)).toEqual([
+      '2025-02-01 Anna', '2025-02-01 Ben', '2025-02-01 Chen',
+      '2025-03-01 Anna', '2025-03-01 Ben', '2025-03-01 Chen'
+    ]);
+  });
+});
+
+describe('getContactMinutesByTeacher', () => {
+  it('counts each held class once per teacher', () => {
+    const entry = makeEntry();
+    expect(getContactMinutesByTeacher([
+      assign(1, entry),
+      assign(1, entry, { daySlot: 'Day2' }),
+      assign(2, entry, { role: 'assistant' }),
+      assign(2, makeEntry({ Status: 'rescheduled' }))
+    ])).toEqual({ 1: 60, 2: 60 });
+  });
+});
+
+describe('workloadReportToCsv', () => {
+  it('writes one line per teacher and period with decimal hours', () => {
+    const report = buildWorkloadReport([assign(1, makeEntry({ End: '10:30' }))], [teachers[0]], [], { period: 'week', families });
+    const [header, line] = workloadReportToCsv(report).trim().split(/\r?\n/);
+
+    expect(header).toContain('Sprouts Hours');
+    expect(line).toContain('1.50');
+    expect(formatHours(45)).toBe('0.75');
+  });
+});
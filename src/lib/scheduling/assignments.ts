@@ -0,0 +1,226 @@
+import type { CalendarEntry, Teacher } from '@/lib/supabase/data';
+import { compareByStartTime, isNTLedEntry } from './normalize';
+
+/**
+ * Role a teacher plays in a class.
+ * - lead: the teacher running the class
+ * - assistant: a supporting (Local) teacher in an NT-Led class
+ */
+export type AssignmentRole = 'lead' | 'assistant';
+
+/**
+ * Calendar column an assignment was read from
+ */
+export type DaySlot = 'Day1' | 'Day2';
+
+/**
+ * How a teacher reference in a day slot was matched to a teacher record
+ */
+export type AssignmentSource = 'teacher-id' | 'teacher-name';
+
+/**
+ * A single teacher assigned to a single calendar entry
+ */
+export interface ClassAssignment {
+  entryKey: string;
+  tableName: string;
+  entry: CalendarEntry;
+  teacherId: number;
+  teacherName: string;
+  role: AssignmentRole;
+  daySlot: DaySlot;
+  source: AssignmentSource;
+  /** Set when a recorded substitution replaced the teacher listed in the calendar */
+  substituteFor?: {
+    teacherId: number;
+    teacherName: string;
+    substitutionId: number;
+  };
+}
+
+/**
+ * Why an entry (or one of its day slots) could not be assigned to a teacher
+ */
+export type UnresolvedReason = 'no-teacher' | 'unknown-teacher' | 'ambiguous-teacher';
+
+/**
+ * A calendar entry, or one of its day slots, that has no usable teacher
+ */
+export interface UnresolvedAssignment {
+  entryKey: string;
+  tableName: string;
+  entry: CalendarEntry;
+  reason: UnresolvedReason;
+  daySlot?: DaySlot;
+  value?: string;
+}
+
+/**
+ * Result of resolving the assignments of one or more calendar tables
+ */
+export interface AssignmentResolution {
+  assignments: ClassAssignment[];
+  unresolved: UnresolvedAssignment[];
+}
+
+const DAY_SLOTS: DaySlot[] = ['Day1', 'Day2'];
+
+/**
+ * Build the key that identifies a calendar entry across all calendar tables
+ */
+export function getEntryKey(tableName: string, entry: CalendarEntry): string {
+  return `${tableName}#${entry.id}`;
+}
+
+/**
+ * Check whether two entry objects describe the same class.
+ * Views often hold copies of an entry fetched by a different query, so this
+ * compares the identifying columns rather than object identity alone.
+ */
+export function isSameEntry(a: CalendarEntry, b: CalendarEntry): boolean {
+  return a === b || (
+    a.id === b.id &&
+    a.Date === b.Date &&
+    a.Course === b.Course &&
+    a.Start === b.Start
+  );
+}
+
+/**
+ * Check whether a teacher is a Native teacher
+ */
+export function isNativeTeacher(teacher: Teacher): boolean {
+  return (teacher.Teacher_Type || '').toLowerCase().includes('native');
+}
+
+/**
+ * Label a teacher in a Day1/Day2 column: by name, or by ID when the name is shared by another teacher
+ */
+export function getTeacherLabel(teacher: Teacher, teachers: Teacher[]): string {
+  const name = (teacher.Teacher_name || '').trim().toLowerCase();
+  const shared = teachers.some(other =>
+    other !== teacher && (other.Teacher_name || '').trim().toLowerCase() === name
+  );
+  return shared || !name ? String(teacher.Teacher_ID) : teacher.Teacher_name;
+}
+
+function normalizeName(name: string): string {
+  return name.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+/**
+ * Resolve the teacher assignments of a single calendar table.
+ *
+ * Each of the Day1/Day2 columns is resolved independently, in this order:
+ * 1. A numeric value is matched against Teacher_ID.
+ * 2. Any other value is matched against Teacher_name (case and whitespace insensitive).
+ *    A name shared by several teachers is reported as ambiguous instead of guessed.
+ *
+ * An entry with no Day1/Day2 value is reported as having no teacher; NT-Led classes
+ * are never implicitly assigned to Native teachers. The role is 'assistant' for a
+ * non-Native teacher in an NT-Led class and 'lead' otherwise.
+ */
+export function resolveAssignments(
+  tableName: string,
+  entries: CalendarEntry[],
+  teachers: Teacher[]
+): AssignmentResolution {
+  const teachersById = new Map<number, Teacher>();
+  const teachersByName = new Map<string, Teacher[]>();
+
+  teachers.forEach(teacher => {
+    teachersById.set(Number(teacher.Teacher_ID), teacher);
+    if (teacher.Teacher_name) {
+      const key = normalizeName(teacher.Teacher_name);
+      teachersByName.set(key, [...(teachersByName.get(key) || []), teacher]);
+    }
+  });
+
+  const assignments: ClassAssignment[] = [];
+  const unresolved: UnresolvedAssignment[] = [];
+
+  entries.forEach(entry => {
+    const entryKey = getEntryKey(tableName, entry);
+    const ntLed = isNTLedEntry(entry);
+    let hasTeacherValue = false;
+
+    DAY_SLOTS.forEach(daySlot => {
+      const rawValue = entry[daySlot];
+      if (rawValue === null || rawValue === undefined || String(rawValue).trim() === '') {
+        return;
+      }
+
+      hasTeacherValue = true;
+      const value = String(rawValue).trim();
+      let teacher: Teacher | undefined;
+      let source: AssignmentSource;
+
+      if (/^\d+$/.test(value)) {
+        teacher = teachersById.get(Number(value));
+        source = 'teacher-id';
+      } else {
+        const matches = teachersByName.get(normalizeName(value)) || [];
+        if (matches.length > 1) {
+          unresolved.push({ entryKey, tableName, entry, reason: 'ambiguous-teacher', daySlot, value });
+          return;
+        }
+        teacher = matches[0];
+        source = 'teacher-name';
+      }
+
+      if (!teacher) {
+        unresolved.push({ entryKey, tableName, entry, reason: 'unknown-teacher', daySlot, value });
+        return;
+      }
+
+      assignments.push({
+        entryKey,
+        tableName,
+        entry,
+        teacherId: Number(teacher.Teacher_ID),
+        teacherName: teacher.Teacher_name,
+        role: ntLed && !isNativeTeacher(teacher) ? 'assistant' : 'lead',
+        daySlot,
+        source
+      });
+    });
+
+    if (!hasTeacherValue) {
+      unresolved.push({ entryKey, tableName, entry, reason: 'no-teacher' });
+    }
+  });
+
+  return { assignments, unresolved };
+}
+
+/**
+ * Get the distinct entries of a list of assignments, in Start order
+ */
+export function getAssignedEntries(assignments: ClassAssignment[]): CalendarEntry[] {
+  const entries = new Map<string, CalendarEntry>();
+  assignments.forEach(assignment => {
+    if (!entries.has(assignment.entryKey)) {
+      entries.set(assignment.entryKey, assignment.entry);
+    }
+  });
+
+  return Array.from(entries.values()).sort(compareByStartTime);
+}
+
+/**
+ * Count the distinct classes assigned to each teacher
+ */
+export function countAssignmentsByTeacher(assignments: ClassAssignment[]): Record<number, number> {
+  const entryKeysByTeacher = new Map<number, Set<string>>();
+  assignments.forEach(assignment => {
+    const keys = entryKeysByTeacher.get(assignment.teacherId) || new Set<string>();
+    keys.add(assignment.entryKey);
+    entryKeysByTeacher.set(assignment.teacherId, keys);
+  });
+
+  const counts: Record<number, number> = {};
+  entryKeysByTeacher.forEach((keys, teacherId) => {
+    counts[teacherId] = keys.size;
+  });
+  return counts;
+}
@@ -0,0 +1,249 @@
+import { getISODay, parseISO, format, startOfWeek } from 'date-fns';
+import type { ClassAssignment } from './assignments';
+import { compareEntries, normalizeEntry } from './normalize';
+import { parseTimeToMinutes } from './time';
+
+/**
+ * A recurring weekly window in which a teacher can be scheduled.
+ * dayOfWeek uses ISO numbering: 1 = Monday ... 7 = Sunday.
+ */
+export interface AvailabilityWindow {
+  dayOfWeek: number;
+  start: string;
+  end: string;
+}
+
+/**
+ * A one-off period (leave, holiday, training...) in which a teacher cannot be scheduled.
+ * Dates are inclusive yyyy-MM-dd; without times the whole day is blocked.
+ */
+export interface LeaveBlock {
+  from: string;
+  to: string;
+  startTime?: string;
+  endTime?: string;
+  reason?: string;
+}
+
+/**
+ * Everything known about when a teacher can work.
+ * A teacher with no windows is treated as available at any time.
+ */
+export interface TeacherAvailability {
+  teacherId: number;
+  windows: AvailabilityWindow[];
+  leave: LeaveBlock[];
+  maxHoursPerWeek?: number;
+  /** Contact hours a teacher is expected to work in a week, for workload reports */
+  targetHoursPerWeek?: number;
+}
+
+/**
+ * Raw row of the Teacher-Availability table. Each row is one of:
+ * - Kind 'weekly': Day_Of_Week, Start, End
+ * - Kind 'leave': From_Date, To_Date, optional Start/End, Reason
+ * - Kind 'limit': Max_Hours_Per_Week and/or Target_Hours_Per_Week
+ */
+export interface AvailabilityRow {
+  Teacher_ID: number;
+  Kind: 'weekly' | 'leave' | 'limit';
+  Day_Of_Week?: number | null;
+  Start?: string | null;
+  End?: string | null;
+  From_Date?: string | null;
+  To_Date?: string | null;
+  Reason?: string | null;
+  Max_Hours_Per_Week?: number | null;
+  Target_Hours_Per_Week?: number | null;
+}
+
+export type UnavailabilityReason = 'leave' | 'outside-hours';
+
+export interface AvailabilityCheck {
+  available: boolean;
+  reason?: UnavailabilityReason;
+  detail?: string;
+}
+
+/**
+ * Summary of a teacher's availability on a single day, used for shading calendar views
+ */
+export interface DayAvailability {
+  date: string;
+  unavailableAllDay: boolean;
+  reason?: UnavailabilityReason;
+  detail?: string;
+  windows: AvailabilityWindow[];
+}
+
+/**
+ * Group Teacher-Availability rows into one TeacherAvailability per teacher
+ */
+export function buildTeacherAvailability(rows: AvailabilityRow[]): TeacherAvailability[] {
+  const byTeacher = new Map<number, TeacherAvailability>();
+
+  rows.forEach(row => {
+    const teacherId = Number(row.Teacher_ID);
+    const availability = byTeacher.get(teacherId) || { teacherId, windows: [], leave: [] };
+
+    if (row.Kind === 'weekly' && row.Day_Of_Week && row.Start && row.End) {
+      availability.windows.push({ dayOfWeek: Number(row.Day_Of_Week), start: row.Start, end: row.End });
+    } else if (row.Kind === 'leave' && row.From_Date) {
+      availability.leave.push({
+        from: row.From_Date.slice(0, 10),
+        to: (row.To_Date || row.From_Date).slice(0, 10),
+        startTime: row.Start || undefined,
+        endTime: row.End || undefined,
+        reason: row.Reason || undefined
+      });
+    } else if (row.Kind === 'limit') {
+      if (row.Max_Hours_Per_Week) {
+        availability.maxHoursPerWeek = Number(row.Max_Hours_Per_Week);
+      }
+      if (row.Target_Hours_Per_Week) {
+        availability.targetHoursPerWeek = Number(row.Target_Hours_Per_Week);
+      }
+    }
+
+    byTeacher.set(teacherId, availability);
+  });
+
+  return Array.from(byTeacher.values());
+}
+
+function getLeaveOn(availability: TeacherAvailability, date: string): LeaveBlock[] {
+  return availability.leave.filter(block => date >= block.from && date <= block.to);
+}
+
+function describeLeave(block: LeaveBlock): string {
+  return block.reason ? `On leave (${block.reason})` : 'On leave';
+}
+
+/**
+ * Check whether a teacher can be scheduled on a date between two times (minutes since midnight)
+ */
+export function checkAvailability(
+  availability: TeacherAvailability | undefined,
+  date: string,
+  startMinutes: number,
+  endMinutes: number
+): AvailabilityCheck {
+  if (!availability) return { available: true };
+
+  for (const block of getLeaveOn(availability, date)) {
+    const blockStart = parseTimeToMinutes(block.startTime);
+    const blockEnd = parseTimeToMinutes(block.endTime);
+    const wholeDay = blockStart === null || blockEnd === null;
+    if (wholeDay || (startMinutes < blockEnd! && blockStart! < endMinutes)) {
+      return { available: false, reason: 'leave', detail: describeLeave(block) };
+    }
+  }
+
+  if (availability.windows.length === 0) return { available: true };
+
+  const dayOfWeek = getISODay(parseISO(date));
+  const fits = availability.windows.some(window => {
+    if (window.dayOfWeek !== dayOfWeek) return false;
+    const windowStart = parseTimeToMinutes(window.start);
+    const windowEnd = parseTimeToMinutes(window.end);
+    return windowStart !== null && windowEnd !== null && startMinutes >= windowStart && endMinutes <= windowEnd;
+  });
+
+  return fits
+    ? { available: true }
+    : { available: false, reason: 'outside-hours', detail: 'Outside working hours' };
+}
+
+/**
+ * Summarise a teacher's availability on a day
+ */
+export function getDayAvailability(availability: TeacherAvailability | undefined, date: string): DayAvailability {
+  if (!availability) {
+    return { date, unavailableAllDay: false, windows: [] };
+  }
+
+  const wholeDayLeave = getLeaveOn(availability, date).find(block => !block.startTime || !block.endTime);
+  if (wholeDayLeave) {
+    return { date, unavailableAllDay: true, reason: 'leave', detail: describeLeave(wholeDayLeave), windows: [] };
+  }
+
+  const dayOfWeek = getISODay(parseISO(date));
+  const windows = availability.windows.filter(window => window.dayOfWeek === dayOfWeek);
+  if (availability.windows.length > 0 && windows.length === 0) {
+    return { date, unavailableAllDay: true, reason: 'outside-hours', detail: 'Not working', windows };
+  }
+
+  return { date, unavailableAllDay: false, windows };
+}
+
+/**
+ * A scheduling problem caused by a teacher's availability
+ */
+export interface AvailabilityViolation {
+  type: 'outside-availability' | 'over-hours';
+  teacherId: number;
+  teacherName: string;
+  date: string;
+  assignments: ClassAssignment[];
+  message: string;
+}
+
+/**
+ * Find assignments outside a teacher's availability and weeks over their maximum hours
+ */
+export function findAvailabilityViolations(
+  assignments: ClassAssignment[],
+  availability: TeacherAvailability[]
+): AvailabilityViolation[] {
+  const availabilityByTeacher = new Map<number, TeacherAvailability>();
+  availability.forEach(item => availabilityByTeacher.set(item.teacherId, item));
+
+  const violations: AvailabilityViolation[] = [];
+  const minutesByTeacherWeek = new Map<string, number>();
+  const seen = new Set<string>();
+
+  [...assignments]
+    .sort((a, b) => compareEntries(a.entry, b.entry))
+    .forEach(assignment => {
+      const teacherAvailability = availabilityByTeacher.get(assignment.teacherId);
+      const seenKey = `${assignment.teacherId}|${assignment.entryKey}`;
+      if (!teacherAvailability || seen.has(seenKey)) return;
+      seen.add(seenKey);
+
+      const { date, startMinutes: start, endMinutes: end, durationMinutes } = normalizeEntry(assignment.entry);
+      if (!date || start === null || end === null || durationMinutes === null) return;
+
+      const check = checkAvailability(teacherAvailability, date, start, end);
+      if (!check.available) {
+        violations.push({
+          type: 'outside-availability',
+          teacherId: assignment.teacherId,
+          teacherName: assignment.teacherName,
+          date,
+          assignments: [assignment],
+          message: `${assignment.teacherName} is unavailable at ${assignment.entry.Start}-${assignment.entry.End}: ${check.detail}`
+        });
+      }
+
+      if (teacherAvailability.maxHoursPerWeek) {
+        const weekStart = format(startOfWeek(parseISO(date), { weekStartsOn: 1 }), 'yyyy-MM-dd');
+        const weekKey = `${assignment.teacherId}|${weekStart}`;
+        const weekMinutes = (minutesByTeacherWeek.get(weekKey) || 0) + durationMinutes;
+        minutesByTeacherWeek.set(weekKey, weekMinutes);
+
+        // Flag the class that takes the teacher over the cap, and every class after it
+        if (weekMinutes > teacherAvailability.maxHoursPerWeek * 60) {
+          violations.push({
+            type: 'over-hours',
+            teacherId: assignment.teacherId,
+            teacherName: assignment.teacherName,
+            date,
+            assignments: [assignment],
+            message: `${assignment.teacherName} reaches ${(weekMinutes / 60).toFixed(1)}h in the week of ${weekStart} (maximum ${teacherAvailability.maxHoursPerWeek}h)`
+          });
+        }
+      }
+    });
+
+  return violations;
+}
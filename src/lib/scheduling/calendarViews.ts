@@ -0,0 +1,126 @@
+import { addDays, addMonths, addWeeks, endOfMonth, endOfWeek, format, parseISO, startOfMonth, startOfWeek } from 'date-fns';
+import type { CalendarEntry, Teacher } from '@/lib/supabase/data';
+import type { ClassAssignment } from './assignments';
+import { CourseFamily, getEntryDate, isHeldEntry, normalizeEntry } from './normalize';
+
+/**
+ * Views of the schedule page
+ */
+export type CalendarView = 'day' | 'weekly' | 'month' | 'timeline';
+
+export const CALENDAR_VIEW_LABELS: Record<CalendarView, string> = {
+  day: 'Day',
+  weekly: 'Week',
+  month: 'Month',
+  timeline: 'Staff timeline'
+};
+
+/**
+ * How far the previous/next controls move in a view
+ */
+export type DateStep = 'day' | 'week' | 'month';
+
+export const CALENDAR_VIEW_STEPS: Record<CalendarView, DateStep> = {
+  day: 'day',
+  weekly: 'week',
+  month: 'month',
+  timeline: 'day'
+};
+
+/**
+ * Course filter shared by the schedule views: a course family, NT-Led classes only, or everything
+ */
+export type CourseFilter = 'all' | 'ntled' | CourseFamily;
+
+/**
+ * Check whether an entry passes the course filter
+ */
+export function matchesCourseFilter(entry: CalendarEntry, filter: CourseFilter): boolean {
+  if (filter === 'all') return true;
+  const { courseFamily, ntLed } = normalizeEntry(entry);
+  return filter === 'ntled' ? ntLed : courseFamily === filter;
+}
+
+/**
+ * Move a yyyy-MM-dd date by a number of days, weeks or months
+ */
+export function shiftDate(date: string, step: DateStep, amount: number): string {
+  const day = parseISO(date);
+  const shifted = step === 'day' ? addDays(day, amount) : step === 'week' ? addWeeks(day, amount) : addMonths(day, amount);
+  return format(shifted, 'yyyy-MM-dd');
+}
+
+/**
+ * The dates a view shows around a date. The month view covers whole weeks (Monday to Sunday)
+ * so its grid has no gaps.
+ */
+export function getViewRange(view: CalendarView, date: string): { from: string; to: string } {
+  const day = parseISO(date);
+  switch (view) {
+    case 'day':
+    case 'timeline':
+      return { from: date, to: date };
+    case 'weekly':
+      return {
+        from: format(startOfWeek(day, { weekStartsOn: 1 }), 'yyyy-MM-dd'),
+        to: format(endOfWeek(day, { weekStartsOn: 1 }), 'yyyy-MM-dd')
+      };
+    case 'month':
+      return {
+        from: format(startOfWeek(startOfMonth(day), { weekStartsOn: 1 }), 'yyyy-MM-dd'),
+        to: format(endOfWeek(endOfMonth(day), { weekStartsOn: 1 }), 'yyyy-MM-dd')
+      };
+  }
+}
+
+/**
+ * A class on a teacher's timeline, in minutes since midnight
+ */
+export interface TimelineBlock {
+  assignment: ClassAssignment;
+  start: number;
+  end: number;
+}
+
+/**
+ * A teacher's day: their classes in start order and the idle time between them
+ */
+export interface TimelineRow {
+  teacher: Teacher;
+  blocks: TimelineBlock[];
+  gaps: { start: number; end: number }[];
+  teachingMinutes: number;
+}
+
+/**
+ * Build the staff timeline of a day: one row per teacher with the classes that take place.
+ * Classes without start/end times cannot be placed and are left out; overlapping classes
+ * (double-bookings) leave no gap between them.
+ */
+export function buildTimelineRows(teachers: Teacher[], assignments: ClassAssignment[], date: string): TimelineRow[] {
+  return teachers.map(teacher => {
+    const blocks = assignments
+      .filter(assignment => assignment.teacherId === Number(teacher.Teacher_ID) && getEntryDate(assignment.entry) === date)
+      .filter(assignment => isHeldEntry(assignment.entry))
+      .map(assignment => {
+        const { startMinutes, endMinutes } = normalizeEntry(assignment.entry);
+        return { assignment, start: startMinutes, end: endMinutes };
+      })
+      .filter((block): block is TimelineBlock => block.start !== null && block.end !== null && block.end > block.start)
+      .sort((a, b) => a.start - b.start);
+
+    const gaps: { start: number; end: number }[] = [];
+    let busyUntil: number | null = null;
+    blocks.forEach(block => {
+      if (busyUntil !== null && block.start > busyUntil) gaps.push({ start: busyUntil, end: block.start });
+      busyUntil = busyUntil === null ? block.end : Math.max(busyUntil, block.end);
+    });
+
+    return {
+      teacher,
+      blocks,
+      gaps,
+      teachingMinutes: blocks.reduce((sum, block) => sum + block.end - block.start, 0)
+    };
+  });
+}
@@ -0,0 +1,183 @@
+import type { CalendarEntry } from '@/lib/supabase/data';
+import {
+  AssignmentResolution,
+  ClassAssignment,
+  isSameEntry
+} from './assignments';
+import { TeacherAvailability, findAvailabilityViolations } from './availability';
+import { getEntryDate, isHeldEntry, normalizeEntry } from './normalize';
+
+/**
+ * Kinds of scheduling problems the conflict engine reports
+ * - double-booking: a teacher is in two classes whose times overlap
+ * - no-break: a teacher has back-to-back classes with less than the minimum break between them
+ * - unassigned: a class has no teacher at all
+ * - outside-availability: a teacher is scheduled outside their working hours or while on leave
+ * - over-hours: a class takes a teacher over their maximum hours for the week
+ */
+export type ConflictType = 'double-booking' | 'no-break' | 'unassigned' | 'outside-availability' | 'over-hours';
+
+export type ConflictSeverity = 'error' | 'warning';
+
+/**
+ * A single scheduling problem
+ */
+export interface ScheduleConflict {
+  id: string;
+  type: ConflictType;
+  severity: ConflictSeverity;
+  date: string;
+  teacherId?: number;
+  teacherName?: string;
+  entryKeys: string[];
+  entries: CalendarEntry[];
+  message: string;
+}
+
+export interface ConflictDetectionOptions {
+  /** Minimum break (travel time) a teacher needs between two classes, in minutes */
+  minBreakMinutes?: number;
+  /** Teacher availability to check assignments against; availability is not checked when omitted */
+  availability?: TeacherAvailability[];
+}
+
+export const DEFAULT_MIN_BREAK_MINUTES = 10;
+
+interface TimedAssignment {
+  assignment: ClassAssignment;
+  start: number;
+  end: number;
+}
+
+function describeEntry(entry: CalendarEntry): string {
+  const classId = entry['Class.ID'] ? ` (${entry['Class.ID']})` : '';
+  return `${entry.Course || 'Unknown course'} ${entry.Level || ''}${classId} ${entry.Start || '?'}-${entry.End || '?'}`.replace(/\s+/g, ' ');
+}
+
+/**
+ * Detect teacher double-bookings, missing breaks, unassigned classes and (when availability
+ * is given) classes outside a teacher's availability in a set of resolved assignments.
+ * The assignments may span any number of calendar tables; cancelled and rescheduled classes are ignored.
+ */
+export function detectConflicts(
+  allAssignments: AssignmentResolution,
+  options: ConflictDetectionOptions = {}
+): ScheduleConflict[] {
+  const minBreak = options.minBreakMinutes ?? DEFAULT_MIN_BREAK_MINUTES;
+  const conflicts: ScheduleConflict[] = [];
+  const resolution: AssignmentResolution = {
+    assignments: allAssignments.assignments.filter(assignment => isHeldEntry(assignment.entry)),
+    unresolved: allAssignments.unresolved.filter(item => isHeldEntry(item.entry))
+  };
+
+  // Group each teacher's classes by day, ignoring duplicate slots of the same entry
+  const byTeacherDay = new Map<string, Map<string, ClassAssignment>>();
+  resolution.assignments.forEach(assignment => {
+    const groupKey = `${assignment.teacherId}|${getEntryDate(assignment.entry)}`;
+    const group = byTeacherDay.get(groupKey) || new Map<string, ClassAssignment>();
+    if (!group.has(assignment.entryKey)) {
+      group.set(assignment.entryKey, assignment);
+    }
+    byTeacherDay.set(groupKey, group);
+  });
+
+  byTeacherDay.forEach(group => {
+    const timed: TimedAssignment[] = [];
+    group.forEach(assignment => {
+      const { startMinutes: start, endMinutes: end, durationMinutes } = normalizeEntry(assignment.entry);
+      if (start !== null && end !== null && durationMinutes !== null) {
+        timed.push({ assignment, start, end });
+      }
+    });
+    timed.sort((a, b) => a.start - b.start);
+
+    for (let i = 0; i < timed.length; i++) {
+      const current = timed[i];
+      const { teacherId, teacherName } = current.assignment;
+      const date = getEntryDate(current.assignment.entry);
+
+      for (let j = i + 1; j < timed.length; j++) {
+        const next = timed[j];
+        if (next.start >= current.end) {
+          // Only the class directly after this one can be too close
+          const gap = next.start - current.end;
+          if (j === i + 1 && gap < minBreak) {
+            conflicts.push({
+              id: `no-break|${current.assignment.entryKey}|${next.assignment.entryKey}|${teacherId}`,
+              type: 'no-break',
+              severity: 'warning',
+              date,
+              teacherId,
+              teacherName,
+              entryKeys: [current.assignment.entryKey, next.assignment.entryKey],
+              entries: [current.assignment.entry, next.assignment.entry],
+              message: `${teacherName} has ${gap} min between ${describeEntry(current.assignment.entry)} and ${describeEntry(next.assignment.entry)} (minimum ${minBreak} min)`
+            });
+          }
+          break;
+        }
+
+        conflicts.push({
+          id: `double-booking|${current.assignment.entryKey}|${next.assignment.entryKey}|${teacherId}`,
+          type: 'double-booking',
+          severity: 'error',
+          date,
+          teacherId,
+          teacherName,
+          entryKeys: [current.assignment.entryKey, next.assignment.entryKey],
+          entries: [current.assignment.entry, next.assignment.entry],
+          message: `${teacherName} is double-booked: ${describeEntry(current.assignment.entry)} overlaps ${describeEntry(next.assignment.entry)}`
+        });
+      }
+    }
+  });
+
+  // Classes with no resolvable teacher in any day slot
+  const assignedKeys = new Set(resolution.assignments.map(assignment => assignment.entryKey));
+  const reported = new Set<string>();
+  resolution.unresolved.forEach(item => {
+    if (assignedKeys.has(item.entryKey) || reported.has(item.entryKey)) return;
+    reported.add(item.entryKey);
+
+    const reason = item.reason === 'no-teacher'
+      ? 'no teacher listed'
+      : `teacher "${item.value}" could not be matched`;
+
+    conflicts.push({
+      id: `unassigned|${item.entryKey}`,
+      type: 'unassigned',
+      severity: 'error',
+      date: getEntryDate(item.entry),
+      entryKeys: [item.entryKey],
+      entries: [item.entry],
+      message: `${describeEntry(item.entry)} has no teacher (${reason})`
+    });
+  });
+
+  // Classes outside a teacher's availability or over their weekly hours
+  if (options.availability) {
+    findAvailabilityViolations(resolution.assignments, options.availability).forEach(violation => {
+      const [assignment] = violation.assignments;
+      conflicts.push({
+        id: `${violation.type}|${assignment.entryKey}|${violation.teacherId}`,
+        type: violation.type,
+        severity: violation.type === 'outside-availability' ? 'error' : 'warning',
+        date: violation.date,
+        teacherId: violation.teacherId,
+        teacherName: violation.teacherName,
+        entryKeys: violation.assignments.map(item => item.entryKey),
+        entries: violation.assignments.map(item => item.entry),
+        message: `${violation.message} (${describeEntry(assignment.entry)})`
+      });
+    });
+  }
+
+  return conflicts.sort((a, b) => a.date.localeCompare(b.date) || a.type.localeCompare(b.type));
+}
+
+/**
+ * Get the conflicts that involve a given calendar entry
+ */
+export function getConflictsForEntry(conflicts: ScheduleConflict[], entry: CalendarEntry): ScheduleConflict[] {
+  return conflicts.filter(conflict => conflict.entries.some(conflictEntry => isSameEntry(conflictEntry, entry)));
+}
@@ -0,0 +1,183 @@
+/**
+ * Colours a family can be drawn in; their shades are defined in courseColors.ts
+ */
+export type CourseColorName =
+  | 'purple' | 'emerald' | 'blue' | 'amber' | 'rose' | 'teal' | 'orange' | 'cyan' | 'lime' | 'fuchsia' | 'slate';
+
+export const COURSE_COLOR_NAMES: CourseColorName[] = [
+  'purple', 'emerald', 'blue', 'amber', 'rose', 'teal', 'orange', 'cyan', 'lime', 'fuchsia', 'slate'
+];
+
+/**
+ * A course family of the catalogue: how classes are grouped for filters, colours and reports.
+ * A class belongs to the first family whose course patterns match its course name; classes no
+ * course pattern matches go to the first family whose level patterns match its level.
+ */
+export interface CourseFamilyDefinition {
+  /** Identifier used by filters and reports, e.g. "sprouts" */
+  key: string;
+  label: string;
+  color: CourseColorName;
+  /** Texts looked for in the Course column, ignoring case */
+  coursePatterns: string[];
+  /** Words looked for in the Level column, ignoring case; "Advanced 2" matches "advanced" but "A2" does not match "a" */
+  levelPatterns: string[];
+  /** The family's levels in teaching order, offered when entering a class */
+  levels: string[];
+}
+
+/**
+ * Raw row of the Course-Families table; the list columns are comma-separated
+ */
+export interface CourseFamilyRow {
+  Family_Key: string;
+  Label?: string | null;
+  Color?: string | null;
+  Course_Match?: string | null;
+  Level_Match?: string | null;
+  Levels?: string | null;
+  Sort_Order?: number | string | null;
+}
+
+// Family of the classes that match no family of the catalogue
+export const OTHER_COURSE_FAMILY = 'other';
+
+// The catalogue used when the Course-Families table is missing or empty
+export const DEFAULT_COURSE_FAMILIES: CourseFamilyDefinition[] = [
+  { key: 'sprouts', label: 'Sprouts', color: 'purple', coursePatterns: ['sprout'], levelPatterns: [], levels: [] },
+  { key: 'clovers', label: 'Clovers', color: 'emerald', coursePatterns: ['clover'], levelPatterns: [], levels: [] },
+  { key: 'guardians', label: 'Guardians', color: 'blue', coursePatterns: ['guardian'], levelPatterns: [], levels: [] },
+  { key: 'workshops', label: 'Workshops', color: 'amber', coursePatterns: ['workshop', 'special'], levelPatterns: [], levels: [] },
+  { key: 'advanced', label: 'Advanced', color: 'rose', coursePatterns: [], levelPatterns: ['advanced', 'adv'], levels: [] }
+];
+
+// The catalogue classes are grouped by; replaced once the Course-Families table has been read
+let activeFamilies: CourseFamilyDefinition[] = DEFAULT_COURSE_FAMILIES;
+
+function splitList(value?: string | null): string[] {
+  return (value || '')
+    .split(',')
+    .map(item => item.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Turn a label or key into a family key: lowercase words joined by dashes
+ */
+export function toCourseFamilyKey(value: string): string {
+  return value.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+}
+
+/**
+ * Turn Course-Families rows into the catalogue, ordered by Sort_Order. Rows without a key, and
+ * rows repeating a key or using the reserved "other" key, are skipped.
+ */
+export function buildCourseFamilies(rows: CourseFamilyRow[]): CourseFamilyDefinition[] {
+  const seen = new Set<string>([OTHER_COURSE_FAMILY]);
+
+  return rows
+    .map((row, index) => ({ row, index, order: Number(row.Sort_Order) }))
+    .sort((a, b) => (Number.isFinite(a.order) ? a.order : Infinity) - (Number.isFinite(b.order) ? b.order : Infinity) || a.index - b.index)
+    .flatMap(({ row }) => {
+      const key = toCourseFamilyKey(String(row.Family_Key || ''));
+      if (!key || seen.has(key)) return [];
+      seen.add(key);
+      const color = String(row.Color || '').trim().toLowerCase() as CourseColorName;
+
+      return [{
+        key,
+        label: String(row.Label || '').trim() || key,
+        color: COURSE_COLOR_NAMES.includes(color) ? color : 'slate',
+        coursePatterns: splitList(row.Course_Match),
+        levelPatterns: splitList(row.Level_Match),
+        levels: splitList(row.Levels)
+      }];
+    });
+}
+
+/**
+ * Problems that keep a catalogue from being saved: missing or repeated keys and labels,
+ * and families no class could ever match
+ */
+export function validateCourseFamilies(families: CourseFamilyDefinition[]): string[] {
+  const errors: string[] = [];
+  const keys = new Set<string>();
+
+  families.forEach((family, index) => {
+    const name = family.label || `Family ${index + 1}`;
+    if (!family.key) {
+      errors.push(`${name} needs a key`);
+    } else if (family.key === OTHER_COURSE_FAMILY) {
+      errors.push(`${name}: "${OTHER_COURSE_FAMILY}" is kept for classes no family matches`);
+    } else if (keys.has(family.key)) {
+      errors.push(`${name}: the key "${family.key}" is used by another family`);
+    }
+    keys.add(family.key);
+    if (!family.label.trim()) errors.push(`${name} needs a label`);
+    if (family.coursePatterns.length === 0 && family.levelPatterns.length === 0) {
+      errors.push(`${name} needs a course or level to match`);
+    }
+    if (!COURSE_COLOR_NAMES.includes(family.color)) errors.push(`${name}: unknown colour "${family.color}"`);
+  });
+
+  return errors;
+}
+
+/**
+ * A family as a Course-Families row
+ */
+export function toCourseFamilyRow(family: CourseFamilyDefinition, sortOrder: number): CourseFamilyRow {
+  return {
+    Family_Key: family.key,
+    Label: family.label,
+    Color: family.color,
+    Course_Match: family.coursePatterns.join(', '),
+    Level_Match: family.levelPatterns.join(', '),
+    Levels: family.levels.join(', '),
+    Sort_Order: sortOrder
+  };
+}
+
+/**
+ * The catalogue classes are currently grouped by
+ */
+export function getActiveCourseFamilies(): CourseFamilyDefinition[] {
+  return activeFamilies;
+}
+
+/**
+ * Group classes by another catalogue from now on, e.g. after reading the Course-Families table
+ */
+export function setActiveCourseFamilies(families: CourseFamilyDefinition[]): void {
+  activeFamilies = families;
+}
+
+/**
+ * The keys of the catalogue's families in order, followed by "other"
+ */
+export function getCourseFamilyKeys(families: CourseFamilyDefinition[] = activeFamilies): string[] {
+  return [...families.map(family => family.key), OTHER_COURSE_FAMILY];
+}
+
+/**
+ * Display name of a family key; keys no longer in the catalogue are shown as they are
+ */
+export function getCourseFamilyLabel(key: string, families: CourseFamilyDefinition[] = activeFamilies): string {
+  if (key === OTHER_COURSE_FAMILY) return 'Other';
+  return families.find(family => family.key === key)?.label || key;
+}
+
+/**
+ * Find the family of a class from its course name, falling back to its level
+ */
+export function matchCourseFamily(
+  course?: string | null,
+  level?: string | null,
+  families: CourseFamilyDefinition[] = activeFamilies
+): CourseFamilyDefinition | undefined {
+  const courseName = (course || '').toLowerCase();
+  const levelWords = (level || '').toLowerCase().split(/[^a-z0-9]+/).filter(Boolean);
+
+  return families.find(family => family.coursePatterns.some(pattern => courseName.includes(pattern.toLowerCase())))
+    || families.find(family => family.levelPatterns.some(pattern => levelWords.includes(pattern.toLowerCase())));
+}
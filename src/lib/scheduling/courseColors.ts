@@ -0,0 +1,105 @@
+import type { CalendarEntry } from '@/lib/supabase/data';
+import { getCourseFamily, isNTLedEntry } from '@/lib/scheduling/normalize';
+import {
+  CourseColorName,
+  CourseFamilyDefinition,
+  OTHER_COURSE_FAMILY,
+  getActiveCourseFamilies
+} from '@/lib/scheduling/courseCatalogue';
+
+/**
+ * Colours of a calendar entry: Tailwind classes for the web views and the matching
+ * hex values for exports that cannot use CSS (e.g. PDF)
+ */
+export interface CourseColor {
+  className: string;
+  background: string;
+  border: string;
+  text: string;
+}
+
+interface CourseColorShades {
+  regular: CourseColor;
+  /** Darker variant used when the class is led by a native teacher */
+  ntLed: CourseColor;
+}
+
+// Class names are written out in full so Tailwind keeps them in the build
+export const COURSE_PALETTE: Record<CourseColorName, CourseColorShades> = {
+  purple: {
+    regular: { className: 'bg-purple-50 border-purple-400 text-purple-700', background: '#faf5ff', border: '#c084fc', text: '#7e22ce' },
+    ntLed: { className: 'bg-purple-100 border-purple-500 text-purple-800', background: '#f3e8ff', border: '#a855f7', text: '#6b21a8' }
+  },
+  emerald: {
+    regular: { className: 'bg-emerald-50 border-emerald-400 text-emerald-700', background: '#ecfdf5', border: '#34d399', text: '#047857' },
+    ntLed: { className: 'bg-emerald-100 border-emerald-500 text-emerald-800', background: '#d1fae5', border: '#10b981', text: '#065f46' }
+  },
+  blue: {
+    regular: { className: 'bg-blue-50 border-blue-400 text-blue-700', background: '#eff6ff', border: '#60a5fa', text: '#1d4ed8' },
+    ntLed: { className: 'bg-blue-100 border-blue-500 text-blue-800', background: '#dbeafe', border: '#3b82f6', text: '#1e40af' }
+  },
+  amber: {
+    regular: { className: 'bg-amber-50 border-amber-400 text-amber-700', background: '#fffbeb', border: '#fbbf24', text: '#b45309' },
+    ntLed: { className: 'bg-amber-100 border-amber-500 text-amber-800', background: '#fef3c7', border: '#f59e0b', text: '#92400e' }
+  },
+  rose: {
+    regular: { className: 'bg-rose-50 border-rose-400 text-rose-700', background: '#fff1f2', border: '#fb7185', text: '#be123c' },
+    ntLed: { className: 'bg-rose-100 border-rose-500 text-rose-800', background: '#ffe4e6', border: '#f43f5e', text: '#9f1239' }
+  },
+  teal: {
+    regular: { className: 'bg-teal-50 border-teal-400 text-teal-700', background: '#f0fdfa', border: '#2dd4bf', text: '#0f766e' },
+    ntLed: { className: 'bg-teal-100 border-teal-500 text-teal-800', background: '#ccfbf1', border: '#14b8a6', text: '#115e59' }
+  },
+  orange: {
+    regular: { className: 'bg-orange-50 border-orange-400 text-orange-700', background: '#fff7ed', border: '#fb923c', text: '#c2410c' },
+    ntLed: { className: 'bg-orange-100 border-orange-500 text-orange-800', background: '#ffedd5', border: '#f97316', text: '#9a3412' }
+  },
+  cyan: {
+    regular: { className: 'bg-cyan-50 border-cyan-400 text-cyan-700', background: '#ecfeff', border: '#22d3ee', text: '#0e7490' },
+    ntLed: { className: 'bg-cyan-100 border-cyan-500 text-cyan-800', background: '#cffafe', border: '#06b6d4', text: '#155e75' }
+  },
+  lime: {
+    regular: { className: 'bg-lime-50 border-lime-400 text-lime-700', background: '#f7fee7', border: '#a3e635', text: '#4d7c0f' },
+    ntLed: { className: 'bg-lime-100 border-lime-500 text-lime-800', background: '#ecfccb', border: '#84cc16', text: '#3f6212' }
+  },
+  fuchsia: {
+    regular: { className: 'bg-fuchsia-50 border-fuchsia-400 text-fuchsia-700', background: '#fdf4ff', border: '#e879f9', text: '#a21caf' },
+    ntLed: { className: 'bg-fuchsia-100 border-fuchsia-500 text-fuchsia-800', background: '#fae8ff', border: '#d946ef', text: '#86198f' }
+  },
+  slate: {
+    regular: { className: 'bg-slate-50 border-slate-400 text-slate-700', background: '#f8fafc', border: '#94a3b8', text: '#334155' },
+    ntLed: { className: 'bg-slate-100 border-slate-500 text-slate-800', background: '#f1f5f9', border: '#64748b', text: '#1e293b' }
+  }
+};
+
+// Classes of no family: grey, or indigo when NT-Led
+const OTHER_COURSE_COLORS: CourseColorShades = {
+  regular: { className: 'bg-slate-100 border-slate-500 text-slate-800', background: '#f1f5f9', border: '#64748b', text: '#1e293b' },
+  ntLed: { className: 'bg-indigo-100 border-indigo-500 text-indigo-800', background: '#e0e7ff', border: '#6366f1', text: '#3730a3' }
+};
+
+/**
+ * The colours of a course family by key; unknown keys and "other" are grey
+ */
+export function getCourseFamilyColors(key: string, families: CourseFamilyDefinition[] = getActiveCourseFamilies()): CourseColorShades {
+  const family = key === OTHER_COURSE_FAMILY ? undefined : families.find(item => item.key === key);
+  return family ? COURSE_PALETTE[family.color] : OTHER_COURSE_COLORS;
+}
+
+/**
+ * Legend shown with calendars and printed timetables: one swatch per family of the catalogue
+ */
+export function getCourseLegend(families: CourseFamilyDefinition[] = getActiveCourseFamilies()): { label: string; color: CourseColor }[] {
+  return [
+    ...families.map(family => ({ label: family.label, color: COURSE_PALETTE[family.color].regular })),
+    { label: 'NT-Led (darker shade)', color: OTHER_COURSE_COLORS.ntLed }
+  ];
+}
+
+/**
+ * Get the colours of an entry based on its course family and NT-Led status
+ */
+export function getCourseColor(entry: CalendarEntry, families: CourseFamilyDefinition[] = getActiveCourseFamilies()): CourseColor {
+  const colors = getCourseFamilyColors(getCourseFamily(entry.Course, entry.Level, families), families);
+  return isNTLedEntry(entry) ? colors.ntLed : colors.regular;
+}
@@ -0,0 +1,135 @@
+import type { CalendarEntry, CalendarEntryField } from '@/lib/supabase/data';
+import { parseBooleanValue, parseDateValue } from './normalize';
+import { parseTimeToMinutes } from './time';
+
+export type ScheduleChangeType = 'add' | 'update' | 'remove';
+
+/**
+ * A single row-level change to a calendar table
+ */
+export interface ScheduleChange {
+  type: ScheduleChangeType;
+  tableName: string;
+  /** The current row, for updates and removals */
+  before?: CalendarEntry;
+  /** The proposed row, for additions and updates */
+  after?: Omit<CalendarEntry, 'id'>;
+  /** Columns whose value changes, for updates */
+  changedFields: CalendarEntryField[];
+}
+
+export interface ScheduleDiff {
+  changes: ScheduleChange[];
+  unchangedCount: number;
+}
+
+/**
+ * A proposed calendar row and the table it belongs to
+ */
+export interface ProposedEntry {
+  tableName: string;
+  entry: Omit<CalendarEntry, 'id'>;
+}
+
+// Columns compared when matching a proposed row with an existing one
+const DIFF_FIELDS: CalendarEntryField[] = ['Visit', 'Date', 'Course', 'Level', 'Day1', 'Day2', 'Start', 'End', 'Unit', 'Class.ID', 'NT-Led'];
+
+function getMatchKey(entry: Omit<CalendarEntry, 'id'>): string {
+  return `${entry['Class.ID'] || ''}|${entry.Visit}`;
+}
+
+function isSameValue(field: string, a: unknown, b: unknown): boolean {
+  switch (field) {
+    case 'Date':
+      return (parseDateValue(a) || '') === (parseDateValue(b) || '');
+    case 'Start':
+    case 'End':
+      return parseTimeToMinutes(a as string) === parseTimeToMinutes(b as string);
+    case 'NT-Led':
+      return (parseBooleanValue(a) === true) === (parseBooleanValue(b) === true);
+    default:
+      return String(a ?? '').trim() === String(b ?? '').trim();
+  }
+}
+
+/**
+ * Options for diffSchedule
+ */
+export interface DiffOptions {
+  /**
+   * Dates (yyyy-MM-dd, inclusive) the proposal covers, e.g. a generated term. Existing rows outside
+   * it are neither matched nor removed, so the previous term's Visits stay as they are.
+   */
+  range?: { from: string; to: string };
+  /** Remove existing rows of a proposed Class.ID that the proposal no longer contains (default false) */
+  removeMissing?: boolean;
+}
+
+/**
+ * Compare proposed rows with the current rows of their calendar tables.
+ *
+ * Rows are matched by Class.ID and Visit within a table (and within `range` when given). A
+ * proposed row without a match is an addition; a matched row with different values is an
+ * update (only columns set on the proposed row are compared). When `removeMissing` is set,
+ * existing rows of a proposed Class.ID that the proposal no longer contains are removals;
+ * rows of other classes are never touched. `existing` must therefore hold the rows actually
+ * stored in the tables (getStoredCalendarEntries), not fallback entries.
+ */
+export function diffSchedule(
+  existing: Record<string, CalendarEntry[]>,
+  proposed: ProposedEntry[],
+  options: DiffOptions = {}
+): ScheduleDiff {
+  const { range, removeMissing = false } = options;
+  const isInRange = (entry: CalendarEntry) => {
+    if (!range) return true;
+    const date = parseDateValue(entry.Date);
+    return !!date && date >= range.from && date <= range.to;
+  };
+  const changes: ScheduleChange[] = [];
+  let unchangedCount = 0;
+
+  const proposedByTable = new Map<string, ProposedEntry[]>();
+  proposed.forEach(item => {
+    proposedByTable.set(item.tableName, [...(proposedByTable.get(item.tableName) || []), item]);
+  });
+
+  proposedByTable.forEach((items, tableName) => {
+    const existingByKey = new Map<string, CalendarEntry>();
+    (existing[tableName] || []).filter(isInRange).forEach(entry => existingByKey.set(getMatchKey(entry), entry));
+
+    const matchedKeys = new Set<string>();
+    const proposedClassIds = new Set(items.map(item => item.entry['Class.ID'] || ''));
+
+    items.forEach(({ entry }) => {
+      const key = getMatchKey(entry);
+      const current = existingByKey.get(key);
+      matchedKeys.add(key);
+
+      if (!current) {
+        changes.push({ type: 'add', tableName, after: entry, changedFields: [] });
+        return;
+      }
+
+      const changedFields = DIFF_FIELDS.filter(field =>
+        entry[field] !== undefined && !isSameValue(field, current[field], entry[field])
+      );
+
+      if (changedFields.length === 0) {
+        unchangedCount++;
+      } else {
+        changes.push({ type: 'update', tableName, before: current, after: entry, changedFields });
+      }
+    });
+
+    if (removeMissing) {
+      existingByKey.forEach((entry, key) => {
+        if (!matchedKeys.has(key) && proposedClassIds.has(entry['Class.ID'] || '')) {
+          changes.push({ type: 'remove', tableName, before: entry, changedFields: [] });
+        }
+      });
+    }
+  });
+
+  return { changes, unchangedCount };
+}
@@ -0,0 +1,168 @@
+import { isValid, parseISO } from 'date-fns';
+import type { CalendarEntry, Teacher } from '@/lib/supabase/data';
+import { resolveAssignments } from './assignments';
+import { EntryStatus, getEntryStatus, isNTLedEntry, parseDateValue } from './normalize';
+import { parseTimeToMinutes } from './time';
+
+/**
+ * The calendar entry editor's inputs, as the form holds them
+ */
+export interface EntryFormValues {
+  tableName: string;
+  Visit: string;
+  Date: string;
+  Start: string;
+  End: string;
+  Course: string;
+  Level: string;
+  Unit: string;
+  'Class.ID': string;
+  Meeting: string;
+  Day1: string;
+  Day2: string;
+  'NT-Led': boolean;
+  Status: EntryStatus;
+  Status_Reason: string;
+  Makeup_Of: string;
+}
+
+export type EntryFormField = keyof EntryFormValues;
+
+/**
+ * Problems with the form, by input
+ */
+export type EntryFormErrors = Partial<Record<EntryFormField, string>>;
+
+const TEXT_FIELDS = ['Course', 'Level', 'Unit', 'Class.ID', 'Meeting', 'Day1', 'Day2', 'Status_Reason'] as const;
+
+// Time inputs give HH:mm; stored times may carry seconds or a single-digit hour
+function toTimeInput(value?: string | null): string {
+  const minutes = parseTimeToMinutes(value);
+  if (minutes === null) return '';
+  return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+}
+
+/**
+ * The form's starting values: an existing entry's columns, or a new class with the given defaults
+ */
+export function getEntryFormValues(tableName: string, entry: Partial<CalendarEntry> = {}): EntryFormValues {
+  return {
+    tableName,
+    Visit: entry.Visit !== undefined && entry.Visit !== null ? String(entry.Visit) : '1',
+    Date: parseDateValue(entry.Date) || '',
+    Start: toTimeInput(entry.Start),
+    End: toTimeInput(entry.End),
+    Course: entry.Course || '',
+    Level: entry.Level || '',
+    Unit: entry.Unit || '',
+    'Class.ID': entry['Class.ID'] || '',
+    Meeting: entry.Meeting || '',
+    Day1: entry.Day1 !== undefined && entry.Day1 !== null ? String(entry.Day1) : '',
+    Day2: entry.Day2 !== undefined && entry.Day2 !== null ? String(entry.Day2) : '',
+    'NT-Led': isNTLedEntry(entry),
+    Status: getEntryStatus(entry),
+    Status_Reason: entry.Status_Reason || '',
+    Makeup_Of: entry.Makeup_Of ? String(entry.Makeup_Of) : ''
+  };
+}
+
+/**
+ * Validate the form and build the entry it describes. Follows the rules of the entries API:
+ * Visit, Date, Course and Level are required, times are HH:mm with End after Start, and an
+ * NT-Led class with teachers needs a Native teacher to lead it.
+ */
+export function validateEntryForm(
+  values: EntryFormValues,
+  teachers: Teacher[]
+): { entry: Omit<CalendarEntry, 'id'> | null; errors: EntryFormErrors } {
+  const errors: EntryFormErrors = {};
+
+  if (!values.tableName) errors.tableName = 'Choose a calendar table';
+
+  const visit = Number(values.Visit);
+  if (!Number.isInteger(visit) || visit < 1) errors.Visit = 'Visit must be a positive whole number';
+
+  if (!values.Date) {
+    errors.Date = 'Date is required';
+  } else if (!/^\d{4}-\d{2}-\d{2}$/.test(values.Date) || !isValid(parseISO(values.Date))) {
+    errors.Date = 'Date must be a date in yyyy-MM-dd format';
+  }
+
+  if (!values.Course.trim()) errors.Course = 'Course is required';
+  if (!values.Level.trim()) errors.Level = 'Level is required';
+
+  const start = values.Start ? parseTimeToMinutes(values.Start) : null;
+  const end = values.End ? parseTimeToMinutes(values.End) : null;
+  if (values.Start && start === null) errors.Start = 'Start must be a time in HH:mm format';
+  if (values.End && end === null) errors.End = 'End must be a time in HH:mm format';
+  if (start !== null && end !== null && end <= start) errors.End = 'End must be after Start';
+
+  const makeupOf = values.Makeup_Of.trim() ? Number(values.Makeup_Of) : null;
+  if (makeupOf !== null && (!Number.isInteger(makeupOf) || makeupOf < 1)) errors.Makeup_Of = 'Makeup_Of must be an entry ID';
+
+  const entry: Omit<CalendarEntry, 'id'> = {
+    Visit: visit,
+    Date: values.Date,
+    Course: values.Course.trim(),
+    Level: values.Level.trim(),
+    'NT-Led': values['NT-Led'],
+    Status: values.Status,
+    Makeup_Of: makeupOf
+  };
+  (['Start', 'End'] as const).forEach(field => {
+    (entry as Record<string, unknown>)[field] = values[field] || null;
+  });
+  TEXT_FIELDS.forEach(field => {
+    // Cleared inputs clear the column
+    (entry as Record<string, unknown>)[field] = values[field].trim() || null;
+  });
+
+  const { assignments, unresolved } = resolveAssignments(values.tableName, [{ ...entry, id: 0 }], teachers);
+  unresolved.forEach(item => {
+    if (item.daySlot && item.reason !== 'no-teacher') errors[item.daySlot] = `"${item.value}" is not a known teacher`;
+  });
+  if (values['NT-Led'] && assignments.length > 0 && !assignments.some(assignment => assignment.role === 'lead')) {
+    errors['NT-Led'] = 'An NT-Led class must be led by a Native teacher';
+  }
+
+  return { entry: Object.keys(errors).length === 0 ? entry : null, errors };
+}
+
+// Compare a column the way it is read, so e.g. a stored "9:00:00" equals the form's "09:00"
+function isSameValue(field: keyof Omit<CalendarEntry, 'id'>, original: CalendarEntry, value: unknown): boolean {
+  switch (field) {
+    case 'Date':
+      return parseDateValue(original.Date) === value;
+    case 'Start':
+    case 'End':
+      return parseTimeToMinutes(original[field]) === parseTimeToMinutes(value as string | null);
+    case 'NT-Led':
+      return isNTLedEntry(original) === value;
+    case 'Status':
+      return getEntryStatus(original) === value;
+    default: {
+      const before = original[field];
+      return String(before ?? '').trim() === String(value ?? '').trim();
+    }
+  }
+}
+
+/**
+ * The columns to write for the form's entry: the changed columns of an existing entry, or the
+ * set columns of a new one, so tables without optional columns (e.g. Status) can still be written
+ */
+export function getEntryFormChanges(
+  entry: Omit<CalendarEntry, 'id'>,
+  original?: CalendarEntry
+): Partial<Omit<CalendarEntry, 'id'>> {
+  const changes: Record<string, unknown> = {};
+  (Object.keys(entry) as (keyof typeof entry)[]).forEach(field => {
+    const value = entry[field];
+    if (original) {
+      if (!isSameValue(field, original, value)) changes[field] = value;
+    } else if (value !== null && value !== undefined && value !== false && !(field === 'Status' && value === 'scheduled')) {
+      changes[field] = value;
+    }
+  });
+  return changes as Partial<Omit<CalendarEntry, 'id'>>;
+}
@@ -0,0 +1,439 @@
+import { addDays, addWeeks, format, getISODay, parseISO, startOfWeek } from 'date-fns';
+import type { CalendarEntry, Teacher } from '@/lib/supabase/data';
+import { ClassAssignment, getTeacherLabel, isNativeTeacher } from './assignments';
+import { TeacherAvailability, checkAvailability } from './availability';
+import { DEFAULT_MIN_BREAK_MINUTES } from './conflicts';
+import { compareEntries, isHeldEntry, isNTLedEntry, normalizeEntry } from './normalize';
+import { formatMinutes, parseTimeToMinutes } from './time';
+
+/**
+ * One class (Class.ID) to schedule over a term
+ */
+export interface CourseRequirement {
+  /** Course-Calendar table the class belongs to */
+  tableName: string;
+  course: string;
+  level: string;
+  classId: string;
+  /** Number of Visits (sessions) to schedule */
+  visits: number;
+  durationMinutes: number;
+  /** Every Visit is NT-Led */
+  ntLed: boolean;
+  /** Visits that are NT-Led when only some of them are */
+  ntLedVisits?: number[];
+  /** ISO weekdays the class may run on: 1 = Monday ... 7 = Sunday */
+  allowedDays: number[];
+  /** Start times the class may run at, e.g. ['09:00', '14:00'] */
+  allowedStartTimes: string[];
+  /** Number of Visits per week; Visits are spread over consecutive weeks. Defaults to 1 */
+  visitsPerWeek?: number;
+  unit?: string;
+}
+
+export interface GeneratorInput {
+  requirements: CourseRequirement[];
+  /** First day of the term (yyyy-MM-dd) */
+  startDate: string;
+  /** Last day of the term (yyyy-MM-dd) */
+  endDate: string;
+  teachers: Teacher[];
+  availability?: TeacherAvailability[];
+  /** Classes that stay as they are (e.g. other calendar tables); their teachers are treated as busy */
+  fixedAssignments?: ClassAssignment[];
+  minBreakMinutes?: number;
+  /** Upper bound on search steps before the solver finishes greedily */
+  maxSteps?: number;
+}
+
+/**
+ * A proposed calendar row and the teacher the generator assigned to it
+ */
+export interface GeneratedEntry {
+  tableName: string;
+  entry: Omit<CalendarEntry, 'id'>;
+  teacherId: number;
+  teacherName: string;
+}
+
+/**
+ * A Visit the generator could not place without breaking a hard constraint
+ */
+export interface UnplacedVisit {
+  requirement: CourseRequirement;
+  visit: number;
+  reason: string;
+}
+
+export interface GeneratorResult {
+  entries: GeneratedEntry[];
+  unplaced: UnplacedVisit[];
+  /** Minutes of teaching per teacher in the proposal, including fixed assignments */
+  workload: Record<number, number>;
+  steps: number;
+  /** True when no complete schedule was found within the search budget and Visits were placed greedily */
+  exhausted: boolean;
+}
+
+export const DEFAULT_MAX_STEPS = 20000;
+
+// Number of best-scoring options tried for each Visit before backtracking further up
+const MAX_OPTIONS_PER_VISIT = 8;
+
+// Soft constraint weights; lower scores are better
+const CONTINUITY_PENALTY = 100;
+const WORKLOAD_WEIGHT_PER_HOUR = 10;
+const SLOT_CHANGE_PENALTY = 5;
+
+interface VisitTask {
+  requirement: CourseRequirement;
+  visit: number;
+  ntLed: boolean;
+  dates: string[];
+}
+
+interface Booking {
+  date: string;
+  start: number;
+  end: number;
+}
+
+interface Option {
+  date: string;
+  start: number;
+  teacher: Teacher;
+  score: number;
+}
+
+/**
+ * Tracks which teachers are busy when while the solver places Visits
+ */
+class BookingState {
+  private bookings = new Map<number, Booking[]>();
+  private minutesByWeek = new Map<string, number>();
+  private totalMinutes = new Map<number, number>();
+
+  static weekKey(teacherId: number, date: string): string {
+    return `${teacherId}|${format(startOfWeek(parseISO(date), { weekStartsOn: 1 }), 'yyyy-MM-dd')}`;
+  }
+
+  add(teacherId: number, booking: Booking): void {
+    this.bookings.set(teacherId, [...(this.bookings.get(teacherId) || []), booking]);
+    this.adjustMinutes(teacherId, booking, 1);
+  }
+
+  remove(teacherId: number, booking: Booking): void {
+    this.bookings.set(teacherId, (this.bookings.get(teacherId) || []).filter(item => item !== booking));
+    this.adjustMinutes(teacherId, booking, -1);
+  }
+
+  isFree(teacherId: number, booking: Booking, minBreak: number): boolean {
+    return !(this.bookings.get(teacherId) || []).some(item =>
+      item.date === booking.date &&
+      booking.start < item.end + minBreak &&
+      item.start < booking.end + minBreak
+    );
+  }
+
+  weekMinutes(teacherId: number, date: string): number {
+    return this.minutesByWeek.get(BookingState.weekKey(teacherId, date)) || 0;
+  }
+
+  total(teacherId: number): number {
+    return this.totalMinutes.get(teacherId) || 0;
+  }
+
+  workload(): Record<number, number> {
+    const workload: Record<number, number> = {};
+    this.totalMinutes.forEach((minutes, teacherId) => {
+      workload[teacherId] = minutes;
+    });
+    return workload;
+  }
+
+  private adjustMinutes(teacherId: number, booking: Booking, sign: 1 | -1): void {
+    const minutes = (booking.end - booking.start) * sign;
+    const weekKey = BookingState.weekKey(teacherId, booking.date);
+    this.minutesByWeek.set(weekKey, (this.minutesByWeek.get(weekKey) || 0) + minutes);
+    this.totalMinutes.set(teacherId, (this.totalMinutes.get(teacherId) || 0) + minutes);
+  }
+}
+
+/**
+ * Build one task per Visit, with the term dates the Visit may fall on
+ */
+function buildTasks(input: GeneratorInput): VisitTask[] {
+  const termStart = parseISO(input.startDate);
+  const firstWeek = startOfWeek(termStart, { weekStartsOn: 1 });
+
+  const tasks = input.requirements.flatMap(requirement => {
+    const perWeek = Math.max(1, requirement.visitsPerWeek || 1);
+
+    return Array.from({ length: requirement.visits }, (_, index) => {
+      const weekStart = addWeeks(firstWeek, Math.floor(index / perWeek));
+      const dates = Array.from({ length: 7 }, (_, day) => format(addDays(weekStart, day), 'yyyy-MM-dd'))
+        .filter(date => date >= input.startDate && date <= input.endDate)
+        .filter(date => requirement.allowedDays.includes(getISODay(parseISO(date))));
+
+      const visit = index + 1;
+      const ntLed = requirement.ntLed || (requirement.ntLedVisits || []).includes(visit);
+      return { requirement, visit, ntLed, dates };
+    });
+  });
+
+  // Place the most constrained classes first: NT-Led, then fewest possible slots
+  const slotCount = (task: VisitTask) => task.dates.length * task.requirement.allowedStartTimes.length;
+  return tasks.sort((a, b) =>
+    Number(b.ntLed) - Number(a.ntLed) ||
+    slotCount(a) - slotCount(b) ||
+    a.requirement.classId.localeCompare(b.requirement.classId) ||
+    a.visit - b.visit
+  );
+}
+
+/**
+ * Generate a proposed set of calendar entries for a term.
+ *
+ * Hard constraints: a teacher is never double-booked (including the minimum break),
+ * NT-Led classes are led by a Native teacher, and teachers are only scheduled within
+ * their availability and weekly hour cap.
+ * Soft constraints: keep the same teacher for every Visit of a Class.ID, balance the
+ * workload across teachers, and keep a class on the same weekday and time.
+ *
+ * The solver places Visits one by one, trying the best-scoring options first and
+ * backtracking on dead ends. Once `maxSteps` is used up the remaining Visits are placed
+ * greedily and any that still cannot be placed are reported as unplaced.
+ * Runs entirely locally and writes nothing.
+ */
+export function generateSchedule(input: GeneratorInput): GeneratorResult {
+  const minBreak = input.minBreakMinutes ?? DEFAULT_MIN_BREAK_MINUTES;
+  const maxSteps = input.maxSteps ?? DEFAULT_MAX_STEPS;
+  const availability = input.availability || [];
+  const tasks = buildTasks(input);
+
+  const availabilityFor = (teacherId: number) => availability.find(item => item.teacherId === teacherId);
+
+  let state = new BookingState();
+  let placements = new Map<VisitTask, { option: Option; booking: Booking }>();
+  let unplaced: UnplacedVisit[] = [];
+
+  // Teachers and slots chosen for each class so far, for the continuity soft constraints
+  let classTeachers = new Map<string, number[]>();
+  let classSlots = new Map<string, string[]>();
+
+  const reset = () => {
+    state = new BookingState();
+    placements = new Map();
+    unplaced = [];
+    classTeachers = new Map();
+    classSlots = new Map();
+
+    (input.fixedAssignments || []).forEach(assignment => {
+      const { date, startMinutes: start, endMinutes: end, durationMinutes } = normalizeEntry(assignment.entry);
+      // Cancelled and rescheduled classes leave their teachers free
+      if (date && start !== null && end !== null && durationMinutes !== null && isHeldEntry(assignment.entry)) {
+        state.add(assignment.teacherId, { date, start, end });
+      }
+    });
+  };
+
+  const getOptions = (task: VisitTask): Option[] => {
+    const { requirement } = task;
+    const continuityTeachers = classTeachers.get(requirement.classId) || [];
+    const previousSlots = classSlots.get(requirement.classId) || [];
+    const options: Option[] = [];
+
+    // Visits of a class must stay in order: after every earlier Visit and before every later one
+    let after = '';
+    let before = '\uffff';
+    placements.forEach(({ option }, placed) => {
+      if (placed.requirement !== requirement) return;
+      const slot = `${option.date}|${formatMinutes(option.start)}`;
+      if (placed.visit < task.visit && slot > after) after = slot;
+      if (placed.visit > task.visit && slot < before) before = slot;
+    });
+
+    task.dates.forEach(date => {
+      const dayOfWeek = getISODay(parseISO(date));
+
+      requirement.allowedStartTimes.forEach(time => {
+        const start = parseTimeToMinutes(time);
+        if (start === null) return;
+        const end = start + requirement.durationMinutes;
+        const slot = `${date}|${formatMinutes(start)}`;
+        if (slot <= after || slot >= before) return;
+
+        input.teachers.forEach(teacher => {
+          const teacherId = Number(teacher.Teacher_ID);
+          if (task.ntLed && !isNativeTeacher(teacher)) return;
+
+          const teacherAvailability = availabilityFor(teacherId);
+          if (!checkAvailability(teacherAvailability, date, start, end).available) return;
+          if (!state.isFree(teacherId, { date, start, end }, minBreak)) return;
+
+          const maxHours = teacherAvailability?.maxHoursPerWeek;
+          if (maxHours && state.weekMinutes(teacherId, date) + requirement.durationMinutes > maxHours * 60) return;
+
+          let score = (state.total(teacherId) / 60) * WORKLOAD_WEIGHT_PER_HOUR;
+          if (continuityTeachers.length > 0 && !continuityTeachers.includes(teacherId)) {
+            score += CONTINUITY_PENALTY;
+          }
+          if (previousSlots.length > 0 && !previousSlots.includes(`${dayOfWeek}|${start}`)) {
+            score += SLOT_CHANGE_PENALTY;
+          }
+
+          options.push({ date, start, teacher, score });
+        });
+      });
+    });
+
+    return options
+      .sort((a, b) => a.score - b.score || a.date.localeCompare(b.date) || a.start - b.start)
+      .slice(0, MAX_OPTIONS_PER_VISIT);
+  };
+
+  const place = (task: VisitTask, option: Option) => {
+    const teacherId = Number(option.teacher.Teacher_ID);
+    const booking = { date: option.date, start: option.start, end: option.start + task.requirement.durationMinutes };
+    const classId = task.requirement.classId;
+
+    state.add(teacherId, booking);
+    placements.set(task, { option, booking });
+    classTeachers.set(classId, [...(classTeachers.get(classId) || []), teacherId]);
+    classSlots.set(classId, [...(classSlots.get(classId) || []), `${getISODay(parseISO(option.date))}|${option.start}`]);
+  };
+
+  const unplace = (task: VisitTask) => {
+    const placement = placements.get(task);
+    if (!placement) return;
+
+    const classId = task.requirement.classId;
+    state.remove(Number(placement.option.teacher.Teacher_ID), placement.booking);
+    placements.delete(task);
+    classTeachers.set(classId, (classTeachers.get(classId) || []).slice(0, -1));
+    classSlots.set(classId, (classSlots.get(classId) || []).slice(0, -1));
+  };
+
+  const describeUnplaceable = (task: VisitTask): string => {
+    if (task.dates.length === 0) return 'No allowed day falls within the term for this Visit';
+    if (task.ntLed && !input.teachers.some(isNativeTeacher)) return 'No Native teacher for an NT-Led class';
+    return 'No available teacher in any allowed slot';
+  };
+
+  let steps = 0;
+
+  const search = (index: number): boolean => {
+    if (index === tasks.length) return true;
+    const task = tasks[index];
+    const options = getOptions(task);
+
+    // Out of budget: finish greedily, leaving Visits that cannot be placed unscheduled
+    if (steps >= maxSteps) {
+      if (options.length > 0) {
+        place(task, options[0]);
+      } else {
+        unplaced.push({ requirement: task.requirement, visit: task.visit, reason: describeUnplaceable(task) });
+      }
+      return search(index + 1);
+    }
+
+    for (const option of options) {
+      steps++;
+      place(task, option);
+      if (search(index + 1)) return true;
+      unplace(task);
+      if (steps >= maxSteps) return search(index);
+    }
+
+    return false;
+  };
+
+  reset();
+  if (!search(0)) {
+    // No complete schedule exists: keep as much as possible
+    reset();
+    steps = maxSteps;
+    search(0);
+  }
+
+  const entries: GeneratedEntry[] = Array.from(placements.entries())
+    .map(([task, { option, booking }]) => {
+      const { requirement } = task;
+      return {
+        tableName: requirement.tableName,
+        teacherId: Number(option.teacher.Teacher_ID),
+        teacherName: option.teacher.Teacher_name,
+        entry: {
+          Visit: task.visit,
+          Date: option.date,
+          Course: requirement.course,
+          Level: requirement.level,
+          Day1: getTeacherLabel(option.teacher, input.teachers),
+          Start: formatMinutes(booking.start),
+          End: formatMinutes(booking.end),
+          Unit: requirement.unit,
+          'Class.ID': requirement.classId,
+          'NT-Led': task.ntLed
+        }
+      };
+    })
+    .sort((a, b) => a.tableName.localeCompare(b.tableName) || compareEntries(a.entry, b.entry));
+
+  return {
+    entries,
+    unplaced: unplaced.sort((a, b) => a.requirement.classId.localeCompare(b.requirement.classId) || a.visit - b.visit),
+    workload: state.workload(),
+    steps,
+    exhausted: steps >= maxSteps
+  };
+}
+
+/**
+ * Derive requirements from the current rows of a calendar table, so a new term can start
+ * from the previous term's classes. Uses the most common duration of each Class.ID and
+ * every weekday and start time it currently runs on.
+ */
+export function inferRequirements(tableName: string, entries: CalendarEntry[]): CourseRequirement[] {
+  const byClass = new Map<string, CalendarEntry[]>();
+  entries.forEach(entry => {
+    const classId = entry['Class.ID'] || `${entry.Course}-${entry.Level}`;
+    byClass.set(classId, [...(byClass.get(classId) || []), entry]);
+  });
+
+  return Array.from(byClass.entries()).map(([classId, classEntries]) => {
+    const durations = new Map<number, number>();
+    const days = new Set<number>();
+    const startTimes = new Set<string>();
+
+    classEntries.forEach(entry => {
+      const { day, startMinutes, durationMinutes: duration } = normalizeEntry(entry);
+      if (startMinutes !== null) startTimes.add(formatMinutes(startMinutes));
+      if (duration !== null) {
+        durations.set(duration, (durations.get(duration) || 0) + 1);
+      }
+      if (day) days.add(getISODay(day));
+    });
+
+    const [durationMinutes] = Array.from(durations.entries()).sort((a, b) => b[1] - a[1])[0] || [60];
+    const [first] = classEntries;
+    // Generated Visits are numbered in date order, so NT-Led Visits are numbered the same way
+    const ntLedVisits = [...classEntries]
+      .sort(compareEntries)
+      .map((entry, index) => (isNTLedEntry(entry) ? index + 1 : 0))
+      .filter(visit => visit > 0);
+
+    return {
+      tableName,
+      course: first.Course,
+      level: first.Level,
+      classId,
+      visits: classEntries.length,
+      durationMinutes,
+      ntLed: ntLedVisits.length === classEntries.length,
+      ntLedVisits: ntLedVisits.length < classEntries.length ? ntLedVisits : undefined,
+      allowedDays: Array.from(days).sort(),
+      allowedStartTimes: Array.from(startTimes).sort(),
+      unit: first.Unit
+    };
+  }).sort((a, b) => a.classId.localeCompare(b.classId));
+}
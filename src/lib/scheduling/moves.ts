@@ -0,0 +1,143 @@
+import type { CalendarEntry, Teacher } from '@/lib/supabase/data';
+import { ClassAssignment, DaySlot, getEntryKey, getTeacherLabel, resolveAssignments } from './assignments';
+import { TeacherAvailability } from './availability';
+import { ScheduleConflict, detectConflicts } from './conflicts';
+import { isHeldEntry, isNTLedEntry, normalizeEntry } from './normalize';
+import { formatMinutes, parseTimeToMinutes } from './time';
+
+/**
+ * Columns a drag-and-drop edit changes
+ */
+export type EntryChanges = Partial<Pick<CalendarEntry, 'Date' | 'Start' | 'End' | 'Day1' | 'Day2'>>;
+
+/**
+ * Whether an edit may be applied, with the problems it would cause.
+ * Errors block the edit; warnings (e.g. a short break) are shown but allowed.
+ */
+export interface EntryChangeCheck {
+  allowed: boolean;
+  errors: string[];
+  warnings: string[];
+}
+
+/**
+ * An applied edit that can be undone by writing back the previous values
+ */
+export interface EntryEdit {
+  tableName: string;
+  entryId: number;
+  /** e.g. "Move Sprouts1 A (S1-01) to Tue Oct 20 10:00" */
+  description: string;
+  before: EntryChanges;
+  after: EntryChanges;
+}
+
+/**
+ * What an edit is checked against: the other classes of the period shown, as resolved
+ * assignments, and the teachers' availability
+ */
+export interface EntryChangeContext {
+  teachers: Teacher[];
+  assignments: ClassAssignment[];
+  availability?: TeacherAvailability[];
+  minBreakMinutes?: number;
+}
+
+/**
+ * The changes that move a class to another day, and optionally another start time.
+ * The class keeps its length; without a start time it keeps its times.
+ */
+export function getMoveChanges(entry: CalendarEntry, date: string, start?: string): EntryChanges {
+  const { startMinutes, durationMinutes } = normalizeEntry(entry);
+  const newStart = parseTimeToMinutes(start);
+  if (newStart === null || durationMinutes === null || newStart === startMinutes) {
+    return { Date: date };
+  }
+  return { Date: date, Start: formatMinutes(newStart), End: formatMinutes(newStart + durationMinutes) };
+}
+
+/**
+ * The changes that hand a class to another teacher. The teacher replaces `replaceTeacherId`
+ * when they are listed in the class, and whoever is in Day1 otherwise.
+ */
+export function getReassignChanges(
+  tableName: string,
+  entry: CalendarEntry,
+  teacher: Teacher,
+  teachers: Teacher[],
+  replaceTeacherId?: number
+): EntryChanges {
+  const { assignments } = resolveAssignments(tableName, [entry], teachers);
+  const replaced = assignments.find(assignment => assignment.teacherId === replaceTeacherId);
+  const slot: DaySlot = replaced?.daySlot || 'Day1';
+  return { [slot]: getTeacherLabel(teacher, teachers) };
+}
+
+/**
+ * The values an edit replaces, to undo it. Empty teacher columns come back as empty strings.
+ */
+export function getPreviousValues(entry: CalendarEntry, changes: EntryChanges): EntryChanges {
+  return Object.fromEntries(
+    (Object.keys(changes) as (keyof EntryChanges)[]).map(column => [column, entry[column] ?? ''])
+  ) as EntryChanges;
+}
+
+/**
+ * Whether an edit moves a class to another day or time or changes its teachers
+ */
+export function isPlacementChange(entry: CalendarEntry, changes: Partial<Omit<CalendarEntry, 'id'>>): boolean {
+  const before = normalizeEntry(entry);
+  const after = normalizeEntry({ ...entry, ...changes });
+  return before.date !== after.date || before.startMinutes !== after.startMinutes || before.endMinutes !== after.endMinutes ||
+    (['Day1', 'Day2'] as const).some(slot => String(entry[slot] ?? '').trim() !== String(changes[slot] ?? entry[slot] ?? '').trim());
+}
+
+/**
+ * Check an edit before it is applied: the class's teachers must be known, an NT-Led class
+ * needs a Native lead, and the edit must not cause new double-bookings or put a teacher
+ * outside their availability. Problems the class already had before the edit are not counted.
+ * Recorded substitutions are not applied to the edited class. A new class is checked as an
+ * edit of an entry with an unused ID and no changes.
+ */
+export function checkEntryChange(
+  tableName: string,
+  entry: CalendarEntry,
+  changes: Partial<Omit<CalendarEntry, 'id'>>,
+  context: EntryChangeContext
+): EntryChangeCheck {
+  const updated: CalendarEntry = { ...entry, ...changes };
+  const entryKey = getEntryKey(tableName, entry);
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  const resolution = resolveAssignments(tableName, [updated], context.teachers);
+  resolution.unresolved.forEach(item => {
+    if (item.reason === 'unknown-teacher') errors.push(`Teacher "${item.value}" in ${item.daySlot} is not a known teacher`);
+    if (item.reason === 'ambiguous-teacher') errors.push(`More than one teacher is called "${item.value}"`);
+  });
+
+  if (isHeldEntry(updated) && isNTLedEntry(updated) && resolution.assignments.length > 0 &&
+      !resolution.assignments.some(assignment => assignment.role === 'lead')) {
+    errors.push('An NT-Led class must be led by a Native teacher');
+  }
+
+  const options = { availability: context.availability, minBreakMinutes: context.minBreakMinutes };
+  const others = context.assignments.filter(assignment => assignment.entryKey !== entryKey);
+  const current = context.assignments.filter(assignment => assignment.entryKey === entryKey);
+  // Conflict IDs list the classes in time order, which a move can swap
+  const signature = (conflict: ScheduleConflict) =>
+    [conflict.type, conflict.teacherId, ...[...conflict.entryKeys].sort()].join('|');
+
+  const existing = new Set(
+    detectConflicts({ assignments: [...others, ...current], unresolved: [] }, options)
+      .filter(conflict => conflict.entryKeys.includes(entryKey))
+      .map(signature)
+  );
+  detectConflicts({ assignments: [...others, ...resolution.assignments], unresolved: [] }, options)
+    .filter(conflict => conflict.entryKeys.includes(entryKey) && !existing.has(signature(conflict)))
+    .forEach(conflict => {
+      (conflict.severity === 'error' ? errors : warnings).push(conflict.message);
+    });
+
+  return { allowed: errors.length === 0, errors, warnings };
+}
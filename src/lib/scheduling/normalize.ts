@@ -0,0 +1,186 @@
+import { isValid, parse } from 'date-fns';
+import type { CalendarEntry } from '@/lib/supabase/data';
+import { parseTimeToMinutes } from './time';
+import { CourseFamilyDefinition, OTHER_COURSE_FAMILY, matchCourseFamily } from './courseCatalogue';
+
+/**
+ * Course group of an entry: the key of its family in the course catalogue (see courseCatalogue.ts),
+ * or "other" when no family matches
+ */
+export type CourseFamily = string;
+
+/**
+ * Whether a class runs as planned.
+ * - scheduled: runs in its slot (also entries without a Status)
+ * - cancelled: called off (holiday, weather...) and not made up
+ * - rescheduled: moved; a make-up entry takes its place
+ * - make-up: replaces a rescheduled class, linked to it through Makeup_Of
+ */
+export type EntryStatus = 'scheduled' | 'cancelled' | 'rescheduled' | 'make-up';
+
+export const ENTRY_STATUSES: EntryStatus[] = ['scheduled', 'cancelled', 'rescheduled', 'make-up'];
+
+/**
+ * A calendar entry with its loosely typed columns parsed into plain values.
+ * Tables store NT-Led as booleans or yes/no text and times in several formats,
+ * so every view, report and export reads entries through this instead of the raw columns.
+ */
+export interface NormalizedEntry {
+  /** The entry as stored */
+  entry: CalendarEntry;
+  /** The class date as yyyy-MM-dd; empty when Date is not a recognisable date */
+  date: string;
+  /** The class date at local midnight; null when Date is not a recognisable date */
+  day: Date | null;
+  /** Start time in minutes since midnight */
+  startMinutes: number | null;
+  /** End time in minutes since midnight */
+  endMinutes: number | null;
+  /** Length of the class in minutes; null unless both times are known and End is after Start */
+  durationMinutes: number | null;
+  ntLed: boolean;
+  courseFamily: CourseFamily;
+  status: EntryStatus;
+}
+
+const TRUE_VALUES = ['yes', 'y', 'true', 't', '1', 'x', '✓', '✔'];
+const FALSE_VALUES = ['no', 'n', 'false', 'f', '0', ''];
+
+// Date formats found in calendar tables besides ISO dates and timestamps, tried in order
+const DATE_FORMATS = ['yyyy/MM/dd', 'yyyy.MM.dd', 'yyyy/M/d'];
+
+/**
+ * Parse a yes/no value as written in tables and spreadsheets (true, 1, "Yes", "y", "x", ...).
+ * Missing values count as no; returns null for anything that is not recognisably yes or no.
+ */
+export function parseBooleanValue(value: unknown): boolean | null {
+  if (typeof value === 'boolean') return value;
+  if (value === null || value === undefined) return false;
+  if (typeof value === 'number') {
+    if (value === 1) return true;
+    if (value === 0) return false;
+    return null;
+  }
+
+  const text = String(value).trim().toLowerCase();
+  if (TRUE_VALUES.includes(text)) return true;
+  if (FALSE_VALUES.includes(text)) return false;
+  return null;
+}
+
+/**
+ * Parse a Date column value into yyyy-MM-dd. Timestamps keep their date part as written,
+ * so a class never moves to another day because of the viewer's timezone.
+ */
+export function parseDateValue(value: unknown): string | null {
+  if (value instanceof Date) {
+    return isValid(value)
+      ? `${value.getFullYear()}-${String(value.getMonth() + 1).padStart(2, '0')}-${String(value.getDate()).padStart(2, '0')}`
+      : null;
+  }
+  if (typeof value !== 'string') return null;
+
+  const text = value.trim();
+  const iso = text.match(/^(\d{4}-\d{2}-\d{2})(?:[T\s].*)?$/);
+  if (iso) {
+    return isValid(parse(iso[1], 'yyyy-MM-dd', new Date())) ? iso[1] : null;
+  }
+
+  for (const dateFormat of DATE_FORMATS) {
+    const parsed = parse(text, dateFormat, new Date());
+    if (isValid(parsed)) {
+      return parseDateValue(parsed);
+    }
+  }
+  return null;
+}
+
+/**
+ * Derive the course group from a course name, falling back to the level.
+ * Without a catalogue the active one is used; server code passes the catalogue it loaded.
+ */
+export function getCourseFamily(
+  course?: string | null,
+  level?: string | null,
+  families?: CourseFamilyDefinition[]
+): CourseFamily {
+  return matchCourseFamily(course, level, families)?.key || OTHER_COURSE_FAMILY;
+}
+
+/**
+ * Parse an entry's columns into a NormalizedEntry, grouping it by the given course catalogue
+ * (the active one by default)
+ */
+export function normalizeEntry(entry: CalendarEntry, families?: CourseFamilyDefinition[]): NormalizedEntry {
+  const date = parseDateValue(entry.Date) || '';
+  const startMinutes = parseTimeToMinutes(entry.Start);
+  const endMinutes = parseTimeToMinutes(entry.End);
+
+  return {
+    entry,
+    date,
+    day: date ? parse(date, 'yyyy-MM-dd', new Date()) : null,
+    startMinutes,
+    endMinutes,
+    durationMinutes: startMinutes !== null && endMinutes !== null && endMinutes > startMinutes
+      ? endMinutes - startMinutes
+      : null,
+    ntLed: parseBooleanValue(entry['NT-Led']) === true,
+    courseFamily: getCourseFamily(entry.Course, entry.Level, families),
+    status: getEntryStatus(entry)
+  };
+}
+
+/**
+ * Get an entry's date as yyyy-MM-dd, or an empty string when it has no recognisable date
+ */
+export function getEntryDate(entry: Pick<CalendarEntry, 'Date'>): string {
+  return parseDateValue(entry.Date) || '';
+}
+
+/**
+ * Check whether an entry is marked as NT-Led
+ */
+export function isNTLedEntry(entry: Pick<CalendarEntry, 'NT-Led'>): boolean {
+  return parseBooleanValue(entry['NT-Led']) === true;
+}
+
+/**
+ * Read an entry's Status column. Free-text values such as "Cancelled - typhoon" or "Makeup"
+ * are recognised; an entry linked to a rescheduled class through Makeup_Of is a make-up.
+ */
+export function getEntryStatus(entry: Pick<CalendarEntry, 'Status' | 'Makeup_Of'>): EntryStatus {
+  const text = (entry.Status || '').trim().toLowerCase().replace(/[\s_-]/g, '');
+  if (text.startsWith('cancel')) return 'cancelled';
+  if (text.startsWith('resched') || text.startsWith('moved')) return 'rescheduled';
+  if (text.startsWith('makeup') || (entry.Makeup_Of !== null && entry.Makeup_Of !== undefined)) return 'make-up';
+  return 'scheduled';
+}
+
+/**
+ * Check whether a class takes place in its slot, i.e. it was neither cancelled nor moved.
+ * Conflicts, workload, timesheets and substitute planning only count these.
+ */
+export function isHeldEntry(entry: Pick<CalendarEntry, 'Status' | 'Makeup_Of'>): boolean {
+  const status = getEntryStatus(entry);
+  return status !== 'cancelled' && status !== 'rescheduled';
+}
+
+/**
+ * Order entries by start time; entries without a recognisable start time go last
+ */
+export function compareByStartTime(a: Pick<CalendarEntry, 'Start'>, b: Pick<CalendarEntry, 'Start'>): number {
+  const aStart = parseTimeToMinutes(a.Start);
+  const bStart = parseTimeToMinutes(b.Start);
+  if (aStart === bStart) return 0;
+  if (aStart === null) return 1;
+  if (bStart === null) return -1;
+  return aStart - bStart;
+}
+
+/**
+ * Order entries by date, then start time
+ */
+export function compareEntries(a: Pick<CalendarEntry, 'Date' | 'Start'>, b: Pick<CalendarEntry, 'Date' | 'Start'>): number {
+  return getEntryDate(a).localeCompare(getEntryDate(b)) || compareByStartTime(a, b);
+}
@@ -0,0 +1,135 @@
+import { addDays, format, parseISO } from 'date-fns';
+import type { CalendarEntry } from '@/lib/supabase/data';
+import type { ClassAssignment } from './assignments';
+import { TeacherAvailability, checkAvailability } from './availability';
+import { DEFAULT_MIN_BREAK_MINUTES } from './conflicts';
+import { EntryStatus, isHeldEntry, normalizeEntry } from './normalize';
+import { formatMinutes, parseTimeToMinutes } from './time';
+
+export const ENTRY_STATUS_LABELS: Record<EntryStatus, string> = {
+  scheduled: 'Scheduled',
+  cancelled: 'Cancelled',
+  rescheduled: 'Rescheduled',
+  'make-up': 'Make-up'
+};
+
+// Tailwind classes of the status badge on classes that are not simply scheduled
+export const ENTRY_STATUS_BADGE_STYLES: Record<EntryStatus, string> = {
+  scheduled: '',
+  cancelled: 'bg-gray-200 text-gray-700',
+  rescheduled: 'bg-gray-200 text-gray-700',
+  'make-up': 'bg-teal-100 text-teal-800'
+};
+
+/**
+ * A free slot a class could be moved to
+ */
+export interface MakeupSlot {
+  date: string;
+  start: string;
+  end: string;
+}
+
+export interface MakeupSlotOptions {
+  /** First and last day to search, yyyy-MM-dd */
+  from: string;
+  to: string;
+  /** Earliest start and latest end of a make-up class, HH:mm. Default 08:00-20:00 */
+  dayStart?: string;
+  dayEnd?: string;
+  /** Minutes between candidate start times. Default 30 */
+  stepMinutes?: number;
+  minBreakMinutes?: number;
+  /** Most slots returned. Default 10 */
+  limit?: number;
+}
+
+const DEFAULT_DAY_START = '08:00';
+const DEFAULT_DAY_END = '20:00';
+const DEFAULT_STEP_MINUTES = 30;
+const DEFAULT_SLOT_LIMIT = 10;
+
+/**
+ * Propose slots for a make-up class: every teacher of the class must be within their
+ * availability and free (with the minimum break) at the slot. `classAssignments` are the
+ * class's own assignments, `assignments` everything the teachers are booked for in the
+ * searched days. Slots on the class's own day and time are skipped; the earliest come first.
+ * Returns no slots when the class has no recognisable times, as its length is unknown.
+ */
+export function findMakeupSlots(
+  entry: CalendarEntry,
+  classAssignments: ClassAssignment[],
+  assignments: ClassAssignment[],
+  availability: TeacherAvailability[],
+  options: MakeupSlotOptions
+): MakeupSlot[] {
+  const { date: originalDate, startMinutes: originalStart, durationMinutes } = normalizeEntry(entry);
+  if (durationMinutes === null) return [];
+
+  const dayStart = parseTimeToMinutes(options.dayStart || DEFAULT_DAY_START) ?? 0;
+  const dayEnd = parseTimeToMinutes(options.dayEnd || DEFAULT_DAY_END) ?? 24 * 60;
+  const step = Math.max(5, options.stepMinutes || DEFAULT_STEP_MINUTES);
+  const minBreak = options.minBreakMinutes ?? DEFAULT_MIN_BREAK_MINUTES;
+  const limit = options.limit ?? DEFAULT_SLOT_LIMIT;
+
+  const teacherIds = Array.from(new Set(classAssignments.map(assignment => assignment.teacherId)));
+  const classKeys = new Set(classAssignments.map(assignment => assignment.entryKey));
+  const availabilityByTeacher = new Map<number, TeacherAvailability>();
+  availability.forEach(item => availabilityByTeacher.set(item.teacherId, item));
+
+  // The teachers' other classes that still take place, by teacher and date
+  const busy = new Map<string, { start: number; end: number }[]>();
+  assignments.forEach(assignment => {
+    if (!teacherIds.includes(assignment.teacherId) || classKeys.has(assignment.entryKey)) return;
+    if (!isHeldEntry(assignment.entry)) return;
+
+    const { date, startMinutes: start, endMinutes: end } = normalizeEntry(assignment.entry);
+    if (!date || start === null || end === null) return;
+    const key = `${assignment.teacherId}|${date}`;
+    busy.set(key, [...(busy.get(key) || []), { start, end }]);
+  });
+
+  const slots: MakeupSlot[] = [];
+  for (let day = parseISO(options.from); format(day, 'yyyy-MM-dd') <= options.to; day = addDays(day, 1)) {
+    const date = format(day, 'yyyy-MM-dd');
+
+    for (let start = dayStart; start + durationMinutes <= dayEnd; start += step) {
+      if (date === originalDate && start === originalStart) continue;
+      const end = start + durationMinutes;
+
+      const free = teacherIds.every(teacherId => {
+        if (!checkAvailability(availabilityByTeacher.get(teacherId), date, start, end).available) return false;
+        return !(busy.get(`${teacherId}|${date}`) || []).some(item =>
+          start < item.end + minBreak && item.start < end + minBreak
+        );
+      });
+      if (free) {
+        slots.push({ date, start: formatMinutes(start), end: formatMinutes(end) });
+        if (slots.length >= limit) return slots;
+      }
+    }
+  }
+  return slots;
+}
+
+/**
+ * The make-up class for a rescheduled entry: the same class in the new slot, linked back to it
+ */
+export function buildMakeupEntry(original: CalendarEntry, slot: MakeupSlot): Omit<CalendarEntry, 'id'> {
+  const { id, Status, Status_Reason, Makeup_Of, ...entry } = original;
+  return {
+    ...entry,
+    Date: slot.date,
+    Start: slot.start,
+    End: slot.end,
+    Status: 'make-up',
+    Makeup_Of: id
+  };
+}
+
+/**
+ * Find the make-up class of a rescheduled entry among the entries of its table
+ */
+export function findMakeupEntry(entries: CalendarEntry[], original: CalendarEntry): CalendarEntry | undefined {
+  return entries.find(entry => entry.Makeup_Of === original.id && entry.id !== original.id);
+}
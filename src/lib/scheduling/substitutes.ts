@@ -0,0 +1,213 @@
+import { format, parseISO, startOfWeek } from 'date-fns';
+import type { Teacher } from '@/lib/supabase/data';
+import {
+  AssignmentResolution,
+  ClassAssignment,
+  isNativeTeacher
+} from './assignments';
+import { TeacherAvailability, checkAvailability } from './availability';
+import { compareEntries, getEntryDate, isHeldEntry, isNTLedEntry, normalizeEntry } from './normalize';
+
+/**
+ * A teacher marked absent for an inclusive yyyy-MM-dd date range
+ */
+export interface TeacherAbsence {
+  teacherId: number;
+  from: string;
+  to: string;
+  reason?: string;
+}
+
+/**
+ * A recorded replacement of one teacher by another for a single class
+ */
+export interface Substitution {
+  id: number;
+  entryKey: string;
+  tableName: string;
+  entryId: number;
+  date: string;
+  originalTeacherId: number;
+  substituteTeacherId: number;
+  reason?: string;
+  createdAt: string;
+}
+
+/**
+ * A teacher who could cover a class, with the data used to rank them
+ */
+export interface SubstituteCandidate {
+  teacher: Teacher;
+  load: number;
+}
+
+/**
+ * A class affected by an absence and the ranked teachers who could cover it
+ */
+export interface AffectedClass {
+  assignment: ClassAssignment;
+  requiredTeacherType?: string;
+  candidates: SubstituteCandidate[];
+}
+
+function overlaps(a: ClassAssignment, b: ClassAssignment): boolean {
+  const { date: aDate, startMinutes: aStart, endMinutes: aEnd } = normalizeEntry(a.entry);
+  const { date: bDate, startMinutes: bStart, endMinutes: bEnd } = normalizeEntry(b.entry);
+  if (aDate !== bDate) return false;
+
+  // Without times we cannot prove the classes are apart, so treat them as clashing
+  if (aStart === null || aEnd === null || bStart === null || bEnd === null) return true;
+  return aStart < bEnd && bStart < aEnd;
+}
+
+/**
+ * Get the Teacher_Type a substitute must have to cover an assignment.
+ * Leading an NT-Led class requires a Native teacher; anything else can be covered by anyone.
+ */
+export function getRequiredTeacherType(assignment: ClassAssignment): string | undefined {
+  return isNTLedEntry(assignment.entry) && assignment.role === 'lead' ? 'Native' : undefined;
+}
+
+function isWithinAvailability(
+  teacher: Teacher,
+  assignment: ClassAssignment,
+  availability: TeacherAvailability[]
+): boolean {
+  const { date, startMinutes: start, endMinutes: end } = normalizeEntry(assignment.entry);
+  if (start === null || end === null) return true;
+
+  const teacherAvailability = availability.find(item => item.teacherId === Number(teacher.Teacher_ID));
+  return checkAvailability(teacherAvailability, date, start, end).available;
+}
+
+function getWeekStart(date: string): string {
+  return format(startOfWeek(parseISO(date), { weekStartsOn: 1 }), 'yyyy-MM-dd');
+}
+
+/**
+ * Whether covering an assignment keeps a teacher within their weekly hour cap, counting the
+ * classes they already teach that week in `teacherAssignments`
+ */
+function isWithinWeeklyCap(
+  teacher: Teacher,
+  assignment: ClassAssignment,
+  teacherAssignments: ClassAssignment[],
+  availability: TeacherAvailability[]
+): boolean {
+  const maxHours = availability.find(item => item.teacherId === Number(teacher.Teacher_ID))?.maxHoursPerWeek;
+  const { date, durationMinutes } = normalizeEntry(assignment.entry);
+  if (!maxHours || !date || durationMinutes === null) return true;
+
+  const week = getWeekStart(date);
+  const counted = new Set<string>();
+  const weekMinutes = teacherAssignments.reduce((total, item) => {
+    const normalized = normalizeEntry(item.entry);
+    if (!normalized.date || getWeekStart(normalized.date) !== week || counted.has(item.entryKey)) return total;
+    counted.add(item.entryKey);
+    return total + (normalized.durationMinutes || 0);
+  }, 0);
+
+  return weekMinutes + durationMinutes <= maxHours * 60;
+}
+
+/**
+ * Rank the teachers who could cover an assignment: they must not be absent, must have the
+ * required Teacher_Type, must be within their availability, must be free at that time and
+ * must stay within their weekly hour cap (Max_Hours_Per_Week) with the class added.
+ * Candidates with the lowest number of classes in `assignments` come first; for the cap,
+ * `assignments` should cover the whole week of the class.
+ */
+export function rankSubstitutes(
+  assignment: ClassAssignment,
+  teachers: Teacher[],
+  assignments: ClassAssignment[],
+  absentTeacherIds: number[],
+  availability: TeacherAvailability[] = []
+): SubstituteCandidate[] {
+  const requiredType = getRequiredTeacherType(assignment);
+
+  return teachers
+    .filter(teacher => !absentTeacherIds.includes(Number(teacher.Teacher_ID)))
+    .filter(teacher => !requiredType || isNativeTeacher(teacher))
+    .filter(teacher => isWithinAvailability(teacher, assignment, availability))
+    .map(teacher => {
+      const teacherAssignments = assignments.filter(item =>
+        item.teacherId === Number(teacher.Teacher_ID) && isHeldEntry(item.entry)
+      );
+      return {
+        teacher,
+        teacherAssignments,
+        load: new Set(teacherAssignments.map(item => item.entryKey)).size
+      };
+    })
+    .filter(({ teacherAssignments }) => !teacherAssignments.some(item => overlaps(item, assignment)))
+    .filter(({ teacher, teacherAssignments }) => isWithinWeeklyCap(teacher, assignment, teacherAssignments, availability))
+    .sort((a, b) => a.load - b.load || a.teacher.Teacher_name.localeCompare(b.teacher.Teacher_name))
+    .map(({ teacher, load }) => ({ teacher, load }));
+}
+
+/**
+ * Find the classes affected by an absence and the ranked substitutes for each of them;
+ * cancelled and rescheduled classes need no cover. `resolution` should cover at least the absence period; its assignments are also used
+ * to measure each candidate's current load.
+ */
+export function planSubstitutions(
+  absence: TeacherAbsence,
+  teachers: Teacher[],
+  resolution: AssignmentResolution,
+  availability: TeacherAvailability[] = []
+): AffectedClass[] {
+  const affected = resolution.assignments.filter(assignment => {
+    const date = getEntryDate(assignment.entry);
+    return assignment.teacherId === absence.teacherId && date >= absence.from && date <= absence.to &&
+      isHeldEntry(assignment.entry);
+  });
+
+  return affected
+    .sort((a, b) => compareEntries(a.entry, b.entry))
+    .map(assignment => ({
+      assignment,
+      requiredTeacherType: getRequiredTeacherType(assignment),
+      candidates: rankSubstitutes(assignment, teachers, resolution.assignments, [absence.teacherId], availability)
+    }));
+}
+
+/**
+ * Apply recorded substitutions to a set of resolved assignments, so the substitute takes
+ * over the original teacher's slot and role for that class.
+ */
+export function applySubstitutions(
+  resolution: AssignmentResolution,
+  substitutions: Substitution[],
+  teachers: Teacher[]
+): AssignmentResolution {
+  if (substitutions.length === 0) return resolution;
+
+  const teachersById = new Map<number, Teacher>();
+  teachers.forEach(teacher => teachersById.set(Number(teacher.Teacher_ID), teacher));
+
+  const substitutionsByKey = new Map<string, Substitution>();
+  substitutions.forEach(substitution => {
+    substitutionsByKey.set(`${substitution.entryKey}|${substitution.originalTeacherId}`, substitution);
+  });
+
+  return {
+    ...resolution,
+    assignments: resolution.assignments.map(assignment => {
+      const substitution = substitutionsByKey.get(`${assignment.entryKey}|${assignment.teacherId}`);
+      const substitute = substitution && teachersById.get(substitution.substituteTeacherId);
+      if (!substitute) return assignment;
+
+      return {
+        ...assignment,
+        teacherId: Number(substitute.Teacher_ID),
+        teacherName: substitute.Teacher_name,
+        substituteFor: {
+          teacherId: assignment.teacherId,
+          teacherName: assignment.teacherName,
+          substitutionId: substitution.id
+        }
+      };
+    })
+  };
+}
@@ -0,0 +1,35 @@
+/**
+ * Parse a calendar time value (e.g. "09:00", "9:00:00", "2:30 PM") into minutes since midnight.
+ * Returns null when the value is missing or not a recognisable time.
+ */
+export function parseTimeToMinutes(value?: string | null): number | null {
+  if (value === null || value === undefined) return null;
+
+  const match = String(value).trim().match(/^(\d{1,2})(?:[:.](\d{2}))?(?::\d{2})?\s*([ap]\.?m\.?)?$/i);
+  if (!match) return null;
+
+  let hours = Number(match[1]);
+  const minutes = match[2] ? Number(match[2]) : 0;
+  const meridiem = match[3]?.toLowerCase().replace(/\./g, '');
+
+  if (meridiem) {
+    if (hours < 1 || hours > 12) return null;
+    if (meridiem === 'pm' && hours !== 12) hours += 12;
+    if (meridiem === 'am' && hours === 12) hours = 0;
+  } else if (!match[2]) {
+    // A bare number is only a time when it comes with am/pm
+    return null;
+  }
+
+  if (hours > 23 || minutes > 59) return null;
+  return hours * 60 + minutes;
+}
+
+/**
+ * Format minutes since midnight as HH:mm
+ */
+export function formatMinutes(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const mins = minutes % 60;
+  return `${String(hours).padStart(2, '0')}:${String(mins).padStart(2, '0')}`;
+}
@@ -0,0 +1,144 @@
+import type { CalendarEntry } from '@/lib/supabase/data';
+import { normalizeEntry } from './normalize';
+
+/**
+ * A class placed on a day's time axis. Overlapping classes share the width of the day:
+ * the class takes column `column` of `columns` side-by-side columns.
+ */
+export interface PositionedEntry {
+  entry: CalendarEntry;
+  start: number;
+  end: number;
+  column: number;
+  columns: number;
+}
+
+/**
+ * A stretch of the time axis. Collapsed stretches are the empty hours before the first and after
+ * the last class, drawn as a thin band.
+ */
+export interface TimeAxisSegment {
+  start: number;
+  end: number;
+  height: number;
+  collapsed: boolean;
+}
+
+export interface TimeAxis {
+  segments: TimeAxisSegment[];
+  /** The full hours that are not collapsed, for hour lines and labels */
+  hours: number[];
+  totalHeight: number;
+  /** Vertical position of a time (minutes since midnight), in pixels from the top of the axis */
+  offsetOf: (minutes: number) => number;
+}
+
+export interface TimeAxisOptions {
+  /** Minutes since midnight the day is shown from and to; widened to whole hours that fit every class */
+  dayStart: number;
+  dayEnd: number;
+  /** Pixels per hour */
+  hourHeight: number;
+  /** Collapse the empty hours before the first and after the last class to `collapsedHeight` */
+  collapseEmpty?: boolean;
+  collapsedHeight?: number;
+}
+
+// Classes shorter than this are drawn at this length so their text fits
+const MIN_BLOCK_MINUTES = 20;
+
+/**
+ * Place a day's timed classes on the time axis. Classes that overlap (directly or through
+ * other classes) form a group whose width is split into as many columns as needed, each class
+ * taking the first column free at its start. Classes without start times are returned apart.
+ */
+export function layoutDayEntries(entries: CalendarEntry[]): { positioned: PositionedEntry[]; untimed: CalendarEntry[] } {
+  const untimed: CalendarEntry[] = [];
+  const timed = entries
+    .map(entry => {
+      const { startMinutes, endMinutes } = normalizeEntry(entry);
+      if (startMinutes === null) {
+        untimed.push(entry);
+        return null;
+      }
+      return { entry, start: startMinutes, end: Math.max(endMinutes ?? startMinutes, startMinutes + MIN_BLOCK_MINUTES) };
+    })
+    .filter((item): item is { entry: CalendarEntry; start: number; end: number } => item !== null)
+    .sort((a, b) => a.start - b.start || b.end - a.end);
+
+  const positioned: PositionedEntry[] = [];
+  let group: PositionedEntry[] = [];
+  let columnEnds: number[] = [];
+  let groupEnd = -1;
+
+  const closeGroup = () => {
+    group.forEach(item => {
+      item.columns = columnEnds.length;
+    });
+    positioned.push(...group);
+    group = [];
+    columnEnds = [];
+  };
+
+  timed.forEach(item => {
+    if (item.start >= groupEnd) closeGroup();
+    let column = columnEnds.findIndex(end => end <= item.start);
+    if (column === -1) {
+      column = columnEnds.length;
+      columnEnds.push(item.end);
+    } else {
+      columnEnds[column] = item.end;
+    }
+    group.push({ ...item, column, columns: 1 });
+    groupEnd = Math.max(groupEnd, item.end);
+  });
+  closeGroup();
+
+  return { positioned, untimed };
+}
+
+/**
+ * Build the time axis of a week: the configured day, widened to whole hours covering every
+ * class, with the empty hours at either end optionally collapsed
+ */
+export function buildTimeAxis(entries: CalendarEntry[], options: TimeAxisOptions): TimeAxis {
+  const collapsedHeight = options.collapsedHeight ?? 12;
+  let first: number | null = null;
+  let last: number | null = null;
+  for (const entry of entries) {
+    const { startMinutes, endMinutes } = normalizeEntry(entry);
+    if (startMinutes === null) continue;
+    const end = Math.max(endMinutes ?? startMinutes, startMinutes + MIN_BLOCK_MINUTES);
+    first = first === null ? startMinutes : Math.min(first, startMinutes);
+    last = last === null ? end : Math.max(last, end);
+  }
+
+  const axisStart = Math.floor(Math.min(options.dayStart, first ?? options.dayStart) / 60) * 60;
+  const axisEnd = Math.min(24 * 60, Math.ceil(Math.max(options.dayEnd, last ?? options.dayEnd) / 60) * 60);
+  // Without classes nothing is collapsed, so an empty week still shows the configured day
+  const busyStart = options.collapseEmpty && first !== null ? Math.floor(first / 60) * 60 : axisStart;
+  const busyEnd = options.collapseEmpty && last !== null ? Math.ceil(last / 60) * 60 : axisEnd;
+
+  const segments: TimeAxisSegment[] = [];
+  if (busyStart > axisStart) segments.push({ start: axisStart, end: busyStart, height: collapsedHeight, collapsed: true });
+  segments.push({ start: busyStart, end: busyEnd, height: ((busyEnd - busyStart) / 60) * options.hourHeight, collapsed: false });
+  if (axisEnd > busyEnd) segments.push({ start: busyEnd, end: axisEnd, height: collapsedHeight, collapsed: true });
+
+  const offsetOf = (minutes: number) => {
+    let offset = 0;
+    for (const segment of segments) {
+      if (minutes <= segment.end) {
+        return offset + (Math.max(minutes, segment.start) - segment.start) / (segment.end - segment.start) * segment.height;
+      }
+      offset += segment.height;
+    }
+    return offset;
+  };
+
+  return {
+    segments,
+    hours: Array.from({ length: (busyEnd - busyStart) / 60 }, (_, i) => busyStart + i * 60),
+    totalHeight: segments.reduce((sum, segment) => sum + segment.height, 0),
+    offsetOf
+  };
+}
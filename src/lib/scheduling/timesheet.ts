@@ -0,0 +1,267 @@
+import type { Teacher } from '@/lib/supabase/data';
+import { ClassAssignment, isNativeTeacher } from './assignments';
+import { compareEntries, isHeldEntry, normalizeEntry } from './normalize';
+import type { CourseFamilyDefinition } from './courseCatalogue';
+
+export type PayTeacherType = 'native' | 'local';
+
+export type PayCourseKind = 'regular' | 'workshop';
+
+/**
+ * A pay rate category. Fields left out match any class; the most specific matching
+ * category applies, e.g. "Native substitution" wins over "Native" for a covered class.
+ */
+export interface PayRate {
+  category: string;
+  teacherType?: PayTeacherType;
+  courseKind?: PayCourseKind;
+  substitution?: boolean;
+  /** Amount per taught hour; without it hours are totalled but not priced */
+  hourlyRate?: number;
+}
+
+/**
+ * Raw row of the Pay-Rates table
+ */
+export interface PayRateRow {
+  Category: string;
+  Teacher_Type?: string | null;
+  Course_Kind?: string | null;
+  Substitution?: boolean | string | null;
+  Hourly_Rate?: number | string | null;
+}
+
+// Categories used when the Pay-Rates table is missing or empty; hours are split but not priced.
+// Substitutions come first so a covered workshop counts as a substitution.
+export const DEFAULT_PAY_RATES: PayRate[] = [
+  { category: 'Native substitution', teacherType: 'native', substitution: true },
+  { category: 'Local substitution', teacherType: 'local', substitution: true },
+  { category: 'Native', teacherType: 'native' },
+  { category: 'Native workshop', teacherType: 'native', courseKind: 'workshop' },
+  { category: 'Local', teacherType: 'local' },
+  { category: 'Local workshop', teacherType: 'local', courseKind: 'workshop' }
+];
+
+// Category of classes no rate matches
+const UNRATED_CATEGORY = 'Unrated';
+
+/**
+ * A class on a teacher's timesheet
+ */
+export interface TimesheetLine {
+  entryKey: string;
+  tableName: string;
+  date: string;
+  start?: string;
+  end?: string;
+  /** Taught minutes; 0 when Start/End are missing or not recognisable times */
+  minutes: number;
+  course: string;
+  level: string;
+  classId?: string;
+  role: ClassAssignment['role'];
+  /** Teacher the class was covered for, when it was a substitution */
+  substituteFor?: string;
+  category: string;
+  hourlyRate?: number;
+  amount?: number;
+}
+
+export interface TimesheetCategoryTotal {
+  category: string;
+  minutes: number;
+  hourlyRate?: number;
+  amount?: number;
+}
+
+/**
+ * A teacher's taught classes in a pay period, priced by rate category
+ */
+export interface Timesheet {
+  teacherId: number;
+  teacherName: string;
+  teacherType?: string;
+  from: string;
+  to: string;
+  lines: TimesheetLine[];
+  totals: TimesheetCategoryTotal[];
+  totalMinutes: number;
+  /** Sum of the priced lines; undefined when no line has a rate */
+  totalAmount?: number;
+  /** Classes on the timesheet without hours because their times are missing */
+  untimedClasses: number;
+  /** Classes in the period that were cancelled or moved, and are not paid */
+  cancelledClasses: number;
+}
+
+function parsePayTeacherType(value?: string | null): PayTeacherType | undefined {
+  const text = (value || '').trim().toLowerCase();
+  if (text.includes('native')) return 'native';
+  if (text.includes('local')) return 'local';
+  return undefined;
+}
+
+function parsePayCourseKind(value?: string | null): PayCourseKind | undefined {
+  const text = (value || '').trim().toLowerCase();
+  if (text.includes('workshop')) return 'workshop';
+  if (text.includes('regular')) return 'regular';
+  return undefined;
+}
+
+/**
+ * Turn Pay-Rates rows into rate categories, skipping rows without a category name
+ */
+export function buildPayRates(rows: PayRateRow[]): PayRate[] {
+  return rows
+    .filter(row => row.Category && String(row.Category).trim())
+    .map(row => {
+      const substitution = row.Substitution === null || row.Substitution === undefined || row.Substitution === ''
+        ? undefined
+        : row.Substitution === true || ['yes', 'y', 'true', '1'].includes(String(row.Substitution).trim().toLowerCase());
+      const hourlyRate = row.Hourly_Rate === null || row.Hourly_Rate === undefined || row.Hourly_Rate === ''
+        ? undefined
+        : Number(row.Hourly_Rate);
+      return {
+        category: String(row.Category).trim(),
+        teacherType: parsePayTeacherType(row.Teacher_Type),
+        courseKind: parsePayCourseKind(row.Course_Kind),
+        substitution,
+        hourlyRate: hourlyRate !== undefined && !isNaN(hourlyRate) ? hourlyRate : undefined
+      };
+    });
+}
+
+/**
+ * Find the most specific rate category matching a class; ties go to the first listed
+ */
+export function findPayRate(
+  rates: PayRate[],
+  teacherType: PayTeacherType,
+  courseKind: PayCourseKind,
+  substitution: boolean
+): PayRate | undefined {
+  let best: PayRate | undefined;
+  let bestScore = -1;
+  rates.forEach(rate => {
+    if (rate.teacherType !== undefined && rate.teacherType !== teacherType) return;
+    if (rate.courseKind !== undefined && rate.courseKind !== courseKind) return;
+    if (rate.substitution !== undefined && rate.substitution !== substitution) return;
+
+    const score = [rate.teacherType, rate.courseKind, rate.substitution].filter(field => field !== undefined).length;
+    if (score > bestScore) {
+      best = rate;
+      bestScore = score;
+    }
+  });
+  return best;
+}
+
+function roundAmount(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Build the timesheets of a pay period from resolved assignments, one per teacher with classes.
+ * Substitutions are already applied to the assignments, so a covered class is paid to the
+ * substitute and not to the teacher listed in the calendar. A class a teacher appears in
+ * twice (e.g. both Day1 and Day2) is paid once. Cancelled and rescheduled classes are only
+ * counted; a make-up class is paid on the day it is held. Classes of the catalogue's
+ * "workshops" family are paid at the workshop rate.
+ */
+export function buildTimesheets(
+  assignments: ClassAssignment[],
+  teachers: Teacher[],
+  rates: PayRate[],
+  period: { from: string; to: string },
+  families: CourseFamilyDefinition[]
+): Timesheet[] {
+  const teachersById = new Map<number, Teacher>();
+  teachers.forEach(teacher => teachersById.set(teacher.Teacher_ID, teacher));
+
+  const timesheets = new Map<number, Timesheet>();
+  const seen = new Set<string>();
+
+  [...assignments]
+    .sort((a, b) => compareEntries(a.entry, b.entry))
+    .forEach(assignment => {
+      const seenKey = `${assignment.teacherId}|${assignment.entryKey}`;
+      if (seen.has(seenKey)) return;
+      seen.add(seenKey);
+
+      const { entry } = assignment;
+      const { date, durationMinutes, courseFamily } = normalizeEntry(entry, families);
+      if (!date || date < period.from || date > period.to) return;
+
+      const teacher = teachersById.get(assignment.teacherId);
+      let timesheet = timesheets.get(assignment.teacherId);
+      if (!timesheet) {
+        timesheet = {
+          teacherId: assignment.teacherId,
+          teacherName: teacher?.Teacher_name || assignment.teacherName,
+          teacherType: teacher?.Teacher_Type,
+          from: period.from,
+          to: period.to,
+          lines: [],
+          totals: [],
+          totalMinutes: 0,
+          untimedClasses: 0,
+          cancelledClasses: 0
+        };
+        timesheets.set(assignment.teacherId, timesheet);
+      }
+
+      if (!isHeldEntry(entry)) {
+        timesheet.cancelledClasses++;
+        return;
+      }
+
+      const rate = findPayRate(
+        rates,
+        teacher && isNativeTeacher(teacher) ? 'native' : 'local',
+        courseFamily === 'workshops' ? 'workshop' : 'regular',
+        assignment.substituteFor !== undefined
+      );
+      const minutes = durationMinutes ?? 0;
+      timesheet.lines.push({
+        entryKey: assignment.entryKey,
+        tableName: assignment.tableName,
+        date,
+        start: entry.Start,
+        end: entry.End,
+        minutes,
+        course: entry.Course,
+        level: entry.Level,
+        classId: entry['Class.ID'],
+        role: assignment.role,
+        substituteFor: assignment.substituteFor?.teacherName,
+        category: rate?.category || UNRATED_CATEGORY,
+        hourlyRate: rate?.hourlyRate,
+        amount: rate?.hourlyRate !== undefined ? roundAmount(rate.hourlyRate * minutes / 60) : undefined
+      });
+      timesheet.totalMinutes += minutes;
+      if (durationMinutes === null) timesheet.untimedClasses++;
+    });
+
+  return Array.from(timesheets.values())
+    .map(timesheet => {
+      const totals = new Map<string, TimesheetCategoryTotal>();
+      timesheet.lines.forEach(line => {
+        const total = totals.get(line.category) || { category: line.category, minutes: 0, hourlyRate: line.hourlyRate };
+        total.minutes += line.minutes;
+        if (line.amount !== undefined) {
+          total.amount = roundAmount((total.amount || 0) + line.amount);
+        }
+        totals.set(line.category, total);
+      });
+
+      const pricedLines = timesheet.lines.filter(line => line.amount !== undefined);
+      return {
+        ...timesheet,
+        totals: Array.from(totals.values()),
+        totalAmount: pricedLines.length > 0
+          ? roundAmount(pricedLines.reduce((sum, line) => sum + line.amount!, 0))
+          : undefined
+      };
+    })
+    .sort((a, b) => a.teacherName.localeCompare(b.teacherName));
+}
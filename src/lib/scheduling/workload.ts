@@ -0,0 +1,281 @@
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  differenceInCalendarDays,
+  endOfMonth,
+  format,
+  parseISO,
+  startOfMonth,
+  startOfWeek
+} from 'date-fns';
+import type { Teacher } from '@/lib/supabase/data';
+import { toCsv } from '@/lib/export/csv';
+import type { ClassAssignment } from './assignments';
+import type { TeacherAvailability } from './availability';
+import { CourseFamilyDefinition, getCourseFamilyKeys, getCourseFamilyLabel } from './courseCatalogue';
+import { CourseFamily, compareEntries, isHeldEntry, normalizeEntry } from './normalize';
+
+export type WorkloadPeriod = 'week' | 'month';
+
+/**
+ * A class counted in a teacher's workload
+ */
+export interface WorkloadClass {
+  assignment: ClassAssignment;
+  date: string;
+  /** Contact minutes; 0 when Start/End are missing or not recognisable times */
+  minutes: number;
+  ntLed: boolean;
+  courseFamily: CourseFamily;
+}
+
+/**
+ * How a teacher's hours in a period compare to their weekly target and maximum
+ */
+export type WorkloadStatus = 'over-maximum' | 'under-target' | 'on-target' | 'no-target';
+
+/**
+ * A teacher's contact hours in one week or month
+ */
+export interface TeacherWorkload {
+  teacherId: number;
+  teacherName: string;
+  teacherType?: string;
+  /** First and last day of the week or month, yyyy-MM-dd */
+  periodStart: string;
+  periodEnd: string;
+  classCount: number;
+  contactMinutes: number;
+  minutesByFamily: Record<CourseFamily, number>;
+  ntLedMinutes: number;
+  /** Classes counted without hours because their times are missing */
+  untimedClasses: number;
+  /** Weekly target and maximum prorated to the days of the period */
+  targetMinutes?: number;
+  maxMinutes?: number;
+  status: WorkloadStatus;
+  /** The classes behind the totals, by date and start time */
+  classes: WorkloadClass[];
+}
+
+export interface WorkloadReport {
+  period: WorkloadPeriod;
+  from?: string;
+  to?: string;
+  /** The course catalogue the hours are split by */
+  families: CourseFamilyDefinition[];
+  /** One row per teacher and period, by period and then teacher name */
+  rows: TeacherWorkload[];
+}
+
+export interface WorkloadReportOptions {
+  period: WorkloadPeriod;
+  /** With a range, every teacher gets a row for every period in it, including periods without classes */
+  from?: string;
+  to?: string;
+  /** The course catalogue to split the hours by */
+  families: CourseFamilyDefinition[];
+}
+
+/**
+ * First day of the week (Monday) or month a date falls in
+ */
+export function getPeriodStart(date: string, period: WorkloadPeriod): string {
+  const day = parseISO(date);
+  return format(period === 'week' ? startOfWeek(day, { weekStartsOn: 1 }) : startOfMonth(day), 'yyyy-MM-dd');
+}
+
+function getPeriodEnd(periodStart: string, period: WorkloadPeriod): string {
+  const start = parseISO(periodStart);
+  return format(period === 'week' ? addDays(start, 6) : endOfMonth(start), 'yyyy-MM-dd');
+}
+
+// The periods a range spans, as their first days
+function getPeriodStarts(from: string, to: string, period: WorkloadPeriod): string[] {
+  const starts: string[] = [];
+  let current = parseISO(getPeriodStart(from, period));
+  while (format(current, 'yyyy-MM-dd') <= to) {
+    starts.push(format(current, 'yyyy-MM-dd'));
+    current = period === 'week' ? addWeeks(current, 1) : addMonths(current, 1);
+  }
+  return starts;
+}
+
+function emptyFamilyMinutes(families: CourseFamilyDefinition[]): Record<CourseFamily, number> {
+  return Object.fromEntries(getCourseFamilyKeys(families).map(family => [family, 0]));
+}
+
+function getStatus(row: Pick<TeacherWorkload, 'contactMinutes' | 'targetMinutes' | 'maxMinutes'>): WorkloadStatus {
+  if (row.maxMinutes !== undefined && row.contactMinutes > row.maxMinutes) return 'over-maximum';
+  if (row.targetMinutes !== undefined && row.contactMinutes < row.targetMinutes) return 'under-target';
+  if (row.targetMinutes === undefined && row.maxMinutes === undefined) return 'no-target';
+  return 'on-target';
+}
+
+/**
+ * Total each teacher's contact hours per week or month from their resolved assignments.
+ * A class a teacher appears in twice (e.g. both Day1 and Day2) counts once; NT-Led hours
+ * only count for the teachers actually assigned to the class. Cancelled and rescheduled classes
+ * are left out; their make-up classes count on the day they are held.
+ */
+export function buildWorkloadReport(
+  assignments: ClassAssignment[],
+  teachers: Teacher[],
+  availability: TeacherAvailability[],
+  options: WorkloadReportOptions
+): WorkloadReport {
+  const { period, from, to, families } = options;
+  const rows = new Map<string, TeacherWorkload>();
+  const teachersById = new Map<number, Teacher>();
+  teachers.forEach(teacher => teachersById.set(teacher.Teacher_ID, teacher));
+  const availabilityByTeacher = new Map<number, TeacherAvailability>();
+  availability.forEach(item => availabilityByTeacher.set(item.teacherId, item));
+
+  const getRow = (teacherId: number, teacherName: string, periodStart: string): TeacherWorkload => {
+    const key = `${teacherId}|${periodStart}`;
+    let row = rows.get(key);
+    if (!row) {
+      const teacher = teachersById.get(teacherId);
+      const periodEnd = getPeriodEnd(periodStart, period);
+      // Only the days of the period within the report range count towards the target
+      const days = differenceInCalendarDays(
+        parseISO(to && to < periodEnd ? to : periodEnd),
+        parseISO(from && from > periodStart ? from : periodStart)
+      ) + 1;
+      const weeklyLimits = availabilityByTeacher.get(teacherId);
+      row = {
+        teacherId,
+        teacherName: teacher?.Teacher_name || teacherName,
+        teacherType: teacher?.Teacher_Type,
+        periodStart,
+        periodEnd,
+        classCount: 0,
+        contactMinutes: 0,
+        minutesByFamily: emptyFamilyMinutes(families),
+        ntLedMinutes: 0,
+        untimedClasses: 0,
+        targetMinutes: weeklyLimits?.targetHoursPerWeek !== undefined
+          ? Math.round(weeklyLimits.targetHoursPerWeek * 60 * days / 7)
+          : undefined,
+        maxMinutes: weeklyLimits?.maxHoursPerWeek !== undefined
+          ? Math.round(weeklyLimits.maxHoursPerWeek * 60 * days / 7)
+          : undefined,
+        status: 'no-target',
+        classes: []
+      };
+      rows.set(key, row);
+    }
+    return row;
+  };
+
+  if (from && to) {
+    getPeriodStarts(from, to, period).forEach(periodStart => {
+      teachers.forEach(teacher => getRow(teacher.Teacher_ID, teacher.Teacher_name, periodStart));
+    });
+  }
+
+  const seen = new Set<string>();
+  [...assignments]
+    .sort((a, b) => compareEntries(a.entry, b.entry))
+    .forEach(assignment => {
+      const seenKey = `${assignment.teacherId}|${assignment.entryKey}`;
+      if (seen.has(seenKey) || !isHeldEntry(assignment.entry)) return;
+      seen.add(seenKey);
+
+      const { date, durationMinutes, ntLed, courseFamily } = normalizeEntry(assignment.entry, families);
+      if (!date || (from && date < from) || (to && date > to)) return;
+
+      const row = getRow(assignment.teacherId, assignment.teacherName, getPeriodStart(date, period));
+      const minutes = durationMinutes ?? 0;
+      row.classCount++;
+      row.contactMinutes += minutes;
+      row.minutesByFamily[courseFamily] = (row.minutesByFamily[courseFamily] || 0) + minutes;
+      if (ntLed) row.ntLedMinutes += minutes;
+      if (durationMinutes === null) row.untimedClasses++;
+      row.classes.push({ assignment, date, minutes, ntLed, courseFamily });
+    });
+
+  const sortedRows = Array.from(rows.values())
+    .map(row => ({ ...row, status: getStatus(row) }))
+    .sort((a, b) => a.periodStart.localeCompare(b.periodStart) || a.teacherName.localeCompare(b.teacherName));
+
+  return { period, from, to, families, rows: sortedRows };
+}
+
+/**
+ * Total contact minutes per teacher ID, counting a class a teacher appears in twice once
+ * and leaving out cancelled and rescheduled classes
+ */
+export function getContactMinutesByTeacher(assignments: ClassAssignment[]): Record<number, number> {
+  const minutes: Record<number, number> = {};
+  const seen = new Set<string>();
+  assignments.forEach(assignment => {
+    const seenKey = `${assignment.teacherId}|${assignment.entryKey}`;
+    if (seen.has(seenKey) || !isHeldEntry(assignment.entry)) return;
+    seen.add(seenKey);
+    minutes[assignment.teacherId] = (minutes[assignment.teacherId] || 0) + (normalizeEntry(assignment.entry).durationMinutes ?? 0);
+  });
+  return minutes;
+}
+
+/**
+ * Format minutes as decimal hours, e.g. 90 -> "1.50"
+ */
+export function formatHours(minutes: number): string {
+  return (minutes / 60).toFixed(2);
+}
+
+/**
+ * The report as CSV with one line per teacher and period, hours as decimals
+ */
+export function workloadReportToCsv(report: WorkloadReport): string {
+  const header = [
+    'Teacher ID', 'Teacher', 'Teacher Type', 'Period Start', 'Period End', 'Classes', 'Contact Hours',
+    ...getCourseFamilyKeys(report.families).map(family => `${getCourseFamilyLabel(family, report.families)} Hours`),
+    'NT-Led Hours', 'Non-NT-Led Hours', 'Untimed Classes', 'Target Hours', 'Max Hours', 'Status'
+  ];
+  const lines = report.rows.map(row => [
+    row.teacherId,
+    row.teacherName,
+    row.teacherType,
+    row.periodStart,
+    row.periodEnd,
+    row.classCount,
+    formatHours(row.contactMinutes),
+    ...getCourseFamilyKeys(report.families).map(family => formatHours(row.minutesByFamily[family] || 0)),
+    formatHours(row.ntLedMinutes),
+    formatHours(row.contactMinutes - row.ntLedMinutes),
+    row.untimedClasses,
+    row.targetMinutes !== undefined ? formatHours(row.targetMinutes) : undefined,
+    row.maxMinutes !== undefined ? formatHours(row.maxMinutes) : undefined,
+    row.status
+  ]);
+  return toCsv([header, ...lines]);
+}
+
+/**
+ * The classes behind the report as CSV, one line per teacher and class, for checking payroll
+ */
+export function workloadClassesToCsv(report: WorkloadReport): string {
+  const header = [
+    'Teacher ID', 'Teacher', 'Date', 'Start', 'End', 'Hours', 'Course', 'Level', 'Class ID',
+    'Course Family', 'NT-Led', 'Role', 'Table'
+  ];
+  const lines = report.rows.flatMap(row => row.classes.map(item => [
+    row.teacherId,
+    row.teacherName,
+    item.date,
+    item.assignment.entry.Start,
+    item.assignment.entry.End,
+    formatHours(item.minutes),
+    item.assignment.entry.Course,
+    item.assignment.entry.Level,
+    item.assignment.entry['Class.ID'],
+    item.courseFamily,
+    item.ntLed ? 'Yes' : 'No',
+    item.assignment.role,
+    item.assignment.tableName
+  ]));
+  return toCsv([header, ...lines]);
+}
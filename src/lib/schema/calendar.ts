@@ -0,0 +1,251 @@
+import * as yup from 'yup';
+import type { CalendarEntry } from '@/lib/supabase/data';
+
+/**
+ * Columns of a Course-Calendar table, under the names the app uses
+ */
+export const CALENDAR_COLUMNS = [
+  'id', 'Visit', 'Date', 'Course', 'Level', 'Day1', 'Day2', 'Start', 'End', 'Unit', 'Meeting', 'Class.ID', 'NT-Led',
+  'Status', 'Status_Reason', 'Makeup_Of'
+] as const;
+
+export type CalendarColumn = typeof CALENDAR_COLUMNS[number];
+
+// Entries cannot be read from a table without these
+const REQUIRED_CALENDAR_COLUMNS: CalendarColumn[] = ['id', 'Visit', 'Date', 'Course', 'Level'];
+
+// Other names a column goes by in some tables, compared like normalizeColumnName.
+// Spelling variants such as "NTLed", "nt_led" or "ClassID" match without being listed.
+const COLUMN_ALIASES: Partial<Record<CalendarColumn, string[]>> = {
+  'Visit': ['visitno', 'visitnumber'],
+  'Date': ['classdate'],
+  'Start': ['starttime'],
+  'End': ['endtime'],
+  'Class.ID': ['classcode'],
+  'NT-Led': ['nativeled'],
+  'Status': ['classstatus'],
+  'Status_Reason': ['reason', 'cancellationreason'],
+  'Makeup_Of': ['makeupfor', 'rescheduledfrom']
+};
+
+const optionalText = yup.string().nullable().optional();
+
+/**
+ * Declared shape of a calendar entry, used to parse rows read from the database.
+ * Parsing casts compatible values (e.g. a Visit stored as text) and keeps columns
+ * outside the declared schema as they are.
+ */
+export const calendarEntrySchema = yup.object({
+  id: yup.number().typeError('id must be a number').integer('id must be a whole number').required('id is missing'),
+  Visit: yup.number().typeError('Visit must be a number').integer('Visit must be a whole number').required('Visit is missing'),
+  Date: yup.string()
+    .required('Date is missing')
+    .matches(/^\d{4}-\d{2}-\d{2}/, 'Date must start with a yyyy-MM-dd date'),
+  Course: yup.string().required('Course is missing'),
+  Level: yup.string().required('Level is missing'),
+  Day1: optionalText,
+  Day2: optionalText,
+  Start: optionalText,
+  End: optionalText,
+  Unit: optionalText,
+  Meeting: optionalText,
+  'Class.ID': optionalText,
+  'NT-Led': yup.mixed<boolean | string>().nullable().optional(),
+  Status: optionalText,
+  Status_Reason: optionalText,
+  Makeup_Of: yup.number().typeError('Makeup_Of must be an entry ID').integer('Makeup_Of must be an entry ID').nullable().optional()
+});
+
+export type SchemaDiagnosticLevel = 'error' | 'warning' | 'info';
+
+/**
+ * Something about a calendar table that differs from the declared schema
+ */
+export interface SchemaDiagnostic {
+  tableName: string;
+  level: SchemaDiagnosticLevel;
+  /** Declared column the diagnostic is about, if any */
+  column?: string;
+  message: string;
+}
+
+/**
+ * The columns of one calendar table, matched against the declared schema
+ */
+export interface CalendarTableSchema {
+  tableName: string;
+  /** Columns as named in the database */
+  columns: string[];
+  /** Database column holding each declared column the table has */
+  columnMap: Partial<Record<CalendarColumn, string>>;
+  /** Declared columns the table stores under another name, e.g. { 'NT-Led': 'NTLed' } */
+  aliases: Partial<Record<CalendarColumn, string>>;
+  /** Declared columns the table does not have */
+  missingColumns: CalendarColumn[];
+  /** Database columns outside the declared schema; entries keep them as they are */
+  extraColumns: string[];
+  diagnostics: SchemaDiagnostic[];
+  /** False when a required column is missing, so entries cannot be read from the table */
+  valid: boolean;
+}
+
+/**
+ * Normalize a column name for alias matching: lowercase, without spaces, dots, dashes or underscores
+ */
+function normalizeColumnName(name: string): string {
+  return name.toLowerCase().replace(/[\s._\-]/g, '');
+}
+
+// Normalized names each declared column is recognised by
+function getColumnNames(column: CalendarColumn): string[] {
+  return [normalizeColumnName(column), ...(COLUMN_ALIASES[column] || [])];
+}
+
+/**
+ * Match a table's columns against the declared schema.
+ * Exact names win over aliases; with no columns to go on, the declared schema is assumed.
+ */
+export function inspectCalendarTable(tableName: string, columns: string[]): CalendarTableSchema {
+  const diagnostics: SchemaDiagnostic[] = [];
+  const columnMap: Partial<Record<CalendarColumn, string>> = {};
+  const aliases: Partial<Record<CalendarColumn, string>> = {};
+  const missingColumns: CalendarColumn[] = [];
+
+  if (columns.length === 0) {
+    CALENDAR_COLUMNS.forEach(column => {
+      columnMap[column] = column;
+    });
+    diagnostics.push({
+      tableName,
+      level: 'warning',
+      message: 'Columns could not be determined (empty table?); assuming the declared schema'
+    });
+    return { tableName, columns, columnMap, aliases, missingColumns, extraColumns: [], diagnostics, valid: true };
+  }
+
+  const used = new Set<string>();
+  // Exact matches first, so a table with both "NT-Led" and "NTLed" keeps "NT-Led"
+  CALENDAR_COLUMNS.forEach(column => {
+    if (columns.includes(column)) {
+      columnMap[column] = column;
+      used.add(column);
+    }
+  });
+
+  CALENDAR_COLUMNS.forEach(column => {
+    if (columnMap[column]) return;
+
+    const names = getColumnNames(column);
+    const match = columns.find(name => !used.has(name) && names.includes(normalizeColumnName(name)));
+    if (!match) {
+      missingColumns.push(column);
+      const required = REQUIRED_CALENDAR_COLUMNS.includes(column);
+      diagnostics.push({
+        tableName,
+        level: required ? 'error' : 'info',
+        column,
+        message: required
+          ? `Required column ${column} is missing; entries cannot be read from this table`
+          : `Column ${column} is missing; entries from this table never have it`
+      });
+      return;
+    }
+
+    columnMap[column] = match;
+    aliases[column] = match;
+    used.add(match);
+    diagnostics.push({ tableName, level: 'info', column, message: `Column ${column} is stored as "${match}"` });
+  });
+
+  const extraColumns = columns.filter(name => !used.has(name));
+  const unrelated: string[] = [];
+  extraColumns.forEach(name => {
+    // A second column that looks like a declared one, e.g. "NTLed" next to "NT-Led"
+    const lookalike = CALENDAR_COLUMNS.find(column => getColumnNames(column).includes(normalizeColumnName(name)));
+    if (lookalike) {
+      diagnostics.push({
+        tableName,
+        level: 'warning',
+        column: lookalike,
+        message: `Column "${name}" looks like ${lookalike}, which is read from "${columnMap[lookalike]}"; "${name}" is ignored`
+      });
+    } else {
+      unrelated.push(name);
+    }
+  });
+  if (unrelated.length > 0) {
+    diagnostics.push({
+      tableName,
+      level: 'info',
+      message: `Columns outside the declared schema: ${unrelated.join(', ')}`
+    });
+  }
+
+  return {
+    tableName,
+    columns,
+    columnMap,
+    aliases,
+    missingColumns,
+    extraColumns,
+    diagnostics,
+    valid: !diagnostics.some(diagnostic => diagnostic.level === 'error')
+  };
+}
+
+/**
+ * Rename a row's aliased columns to their declared names
+ */
+export function toCanonicalRow(schema: CalendarTableSchema, row: Record<string, unknown>): Record<string, unknown> {
+  const result = { ...row };
+  Object.entries(schema.aliases).forEach(([column, name]) => {
+    if (name in result) {
+      result[column] = result[name];
+      delete result[name];
+    }
+  });
+  return result;
+}
+
+/**
+ * Rename declared columns to the table's own names before writing.
+ * Throws when a value is given for a column the table does not have.
+ */
+export function toTableRow(schema: CalendarTableSchema, values: Record<string, unknown>): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  Object.entries(values).forEach(([column, value]) => {
+    if (value === undefined) return;
+    if (!(CALENDAR_COLUMNS as readonly string[]).includes(column)) {
+      result[column] = value;
+      return;
+    }
+
+    const name = schema.columnMap[column as CalendarColumn];
+    if (!name) {
+      throw new Error(`${schema.tableName} has no ${column} column`);
+    }
+    result[name] = value;
+  });
+  return result;
+}
+
+/**
+ * The table's own name for a declared column, for filters
+ */
+export function getTableColumn(schema: CalendarTableSchema, column: CalendarColumn): string {
+  return schema.columnMap[column] || column;
+}
+
+/**
+ * Parse a row (with declared column names) into a calendar entry, or list why it is not one
+ */
+export function parseCalendarEntry(row: Record<string, unknown>): { entry: CalendarEntry } | { problems: string[] } {
+  try {
+    return { entry: calendarEntrySchema.validateSync(row, { abortEarly: false }) as CalendarEntry };
+  } catch (error) {
+    if (error instanceof yup.ValidationError) {
+      return { problems: error.errors };
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,3 @@
+export * from './tables';
+export * from './calendar';
+export * from './registry';
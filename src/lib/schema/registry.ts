@@ -0,0 +1,74 @@
+import { CalendarTableSchema, SchemaDiagnostic, inspectCalendarTable } from './calendar';
+
+// Schemas of the calendar tables inspected so far, by table name
+const schemas = new Map<string, CalendarTableSchema>();
+
+// Rows skipped when reading each table because they did not parse, by table name
+const rowDiagnostics = new Map<string, SchemaDiagnostic>();
+
+function logDiagnostic(diagnostic: SchemaDiagnostic): void {
+  const message = `[Schema] ${diagnostic.tableName}: ${diagnostic.message}`;
+  if (diagnostic.level === 'error') {
+    console.error(message);
+  } else if (diagnostic.level === 'warning') {
+    console.warn(message);
+  } else {
+    console.log(message);
+  }
+}
+
+/**
+ * Inspect a calendar table's columns and remember the result, logging how the table deviates
+ * from the declared schema. Tables whose columns could not be determined are not remembered,
+ * so they are inspected again on next use.
+ */
+export function registerCalendarTable(tableName: string, columns: string[]): CalendarTableSchema {
+  const schema = inspectCalendarTable(tableName, columns);
+  schema.diagnostics.forEach(logDiagnostic);
+  if (columns.length > 0) {
+    schemas.set(tableName, schema);
+  }
+  return schema;
+}
+
+/**
+ * The registered schema of a calendar table, if it has been inspected
+ */
+export function getCalendarTableSchema(tableName: string): CalendarTableSchema | undefined {
+  return schemas.get(tableName);
+}
+
+/**
+ * The schemas of all calendar tables inspected so far
+ */
+export function getCalendarTableSchemas(): CalendarTableSchema[] {
+  return Array.from(schemas.values());
+}
+
+/**
+ * Record how many rows of a table were skipped on the last read because they did not parse
+ */
+export function recordSkippedRows(tableName: string, skipped: number, total: number, problems: string[]): void {
+  if (skipped === 0) {
+    rowDiagnostics.delete(tableName);
+    return;
+  }
+
+  const diagnostic: SchemaDiagnostic = {
+    tableName,
+    level: 'warning',
+    message: `${skipped} of ${total} rows skipped: ${Array.from(new Set(problems)).join('; ')}`
+  };
+  rowDiagnostics.set(tableName, diagnostic);
+  logDiagnostic(diagnostic);
+}
+
+/**
+ * Warnings and errors about the calendar tables: column deviations and skipped rows.
+ * Informational notes (aliases, extra columns) are included when `includeInfo` is set.
+ */
+export function getSchemaDiagnostics({ includeInfo = false }: { includeInfo?: boolean } = {}): SchemaDiagnostic[] {
+  const diagnostics = getCalendarTableSchemas().flatMap(schema => schema.diagnostics);
+  return [...diagnostics, ...Array.from(rowDiagnostics.values())]
+    .filter(diagnostic => includeInfo || diagnostic.level !== 'info');
+}
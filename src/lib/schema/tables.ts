@@ -0,0 +1,65 @@
+/**
+ * Table names shared by the data layer, the connection service and the repositories
+ */
+
+// Every course has its own calendar table named "<course>-Course-Calendar"
+const CALENDAR_TABLE_SUFFIX = '-Course-Calendar';
+
+export const TEACHERS_TABLE = 'Teachers';
+
+export const STUDENTS_TABLE = 'Students-English';
+
+// Table holding substitutions recorded through the substitute finder
+export const SUBSTITUTIONS_TABLE = 'Substitutions';
+
+// Table holding teacher working hours, leave and weekly hour caps
+export const AVAILABILITY_TABLE = 'Teacher-Availability';
+
+// Table holding the pay rate categories used for timesheets
+export const PAY_RATES_TABLE = 'Pay-Rates';
+
+// Table holding the course catalogue: course families, their colours and matching rules
+export const COURSE_FAMILIES_TABLE = 'Course-Families';
+
+// Tables known to exist in the Supabase project, used when the schema cannot be listed
+// (offline, or a project that blocks both get_tables and information_schema)
+export const KNOWN_TABLES = [
+  TEACHERS_TABLE,
+  STUDENTS_TABLE,
+  'Sprouts1-Course-Calendar',
+  'Sprouts2-Course-Calendar',
+  'Clovers1A-Course-Calendar',
+  'Clovers2A-Course-Calendar',
+  'Guardians3-Course-Calendar'
+];
+
+/**
+ * Whether a table holds the classes of a course. Any table following the naming
+ * convention counts, so new courses are picked up without code changes.
+ */
+export function isCalendarTable(tableName: string): boolean {
+  return tableName.endsWith(CALENDAR_TABLE_SUFFIX) && tableName.length > CALENDAR_TABLE_SUFFIX.length;
+}
+
+// Tables the app reads and writes besides the calendar tables
+const APP_TABLES = [
+  ...KNOWN_TABLES.filter(tableName => !isCalendarTable(tableName)),
+  SUBSTITUTIONS_TABLE,
+  AVAILABILITY_TABLE,
+  PAY_RATES_TABLE,
+  COURSE_FAMILIES_TABLE
+];
+
+/**
+ * Whether a table is one the app uses: a calendar table or one of the tables above
+ */
+export function isAppTable(tableName: string): boolean {
+  return isCalendarTable(tableName) || APP_TABLES.includes(tableName);
+}
+
+/**
+ * The course a calendar table belongs to, e.g. "Sprouts1" for "Sprouts1-Course-Calendar"
+ */
+export function getCourseName(tableName: string): string {
+  return isCalendarTable(tableName) ? tableName.slice(0, -CALENDAR_TABLE_SUFFIX.length) : tableName;
+}
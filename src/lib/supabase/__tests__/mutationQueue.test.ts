@@ -0,0 +1,165 @@
+import { setRepository } from '@/lib/repository';
+import type { CalendarEntry } from '@/lib/supabase/data';
+import { clearCache, replayQueuedMutations, resolveQueuedMutation } from '@/lib/supabase/data';
+import {
+  UpdateEntryMutation,
+  findConflictingFields,
+  getQueuedMutations,
+  queueCreateEntry,
+  queueDeleteEntry,
+  queueUpdateEntry
+} from '@/lib/supabase/mutationQueue';
+import { supabaseService } from '@/lib/supabase/service';
+import { MemoryRepository } from '@/lib/repository/__tests__/memoryRepository';
+
+// IndexedDB does not exist here; the queue is kept in memory instead
+const queuedRecords = new Map<string, { id: string }>();
+jest.mock('@/lib/supabase/offlineStore', () => ({
+  ...jest.requireActual('@/lib/supabase/offlineStore'),
+  saveQueuedRecord: async (record: { id: string }) => {
+    queuedRecords.set(record.id, record);
+  },
+  loadQueuedRecords: async () => Array.from(queuedRecords.values()),
+  deleteQueuedRecord: async (id: string) => {
+    queuedRecords.delete(id);
+  }
+}));
+
+const TABLE = 'Sprouts1-Course-Calendar';
+
+const storedEntry = (changes: Partial<CalendarEntry> = {}): CalendarEntry => ({
+  id: 1,
+  Visit: 1,
+  Date: '2025-03-04',
+  Course: 'Sprouts1',
+  Level: '1',
+  Start: '09:00',
+  End: '10:00',
+  'Class.ID': 'S1-A',
+  ...changes
+});
+
+let repository: MemoryRepository;
+
+beforeAll(async () => {
+  // Edits are only queued in the browser
+  (globalThis as any).window = { addEventListener: () => undefined, removeEventListener: () => undefined };
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  // Failed writes are not retried with a delay here
+  Object.assign(supabaseService, { retryDelay: 0 });
+});
+
+afterAll(() => {
+  supabaseService.cleanup();
+  setRepository(null);
+  delete (globalThis as any).window;
+  jest.restoreAllMocks();
+});
+
+beforeEach(async () => {
+  queuedRecords.clear();
+  clearCache();
+  repository = new MemoryRepository({ [TABLE]: [storedEntry()] });
+  setRepository(repository);
+  await supabaseService.ping();
+});
+
+describe('findConflictingFields', () => {
+  const update = (changes: Partial<CalendarEntry>): UpdateEntryMutation => ({
+    kind: 'update-entry',
+    id: 'm1',
+    createdAt: '2025-03-01T00:00:00.000Z',
+    status: 'pending',
+    tableName: TABLE,
+    entryId: 1,
+    base: storedEntry(),
+    changes
+  });
+
+  it('reports fields the edit and the server both changed to different values', () => {
+    expect(findConflictingFields(update({ Start: '11:00' }), storedEntry({ Start: '14:00' }))).toEqual(['Start']);
+  });
+
+  it('ignores server changes to other fields and changes to the same value', () => {
+    expect(findConflictingFields(update({ Start: '11:00' }), storedEntry({ End: '12:00' }))).toEqual([]);
+    expect(findConflictingFields(update({ Start: '11:00' }), storedEntry({ Start: '11:00' }))).toEqual([]);
+  });
+
+  it('treats empty and missing values as the same', () => {
+    expect(findConflictingFields(update({ Unit: '2' }), storedEntry({ Unit: '' }))).toEqual([]);
+  });
+
+  it('reports any server change for a deletion', () => {
+    const deletion = { ...update({}), kind: 'delete-entry' as const };
+    expect(findConflictingFields(deletion, storedEntry({ Level: '2' }))).toEqual(['Level']);
+    expect(findConflictingFields(deletion, storedEntry())).toEqual([]);
+  });
+});
+
+describe('replayQueuedMutations', () => {
+  it('writes queued edits oldest first and empties the queue', async () => {
+    await queueUpdateEntry(TABLE, storedEntry(), { Start: '11:00', End: '12:00' });
+    await queueUpdateEntry(TABLE, storedEntry({ Start: '11:00', End: '12:00' }), { End: '12:30' });
+    await queueCreateEntry(TABLE, { Visit: 2, Date: '2025-03-11', Course: 'Sprouts1', Level: '1', 'Class.ID': 'S1-A' });
+
+    expect(await replayQueuedMutations()).toEqual({ applied: 3, conflicts: 0, failed: 0 });
+    expect(repository.rows(TABLE)).toEqual([
+      expect.objectContaining({ id: 1, Start: '11:00', End: '12:30' }),
+      expect.objectContaining({ Visit: 2, Date: '2025-03-11' })
+    ]);
+    expect(await getQueuedMutations()).toEqual([]);
+  });
+
+  it('keeps an edit that conflicts with the server, and the later edits of its row', async () => {
+    await queueUpdateEntry(TABLE, storedEntry(), { Start: '11:00' });
+    await queueDeleteEntry(TABLE, storedEntry({ Start: '11:00' }));
+    repository.rows(TABLE)[0].Start = '14:00';
+
+    expect(await replayQueuedMutations()).toEqual({ applied: 0, conflicts: 1, failed: 0 });
+    const [conflicting, waiting] = await getQueuedMutations();
+    expect(conflicting).toMatchObject({ kind: 'update-entry', status: 'conflict', conflict: { fields: ['Start'] } });
+    expect(conflicting.conflict?.server).toMatchObject({ Start: '14:00' });
+    expect(waiting).toMatchObject({ kind: 'delete-entry', status: 'pending' });
+    expect(repository.rows(TABLE)).toEqual([expect.objectContaining({ Start: '14:00' })]);
+  });
+
+  it('writes the queued value over the server when the conflict is resolved with mine', async () => {
+    await queueUpdateEntry(TABLE, storedEntry(), { Start: '11:00' });
+    repository.rows(TABLE)[0].Start = '14:00';
+    await replayQueuedMutations();
+
+    await resolveQueuedMutation((await getQueuedMutations())[0].id, 'mine');
+    expect(repository.rows(TABLE)[0].Start).toBe('11:00');
+    expect(await getQueuedMutations()).toEqual([]);
+  });
+
+  it('keeps a failed edit with its error, also when its retry fails', async () => {
+    const update = jest.spyOn(repository, 'update').mockRejectedValue(new Error('permission denied for table'));
+    await queueUpdateEntry(TABLE, storedEntry(), { Start: '11:00' });
+
+    expect(await replayQueuedMutations()).toEqual({ applied: 0, conflicts: 0, failed: 1 });
+    const [failed] = await getQueuedMutations();
+    expect(failed).toMatchObject({ status: 'failed', error: 'permission denied for table' });
+
+    await expect(resolveQueuedMutation(failed.id, 'mine')).rejects.toThrow('permission denied');
+    expect(await getQueuedMutations()).toEqual([expect.objectContaining({ id: failed.id, status: 'failed' })]);
+
+    update.mockRestore();
+    await resolveQueuedMutation(failed.id, 'mine');
+    expect(await getQueuedMutations()).toEqual([]);
+    expect(repository.rows(TABLE)[0].Start).toBe('11:00');
+  });
+
+  it('keeps a queued creation when its retry fails', async () => {
+    const insert = jest.spyOn(repository, 'insert').mockRejectedValue(new Error('permission denied for table'));
+    await queueCreateEntry(TABLE, { Visit: 2, Date: '2025-03-11', Course: 'Sprouts1', Level: '1' });
+    await replayQueuedMutations();
+    const [failed] = await getQueuedMutations();
+
+    await expect(resolveQueuedMutation(failed.id, 'mine')).rejects.toThrow('permission denied');
+    expect(await getQueuedMutations()).toEqual([expect.objectContaining({ kind: 'create-entry', status: 'failed' })]);
+    insert.mockRestore();
+  });
+});
@@ -0,0 +1,160 @@
+import {
+  cacheKey,
+  cachedQuery,
+  clearQueryCache,
+  findCached,
+  getCacheStats,
+  invalidateCache,
+  readCache,
+  writeCache
+} from '@/lib/supabase/queryCache';
+
+const MINUTE = 60 * 1000;
+// Calendar results are fresh for 5 minutes and served stale for 30 more
+const CALENDAR_TTL = 5 * MINUTE;
+const CALENDAR_STALE_TTL = 30 * MINUTE;
+
+const TABLE = 'Sprouts1-Course-Calendar';
+const KEY = cacheKey('calendar', TABLE, '2025-03-03', '2025-03-09');
+
+// Lets a background refresh settle
+const flush = () => new Promise(resolve => setImmediate(resolve));
+
+beforeEach(() => {
+  jest.useFakeTimers({ now: new Date('2025-03-03T09:00:00Z'), doNotFake: ['setImmediate'] });
+  clearQueryCache();
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+describe('cachedQuery', () => {
+  it('serves a result without querying again until it expires', async () => {
+    const loader = jest.fn().mockResolvedValue(['first']);
+
+    expect(await cachedQuery('calendar', KEY, loader, [TABLE])).toEqual(['first']);
+    jest.advanceTimersByTime(CALENDAR_TTL - 1);
+    expect(await cachedQuery('calendar', KEY, loader, [TABLE])).toEqual(['first']);
+    expect(loader).toHaveBeenCalledTimes(1);
+    expect(readCache(KEY)).toEqual(['first']);
+
+    jest.advanceTimersByTime(1);
+    expect(readCache(KEY)).toBeNull();
+  });
+
+  it('serves a stale result at once and refreshes it in the background', async () => {
+    const loader = jest.fn().mockResolvedValueOnce(['first']).mockResolvedValueOnce(['second']);
+    await cachedQuery('calendar', KEY, loader, [TABLE]);
+    const before = getCacheStats();
+
+    jest.advanceTimersByTime(CALENDAR_TTL);
+    expect(await cachedQuery('calendar', KEY, loader, [TABLE])).toEqual(['first']);
+    expect(loader).toHaveBeenCalledTimes(2);
+
+    await flush();
+    expect(await cachedQuery('calendar', KEY, loader, [TABLE])).toEqual(['second']);
+    const after = getCacheStats();
+    expect(after.staleHits - before.staleHits).toBe(1);
+    expect(after.hits - before.hits).toBe(1);
+    expect(after.revalidations - before.revalidations).toBe(1);
+  });
+
+  it('keeps the stale result when the background refresh fails', async () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const loader = jest.fn().mockResolvedValueOnce(['first']).mockRejectedValue(new Error('offline'));
+    await cachedQuery('calendar', KEY, loader, [TABLE]);
+
+    jest.advanceTimersByTime(CALENDAR_TTL);
+    const failuresBefore = getCacheStats().revalidationFailures;
+    expect(await cachedQuery('calendar', KEY, loader, [TABLE])).toEqual(['first']);
+    await flush();
+
+    expect(getCacheStats().revalidationFailures).toBe(failuresBefore + 1);
+    expect(await cachedQuery('calendar', KEY, loader, [TABLE])).toEqual(['first']);
+    await flush();
+    warn.mockRestore();
+  });
+
+  it('waits for the query once the result is too old to serve', async () => {
+    const loader = jest.fn().mockResolvedValueOnce(['first']).mockResolvedValueOnce(['second']);
+    await cachedQuery('calendar', KEY, loader, [TABLE]);
+
+    jest.advanceTimersByTime(CALENDAR_TTL + CALENDAR_STALE_TTL);
+    expect(await cachedQuery('calendar', KEY, loader, [TABLE])).toEqual(['second']);
+  });
+
+  it('shares one query between concurrent callers and does not cache failures', async () => {
+    const loader = jest.fn().mockRejectedValueOnce(new Error('timeout')).mockResolvedValueOnce(['first']);
+
+    const results = await Promise.allSettled([
+      cachedQuery('calendar', KEY, loader, [TABLE]),
+      cachedQuery('calendar', KEY, loader, [TABLE])
+    ]);
+    expect(results.map(result => result.status)).toEqual(['rejected', 'rejected']);
+    expect(loader).toHaveBeenCalledTimes(1);
+
+    expect(await cachedQuery('calendar', KEY, loader, [TABLE])).toEqual(['first']);
+    expect(loader).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('invalidateCache', () => {
+  it('drops the results tagged with a table and nothing else', async () => {
+    const otherKey = cacheKey('calendar', 'Clover3A-Course-Calendar', '', '');
+    writeCache('calendar', KEY, ['sprouts'], [TABLE]);
+    writeCache('calendar', otherKey, ['clover'], ['Clover3A-Course-Calendar']);
+    writeCache('assignments', cacheKey('assignments', 'all'), ['both'], [TABLE, 'Clover3A-Course-Calendar']);
+
+    expect(invalidateCache({ tag: TABLE })).toBe(2);
+    expect(readCache(KEY)).toBeNull();
+    expect(readCache(cacheKey('assignments', 'all'))).toBeNull();
+    expect(readCache(otherKey)).toEqual(['clover']);
+  });
+
+  it('selects results by entity as well as by tag', () => {
+    writeCache('calendar', KEY, ['sprouts'], [TABLE]);
+    writeCache('assignments', cacheKey('assignments', 'all'), ['sprouts'], [TABLE]);
+
+    expect(invalidateCache({ entity: 'assignments', tag: TABLE })).toBe(1);
+    expect(readCache(KEY)).toEqual(['sprouts']);
+  });
+
+  it('does not cache the result of a query that was running when its table was invalidated', async () => {
+    let resolve: (value: string[]) => void = () => undefined;
+    const running = cachedQuery('calendar', KEY, () => new Promise<string[]>(done => { resolve = done; }), [TABLE]);
+
+    invalidateCache({ tag: TABLE });
+    resolve(['outdated']);
+    expect(await running).toEqual(['outdated']);
+    expect(readCache(KEY)).toBeNull();
+  });
+});
+
+describe('findCached', () => {
+  it('finds a fresh result matching a predicate among the filtered entries', () => {
+    writeCache('calendar', KEY, { from: '2025-03-01', to: '2025-03-31' }, [TABLE]);
+
+    const covers = (range: { from: string; to: string }) => range.from <= '2025-03-03' && range.to >= '2025-03-09';
+    expect(findCached({ entity: 'calendar', tag: TABLE }, covers)).toEqual({ from: '2025-03-01', to: '2025-03-31' });
+    expect(findCached({ entity: 'calendar', tag: 'Clover3A-Course-Calendar' }, covers)).toBeNull();
+
+    jest.advanceTimersByTime(CALENDAR_TTL);
+    expect(findCached({ entity: 'calendar', tag: TABLE }, covers)).toBeNull();
+  });
+});
+
+describe('writeCache', () => {
+  it('evicts the least recently used results beyond 200 entries', () => {
+    for (let index = 0; index < 200; index++) {
+      writeCache('calendar', cacheKey('calendar', TABLE, index), index, [TABLE]);
+    }
+    // Reading the oldest entry makes the second one the least recently used
+    expect(readCache(cacheKey('calendar', TABLE, 0))).toBe(0);
+
+    writeCache('calendar', cacheKey('calendar', TABLE, 200), 200, [TABLE]);
+    expect(getCacheStats().entries).toBe(200);
+    expect(readCache(cacheKey('calendar', TABLE, 0))).toBe(0);
+    expect(readCache(cacheKey('calendar', TABLE, 1))).toBeNull();
+  });
+});
@@ -0,0 +1,151 @@
+import { Row, ScheduleRepository, setRepository } from '@/lib/repository';
+import { clearCache, getCalendarEntries } from '@/lib/supabase/data';
+import { DataChange, FakeRealtimeSource } from '@/lib/supabase/realtime';
+import { ConnectionObserver, supabaseService } from '@/lib/supabase/service';
+
+const TABLE = 'Sprouts1-Course-Calendar';
+
+// A calendar table using alias column names, storing Visit as text
+const storedRows: Row[] = [
+  { id: 1, Visit: '1', ClassDate: '2025-03-04', Course: 'Sprouts1', Level: '1', StartTime: '09:00', EndTime: '10:00' },
+  { id: 2, Visit: '2', ClassDate: '2025-03-11', Course: 'Sprouts1', Level: '1', StartTime: '09:00', EndTime: '10:00' }
+];
+
+const repository: ScheduleRepository = {
+  name: 'memory',
+  ping: async () => undefined,
+  listTables: async () => ['Teachers', TABLE],
+  listColumns: async () => Object.keys(storedRows[0]),
+  select: jest.fn(async () => storedRows.map(row => ({ ...row }))) as ScheduleRepository['select'],
+  count: async () => storedRows.length,
+  insert: async () => { throw new Error('not used'); },
+  update: async () => { throw new Error('not used'); },
+  delete: async () => undefined
+};
+
+const realtime = new FakeRealtimeSource();
+let notified: DataChange[][] = [];
+const observer: ConnectionObserver = {
+  onConnectionStatusChanged: () => undefined,
+  onDataChanged: changes => notified.push(changes)
+};
+
+async function waitFor(condition: () => boolean): Promise<void> {
+  for (let attempt = 0; attempt < 100 && !condition(); attempt++) {
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+  expect(condition()).toBe(true);
+}
+
+// Emit a change and wait for the batch delivered to observers
+async function emit(change: DataChange): Promise<DataChange[]> {
+  const batches = notified.length;
+  realtime.emit(change);
+  await waitFor(() => notified.length > batches);
+  return notified[notified.length - 1];
+}
+
+beforeAll(async () => {
+  // Realtime only runs in the browser
+  (globalThis as any).window = { addEventListener: () => undefined, removeEventListener: () => undefined };
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  setRepository(repository);
+  supabaseService.addObserver(observer);
+  supabaseService.setRealtimeSource(realtime);
+  await supabaseService.ping();
+  await waitFor(() => realtime.subscribedTables.includes(TABLE));
+});
+
+afterAll(() => {
+  supabaseService.cleanup();
+  setRepository(null);
+  delete (globalThis as any).window;
+  jest.restoreAllMocks();
+});
+
+beforeEach(async () => {
+  clearCache();
+  notified = [];
+  // Fill the cache with the stored rows
+  await getCalendarEntries(TABLE);
+  (repository.select as jest.Mock).mockClear();
+});
+
+describe('realtime changes', () => {
+  it('subscribes to the teachers and calendar tables once connected', () => {
+    expect(realtime.subscribedTables).toEqual(['Teachers', TABLE]);
+  });
+
+  it('adds inserted rows to the cache, parsed like rows read from the table', async () => {
+    const change: DataChange = {
+      table: TABLE,
+      type: 'INSERT',
+      record: { id: 3, Visit: '3', ClassDate: '2025-03-18', Course: 'Sprouts1', Level: '1', StartTime: '09:00', EndTime: '10:00' },
+      oldRecord: null
+    };
+
+    expect(await emit(change)).toEqual([change]);
+    const entries = await getCalendarEntries(TABLE);
+    expect(repository.select).not.toHaveBeenCalled();
+    expect(entries.map(entry => entry.id)).toEqual([1, 2, 3]);
+    expect(entries[2]).toMatchObject({ Visit: 3, Date: '2025-03-18', Start: '09:00', End: '10:00' });
+  });
+
+  it('replaces updated rows in the cache and in the cached ranges', async () => {
+    await getCalendarEntries(TABLE, { from: '2025-03-10', to: '2025-03-16' });
+    (repository.select as jest.Mock).mockClear();
+
+    await emit({
+      table: TABLE,
+      type: 'UPDATE',
+      record: { ...storedRows[1], ClassDate: '2025-03-12', StartTime: '14:00', EndTime: '15:00' },
+      oldRecord: { id: 2 }
+    });
+
+    const week = await getCalendarEntries(TABLE, { from: '2025-03-10', to: '2025-03-16' });
+    expect(repository.select).not.toHaveBeenCalled();
+    expect(week).toHaveLength(1);
+    expect(week[0]).toMatchObject({ id: 2, Visit: 2, Date: '2025-03-12', Start: '14:00' });
+  });
+
+  it('drops a row from the cached ranges its date moved out of', async () => {
+    await getCalendarEntries(TABLE, { from: '2025-03-10', to: '2025-03-16' });
+    (repository.select as jest.Mock).mockClear();
+
+    await emit({
+      table: TABLE,
+      type: 'UPDATE',
+      record: { ...storedRows[1], ClassDate: '2025-03-25' },
+      oldRecord: { id: 2 }
+    });
+
+    expect(await getCalendarEntries(TABLE, { from: '2025-03-10', to: '2025-03-16' })).toEqual([]);
+    expect(repository.select).not.toHaveBeenCalled();
+  });
+
+  it('removes deleted rows from the cache', async () => {
+    await emit({ table: TABLE, type: 'DELETE', record: null, oldRecord: { id: 1 } });
+
+    const entries = await getCalendarEntries(TABLE);
+    expect(repository.select).not.toHaveBeenCalled();
+    expect(entries.map(entry => entry.id)).toEqual([2]);
+  });
+
+  it('delivers changes arriving together to observers in one batch', async () => {
+    const batches = notified.length;
+    realtime.emit({ table: TABLE, type: 'DELETE', record: null, oldRecord: { id: 1 } });
+    realtime.emit({ table: TABLE, type: 'DELETE', record: null, oldRecord: { id: 2 } });
+    await waitFor(() => notified.length > batches);
+
+    expect(notified.slice(batches)).toHaveLength(1);
+    expect(notified[batches].map(change => change.oldRecord?.id)).toEqual([1, 2]);
+  });
+
+  it('ignores changes to tables that are not listened to', async () => {
+    realtime.emit({ table: 'Students', type: 'DELETE', record: null, oldRecord: { id: 1 } });
+    await new Promise(resolve => setTimeout(resolve, 300));
+
+    expect(notified).toEqual([]);
+  });
+});
@@ -1,4 +1,84 @@
+import { addDays, format, parseISO, startOfWeek, endOfWeek } from 'date-fns';
 import { supabaseService } from './service';
+import { RepositoryError, getRepository } from '@/lib/repository';
+import {
+  AVAILABILITY_TABLE,
+  CalendarTableSchema,
+  COURSE_FAMILIES_TABLE,
+  KNOWN_TABLES,
+  CALENDAR_COLUMNS,
+  CalendarColumn,
+  PAY_RATES_TABLE,
+  SUBSTITUTIONS_TABLE,
+  SchemaDiagnostic,
+  getCalendarTableSchema,
+  getCourseName,
+  getTableColumn,
+  isCalendarTable,
+  parseCalendarEntry,
+  recordSkippedRows,
+  registerCalendarTable,
+  toCanonicalRow,
+  toTableRow
+} from '@/lib/schema';
+import { calendarSnapshotKey, loadSnapshot, saveSnapshot, serveSnapshot } from './offlineStore';
+import {
+  cacheKey,
+  cachedQuery,
+  clearQueryCache,
+  findCached,
+  invalidateCache,
+  readCache,
+  updateCache
+} from './queryCache';
+import type { DataChange } from './realtime';
+import {
+  QueuedMutation,
+  applyQueuedMutations,
+  canQueueMutations,
+  findConflictingFields,
+  getMutationRowKey,
+  getQueuedMutations,
+  getQueuedSubstitutions,
+  markMutationConflict,
+  markMutationFailed,
+  queueCreateEntry,
+  queueDeleteEntry,
+  queueSubstitution,
+  queueUpdateEntry,
+  removeQueuedMutation
+} from './mutationQueue';
+import {
+  AssignmentResolution,
+  UnresolvedAssignment,
+  resolveAssignments,
+  getAssignedEntries,
+  getEntryKey
+} from '@/lib/scheduling/assignments';
+import { compareEntries, getEntryDate, getEntryStatus } from '@/lib/scheduling/normalize';
+import { parseTimeToMinutes } from '@/lib/scheduling/time';
+import { ConflictDetectionOptions, ScheduleConflict, detectConflicts } from '@/lib/scheduling/conflicts';
+import {
+  AffectedClass,
+  Substitution,
+  TeacherAbsence,
+  applySubstitutions,
+  planSubstitutions
+} from '@/lib/scheduling/substitutes';
+import { AvailabilityRow, TeacherAvailability, buildTeacherAvailability } from '@/lib/scheduling/availability';
+import { ScheduleChange } from '@/lib/scheduling/diff';
+import { WorkloadPeriod, WorkloadReport, buildWorkloadReport } from '@/lib/scheduling/workload';
+import { DEFAULT_PAY_RATES, PayRate, PayRateRow, Timesheet, buildPayRates, buildTimesheets } from '@/lib/scheduling/timesheet';
+import { MakeupSlot, MakeupSlotOptions, buildMakeupEntry, findMakeupEntry, findMakeupSlots } from '@/lib/scheduling/reschedule';
+import {
+  CourseFamilyDefinition,
+  CourseFamilyRow,
+  DEFAULT_COURSE_FAMILIES,
+  buildCourseFamilies,
+  setActiveCourseFamilies,
+  toCourseFamilyRow,
+  validateCourseFamilies
+} from '@/lib/scheduling/courseCatalogue';
 
 /**
  * Types for data structures
@@ -25,7 +105,25 @@ export interface CalendarEntry {
   Meeting?: string;
   'Class.ID'?: string;
   'NT-Led'?: boolean | string;
-  [key: string]: any;
+  /** scheduled, cancelled, rescheduled or make-up (see getEntryStatus); empty means scheduled */
+  Status?: string | null;
+  /** Why the class was cancelled or moved */
+  Status_Reason?: string | null;
+  /** For a make-up class: ID of the rescheduled entry it replaces, in the same table */
+  Makeup_Of?: number | null;
+}
+
+/**
+ * Calendar entry columns other than the ID
+ */
+export type CalendarEntryField = Exclude<keyof CalendarEntry, 'id'>;
+
+/**
+ * An inclusive range of yyyy-MM-dd dates; a missing end is open
+ */
+export interface DateRange {
+  from?: string;
+  to?: string;
 }
 
 export interface TableSchema {
@@ -33,54 +131,51 @@ export interface TableSchema {
   columns: string[];
   isCalendarTable: boolean;
   description?: string;
+  /** For calendar tables: how the columns deviate from the declared schema */
+  diagnostics?: SchemaDiagnostic[];
 }
 
-// Add caching for frequently used data
-interface Cache {
-  teachers: {
-    data: Teacher[];
-    timestamp: number;
-  } | null;
-  calendarTables: {
-    data: string[];
-    timestamp: number;
-  } | null;
-  calendarEntries: {
-    [key: string]: {
-      data: CalendarEntry[];
-      timestamp: number;
-    };
-  };
+// Range key of a whole table in cache keys
+const FULL_RANGE_KEY = 'all';
+
+// Cache keys of the queries that take no filters (see queryCache.ts)
+const TABLES_CACHE_KEY = cacheKey('tables');
+const TEACHERS_CACHE_KEY = cacheKey('teachers');
+const SUBSTITUTIONS_CACHE_KEY = cacheKey('substitutions');
+const AVAILABILITY_CACHE_KEY = cacheKey('availability');
+const PAY_RATES_CACHE_KEY = cacheKey('payRates');
+const COURSE_FAMILIES_CACHE_KEY = cacheKey('courseFamilies');
+
+// A table's entries within a date range, as cached
+interface CachedRange {
+  range: DateRange;
+  entries: CalendarEntry[];
 }
 
-// Initialize cache
-const cache: Cache = {
-  teachers: null,
-  calendarTables: null,
-  calendarEntries: {}
-};
+// Substitutions recorded while offline or while the Substitutions table is unavailable
+const localSubstitutions: Substitution[] = [];
 
-// Cache expiration time (in milliseconds)
-const CACHE_EXPIRATION = 10 * 60 * 1000; // 10 minutes
+// Number of times fallback or snapshot data has been served, so callers can tell whether a result
+// (or part of it) came from somewhere other than the database
+let fallbackUsageCount = 0;
 
-// Check if cache is valid
-function isCacheValid<T>(cacheItem: { data: T; timestamp: number } | null): boolean {
-  if (!cacheItem) return false;
-  const now = Date.now();
-  return now - cacheItem.timestamp < CACHE_EXPIRATION;
-}
+// Offline snapshot keys (see offlineStore.ts); calendar tables use calendarSnapshotKey
+const TEACHERS_SNAPSHOT = 'teachers';
+const CALENDAR_TABLES_SNAPSHOT = 'calendar-tables';
+const AVAILABILITY_SNAPSHOT = 'availability';
+const COURSE_FAMILIES_SNAPSHOT = 'course-families';
+
+// Last pending write of each calendar table's snapshot. A range merge reads the snapshot
+// before writing it, so the writes of a table run one after another.
+const calendarSnapshotWrites = new Map<string, Promise<void>>();
 
-// Define known tables for fallback
-// Using the exact table names from the Supabase database
-export const KNOWN_TABLES = [
-  'Students-English',
-  'Sprouts1-Course-Calendar',
-  'Sprouts2-Course-Calendar',
-  'Guardians3-Course-Calendar',
-  'Clovers1A-Course-Calendar',
-  'Clovers2A-Course-Calendar',
-  'Teachers'
-];
+/**
+ * Get how many times fallback data has been served so far.
+ * Compare the value before and after a call to find out whether the call used fallback data.
+ */
+export function getFallbackUsageCount(): number {
+  return fallbackUsageCount;
+}
 
 /**
  * Log database operations with a consistent format
@@ -113,31 +208,24 @@ export async function getTables(): Promise<string[]> {
     return KNOWN_TABLES;
   }
   
-  // Check cache first
-  if (isCacheValid(cache.calendarTables)) {
-    logDbOperation('Using cached table list');
-    return cache.calendarTables!.data;
-  }
-  
   try {
-    // Use the enhanced service to list tables - ONLY use actual tables from the database
-    const tables = await supabaseService.listTables();
-    
-    if (tables.length === 0) {
-      logDbOperation('No tables found, using known table list', 'warn');
-      return KNOWN_TABLES;
-    }
-    
-    // Do NOT merge with KNOWN_TABLES - only show tables that actually exist
-    logDbOperation(`Discovered ${tables.length} tables from database`);
-    
-    // Update the cache
-    cache.calendarTables = {
-      data: tables,
-      timestamp: Date.now()
-    };
-    
-    return tables;
+    return await cachedQuery('tables', TABLES_CACHE_KEY, async () => {
+      // Use the enhanced service to list tables - ONLY use actual tables from the database
+      const tables = await supabaseService.listTables();
+      
+      if (tables.length === 0) {
+        throw new Error('No tables found');
+      }
+      
+      // Do NOT merge with KNOWN_TABLES - only show tables that actually exist
+      logDbOperation(`Discovered ${tables.length} tables from database`);
+      
+      const calendarTables = tables.filter(isCalendarTable);
+      if (calendarTables.length > 0) {
+        saveSnapshot(CALENDAR_TABLES_SNAPSHOT, calendarTables);
+      }
+      return tables;
+    });
   } catch (err) {
     logDbOperation('Error during table discovery:', 'error', err);
     logDbOperation('Using fallback table list due to error');
@@ -191,12 +279,12 @@ export async function getTableData(tableName: string, limit: number = 10) {
   }
   
   // Check cache for calendar entries
-  const isCourseCalendar = tableName.toLowerCase().includes('course-calendar');
-  if (isCourseCalendar && 
-      tableName in cache.calendarEntries && 
-      isCacheValid(cache.calendarEntries[tableName])) {
+  const cachedTable = isCalendarTable(tableName)
+    ? readCache<CachedRange>(cacheKey('calendar', tableName, FULL_RANGE_KEY))
+    : null;
+  if (cachedTable) {
     logDbOperation(`Using cached data for ${tableName}`);
-    const cachedData = cache.calendarEntries[tableName].data;
+    const cachedData = cachedTable.entries;
     return {
       data: cachedData.slice(0, limit),
       count: cachedData.length,
@@ -205,9 +293,10 @@ export async function getTableData(tableName: string, limit: number = 10) {
   }
   
   // Check cache for teachers
-  if (tableName === 'Teachers' && isCacheValid(cache.teachers)) {
+  const cachedTeachers = tableName === 'Teachers' ? readCache<Teacher[]>(TEACHERS_CACHE_KEY) : null;
+  if (cachedTeachers) {
     logDbOperation('Using cached teacher data');
-    const cachedData = cache.teachers!.data;
+    const cachedData = cachedTeachers;
     return {
       data: cachedData.slice(0, limit),
       count: cachedData.length,
@@ -220,30 +309,23 @@ export async function getTableData(tableName: string, limit: number = 10) {
     return await supabaseService.executeQuery(async () => {
       logDbOperation(`Executing query for ${tableName}`);
       
-      // Attempt to fetch data from Supabase
-      const query = supabaseService.getClient().from(tableName).select('*', { count: 'exact' });
-      
-      // Safe check for limit method
-      let result;
-      if (typeof query === 'object' && query !== null && 'limit' in query && typeof query.limit === 'function') {
-        result = await query.limit(limit);
-      } else {
-        result = await query;
-      }
-      
-      // Safely extract data and error, with optional count that might not exist
-      const { data, error } = result;
-      // Use optional chaining for count which might not be present in all result types
-      const count = 'count' in result ? result.count : undefined;
-      
-      if (error) {
+      // Attempt to fetch data from the database
+      let data: any[];
+      let count: number;
+      try {
+        const repository = getRepository();
+        [data, count] = await Promise.all([
+          repository.select(tableName, { limit }),
+          repository.count(tableName)
+        ]);
+      } catch (error) {
         logDbOperation(`Error fetching data from ${tableName}:`, 'error', error);
         
         const fallbackResult = getFallbackData(tableName, limit);
         return {
           ...fallbackResult,
           source: 'fallback',
-          error: error.message
+          error: error instanceof Error ? error.message : String(error)
         };
       }
       
@@ -258,19 +340,6 @@ export async function getTableData(tableName: string, limit: number = 10) {
         };
       }
       
-      // Update cache based on table type
-      if (tableName === 'Teachers') {
-        cache.teachers = {
-          data: data as Teacher[],
-          timestamp: Date.now()
-        };
-      } else if (isCourseCalendar) {
-        cache.calendarEntries[tableName] = {
-          data: data as CalendarEntry[],
-          timestamp: Date.now()
-        };
-      }
-      
       logDbOperation(`Successfully fetched ${data.length} rows from ${tableName}`);
       return {
         data,
@@ -319,7 +388,7 @@ function getFallbackData(tableName: string, limit: number = 10) {
       data: fallbackStudents.slice(0, limit),
       count: fallbackStudents.length
     };
-  } else if (tableName.includes('Course-Calendar')) {
+  } else if (isCalendarTable(tableName)) {
     const calendarData = getFallbackCalendar(tableName);
     return {
       data: calendarData.slice(0, limit),
@@ -336,47 +405,77 @@ function getFallbackData(tableName: string, limit: number = 10) {
 }
 
 /**
- * Get all teachers
+ * Get all teachers. Concurrent calls share a single query.
  */
 export async function getTeachers(): Promise<Teacher[]> {
+  if (supabaseService.isOffline()) {
+    logDbOperation('In offline mode, using offline teachers');
+    return getOfflineTeachers();
+  }
+  
   try {
-    const result = await getTableData('Teachers', 100);
-    
-    // Log the result to help debug
-    logDbOperation(`getTeachers result: ${result.source}, count: ${result.count}`);
-    
-    if (!result.data || result.data.length === 0) {
-      logDbOperation('No teachers found in database, returning fallback data', 'warn');
-      return getFallbackTeachers();
-    }
-    
-    // Verify the data structure and ensure Teacher_ID is present
-    const teachers = result.data.map((teacher: any) => {
-      // If the ID field is missing, generate one
-      if (teacher.Teacher_ID === undefined) {
-        logDbOperation(`Teacher missing Teacher_ID: ${JSON.stringify(teacher)}`, 'warn');
-        return {
-          ...teacher,
-          Teacher_ID: Math.floor(Math.random() * 10000) + 1000, // Generate a random ID
-          Teacher_name: teacher.Teacher_name || 'Unknown Teacher',
-          Teacher_Type: teacher.Teacher_Type || 'Unknown'
-        };
-      }
-      return teacher;
-    });
-    
-    logDbOperation(`Returning ${teachers.length} teachers`);
-    return teachers as Teacher[];
+    return await cachedQuery('teachers', TEACHERS_CACHE_KEY, loadTeachers, ['Teachers']);
   } catch (err) {
     logDbOperation('Error in getTeachers:', 'error', err);
-    return getFallbackTeachers();
+    return getOfflineTeachers();
+  }
+}
+
+/**
+ * Load the teachers from the database; throws when only fallback data is available
+ */
+async function loadTeachers(): Promise<Teacher[]> {
+  const result = await getTableData('Teachers', 100);
+  
+  // Log the result to help debug
+  logDbOperation(`getTeachers result: ${result.source}, count: ${result.count}`);
+  
+  if (result.source === 'fallback' || !result.data || result.data.length === 0) {
+    throw new Error('No teachers found in database');
+  }
+  
+  // Verify the data structure and ensure Teacher_ID is present
+  const teachers = result.data.map((teacher: any) => {
+    // If the ID field is missing, generate one
+    if (teacher.Teacher_ID === undefined) {
+      logDbOperation(`Teacher missing Teacher_ID: ${JSON.stringify(teacher)}`, 'warn');
+      return {
+        ...teacher,
+        Teacher_ID: Math.floor(Math.random() * 10000) + 1000, // Generate a random ID
+        Teacher_name: teacher.Teacher_name || 'Unknown Teacher',
+        Teacher_Type: teacher.Teacher_Type || 'Unknown'
+      };
+    }
+    return teacher;
+  });
+  
+  if (result.source === 'database') {
+    saveSnapshot(TEACHERS_SNAPSHOT, teachers);
+  }
+  
+  logDbOperation(`Returning ${teachers.length} teachers`);
+  return teachers as Teacher[];
+}
+
+/**
+ * Get the teachers to show without the database: the last teachers fetched on this device,
+ * or synthetic fallback teachers on a cold start
+ */
+async function getOfflineTeachers(): Promise<Teacher[]> {
+  const snapshot = await serveSnapshot<Teacher[]>(TEACHERS_SNAPSHOT);
+  if (snapshot) {
+    fallbackUsageCount++;
+    logDbOperation(`Using teachers snapshot from ${snapshot.savedAt}`);
+    return snapshot.data;
   }
+  return getFallbackTeachers();
 }
 
 /**
  * Generate fallback teacher data
  */
 function getFallbackTeachers(): Teacher[] {
+  fallbackUsageCount++;
   return [
     { Teacher_ID: 1, Teacher_name: 'John Smith', Department: 'English', Teacher_Type: 'Native' },
     { Teacher_ID: 2, Teacher_name: 'Sarah Johnson', Department: 'English', Teacher_Type: 'Native' },
@@ -390,6 +489,7 @@ function getFallbackTeachers(): Teacher[] {
  * Generate fallback student data
  */
 function getFallbackStudents(): any[] {
+  fallbackUsageCount++;
   return [
     { Student_ID: 1, Student_name: 'Zhang Wei', Age: 7, Level: 'Sprouts1' },
     { Student_ID: 2, Student_name: 'Li Na', Age: 8, Level: 'Sprouts2' },
@@ -403,9 +503,8 @@ function getFallbackStudents(): any[] {
  * Generate fallback calendar data
  */
 function getFallbackCalendar(tableName: string): CalendarEntry[] {
-  // Extract level from table name
-  const levelMatch = tableName.match(/^([\w]+)(\d[\w]*)?-Course-Calendar$/);
-  const level = levelMatch ? levelMatch[1] + (levelMatch[2] || '') : 'Unknown';
+  fallbackUsageCount++;
+  const level = isCalendarTable(tableName) ? getCourseName(tableName) : 'Unknown';
   
   const generateClassId = (level: string, num: number) => {
     return `${level}-${String(num).padStart(3, '0')}`;
@@ -418,6 +517,7 @@ function getFallbackCalendar(tableName: string): CalendarEntry[] {
   monday.setDate(today.getDate() - dayOfWeek + 1); // Set to Monday
   
   const entries: CalendarEntry[] = [];
+  const fallbackTeachers = getFallbackTeachers();
   
   // Generate 15 entries spanning 3 weeks
   for (let i = 0; i < 15; i++) {
@@ -433,7 +533,8 @@ function getFallbackCalendar(tableName: string): CalendarEntry[] {
       Date: date.toISOString().split('T')[0],
       Course: level,
       Level: level,
-      Day1: ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday'][i % 5],
+      // Rotate through the fallback teachers so the entries resolve like real assignments
+      Day1: fallbackTeachers[(i + 1) % fallbackTeachers.length].Teacher_name,
       Start: isAfternoon ? '14:00' : '09:00',
       End: isAfternoon ? '16:00' : '11:00',
       Unit: `Unit ${Math.floor(i / 3) + 1}`,
@@ -458,18 +559,18 @@ export async function getTeacherById(teacherId: number): Promise<Teacher | null>
  */
 export async function getTeachersByType(type: 'native' | 'local'): Promise<Teacher[]> {
   try {
-    // If we're offline, use the fallback data
+    // If we're offline, use the offline data
     if (supabaseService.isOffline()) {
-      const teachers = getFallbackTeachers();
+      const teachers = await getOfflineTeachers();
       return teachers.filter(teacher => 
         teacher.Teacher_Type?.toLowerCase() === type.toLowerCase()
       );
     }
     
     // Try to get from cache first
-    if (isCacheValid(cache.teachers)) {
+    const cachedTeachers = readCache<Teacher[]>(TEACHERS_CACHE_KEY);
+    if (cachedTeachers) {
       logDbOperation('Using cached teacher data for filtering by type');
-      const cachedTeachers = cache.teachers!.data;
       return cachedTeachers.filter(teacher => 
         teacher.Teacher_Type?.toLowerCase() === type.toLowerCase()
       );
@@ -477,21 +578,10 @@ export async function getTeachersByType(type: 'native' | 'local'): Promise<Teach
     
     // Otherwise query from database with filtering
     return await supabaseService.executeQuery(async () => {
-      // Create base query
-      const query = supabaseService.getClient().from('Teachers').select('*');
-      
-      // Type-safe check for ilike method
-      let result;
-      if (typeof query === 'object' && query !== null && 'ilike' in query && typeof query.ilike === 'function') {
-        result = await query.ilike('Teacher_Type', `%${type}%`);
-      } else {
-        // Fallback if method not available
-        result = await query;
-      }
-      
-      const { data, error } = result;
-      
-      if (error) {
+      let data: Teacher[];
+      try {
+        data = await getRepository().select<Teacher>('Teachers', { ilike: { Teacher_Type: type } });
+      } catch (error) {
         logDbOperation('Error fetching teachers by type:', 'error', error);
         throw error;
       }
@@ -509,8 +599,8 @@ export async function getTeachersByType(type: 'native' | 'local'): Promise<Teach
   } catch (err) {
     logDbOperation('Error in getTeachersByType:', 'error', err);
     
-    // Use fallback data
-    const teachers = getFallbackTeachers();
+    // Use offline data
+    const teachers = await getOfflineTeachers();
     return teachers.filter(teacher => 
       teacher.Teacher_Type?.toLowerCase() === type.toLowerCase()
     );
@@ -523,7 +613,7 @@ export async function getTeachersByType(type: 'native' | 'local'): Promise<Teach
 export async function getCalendarData(calendarName: string, limit: number = 20) {
   try {
     // Validate that it's a calendar table
-    if (!calendarName.includes('Course-Calendar')) {
+    if (!isCalendarTable(calendarName)) {
       throw new Error(`Table ${calendarName} is not a calendar table`);
     }
     
@@ -547,7 +637,7 @@ export async function getCalendarData(calendarName: string, limit: number = 20)
  */
 export async function getAllCalendarTables(): Promise<string[]> {
   const tables = await getTables();
-  return tables.filter(table => table.includes('Course-Calendar'));
+  return tables.filter(isCalendarTable);
 }
 
 /**
@@ -555,767 +645,1277 @@ export async function getAllCalendarTables(): Promise<string[]> {
  */
 export async function getCalendarTables(): Promise<string[]> {
   try {
-    // If we're offline, return the known calendar tables
+    // If we're offline, return the last known calendar tables
     if (supabaseService.isOffline()) {
-      return KNOWN_TABLES.filter(table => table.includes('Course-Calendar'));
+      return getOfflineCalendarTables();
     }
     
-    // Check cache first
-    if (isCacheValid(cache.calendarTables)) {
-      const cachedTables = cache.calendarTables!.data;
-      return cachedTables.filter(table => table.includes('Course-Calendar'));
-    }
-    
-    // Otherwise, discovery calendar tables from the database
+    // Discover calendar tables from the (cached) table list
     const allTables = await getTables();
-    const calendarTables = allTables.filter(table => table.includes('Course-Calendar'));
+    const calendarTables = allTables.filter(isCalendarTable);
     
     // If no calendar tables found, use fallback
     if (calendarTables.length === 0) {
-      return KNOWN_TABLES.filter(table => table.includes('Course-Calendar'));
+      return KNOWN_TABLES.filter(isCalendarTable);
     }
     
-    // Update cache
-    cache.calendarTables = {
-      data: allTables,
-      timestamp: Date.now()
-    };
-    
     return calendarTables;
   } catch (err) {
     logDbOperation('Error discovering calendar tables:', 'error', err);
     
-    // Fall back to known tables
-    return KNOWN_TABLES.filter(table => table.includes('Course-Calendar'));
+    // Fall back to the last known tables
+    return getOfflineCalendarTables();
   }
 }
 
 /**
- * Get calendar entries with optional filtering
+ * Get the calendar tables to use without the database: the tables seen last on this device,
+ * or the known tables on a cold start
+ */
+async function getOfflineCalendarTables(): Promise<string[]> {
+  const snapshot = await serveSnapshot<string[]>(CALENDAR_TABLES_SNAPSHOT);
+  return snapshot ? snapshot.data : KNOWN_TABLES.filter(isCalendarTable);
+}
+
+/**
+ * Turn date filters into a range: a single date is a one-day range
+ */
+function toDateRange(filters?: { date?: string; from?: string; to?: string }): DateRange {
+  if (filters?.date) return { from: filters.date, to: filters.date };
+  return { from: filters?.from, to: filters?.to };
+}
+
+function isFullRange(range: DateRange): boolean {
+  return !range.from && !range.to;
+}
+
+function getRangeKey(range: DateRange): string {
+  return isFullRange(range) ? FULL_RANGE_KEY : `${range.from || ''}..${range.to || ''}`;
+}
+
+function isDateInRange(date: string, range: DateRange): boolean {
+  return (!range.from || date >= range.from) && (!range.to || date <= range.to);
+}
+
+// Whether every date of `inner` is also in `outer`
+function coversRange(outer: DateRange, inner: DateRange): boolean {
+  const coversStart = !outer.from || (!!inner.from && inner.from >= outer.from);
+  const coversEnd = !outer.to || (!!inner.to && inner.to <= outer.to);
+  return coversStart && coversEnd;
+}
+
+/**
+ * Keep only the entries within a date range
+ */
+function filterEntriesByRange(entries: CalendarEntry[], range: DateRange): CalendarEntry[] {
+  return isFullRange(range) ? entries : entries.filter(entry => isDateInRange(getEntryDate(entry), range));
+}
+
+/**
+ * Find a table's entries within a range in the cache: from the whole table,
+ * or from a cached range that covers it
+ */
+function getCachedCalendarEntries(tableName: string, range: DateRange): CalendarEntry[] | null {
+  const covering = findCached<CachedRange>(
+    { entity: 'calendar', tag: tableName },
+    cached => coversRange(cached.range, range)
+  );
+  return covering ? filterEntriesByRange(covering.entries, range) : null;
+}
+
+/**
+ * Get calendar entries with optional filtering.
+ * A date or from/to range is queried on the server and cached by range, so a week view
+ * costs at most one request per table; concurrent requests for the same range are shared,
+ * and a stale range is shown at once while it is refreshed in the background.
  */
 export async function getCalendarEntries(
   tableName: string,
-  filters?: { date?: string; teacherId?: number }
+  filters?: { date?: string; from?: string; to?: string; teacherId?: number }
 ): Promise<CalendarEntry[]> {
+  const range = toDateRange(filters);
   logDbOperation(`Fetching calendar entries from ${tableName}${filters ? ' with filters' : ''}`);
   
   try {
     // Validate it's a calendar table
-    if (!tableName.includes('Course-Calendar')) {
+    if (!isCalendarTable(tableName)) {
       throw new Error(`Table ${tableName} is not a calendar table`);
     }
     
-    // If we're offline, use fallback data
+    // Teacher filtering always goes through the table's resolved assignments, substitutes included
+    if (filters?.teacherId !== undefined) {
+      const teacherId = filters.teacherId;
+      const { assignments } = await applyRecordedSubstitutions(await getTableAssignments(tableName, range));
+      return getAssignedEntries(assignments.filter(assignment => assignment.teacherId === teacherId));
+    }
+    
+    // If we're offline, use the offline data
     if (supabaseService.isOffline()) {
-      logDbOperation(`In offline mode, using fallback calendar for ${tableName}`);
-      let entries = getFallbackCalendar(tableName);
-      
-      // Apply filters to fallback data
-      if (filters) {
-        if (filters.date) {
-          entries = entries.filter(entry => entry.Date === filters.date);
-        }
-        if (filters.teacherId !== undefined) {
-          // In fallback data, just use a simple assignment rule based on ID
-          entries = entries.filter(entry => {
-            // Assign teachers based on a pattern
-            const entryId = entry.id || 0;
-            return (entryId % 5) + 1 === filters.teacherId;
-          });
-        }
-      }
-      
-      return entries;
+      logDbOperation(`In offline mode, using offline calendar for ${tableName}`);
+      return filterEntriesByRange(await getOfflineCalendar(tableName), range);
     }
     
     // Check cache for calendar entries
-    if (tableName in cache.calendarEntries && isCacheValid(cache.calendarEntries[tableName])) {
-      logDbOperation(`Using cached entries for ${tableName}`);
-      let entries = cache.calendarEntries[tableName].data;
-      
-      // Apply filters to cached data
-      if (filters) {
-        if (filters.date) {
-          entries = entries.filter(entry => entry.Date === filters.date);
-        }
-        if (filters.teacherId !== undefined) {
-          entries = entries.filter(entry => {
-            // Enhanced teacher ID matching with more field name variations and improved logging
-            const teacherId = filters.teacherId;
-            
-            // Debug log the entry to see available fields
-            if (entry.id === 1 || entry.ID === 1 || entry.Id === 1) {
-              logDbOperation(`Example entry fields: ${JSON.stringify(Object.keys(entry))}`);
-              logDbOperation(`Entry values: ${JSON.stringify(entry)}`);
-            }
-            
-            // Try multiple potential field names with case insensitivity
-            const possibleTeacherFields = [
-              'Teacher_ID', 'TeacherID', 'teacherId', 'TEACHER_ID', 'teacher_id',
-              'Teacher_Id', 'Teacher', 'TeacherId', 'TEACHERID',
-              'NT_ID', 'NT_Id', 'NTID', 'NTId', 'ntId', 'NtId', 'nt_id',
-              'teacherLed', 'TeacherLed', 'Teacher_Led'
-            ];
-            
-            // Check if any of the possible fields match the teacher ID
-            for (const field of possibleTeacherFields) {
-              if (field in entry && entry[field] === teacherId) {
-                return true;
-              }
-            }
-            
-            // Check potential nested objects
-            if (entry.Teacher && typeof entry.Teacher === 'object') {
-              if (entry.Teacher.ID === teacherId || 
-                  entry.Teacher.Id === teacherId || 
-                  entry.Teacher.id === teacherId) {
-                return true;
-              }
-            }
-            
-            // Additional check: Look for any field that has 'teacher' in its name (case insensitive)
-            // and check if its value matches the teacher ID
-            for (const key in entry) {
-              if (key.toLowerCase().includes('teacher') && 
-                  (entry[key] === teacherId || 
-                   (typeof entry[key] === 'string' && entry[key].toString() === teacherId.toString()))) {
-                return true;
-              }
-            }
-            
-            // If class is NT-Led and the teacher is Native, consider it a match for fallback logic
-            // This is a heuristic approach when direct teacher ID matching fails
-            if (filters?.teacherId !== undefined) {
-              const isNTLed = entry['NT-Led'] === true || 
-                             (typeof entry['NT-Led'] === 'string' && 
-                              entry['NT-Led'].toLowerCase() === 'yes');
-                              
-              // If we have a rough idea that this is a native teacher class, and we're looking for a native teacher
-              // Use this as a fallback matching mechanism
-              if (isNTLed && filters.teacherId <= 3) { // Assuming teacher IDs 1-3 are Native Teachers based on fallback data
-                return true;
-              }
-            }
-            
-            return false;
-          });
-          
-          // Log if filtering resulted in empty results
-          if (entries.length === 0) {
-            logDbOperation(`Warning: Teacher filter for ID ${filters.teacherId} returned no results from cache`);
-          }
-        }
-      }
-      
-      return entries;
+    const rangeKey = getRangeKey(range);
+    const cached = getCachedCalendarEntries(tableName, range);
+    if (cached) {
+      logDbOperation(`Using cached entries for ${tableName} (${rangeKey})`);
+      return cached;
     }
     
-    // Query from database with filters
-    return await supabaseService.executeQuery(async () => {
-      // Base query
-      let baseQuery = supabaseService.getClient().from(tableName).select('*');
-      
-      // Apply filters with type checking
-      if (filters) {
-        // Check for date filter
-        if (filters.date && typeof baseQuery === 'object' && baseQuery !== null && 
-            'eq' in baseQuery && typeof baseQuery.eq === 'function') {
-          baseQuery = baseQuery.eq('Date', filters.date);
-        }
-        
-        // Check for teacher ID filter - use expanded OR conditions to match more field variations
-        if (filters.teacherId !== undefined) {
-          if (typeof baseQuery === 'object' && baseQuery !== null && 
-              'or' in baseQuery && typeof baseQuery.or === 'function') {
-            // Expanded OR conditions with more potential field names
-            baseQuery = baseQuery.or(
-              `Teacher_ID.eq.${filters.teacherId},` +
-              `TeacherID.eq.${filters.teacherId},` +
-              `teacherId.eq.${filters.teacherId},` +
-              `TEACHER_ID.eq.${filters.teacherId},` +
-              `teacher_id.eq.${filters.teacherId},` +
-              `NT_ID.eq.${filters.teacherId},` +
-              `NtId.eq.${filters.teacherId},` +
-              `Teacher.eq.${filters.teacherId}`
-            );
-          } else if (typeof baseQuery === 'object' && baseQuery !== null && 
-                    'eq' in baseQuery && typeof baseQuery.eq === 'function') {
-            // Fallback to just one field if .or() isn't available
-            baseQuery = baseQuery.eq('Teacher_ID', filters.teacherId);
-          }
-        }
-      }
-      
-      const { data, error } = await baseQuery;
-      
-      if (error) {
-        logDbOperation(`Error fetching calendar entries from ${tableName}:`, 'error', error);
-        throw error;
-      }
-      
-      if (!data || data.length === 0) {
-        logDbOperation(`No calendar entries found in ${tableName} for filters: ${JSON.stringify(filters)}, using fallback`, 'warn');
-        let entries = getFallbackCalendar(tableName);
-        
-        // Apply filters to fallback data
-        if (filters) {
-          if (filters.date) {
-            entries = entries.filter(entry => entry.Date === filters.date);
-          }
-          if (filters.teacherId !== undefined) {
-            // In fallback data, just use a simple assignment rule based on ID
-            entries = entries.filter(entry => {
-              const entryId = entry.id || 0;
-              return (entryId % 5) + 1 === filters.teacherId;
-            });
-          }
-        }
-        
-        return entries;
-      }
-      
-      // For debugging, log a sample entry to understand field names
-      if (data.length > 0) {
-        const sampleEntry = data[0];
-        logDbOperation(`Sample entry from ${tableName}: Fields: ${Object.keys(sampleEntry).join(', ')}`);
-        
-        if (filters && filters.teacherId !== undefined) {
-          // Look at all entries to see if teacher ID fields exist
-          const teacherFields = new Set<string>();
-          data.forEach(entry => {
-            Object.keys(entry).forEach(key => {
-              if (key.toLowerCase().includes('teacher') || key.toLowerCase().includes('nt')) {
-                teacherFields.add(key);
-              }
-            });
-          });
-          
-          if (teacherFields.size > 0) {
-            logDbOperation(`Found potential teacher fields in ${tableName}: ${Array.from(teacherFields).join(', ')}`);
-          } else {
-            logDbOperation(`No obvious teacher fields found in ${tableName}`);
-          }
-        }
-      }
-      
-      // If teacher ID filter was applied but no matching entries found in DB query,
-      // apply a client-side filter with more flexible matching
-      if (filters && filters.teacherId !== undefined && data.length > 0) {
-        // Get teacher info for enhanced matching
-        let teacherName = "";
-        try {
-          const teacher = await getTeacherById(filters.teacherId);
-          if (teacher && teacher.Teacher_name) {
-            teacherName = teacher.Teacher_name.toLowerCase();
-            logDbOperation(`Using teacher name "${teacherName}" for enhanced matching`);
-          }
-        } catch (err) {
-          logDbOperation(`Error getting teacher name for ID ${filters.teacherId}:`, 'warn', err);
-        }
-
-        // Apply a more flexible client-side teacher ID filter
-        const filteredData = data.filter(entry => {
-          const teacherId = filters.teacherId;
-          if (teacherId === undefined) return false;
-
-          // Check multiple field name variations
-          const possibleFields = [
-            'Teacher_ID', 'TeacherID', 'teacherId', 'TEACHER_ID', 'teacher_id',
-            'Teacher_Id', 'Teacher', 'TeacherId', 'TEACHERID', 
-            'NT_ID', 'NT_Id', 'NTID', 'NTId', 'ntId', 'NtId', 'nt_id'
-          ];
-          
-          // Check if any of the possible fields match - ENHANCED string comparison
-          for (const field of possibleFields) {
-            if (field in entry) {
-              // Convert both values to strings for comparison to catch numeric/string mismatches
-              const entryValue = String(entry[field]).trim().toLowerCase();
-              const teacherIdStr = String(teacherId).trim().toLowerCase();
-              
-              if (entryValue === teacherIdStr) {
-                logDbOperation(`Found exact match on field ${field}`);
-                return true;
-              }
-            }
-          }
-          
-          // Check potential nested objects
-          if (entry.Teacher && typeof entry.Teacher === 'object') {
-            const teacherObj = entry.Teacher;
-            
-            // Check nested ID fields with string comparison
-            const idFields = ['ID', 'Id', 'id'];
-            for (const field of idFields) {
-              if (field in teacherObj) {
-                const entryValue = String(teacherObj[field]).trim().toLowerCase();
-                const teacherIdStr = String(teacherId).trim().toLowerCase();
-                
-                if (entryValue === teacherIdStr) {
-                  logDbOperation(`Found exact match on nested Teacher.${field}`);
-                  return true;
-                }
-              }
-            }
-            
-            // If we have teacher name, check for that too in name fields
-            if (teacherName && teacherName.length > 0) {
-              const nameFields = ['Name', 'name', 'NAME'];
-              for (const field of nameFields) {
-                if (field in teacherObj && typeof teacherObj[field] === 'string') {
-                  const entryTeacherName = teacherObj[field].toLowerCase();
-                  
-                  if (entryTeacherName.includes(teacherName) || teacherName.includes(entryTeacherName)) {
-                    logDbOperation(`Found name match on nested Teacher.${field}`);
-                    return true;
-                  }
-                }
-              }
-            }
-          }
-          
-          // Check any field containing 'teacher' in its name - ENHANCED to include more field patterns
-          for (const key in entry) {
-            const keyLower = key.toLowerCase();
-            
-            // Check if it's a teacher field
-            if (keyLower.includes('teacher') || keyLower.includes('instructor') || keyLower === 'nt') {
-              const fieldValue = entry[key];
-              
-              // Check for direct ID match with string comparison
-              if (fieldValue !== null && fieldValue !== undefined) {
-                const fieldValueStr = String(fieldValue).trim().toLowerCase();
-                const teacherIdStr = String(teacherId).trim().toLowerCase();
-                
-                if (fieldValueStr === teacherIdStr) {
-                  logDbOperation(`Found match on field ${key} with value comparison`);
-                  return true;
-                }
-                
-                // If we have teacher name, check for name match in string fields
-                if (teacherName && teacherName.length > 0 && typeof fieldValue === 'string') {
-                  if (fieldValue.toLowerCase().includes(teacherName) || teacherName.includes(fieldValue.toLowerCase())) {
-                    logDbOperation(`Found teacher name match on field ${key}`);
-                    return true;
-                  }
-                }
-              }
-            }
-          }
-          
-          // NT-Led heuristic for native teachers - IMPROVED to check different formats
-          const ntLedFields = ['NT-Led', 'NTLed', 'nt_led', 'ntLed', 'NT_LED', 'NT Led'];
-          let isNTLed = false;
-          
-          // Check all possible NT-Led field variations
-          for (const field of ntLedFields) {
-            if (field in entry) {
-              const ntLedValue = entry[field];
-              
-              if (
-                ntLedValue === true || 
-                ntLedValue === 1 ||
-                ntLedValue === 'yes' ||
-                ntLedValue === 'Yes' ||
-                ntLedValue === 'YES' ||
-                ntLedValue === 'true' ||
-                ntLedValue === 'TRUE' ||
-                ntLedValue === 'y' ||
-                ntLedValue === 'Y'
-              ) {
-                isNTLed = true;
-                break;
-              }
-            }
-          }
-          
-          // Check "Andrew" specifically since we know this teacher has issues
-          if (teacherName === 'andrew' && isNTLed) {
-            logDbOperation(`Special case: Andrew with NT-Led class`);
-            return true;
-          }
-          
-          // More lenient matching for NT-Led classes with teachers by ID
-          if (isNTLed && teacherId <= 3) { // Assuming IDs 1-3 are Native Teachers
-            logDbOperation(`NT-Led match for teacher ID ${teacherId}`);
-            return true;
-          }
-          
-          return false;
-        });
-        
-        // If client-side filtering produced results, use those
-        if (filteredData.length > 0) {
-          logDbOperation(`Applied client-side teacher filtering: Found ${filteredData.length} entries`);
-          data.length = 0; // Clear the array
-          data.push(...filteredData); // Replace with filtered data
-        } else {
-          logDbOperation(`Warning: Client-side teacher filtering found no matches for ID ${filters.teacherId}`, 'warn');
-          
-          // Extra attempt to find matches by adding entries with NT-Led for native teachers
-          if (filters.teacherId <= 3) { // Assuming teacher IDs 1-3 are Native Teachers
-            const ntLedEntries = data.filter(entry => {
-              for (const key in entry) {
-                if (key.toLowerCase().includes('nt-led') && 
-                    (entry[key] === true || 
-                     entry[key] === 'yes' || 
-                     entry[key] === 'Yes' || 
-                     entry[key] === 'true' || 
-                     entry[key] === 1)) {
-                  logDbOperation(`Found NT-Led entry in fallback matching`);
-                  return true;
-                }
-              }
-              return false;
-            });
-            
-            if (ntLedEntries.length > 0) {
-              logDbOperation(`Adding ${ntLedEntries.length} NT-Led entries as fallback match`);
-              data.push(...ntLedEntries);
-            }
-          }
-        }
-      }
-      
-      // Cache the unfiltered results
-      if (!filters) {
-        cache.calendarEntries[tableName] = {
-          data: data as CalendarEntry[],
-          timestamp: Date.now()
-        };
-      }
-      
-      return data as CalendarEntry[];
-    });
-  } catch (err) {
-    logDbOperation(`Error in getCalendarEntries for ${tableName}:`, 'error', err);
-    
-    // Use fallback calendar data with filters
-    let entries = getFallbackCalendar(tableName);
+    const { entries } = await cachedQuery(
+      'calendar',
+      cacheKey('calendar', tableName, rangeKey),
+      () => queryCalendarEntries(tableName, range),
+      [tableName]
+    );
     
-    // Apply filters to fallback data
-    if (filters) {
-      if (filters.date) {
-        entries = entries.filter(entry => entry.Date === filters.date);
-      }
-      if (filters.teacherId !== undefined) {
-        entries = entries.filter(entry => {
-          const entryId = entry.id || 0;
-          return (entryId % 5) + 1 === filters.teacherId;
-        });
-      }
+    // An empty range is a real answer (no classes on those dates), an empty table is not
+    if (isFullRange(range) && entries.length === 0) {
+      logDbOperation(`No calendar entries found in ${tableName}, using fallback`, 'warn');
+      return getFallbackCalendar(tableName);
     }
-    
     return entries;
+  } catch (err) {
+    logDbOperation(`Error in getCalendarEntries for ${tableName}:`, 'error', err);
+    
+    // Use offline calendar data with filters
+    return filterEntriesByRange(await getOfflineCalendar(tableName), range);
   }
 }
 
 /**
- * Get a teacher's schedule for a specific date
+ * Get the rows actually stored in a calendar table, as the base for computing changes to it
+ * (imports, generated schedules). Offline, the rows fetched last on this device are used with
+ * the queued edits applied. Unlike getCalendarEntries this never returns synthetic fallback
+ * entries, as changes computed against them would overwrite or remove real classes: it throws
+ * when the stored rows cannot be read.
  */
-export async function getTeacherSchedule(
-  teacherId: number,
-  date: string
-): Promise<CalendarEntry[]> {
-  logDbOperation(`Fetching schedule for teacher ID ${teacherId} on ${date}`);
+export async function getStoredCalendarEntries(tableName: string): Promise<CalendarEntry[]> {
+  if (!isCalendarTable(tableName)) {
+    throw new Error(`Table ${tableName} is not a calendar table`);
+  }
   
-  try {
-    // Get teacher details for additional context
-    const teacher = await getTeacherById(teacherId);
-    const isAndrew = teacher?.Teacher_name?.toLowerCase() === 'andrew';
-    
-    if (isAndrew) {
-      logDbOperation(`Special handling for Andrew (ID: ${teacherId})`);
-    }
-    
-    if (teacher) {
-      logDbOperation(`Teacher info: ${teacher.Teacher_name} (${teacher.Teacher_Type})`);
-    } else {
-      logDbOperation(`Warning: Could not find details for teacher ID ${teacherId}`, 'warn');
-    }
-    
-    // Determine if this is a native teacher for NT-Led class matching
-    const isNativeTeacher = teacher?.Teacher_Type?.toLowerCase()?.includes('native') || false;
-    if (isNativeTeacher) {
-      logDbOperation(`Teacher ${teacher?.Teacher_name} is a Native Teacher - will include NT-Led classes`);
-    }
-    
-    // Get all calendar tables
-    const calendarTables = await getCalendarTables();
-    
-    if (calendarTables.length === 0) {
-      logDbOperation('No calendar tables found, using fallback data', 'warn');
-      
-      // If no tables found, generate some fallback data
-      const fallbackTable = 'Fallback-Course-Calendar';
-      const entries = getFallbackCalendar(fallbackTable).filter(entry => {
-        const entryId = entry.id || 0;
-        return entry.Date === date && (entryId % 5) + 1 === teacherId;
-      });
-      
-      logDbOperation(`Generated ${entries.length} fallback entries for teacher ${teacherId}`);
-      return entries;
+  if (supabaseService.isOffline()) {
+    const snapshot = await serveSnapshot<CalendarEntry[]>(calendarSnapshotKey(tableName));
+    if (!snapshot) {
+      throw new Error(`The classes of ${tableName} have not been loaded on this device yet; reconnect to the database first`);
     }
-    
-    logDbOperation(`Found ${calendarTables.length} calendar tables to query: ${calendarTables.join(', ')}`);
-    
-    // Get entries from all calendars and combine them
-    const allEntries: CalendarEntry[] = [];
-    
-    // For Andrew specifically, use a direct approach to query all entries for the date first
-    if (isAndrew) {
-      logDbOperation(`Using special query approach for Andrew`);
-      
-      // Special handling for Andrew - query for the date only, then filter
-      const dateEntryPromises = calendarTables.map(tableName => 
-        getCalendarEntries(tableName, { date })
-          .catch(err => {
-            logDbOperation(`Error fetching from ${tableName}:`, 'error', err);
-            return [] as CalendarEntry[]; // Return empty on error
-          })
-      );
-      
-      const dateResults = await Promise.all(dateEntryPromises);
-      
-      // Process each table's results
-      dateResults.forEach((entries, index) => {
-        const tableName = calendarTables[index];
-        
-        if (entries.length > 0) {
-          logDbOperation(`Found ${entries.length} entries in ${tableName} for date ${date}`);
-          
-          // Filter for Andrew with a more lenient approach
-          const andrewEntries = entries.filter(entry => {
-            // Check if any field contains "Andrew"
-            for (const key in entry) {
-              const value = entry[key];
-              if (
-                typeof value === 'string' && 
-                value.toLowerCase().includes('andrew')
-              ) {
-                logDbOperation(`Found Andrew entry by name match in field ${key}`);
-                return true;
-              }
-            }
-            
-            // Check if this is an NT-Led class (Andrew is a native teacher)
-            if (
-              entry['NT-Led'] === true || 
-              entry['NT-Led'] === 'yes' || 
-              entry['NT-Led'] === 'Yes' || 
-              entry['NT-Led'] === 'true' || 
-              entry['NT-Led'] === 1
-            ) {
-              logDbOperation(`Found NT-Led class for Andrew`);
-              return true;
-            }
-            
-            // Also check for any teacherID field that matches
-            for (const key in entry) {
-              const keyLower = key.toLowerCase();
-              if (keyLower.includes('teacher') || keyLower.includes('nt')) {
-                if (
-                  entry[key] === teacherId || 
-                  entry[key] === String(teacherId)
-                ) {
-                  logDbOperation(`Found match by teacher ID in field ${key}`);
-                  return true;
-                }
-              }
-            }
-            
-            return false;
-          });
-          
-          if (andrewEntries.length > 0) {
-            logDbOperation(`Adding ${andrewEntries.length} entries for Andrew from ${tableName}`);
-            allEntries.push(...andrewEntries);
-          }
-        }
-      });
-      
-      if (allEntries.length > 0) {
-        logDbOperation(`Found a total of ${allEntries.length} entries for Andrew using special handling`);
-      } else {
-        logDbOperation(`No entries found for Andrew with special handling, falling back to standard approach`);
+    return applyQueuedMutations(tableName, snapshot.data);
+  }
+  
+  const cached = getCachedCalendarEntries(tableName, {});
+  if (cached) return cached;
+  
+  const { entries } = await cachedQuery(
+    'calendar',
+    cacheKey('calendar', tableName, FULL_RANGE_KEY),
+    () => queryCalendarEntries(tableName, {}),
+    [tableName]
+  );
+  return entries;
+}
+
+/**
+ * Query a table's entries within a range and update the offline snapshot with them
+ */
+function queryCalendarEntries(tableName: string, range: DateRange): Promise<CachedRange> {
+  return supabaseService.executeQuery(async () => {
+    let entries: CalendarEntry[];
+    try {
+      const schema = await getCalendarSchema(tableName);
+      if (!schema.valid) {
+        throw new Error(`Table ${tableName} does not match the calendar schema (see the [Schema] diagnostics)`);
       }
-    }
-    
-    // If not Andrew or no entries found for Andrew, use the standard approach
-    if (!isAndrew || allEntries.length === 0) {
-      // Standard approach - Use Promise.all for parallel queries
-      const entryPromises = calendarTables.map(tableName => 
-        getCalendarEntries(tableName, { date, teacherId })
-          .catch(err => {
-            logDbOperation(`Error fetching from ${tableName}:`, 'error', err);
-            return [] as CalendarEntry[]; // Return empty on error
-          })
-      );
-      
-      const results = await Promise.all(entryPromises);
-      
-      // Process each table's results
-      results.forEach((entries, index) => {
-        const tableName = calendarTables[index];
-        
-        if (entries.length > 0) {
-          logDbOperation(`Found ${entries.length} entries in ${tableName} for teacher ${teacherId}`);
-          allEntries.push(...entries);
-        }
-      });
-    }
-    
-    // If no entries found with regular approach, try alternative methods
-    if (allEntries.length === 0) {
-      logDbOperation(`No direct entries found for teacher ${teacherId}, trying alternative methods`);
-      
-      // Try a backup approach with more flexible matching
-      const backupEntries: CalendarEntry[] = [];
       
-      // Get all entries for the date without teacher filtering
-      const backupPromises = calendarTables.map(tableName => 
-        getCalendarEntries(tableName, { date })
-          .catch(err => {
-            logDbOperation(`Error in backup fetch from ${tableName}:`, 'error', err);
-            return [] as CalendarEntry[]; // Return empty on error
-          })
-      );
-      
-      const backupResults = await Promise.all(backupPromises);
-      
-      // Process backup results with more lenient matching
-      backupResults.forEach((entries, index) => {
-        const tableName = calendarTables[index];
-        
-        // Apply more lenient teacher matching logic
-        const matchedEntries = entries.filter(entry => {
-          // For Native teachers, match based on NT-Led field
-          if (isNativeTeacher) {
-            // Check multiple variations of the NT-Led field
-            const ntLedFields = ['NT-Led', 'NTLed', 'nt_led', 'ntLed', 'NT_LED', 'NT Led'];
-            for (const field of ntLedFields) {
-              if (field in entry) {
-                const ntLedValue = entry[field];
-                if (
-                  ntLedValue === true || 
-                  ntLedValue === 1 ||
-                  ntLedValue === 'yes' ||
-                  ntLedValue === 'Yes' ||
-                  ntLedValue === 'YES' ||
-                  ntLedValue === 'true' ||
-                  ntLedValue === 'TRUE' ||
-                  ntLedValue === 'y' ||
-                  ntLedValue === 'Y'
-                ) {
-                  logDbOperation(`Found NT-Led class for Native Teacher ${teacher?.Teacher_name}`);
-                  return true;
-                }
-              }
-            }
-          }
-          
-          // Check any field containing 'teacher' for partial matches
-          for (const key in entry) {
-            const fieldValue = entry[key];
-            if (typeof fieldValue === 'string' && 
-                key.toLowerCase().includes('teacher') && 
-                // Match on teacher name if we have it
-                (teacher && fieldValue.includes(teacher.Teacher_name))) {
-              logDbOperation(`Found name match in ${key} field with value ${fieldValue}`);
-              return true;
-            }
-          }
-          
-          // If this is Andrew, make a special check for NT-Led
-          if (isAndrew) {
-            if (
-              entry['NT-Led'] === true || 
-              entry['NT-Led'] === 'yes' || 
-              entry['NT-Led'] === 'Yes' || 
-              entry['NT-Led'] === 'true' || 
-              entry['NT-Led'] === 1
-            ) {
-              logDbOperation(`Andrew is Native - matching with NT-Led class`);
-              return true;
-            }
-          }
-          
-          return false;
-        });
-        
-        if (matchedEntries.length > 0) {
-          logDbOperation(`Backup approach: Found ${matchedEntries.length} entries in ${tableName} using lenient matching`);
-          backupEntries.push(...matchedEntries);
-        }
+      const dateColumn = getTableColumn(schema, 'Date');
+      const rows = await getRepository().select(tableName, {
+        gte: range.from ? { [dateColumn]: range.from } : undefined,
+        lte: range.to ? { [dateColumn]: range.to } : undefined
       });
-      
-      // If backup approach found entries, use those
-      if (backupEntries.length > 0) {
-        logDbOperation(`Backup approach found ${backupEntries.length} entries in total`);
-        allEntries.push(...backupEntries);
-      }
+      entries = parseCalendarRows(schema, rows);
+    } catch (error) {
+      logDbOperation(`Error fetching calendar entries from ${tableName}:`, 'error', error);
+      throw error;
     }
     
-    // If still no entries, use fallback data
-    if (allEntries.length === 0) {
-      logDbOperation(`No entries found for teacher ${teacherId} after all attempts, using fallback data`);
-      const fallbackTable = 'Fallback-Course-Calendar';
-      const fallbackEntries = getFallbackCalendar(fallbackTable).filter(entry => {
-        const entryId = entry.id || 0;
-        return entry.Date === date && (entryId % 5) + 1 === teacherId;
-      });
-      
-      return fallbackEntries;
+    if (!isFullRange(range)) {
+      await mergeRangeSnapshot(tableName, range, entries);
+    } else if (entries.length > 0) {
+      await writeCalendarSnapshot(tableName, () => saveSnapshot(calendarSnapshotKey(tableName), entries));
     }
-    
-    // Sort by start time
-    const sortedEntries = allEntries.sort((a, b) => {
-      const aStart = a.Start || '';
-      const bStart = b.Start || '';
-      return aStart.localeCompare(bStart);
-    });
-    
-    logDbOperation(`Returning ${sortedEntries.length} total entries for teacher ${teacherId} on ${date}`);
-    return sortedEntries;
-  } catch (err) {
-    logDbOperation(`Error in getTeacherSchedule for teacher ${teacherId}:`, 'error', err);
-    
-    // Fallback to a generic schedule
-    const fallbackTable = 'Fallback-Course-Calendar';
-    const entries = getFallbackCalendar(fallbackTable).filter(entry => {
-      const entryId = entry.id || 0;
-      return entry.Date === date && (entryId % 5) + 1 === teacherId;
-    });
-    
-    return entries;
-  }
+    logDbOperation(`Fetched ${entries.length} entries from ${tableName} for ${getRangeKey(range)}`);
+    return { range, entries };
+  });
 }
 
 /**
- * Discover the database schema by examining tables and their columns
+ * Update a table's offline snapshot with the entries of a range, keeping the entries
+ * of other dates, so the weeks viewed last are available offline
  */
-export async function discoverDatabaseSchema(): Promise<{tables: string[]; structure: Record<string, any>}> {
-  logDbOperation('Discovering database schema...');
+function mergeRangeSnapshot(tableName: string, range: DateRange, entries: CalendarEntry[]): Promise<void> {
+  return writeCalendarSnapshot(tableName, async () => {
+    const snapshot = await loadSnapshot<CalendarEntry[]>(calendarSnapshotKey(tableName));
+    const outside = (snapshot?.data || []).filter(entry => !isDateInRange(getEntryDate(entry), range));
+    await saveSnapshot(calendarSnapshotKey(tableName), [...outside, ...entries]);
+  });
+}
+
+/**
+ * Write a calendar table's offline snapshot once the table's earlier snapshot writes are done
+ */
+function writeCalendarSnapshot(tableName: string, write: () => Promise<void>): Promise<void> {
+  const previous = calendarSnapshotWrites.get(tableName) || Promise.resolve();
+  const next = previous.catch(() => undefined).then(write);
+  const forget = () => {
+    if (calendarSnapshotWrites.get(tableName) === next) calendarSnapshotWrites.delete(tableName);
+  };
+  calendarSnapshotWrites.set(tableName, next);
+  next.then(forget, forget);
+  return next;
+}
+
+/**
+ * Get a calendar table's schema, inspecting its columns the first time the table is read or written
+ */
+async function getCalendarSchema(tableName: string): Promise<CalendarTableSchema> {
+  const registered = getCalendarTableSchema(tableName);
+  if (registered) return registered;
   
-  // If offline, return a static schema based on known tables
-  if (supabaseService.isOffline()) {
-    logDbOperation('In offline mode, using static schema');
-    
-    const structure: Record<string, any> = {};
-    
-    // Add known tables to the structure
-    KNOWN_TABLES.forEach(tableName => {
-      const isCalendarTable = tableName.includes('Course-Calendar');
-      
-      structure[tableName] = {
-        tableName,
-        columns: isCalendarTable 
-          ? ['id', 'Visit', 'Date', 'Course', 'Level', 'Day1', 'Day2', 'Start', 'End', 'Unit', 'Class.ID', 'NT-Led'] 
-          : (tableName === 'Teachers' 
-              ? ['Teacher_ID', 'Teacher_name', 'Department', 'Teacher_Type'] 
-              : ['Student_ID', 'Student_name', 'Age', 'Level']),
-        isCalendarTable,
-        description: isCalendarTable 
-          ? `Calendar for ${tableName.replace('-Course-Calendar', '')} courses` 
+  logDbOperation(`Inspecting columns of ${tableName}`);
+  return registerCalendarTable(tableName, await getRepository().listColumns(tableName));
+}
+
+/**
+ * Turn calendar table rows into entries: aliased columns get their declared names and
+ * values are parsed against the declared schema. Rows that do not parse are skipped
+ * and reported in the schema diagnostics.
+ */
+function parseCalendarRows(schema: CalendarTableSchema, rows: Record<string, unknown>[]): CalendarEntry[] {
+  const entries: CalendarEntry[] = [];
+  const problems: string[] = [];
+  
+  rows.forEach(row => {
+    const result = parseCalendarEntry(toCanonicalRow(schema, row));
+    if ('entry' in result) {
+      entries.push(result.entry);
+    } else {
+      problems.push(...result.problems);
+    }
+  });
+  
+  recordSkippedRows(schema.tableName, rows.length - entries.length, rows.length, problems);
+  return entries;
+}
+
+/**
+ * Turn a single stored row (read back or returned by a write) into an entry,
+ * keeping it as it is if it does not parse
+ */
+function parseStoredRow(schema: CalendarTableSchema, row: Record<string, unknown>): CalendarEntry {
+  const canonical = toCanonicalRow(schema, row);
+  const result = parseCalendarEntry(canonical);
+  return 'entry' in result ? result.entry : canonical as unknown as CalendarEntry;
+}
+
+/**
+ * Get a calendar table's entries without the database: the entries fetched last on this device,
+ * or synthetic fallback entries on a cold start, with the edits queued offline applied
+ */
+async function getOfflineCalendar(tableName: string): Promise<CalendarEntry[]> {
+  const snapshot = await serveSnapshot<CalendarEntry[]>(calendarSnapshotKey(tableName));
+  if (snapshot) {
+    fallbackUsageCount++;
+    logDbOperation(`Using ${tableName} snapshot from ${snapshot.savedAt}`);
+  }
+  return applyQueuedMutations(tableName, snapshot ? snapshot.data : getFallbackCalendar(tableName));
+}
+
+/**
+ * Keep only the assignments and unresolved slots of classes within a date range
+ */
+function filterResolutionByRange(resolution: AssignmentResolution, range: DateRange): AssignmentResolution {
+  if (isFullRange(range)) return resolution;
+  const inRange = (entry: CalendarEntry) => isDateInRange(getEntryDate(entry), range);
+  return {
+    assignments: resolution.assignments.filter(assignment => inRange(assignment.entry)),
+    unresolved: resolution.unresolved.filter(item => inRange(item.entry))
+  };
+}
+
+/**
+ * Resolve the teacher assignments of a calendar table, optionally only for a date range.
+ * Resolution runs once per table and range and is cached alongside the table's entries.
+ */
+export async function getTableAssignments(tableName: string, range: DateRange = {}): Promise<AssignmentResolution> {
+  // The whole table's assignments answer any range
+  if (!isFullRange(range)) {
+    const table = readCache<AssignmentResolution>(cacheKey('assignments', tableName, FULL_RANGE_KEY));
+    if (table) {
+      return filterResolutionByRange(table, range);
+    }
+  }
+  
+  // Fallback-based resolutions are not cached so that live data is used as soon as we reconnect
+  if (supabaseService.isOffline()) {
+    return resolveTableAssignments(tableName, range);
+  }
+  
+  return cachedQuery(
+    'assignments',
+    cacheKey('assignments', tableName, getRangeKey(range)),
+    () => resolveTableAssignments(tableName, range),
+    [tableName, 'Teachers']
+  );
+}
+
+async function resolveTableAssignments(tableName: string, range: DateRange): Promise<AssignmentResolution> {
+  const [entries, teachers] = await Promise.all([
+    getCalendarEntries(tableName, range),
+    getTeachers()
+  ]);
+  
+  const resolution = resolveAssignments(tableName, entries, teachers);
+  logDbOperation(`Resolved ${resolution.assignments.length} assignments in ${tableName}`);
+  
+  if (resolution.unresolved.length > 0) {
+    logDbOperation(`${resolution.unresolved.length} entries in ${tableName} could not be assigned to a teacher`, 'warn');
+  }
+  
+  return resolution;
+}
+
+/**
+ * Hand the classes of recorded substitutions to the substitute teacher
+ */
+async function applyRecordedSubstitutions(resolution: AssignmentResolution): Promise<AssignmentResolution> {
+  const [substitutions, teachers] = await Promise.all([getSubstitutions(), getTeachers()]);
+  return applySubstitutions(resolution, substitutions, teachers);
+}
+
+/**
+ * Get the teacher assignments of all calendar tables with optional filtering.
+ * This is the single source for "who teaches what" used by every view.
+ */
+export async function getClassAssignments(
+  filters?: { date?: string; from?: string; to?: string; teacherId?: number }
+): Promise<AssignmentResolution> {
+  const calendarTables = await getCalendarTables();
+  const range = toDateRange(filters);
+  
+  const resolutions = await Promise.all(
+    calendarTables.map(tableName => 
+      getTableAssignments(tableName, range).catch(err => {
+        logDbOperation(`Error resolving assignments for ${tableName}:`, 'error', err);
+        return { assignments: [], unresolved: [] } as AssignmentResolution;
+      })
+    )
+  );
+  
+  // Recorded substitutions replace the calendar's teacher before filtering by teacher
+  const resolution = await applyRecordedSubstitutions({
+    assignments: resolutions.flatMap(item => item.assignments),
+    unresolved: resolutions.flatMap(item => item.unresolved)
+  });
+  
+  return {
+    assignments: resolution.assignments.filter(assignment => 
+      filters?.teacherId === undefined || assignment.teacherId === filters.teacherId
+    ),
+    unresolved: resolution.unresolved
+  };
+}
+
+/**
+ * Get the calendar entries (or day slots) that could not be assigned to a teacher
+ */
+export async function getUnresolvedAssignments(
+  filters?: { date?: string; from?: string; to?: string }
+): Promise<UnresolvedAssignment[]> {
+  const { unresolved } = await getClassAssignments(filters);
+  return unresolved;
+}
+
+/**
+ * Map a Substitutions table row to a Substitution
+ */
+function toSubstitution(row: any): Substitution {
+  return {
+    id: Number(row.id),
+    entryKey: row.Entry_Key,
+    tableName: row.Table_Name,
+    entryId: Number(row.Entry_ID),
+    date: String(row.Date || '').slice(0, 10),
+    originalTeacherId: Number(row.Original_Teacher_ID),
+    substituteTeacherId: Number(row.Substitute_Teacher_ID),
+    reason: row.Reason || undefined,
+    createdAt: row.Created_At || ''
+  };
+}
+
+/**
+ * Get all recorded substitutions, including those recorded locally while offline
+ */
+export async function getSubstitutions(): Promise<Substitution[]> {
+  if (supabaseService.isOffline()) {
+    return [...localSubstitutions, ...(await getQueuedSubstitutions())];
+  }
+  
+  // Failures are cached as the local list so a missing table doesn't trigger retries on every schedule lookup
+  return cachedQuery('substitutions', SUBSTITUTIONS_CACHE_KEY, async () => {
+    try {
+      return await supabaseService.executeQuery(async () => {
+        const data = await getRepository().select(SUBSTITUTIONS_TABLE);
+        
+        const substitutions = [...data.map(toSubstitution), ...localSubstitutions];
+        logDbOperation(`Loaded ${substitutions.length} substitutions`);
+        return substitutions;
+      });
+    } catch (err) {
+      logDbOperation('Error fetching substitutions, using locally recorded substitutions:', 'warn', err);
+      return localSubstitutions;
+    }
+  }, [SUBSTITUTIONS_TABLE]);
+}
+
+/**
+ * Write a substitution to the Substitutions table and return the stored row
+ */
+async function insertSubstitution(
+  substitution: Omit<Substitution, 'id' | 'createdAt'>,
+  createdAt: string
+): Promise<Substitution> {
+  return supabaseService.executeQuery(async () => {
+    const data = await getRepository().insert(SUBSTITUTIONS_TABLE, {
+      Entry_Key: substitution.entryKey,
+      Table_Name: substitution.tableName,
+      Entry_ID: substitution.entryId,
+      Date: substitution.date,
+      Original_Teacher_ID: substitution.originalTeacherId,
+      Substitute_Teacher_ID: substitution.substituteTeacherId,
+      Reason: substitution.reason || null,
+      Created_At: createdAt
+    });
+    
+    invalidateCache({ entity: 'substitutions' });
+    logDbOperation(`Recorded substitution for ${substitution.entryKey}`);
+    return toSubstitution(data);
+  });
+}
+
+/**
+ * Record that a substitute teacher covers a class.
+ * While offline the substitution is queued and written on reconnect; when the database
+ * fails it is recorded locally for this session.
+ */
+export async function recordSubstitution(
+  substitution: Omit<Substitution, 'id' | 'createdAt'>
+): Promise<{ substitution: Substitution; source: 'database' | 'local' }> {
+  const createdAt = new Date().toISOString();
+  // Local substitutions get negative IDs so they never clash with database rows
+  const localSubstitution: Substitution = {
+    ...substitution,
+    id: -Date.now(),
+    createdAt
+  };
+  
+  if (supabaseService.isOffline() && canQueueMutations()) {
+    await queueSubstitution(localSubstitution);
+    logDbOperation(`Queued substitution for ${substitution.entryKey} until back online`);
+    return { substitution: localSubstitution, source: 'local' };
+  }
+  
+  try {
+    if (supabaseService.isOffline()) {
+      throw new Error('Database is in offline mode');
+    }
+    return { substitution: await insertSubstitution(substitution, createdAt), source: 'database' };
+  } catch (err) {
+    logDbOperation('Error recording substitution:', 'error', err);
+    localSubstitutions.push(localSubstitution);
+    logDbOperation(`Recorded substitution for ${substitution.entryKey} locally`);
+    return { substitution: localSubstitution, source: 'local' };
+  }
+}
+
+/**
+ * Get the availability (working hours, leave and weekly hour caps) of all teachers.
+ * Teachers without rows in the Teacher-Availability table are available at any time.
+ */
+export async function getTeacherAvailability(): Promise<TeacherAvailability[]> {
+  if (supabaseService.isOffline()) {
+    logDbOperation('Offline mode, returning offline availability');
+    return getOfflineAvailability();
+  }
+  
+  try {
+    return await cachedQuery('availability', AVAILABILITY_CACHE_KEY, () => supabaseService.executeQuery(async () => {
+      const data = await getRepository().select<AvailabilityRow>(AVAILABILITY_TABLE);
+      
+      const availability = buildTeacherAvailability(data);
+      saveSnapshot(AVAILABILITY_SNAPSHOT, availability);
+      
+      logDbOperation(`Loaded availability for ${availability.length} teachers`);
+      return availability;
+    }), [AVAILABILITY_TABLE]);
+  } catch (err) {
+    logDbOperation('Error fetching teacher availability, using offline data:', 'warn', err);
+    return getOfflineAvailability();
+  }
+}
+
+/**
+ * Get availability without the database: the availability fetched last on this device,
+ * or fallback availability on a cold start
+ */
+async function getOfflineAvailability(): Promise<TeacherAvailability[]> {
+  const snapshot = await serveSnapshot<TeacherAvailability[]>(AVAILABILITY_SNAPSHOT);
+  if (snapshot) {
+    fallbackUsageCount++;
+    return snapshot.data;
+  }
+  return getFallbackAvailability();
+}
+
+/**
+ * Get the availability of a single teacher
+ */
+export async function getAvailabilityForTeacher(teacherId: number): Promise<TeacherAvailability | undefined> {
+  const availability = await getTeacherAvailability();
+  return availability.find(item => item.teacherId === teacherId);
+}
+
+/**
+ * Generate fallback availability for the fallback teachers:
+ * weekdays 08:00-18:00 with a 25 hour weekly cap, and Wang Mei not working on Fridays
+ */
+function getFallbackAvailability(): TeacherAvailability[] {
+  fallbackUsageCount++;
+  const weekdays = [1, 2, 3, 4, 5];
+  
+  return getFallbackTeachers().map(teacher => ({
+    teacherId: teacher.Teacher_ID,
+    windows: weekdays
+      .filter(day => !(teacher.Teacher_ID === 4 && day === 5))
+      .map(day => ({ dayOfWeek: day, start: '08:00', end: '18:00' })),
+    leave: [],
+    maxHoursPerWeek: 25
+  }));
+}
+
+/**
+ * Find the classes affected by a teacher's absence and rank substitutes for each.
+ * Candidate load is measured over the whole weeks covering the absence.
+ */
+export async function findSubstitutes(absence: TeacherAbsence): Promise<AffectedClass[]> {
+  logDbOperation(`Finding substitutes for teacher ${absence.teacherId} from ${absence.from} to ${absence.to}`);
+  
+  const [teachers, resolution, availability] = await Promise.all([
+    getTeachers(),
+    getClassAssignments({
+      from: format(startOfWeek(parseISO(absence.from), { weekStartsOn: 1 }), 'yyyy-MM-dd'),
+      to: format(endOfWeek(parseISO(absence.to), { weekStartsOn: 1 }), 'yyyy-MM-dd')
+    }),
+    getTeacherAvailability()
+  ]);
+  
+  return planSubstitutions(absence, teachers, resolution, availability);
+}
+
+/**
+ * Detect double-bookings, missing breaks, unassigned classes and classes outside
+ * teacher availability across all calendar tables
+ */
+export async function getScheduleConflicts(
+  filters?: { date?: string; from?: string; to?: string },
+  options?: ConflictDetectionOptions
+): Promise<ScheduleConflict[]> {
+  const [resolution, availability] = await Promise.all([
+    getClassAssignments(filters),
+    getTeacherAvailability()
+  ]);
+  const conflicts = detectConflicts(resolution, { availability, ...options });
+  
+  if (conflicts.length > 0) {
+    logDbOperation(`Detected ${conflicts.length} schedule conflicts`, 'warn');
+  }
+  
+  return conflicts;
+}
+
+/**
+ * Get the contact hours of every teacher (or one teacher) per week or month of a date range
+ */
+export async function getWorkloadReport(
+  filters: { from?: string; to?: string; teacherId?: number },
+  period: WorkloadPeriod = 'week'
+): Promise<WorkloadReport> {
+  const { teacherId, ...range } = filters;
+  const [resolution, teachers, availability, families] = await Promise.all([
+    getClassAssignments(filters),
+    getTeachers(),
+    getTeacherAvailability(),
+    getCourseFamilies()
+  ]);
+  
+  const reportTeachers = teacherId !== undefined
+    ? teachers.filter(teacher => teacher.Teacher_ID === teacherId)
+    : teachers;
+  return buildWorkloadReport(resolution.assignments, reportTeachers, availability, { period, ...range, families });
+}
+
+/**
+ * Get the pay rate categories for timesheets.
+ * Without a Pay-Rates table (or offline) hours are split into the default categories without amounts.
+ */
+export async function getPayRates(): Promise<PayRate[]> {
+  if (supabaseService.isOffline()) {
+    return DEFAULT_PAY_RATES;
+  }
+  
+  // Failures are cached as the defaults so a missing table doesn't trigger retries on every timesheet
+  return cachedQuery('payRates', PAY_RATES_CACHE_KEY, async () => {
+    try {
+      return await supabaseService.executeQuery(async () => {
+        const rates = buildPayRates(await getRepository().select<PayRateRow>(PAY_RATES_TABLE));
+        logDbOperation(`Loaded ${rates.length} pay rates`);
+        return rates.length > 0 ? rates : DEFAULT_PAY_RATES;
+      });
+    } catch (err) {
+      logDbOperation('Error fetching pay rates, using default categories without amounts:', 'warn', err);
+      return DEFAULT_PAY_RATES;
+    }
+  }, [PAY_RATES_TABLE]);
+}
+
+/**
+ * Get the timesheets of a pay period: every teacher's (or one teacher's) taught classes,
+ * with recorded substitutions paid to the substitute
+ */
+export async function getTimesheets(period: { from: string; to: string; teacherId?: number }): Promise<Timesheet[]> {
+  const [resolution, teachers, rates, families] = await Promise.all([
+    getClassAssignments(period),
+    getTeachers(),
+    getPayRates(),
+    getCourseFamilies()
+  ]);
+  
+  return buildTimesheets(resolution.assignments, teachers, rates, period, families);
+}
+
+/**
+ * Get the course catalogue. In the browser classes are grouped by it from now on; on the server,
+ * where requests share the module, callers pass the catalogue on instead.
+ * Without a Course-Families table (or offline before it was ever read) the default families are used.
+ */
+export async function getCourseFamilies(): Promise<CourseFamilyDefinition[]> {
+  const families = await loadCourseFamilies();
+  if (typeof window !== 'undefined') {
+    setActiveCourseFamilies(families);
+  }
+  return families;
+}
+
+async function loadCourseFamilies(): Promise<CourseFamilyDefinition[]> {
+  if (supabaseService.isOffline()) {
+    const snapshot = await serveSnapshot<CourseFamilyDefinition[]>(COURSE_FAMILIES_SNAPSHOT);
+    return snapshot ? snapshot.data : DEFAULT_COURSE_FAMILIES;
+  }
+  
+  // Failures are cached as the defaults so a missing table doesn't trigger retries on every view
+  return cachedQuery('courseFamilies', COURSE_FAMILIES_CACHE_KEY, async () => {
+    try {
+      return await supabaseService.executeQuery(async () => {
+        const families = buildCourseFamilies(await getRepository().select<CourseFamilyRow>(COURSE_FAMILIES_TABLE));
+        logDbOperation(`Loaded ${families.length} course families`);
+        if (families.length === 0) return DEFAULT_COURSE_FAMILIES;
+        saveSnapshot(COURSE_FAMILIES_SNAPSHOT, families);
+        return families;
+      });
+    } catch (err) {
+      logDbOperation('Error fetching course families, using the default catalogue:', 'warn', err);
+      return DEFAULT_COURSE_FAMILIES;
+    }
+  }, [COURSE_FAMILIES_TABLE]);
+}
+
+/**
+ * Replace the course catalogue: families are stored in the given order and families left out
+ * are deleted. Classes are grouped by the new catalogue at once.
+ */
+export async function saveCourseFamilies(families: CourseFamilyDefinition[]): Promise<CourseFamilyDefinition[]> {
+  const errors = validateCourseFamilies(families);
+  if (errors.length > 0) {
+    throw new Error(errors.join('; '));
+  }
+  if (supabaseService.isOffline()) {
+    throw new Error('The course catalogue cannot be changed while offline');
+  }
+  
+  return supabaseService.executeQuery(async () => {
+    const repository = getRepository();
+    const storedKeys = (await repository.select<CourseFamilyRow>(COURSE_FAMILIES_TABLE)).map(row => String(row.Family_Key));
+    
+    for (let index = 0; index < families.length; index++) {
+      const row = toCourseFamilyRow(families[index], index + 1);
+      if (storedKeys.includes(row.Family_Key)) {
+        await repository.update(COURSE_FAMILIES_TABLE, { Family_Key: row.Family_Key }, row);
+      } else {
+        await repository.insert(COURSE_FAMILIES_TABLE, row);
+      }
+    }
+    for (const key of storedKeys.filter(key => !families.some(family => family.key === key))) {
+      await repository.delete(COURSE_FAMILIES_TABLE, { Family_Key: key });
+    }
+    
+    invalidateCache({ entity: 'courseFamilies' });
+    saveSnapshot(COURSE_FAMILIES_SNAPSHOT, families);
+    if (typeof window !== 'undefined') {
+      setActiveCourseFamilies(families);
+    }
+    logDbOperation(`Saved ${families.length} course families`);
+    return families;
+  });
+}
+
+/**
+ * Get a teacher's schedule for a specific date or an inclusive date range
+ */
+export async function getTeacherSchedule(
+  teacherId: number,
+  date: string | { from: string; to: string }
+): Promise<CalendarEntry[]> {
+  const period = typeof date === 'string' ? date : `${date.from} to ${date.to}`;
+  logDbOperation(`Fetching schedule for teacher ID ${teacherId} on ${period}`);
+  
+  try {
+    const filters = typeof date === 'string' ? { date } : date;
+    const { assignments } = await getClassAssignments({ ...filters, teacherId });
+    const entries = getAssignedEntries(assignments).sort(compareEntries);
+    
+    logDbOperation(`Returning ${entries.length} total entries for teacher ${teacherId} on ${period}`);
+    return entries;
+  } catch (err) {
+    logDbOperation(`Error in getTeacherSchedule for teacher ${teacherId}:`, 'error', err);
+    return [];
+  }
+}
+
+/**
+ * Drop the cached entries and assignments of a calendar table after it was written to
+ */
+function invalidateCalendarTable(tableName: string): void {
+  const dropped = invalidateCache({ tag: tableName });
+  logDbOperation(`Invalidated ${dropped} cached results of ${tableName}`);
+}
+
+/**
+ * Check that a table is a Course-Calendar table that can be written to now, or throw
+ */
+function assertWritableCalendarTable(tableName: string): void {
+  if (!isCalendarTable(tableName)) {
+    throw new Error(`Table ${tableName} is not a calendar table`);
+  }
+  
+  if (supabaseService.isOffline()) {
+    throw new Error('Cannot change calendar entries while offline');
+  }
+}
+
+/**
+ * Find the row a queued offline edit applies to in the offline data
+ */
+async function getOfflineEntry(tableName: string, id: number): Promise<CalendarEntry> {
+  if (!isCalendarTable(tableName)) {
+    throw new Error(`Table ${tableName} is not a calendar table`);
+  }
+  
+  const entry = (await getOfflineCalendar(tableName)).find(item => item.id === id);
+  if (!entry) {
+    throw new Error(`Entry ${id} not found in ${tableName}`);
+  }
+  return entry;
+}
+
+/**
+ * Insert a calendar entry and return the stored row.
+ * While offline in the browser the entry is queued and returned with a temporary negative ID.
+ */
+export async function createCalendarEntry(
+  tableName: string,
+  entry: Omit<CalendarEntry, 'id'>
+): Promise<CalendarEntry> {
+  if (supabaseService.isOffline() && canQueueMutations()) {
+    if (!isCalendarTable(tableName)) {
+      throw new Error(`Table ${tableName} is not a calendar table`);
+    }
+    invalidateCalendarTable(tableName);
+    logDbOperation(`Offline: queued new entry for ${tableName}`);
+    return queueCreateEntry(tableName, entry);
+  }
+  
+  assertWritableCalendarTable(tableName);
+  
+  return supabaseService.executeQuery(async () => {
+    const schema = await getCalendarSchema(tableName);
+    const data = parseStoredRow(schema, await getRepository().insert(tableName, toTableRow(schema, { ...entry })));
+    
+    invalidateCalendarTable(tableName);
+    logDbOperation(`Created entry ${data.id} in ${tableName}`);
+    return data;
+  });
+}
+
+/**
+ * Update columns of a calendar entry and return the stored row.
+ * While offline in the browser the change is queued and the updated offline row is returned.
+ */
+export async function updateCalendarEntry(
+  tableName: string,
+  id: number,
+  changes: Partial<Omit<CalendarEntry, 'id'>>
+): Promise<CalendarEntry> {
+  if (supabaseService.isOffline() && canQueueMutations()) {
+    const base = await getOfflineEntry(tableName, id);
+    invalidateCalendarTable(tableName);
+    logDbOperation(`Offline: queued update of entry ${id} in ${tableName}`);
+    return queueUpdateEntry(tableName, base, changes);
+  }
+  
+  assertWritableCalendarTable(tableName);
+  
+  return supabaseService.executeQuery(async () => {
+    const schema = await getCalendarSchema(tableName);
+    const data = parseStoredRow(
+      schema,
+      await getRepository().update(tableName, { [getTableColumn(schema, 'id')]: id }, toTableRow(schema, { ...changes }))
+    );
+    
+    invalidateCalendarTable(tableName);
+    logDbOperation(`Updated entry ${id} in ${tableName}`);
+    return data;
+  });
+}
+
+/**
+ * Delete a calendar entry. While offline in the browser the deletion is queued.
+ */
+export async function deleteCalendarEntry(tableName: string, id: number): Promise<void> {
+  if (supabaseService.isOffline() && canQueueMutations()) {
+    const base = await getOfflineEntry(tableName, id);
+    invalidateCalendarTable(tableName);
+    logDbOperation(`Offline: queued deletion of entry ${id} from ${tableName}`);
+    return queueDeleteEntry(tableName, base);
+  }
+  
+  assertWritableCalendarTable(tableName);
+  
+  await supabaseService.executeQuery(async () => {
+    const schema = await getCalendarSchema(tableName);
+    await getRepository().delete(tableName, { [getTableColumn(schema, 'id')]: id });
+    
+    invalidateCalendarTable(tableName);
+    logDbOperation(`Deleted entry ${id} from ${tableName}`);
+  });
+}
+
+/**
+ * Read a calendar entry as it is stored, or throw a RepositoryError: not_found when the row does
+ * not exist, unavailable when the database cannot be reached. Like getStoredCalendarEntries this
+ * never returns fallback entries, so changes are only made to classes that really exist.
+ */
+export async function getStoredCalendarEntry(tableName: string, id: number): Promise<CalendarEntry> {
+  if (!isCalendarTable(tableName)) {
+    throw new RepositoryError('not_found', `Table ${tableName} is not a calendar table`);
+  }
+  if (supabaseService.isOffline()) {
+    throw new RepositoryError('unavailable', `Entry ${id} in ${tableName} cannot be read while offline`);
+  }
+  
+  let entry: CalendarEntry | null;
+  try {
+    entry = await fetchServerEntry(tableName, id);
+  } catch (err) {
+    if (err instanceof RepositoryError) throw err;
+    const message = err instanceof Error ? err.message : String(err);
+    throw new RepositoryError('unavailable', `Entry ${id} in ${tableName} could not be read: ${message}`);
+  }
+  
+  if (!entry) {
+    throw new RepositoryError('not_found', `Entry ${id} not found in ${tableName}`);
+  }
+  return entry;
+}
+
+// Columns cancelling, restoring and rescheduling classes write to
+const STATUS_COLUMNS: CalendarColumn[] = ['Status', 'Status_Reason', 'Makeup_Of'];
+
+/**
+ * The status columns a calendar table lacks; classes in such a table cannot be cancelled or
+ * rescheduled, so views leave those actions out. Empty when the table's columns cannot be
+ * checked (offline before the table was read), in which case the write itself reports them.
+ */
+export async function getMissingStatusColumns(tableName: string): Promise<CalendarColumn[]> {
+  let schema = getCalendarTableSchema(tableName);
+  if (!schema && !supabaseService.isOffline()) {
+    try {
+      schema = await getCalendarSchema(tableName);
+    } catch (err) {
+      logDbOperation(`Error inspecting columns of ${tableName}:`, 'warn', err);
+    }
+  }
+  return schema ? STATUS_COLUMNS.filter(column => schema!.missingColumns.includes(column)) : [];
+}
+
+/**
+ * Throw before changing a class's status in a table without the status columns
+ */
+async function requireStatusColumns(tableName: string): Promise<void> {
+  const missing = await getMissingStatusColumns(tableName);
+  if (missing.length > 0) {
+    throw new Error(`${tableName} has no ${missing.join(', ')} column${missing.length > 1 ? 's' : ''}; add ${missing.length > 1 ? 'them' : 'it'} to cancel or reschedule classes`);
+  }
+}
+
+/**
+ * Mark a class as cancelled (holiday, weather...) without making it up.
+ * The entry stays in the calendar so views can show it struck through.
+ */
+export async function cancelCalendarEntry(tableName: string, id: number, reason?: string): Promise<CalendarEntry> {
+  await requireStatusColumns(tableName);
+  logDbOperation(`Cancelling entry ${id} in ${tableName}`);
+  return updateCalendarEntry(tableName, id, { Status: 'cancelled', Status_Reason: reason || null });
+}
+
+/**
+ * Put a cancelled class back on the schedule
+ */
+export async function restoreCalendarEntry(tableName: string, id: number): Promise<CalendarEntry> {
+  await requireStatusColumns(tableName);
+  logDbOperation(`Restoring entry ${id} in ${tableName}`);
+  return updateCalendarEntry(tableName, id, { Status: 'scheduled', Status_Reason: null });
+}
+
+/**
+ * Propose free slots for a make-up class, where every teacher of the class is available and not
+ * teaching. Searches two weeks from today unless a range is given.
+ */
+export async function findMakeupSlotsForEntry(
+  tableName: string,
+  id: number,
+  options: Partial<MakeupSlotOptions> = {}
+): Promise<MakeupSlot[]> {
+  const entry = await getStoredCalendarEntry(tableName, id);
+  const from = options.from || format(new Date(), 'yyyy-MM-dd');
+  const to = options.to || format(addDays(parseISO(from), 13), 'yyyy-MM-dd');
+  const entryKey = getEntryKey(tableName, entry);
+  
+  const [classResolution, resolution, availability] = await Promise.all([
+    getClassAssignments({ date: getEntryDate(entry) }),
+    getClassAssignments({ from, to }),
+    getTeacherAvailability()
+  ]);
+  const classAssignments = classResolution.assignments.filter(assignment => assignment.entryKey === entryKey);
+  
+  const slots = findMakeupSlots(entry, classAssignments, resolution.assignments, availability, { ...options, from, to });
+  logDbOperation(`Found ${slots.length} make-up slots for entry ${id} in ${tableName}`);
+  return slots;
+}
+
+/**
+ * Read the make-up class already stored for an entry, if any
+ */
+async function fetchStoredMakeup(tableName: string, original: CalendarEntry): Promise<CalendarEntry | undefined> {
+  return supabaseService.executeQuery(async () => {
+    const schema = await getCalendarSchema(tableName);
+    const rows = await getRepository().select(tableName, { eq: { [getTableColumn(schema, 'Makeup_Of')]: original.id } });
+    return findMakeupEntry(rows.map(row => parseStoredRow(schema, row)), original);
+  });
+}
+
+function isInSlot(entry: CalendarEntry, slot: MakeupSlot): boolean {
+  return getEntryDate(entry) === slot.date &&
+    parseTimeToMinutes(entry.Start) === parseTimeToMinutes(slot.start) &&
+    parseTimeToMinutes(entry.End) === parseTimeToMinutes(slot.end);
+}
+
+/**
+ * Move a class to a new slot: a make-up entry linked to the original through Makeup_Of is
+ * created, and the original is kept as rescheduled. The make-up is written first and removed
+ * again if the original cannot be marked, so a failure leaves the original untouched. A make-up
+ * left by an earlier attempt is reused when it is in the same slot; in another slot the
+ * reschedule is refused.
+ */
+export async function rescheduleCalendarEntry(
+  tableName: string,
+  id: number,
+  slot: MakeupSlot,
+  reason?: string
+): Promise<{ original: CalendarEntry; makeup: CalendarEntry }> {
+  await requireStatusColumns(tableName);
+  const entry = await getStoredCalendarEntry(tableName, id);
+  if (getEntryStatus(entry) === 'rescheduled') {
+    throw new Error(`Entry ${id} in ${tableName} was already rescheduled`);
+  }
+  logDbOperation(`Rescheduling entry ${id} in ${tableName} to ${slot.date} ${slot.start}-${slot.end}`);
+  
+  const existing = await fetchStoredMakeup(tableName, entry);
+  if (existing && !isInSlot(existing, slot)) {
+    throw new Error(`Entry ${id} in ${tableName} already has make-up class ${existing.id} on ${getEntryDate(existing)}; remove it first`);
+  }
+  
+  const makeup = existing || await createCalendarEntry(tableName, buildMakeupEntry(entry, slot));
+  try {
+    const original = await updateCalendarEntry(tableName, id, { Status: 'rescheduled', Status_Reason: reason || null });
+    return { original, makeup };
+  } catch (err) {
+    if (!existing) {
+      logDbOperation(`Removing make-up class ${makeup.id} from ${tableName} as entry ${id} could not be marked rescheduled`, 'warn');
+      await deleteCalendarEntry(tableName, makeup.id).catch(deleteErr => {
+        logDbOperation(`Error removing make-up class ${makeup.id} from ${tableName}:`, 'error', deleteErr);
+      });
+    }
+    throw err;
+  }
+}
+
+/**
+ * Write a set of reviewed schedule changes (e.g. from the schedule generator).
+ * Each change is written on its own; failures are collected instead of stopping the run.
+ */
+export async function applyScheduleChanges(
+  changes: ScheduleChange[]
+): Promise<{ applied: number; failed: { change: ScheduleChange; error: string }[] }> {
+  logDbOperation(`Applying ${changes.length} schedule changes`);
+  
+  let applied = 0;
+  const failed: { change: ScheduleChange; error: string }[] = [];
+  
+  for (const change of changes) {
+    try {
+      if (change.type === 'add' && change.after) {
+        await createCalendarEntry(change.tableName, change.after);
+      } else if (change.type === 'update' && change.before && change.after) {
+        const updates: Partial<CalendarEntry> = Object.fromEntries(
+          change.changedFields.map(field => [field, change.after![field]])
+        );
+        await updateCalendarEntry(change.tableName, change.before.id, updates);
+      } else if (change.type === 'remove' && change.before) {
+        await deleteCalendarEntry(change.tableName, change.before.id);
+      }
+      applied++;
+    } catch (err) {
+      logDbOperation(`Error applying ${change.type} to ${change.tableName}:`, 'error', err);
+      failed.push({ change, error: err instanceof Error ? err.message : String(err) });
+    }
+  }
+  
+  logDbOperation(`Applied ${applied} schedule changes, ${failed.length} failed`, failed.length > 0 ? 'warn' : 'log');
+  return { applied, failed };
+}
+
+/**
+ * Read a calendar entry straight from the database, bypassing the cache
+ */
+async function fetchServerEntry(tableName: string, id: number): Promise<CalendarEntry | null> {
+  return supabaseService.executeQuery(async () => {
+    const schema = await getCalendarSchema(tableName);
+    const [row] = await getRepository().select(tableName, { eq: { [getTableColumn(schema, 'id')]: id } });
+    return row ? parseStoredRow(schema, row) : null;
+  });
+}
+
+/**
+ * Write one queued edit, or record a conflict when the server row changed in a way the edit would overwrite
+ */
+async function replayMutation(mutation: QueuedMutation): Promise<'applied' | 'conflict'> {
+  switch (mutation.kind) {
+    case 'create-entry':
+      await createCalendarEntry(mutation.tableName, mutation.entry);
+      break;
+    case 'record-substitution': {
+      const { id, createdAt, ...substitution } = mutation.substitution;
+      await insertSubstitution(substitution, createdAt);
+      break;
+    }
+    case 'update-entry':
+    case 'delete-entry': {
+      const server = await fetchServerEntry(mutation.tableName, mutation.entryId);
+      if (!server) {
+        // Deleting a row that is already gone needs no decision
+        if (mutation.kind === 'delete-entry') break;
+        await markMutationConflict(mutation, null, Object.keys(mutation.changes));
+        return 'conflict';
+      }
+      
+      const fields = findConflictingFields(mutation, server);
+      if (fields.length > 0) {
+        await markMutationConflict(mutation, server, fields);
+        return 'conflict';
+      }
+      
+      if (mutation.kind === 'update-entry') {
+        await updateCalendarEntry(mutation.tableName, mutation.entryId, mutation.changes);
+      } else {
+        await deleteCalendarEntry(mutation.tableName, mutation.entryId);
+      }
+      break;
+    }
+  }
+  
+  await removeQueuedMutation(mutation.id);
+  return 'applied';
+}
+
+/**
+ * Write the edits queued while offline, oldest first.
+ * Edits that conflict with the server or fail are kept in the queue, and later edits of the
+ * same row wait until they are resolved. Stops early if the connection is lost again.
+ */
+export async function replayQueuedMutations(): Promise<{ applied: number; conflicts: number; failed: number }> {
+  const result = { applied: 0, conflicts: 0, failed: 0 };
+  if (supabaseService.isOffline()) return result;
+  
+  const mutations = await getQueuedMutations();
+  if (mutations.length === 0) return result;
+  logDbOperation(`Replaying ${mutations.length} queued offline edits`);
+  
+  const blockedRows = new Set<string>();
+  for (const mutation of mutations) {
+    const rowKey = getMutationRowKey(mutation);
+    if (mutation.status !== 'pending' || (rowKey && blockedRows.has(rowKey))) {
+      if (rowKey) blockedRows.add(rowKey);
+      continue;
+    }
+    
+    try {
+      if (await replayMutation(mutation) === 'applied') {
+        result.applied++;
+      } else {
+        result.conflicts++;
+        if (rowKey) blockedRows.add(rowKey);
+      }
+    } catch (err) {
+      if (supabaseService.isOffline()) {
+        logDbOperation('Connection lost while replaying offline edits, keeping the rest queued', 'warn');
+        break;
+      }
+      logDbOperation(`Error replaying queued ${mutation.kind}:`, 'error', err);
+      await markMutationFailed(mutation, err instanceof Error ? err.message : String(err));
+      result.failed++;
+      if (rowKey) blockedRows.add(rowKey);
+    }
+  }
+  
+  logDbOperation(
+    `Replayed offline edits: ${result.applied} applied, ${result.conflicts} conflicts, ${result.failed} failed`,
+    result.conflicts + result.failed > 0 ? 'warn' : 'log'
+  );
+  return result;
+}
+
+/**
+ * How to settle a queued edit that conflicts with the server:
+ * - mine: write the queued edit over the server's changes
+ * - theirs: discard the queued edit
+ * - merge: write only the listed conflicting fields from the queued edit; non-conflicting
+ *   fields of the edit are always written
+ */
+export type ConflictResolution = 'mine' | 'theirs' | { merge: string[] };
+
+/**
+ * Settle a conflicting (or failed) queued edit, then replay any edits that were waiting on it
+ */
+export async function resolveQueuedMutation(id: string, resolution: ConflictResolution): Promise<void> {
+  const mutation = (await getQueuedMutations()).find(item => item.id === id);
+  if (!mutation) return;
+  
+  // The edit stays queued until it has been written, so a failed retry loses nothing
+  try {
+    if (resolution === 'theirs') {
+      logDbOperation(`Discarding queued ${mutation.kind}`);
+      await removeQueuedMutation(id);
+    } else if (mutation.status === 'failed' || mutation.kind === 'create-entry' || mutation.kind === 'record-substitution') {
+      // Nothing to merge: retry the edit as it is; a written edit is removed from the queue
+      await replayMutation({ ...mutation, status: 'pending' });
+    } else if (mutation.kind === 'delete-entry') {
+      await deleteCalendarEntry(mutation.tableName, mutation.entryId);
+      await removeQueuedMutation(id);
+    } else {
+      const conflictingFields = mutation.conflict?.fields || [];
+      const keptFields = resolution === 'mine' ? conflictingFields : resolution.merge;
+      const changes = Object.fromEntries(
+        Object.entries(mutation.changes).filter(([field]) => !conflictingFields.includes(field) || keptFields.includes(field))
+      );
+      
+      if (mutation.conflict && mutation.conflict.server === null) {
+        // The row was deleted on the server; keeping the edit restores it
+        const { id: entryId, ...row } = mutation.base;
+        await createCalendarEntry(mutation.tableName, { ...row, ...changes });
+      } else if (Object.keys(changes).length > 0) {
+        await updateCalendarEntry(mutation.tableName, mutation.entryId, changes);
+      }
+      await removeQueuedMutation(id);
+    }
+  } catch (err) {
+    logDbOperation(`Error resolving queued ${mutation.kind}:`, 'error', err);
+    await markMutationFailed(mutation, err instanceof Error ? err.message : String(err));
+    throw err;
+  }
+  
+  await replayQueuedMutations();
+}
+
+/**
+ * Describe a table for schema discovery. Calendar tables are registered in the schema registry,
+ * so their column aliases and deviations are known before their entries are first read.
+ */
+function describeTable(tableName: string, columns: string[]): TableSchema {
+  if (isCalendarTable(tableName)) {
+    const schema = registerCalendarTable(tableName, columns);
+    return {
+      tableName,
+      columns,
+      isCalendarTable: true,
+      description: `Calendar for ${getCourseName(tableName)} courses`,
+      diagnostics: schema.diagnostics
+    };
+  }
+  
+  return {
+    tableName,
+    columns,
+    isCalendarTable: false,
+    description: tableName === 'Teachers' ? 'Teacher records' : tableName
+  };
+}
+
+/**
+ * Discover the database schema by examining tables and their columns
+ */
+export async function discoverDatabaseSchema(): Promise<{tables: string[]; structure: Record<string, TableSchema>}> {
+  logDbOperation('Discovering database schema...');
+  
+  // If offline, return a static schema based on known tables
+  if (supabaseService.isOffline()) {
+    logDbOperation('In offline mode, using static schema');
+    
+    const structure: Record<string, TableSchema> = {};
+    
+    // Add known tables to the structure
+    KNOWN_TABLES.forEach(tableName => {
+      const isCalendar = isCalendarTable(tableName);
+      
+      structure[tableName] = {
+        tableName,
+        columns: isCalendar 
+          ? [...CALENDAR_COLUMNS] 
+          : (tableName === 'Teachers' 
+              ? ['Teacher_ID', 'Teacher_name', 'Department', 'Teacher_Type'] 
+              : ['Student_ID', 'Student_name', 'Age', 'Level']),
+        isCalendarTable: isCalendar,
+        description: isCalendar 
+          ? `Calendar for ${getCourseName(tableName)} courses` 
           : (tableName === 'Teachers' ? 'Teacher records' : 'Student records')
       };
     });
@@ -1336,44 +1936,20 @@ export async function discoverDatabaseSchema(): Promise<{tables: string[]; struc
     }
     
     // Structure to hold all table information
-    const structure: Record<string, any> = {};
+    const structure: Record<string, TableSchema> = {};
     
     // For each table, get column information
     const tablePromises = tables.map(async (tableName) => {
       try {
-        // Try to get a sample row to infer columns
-        const query = supabaseService.getClient()
-          .from(tableName)
-          .select('*');
-          
-        let result;
-        if (typeof query === 'object' && query !== null && 'limit' in query && typeof query.limit === 'function') {
-          result = await query.limit(1);
-        } else {
-          result = await query;
-        }
-        
-        const { data, error } = result;
-          
-        if (error) {
+        let columns: string[];
+        try {
+          columns = await getRepository().listColumns(tableName);
+        } catch (error) {
           logDbOperation(`Error getting columns for ${tableName}:`, 'error', error);
           return;
         }
         
-        const columns = data && data.length > 0 
-          ? Object.keys(data[0]) 
-          : [];
-          
-        const isCalendarTable = tableName.includes('Course-Calendar');
-        
-        structure[tableName] = {
-          tableName,
-          columns,
-          isCalendarTable,
-          description: isCalendarTable 
-            ? `Calendar for ${tableName.replace('-Course-Calendar', '')} courses` 
-            : (tableName === 'Teachers' ? 'Teacher records' : tableName)
-        };
+        structure[tableName] = describeTable(tableName, columns);
       } catch (tableErr) {
         logDbOperation(`Error examining table ${tableName}:`, 'error', tableErr);
       }
@@ -1395,12 +1971,70 @@ export async function discoverDatabaseSchema(): Promise<{tables: string[]; struc
   }
 }
 
+/**
+ * Apply an inserted, updated or deleted row to a cached table, matching rows by key
+ */
+function applyRowChange<T extends Record<string, any>>(rows: T[], change: DataChange, key: keyof T): T[] {
+  const record = change.record as T | null;
+  const keyValue = (record ?? change.oldRecord)?.[key as string];
+  if (keyValue === undefined) return rows;
+  
+  const remaining = rows.filter(row => row[key] !== keyValue);
+  if (change.type === 'DELETE' || !record) {
+    return remaining;
+  }
+  
+  const index = rows.findIndex(row => row[key] === keyValue);
+  if (index === -1) {
+    return [...rows, record];
+  }
+  return rows.map((row, i) => (i === index ? record : row));
+}
+
+/**
+ * Apply a row change pushed by Supabase Realtime to the cache, so views reloading from the
+ * cache see colleagues' edits without waiting for the cache to expire
+ */
+export function applyRealtimeChange(change: DataChange): void {
+  if (change.table === 'Teachers') {
+    updateCache<Teacher[]>({ entity: 'teachers' }, teachers => {
+      const updated = applyRowChange(teachers, change, 'Teacher_ID');
+      saveSnapshot(TEACHERS_SNAPSHOT, updated);
+      return updated;
+    });
+    // Every table's assignments are resolved against the teacher list
+    invalidateCache({ entity: 'assignments' });
+    logDbOperation(`Realtime: applied ${change.type} to Teachers`);
+    return;
+  }
+  
+  if (!isCalendarTable(change.table)) return;
+  
+  // Realtime rows use the table's own column names and raw values; the cached entries are parsed
+  const schema = getCalendarTableSchema(change.table);
+  const canonical = schema
+    ? {
+        ...change,
+        record: change.record && parseStoredRow(schema, change.record),
+        oldRecord: change.oldRecord && toCanonicalRow(schema, change.oldRecord)
+      }
+    : change;
+  // Every cached range of the table gets the row, or loses it when its date moved out of the range
+  updateCache<CachedRange>({ entity: 'calendar', tag: change.table }, ({ range, entries }) => {
+    const updated = filterEntriesByRange(applyRowChange(entries, canonical, 'id'), range);
+    if (isFullRange(range)) {
+      writeCalendarSnapshot(change.table, () => saveSnapshot(calendarSnapshotKey(change.table), updated));
+    }
+    return { range, entries: updated };
+  });
+  invalidateCache({ entity: 'assignments', tag: change.table });
+  logDbOperation(`Realtime: applied ${change.type} to ${change.table}`);
+}
+
 /**
  * Clear all cached data
  */
 export function clearCache() {
-  cache.teachers = null;
-  cache.calendarTables = null;
-  cache.calendarEntries = {};
+  clearQueryCache();
   logDbOperation('Cache cleared');
 }
\ No newline at end of file
@@ -0,0 +1,314 @@
+import type { CalendarEntry } from './data';
+import type { Substitution } from '@/lib/scheduling/substitutes';
+import { deleteQueuedRecord, loadQueuedRecords, saveQueuedRecord } from './offlineStore';
+
+/**
+ * Durable queue of edits made while offline.
+ * Edits are stored in IndexedDB (see offlineStore.ts), shown on top of the offline data, and
+ * replayed against the database on reconnect by `replayQueuedMutations` in data.ts.
+ */
+
+export type MutationStatus = 'pending' | 'conflict' | 'failed';
+
+/**
+ * The server's version of a row that was changed by someone else while the edit was queued
+ */
+export interface MutationConflict {
+  /** Current server row, or null when it was deleted */
+  server: CalendarEntry | null;
+  /** Fields both the queued edit and the server changed */
+  fields: string[];
+  detectedAt: string;
+}
+
+interface QueuedMutationBase {
+  id: string;
+  createdAt: string;
+  status: MutationStatus;
+  conflict?: MutationConflict;
+  /** Error of the last failed replay */
+  error?: string;
+}
+
+export interface CreateEntryMutation extends QueuedMutationBase {
+  kind: 'create-entry';
+  tableName: string;
+  /** Temporary negative ID the entry is shown with until it is written */
+  tempId: number;
+  entry: Omit<CalendarEntry, 'id'>;
+}
+
+export interface UpdateEntryMutation extends QueuedMutationBase {
+  kind: 'update-entry';
+  tableName: string;
+  entryId: number;
+  /** The row as it was when edited, used to detect changes made on the server meanwhile */
+  base: CalendarEntry;
+  changes: Partial<Omit<CalendarEntry, 'id'>>;
+}
+
+export interface DeleteEntryMutation extends QueuedMutationBase {
+  kind: 'delete-entry';
+  tableName: string;
+  entryId: number;
+  base: CalendarEntry;
+}
+
+export interface RecordSubstitutionMutation extends QueuedMutationBase {
+  kind: 'record-substitution';
+  substitution: Substitution;
+}
+
+export type QueuedMutation =
+  | CreateEntryMutation
+  | UpdateEntryMutation
+  | DeleteEntryMutation
+  | RecordSubstitutionMutation;
+
+type QueueListener = (mutations: QueuedMutation[]) => void;
+
+const listeners = new Set<QueueListener>();
+let idCounter = 0;
+
+function nextId(): string {
+  idCounter++;
+  return `${Date.now()}-${idCounter}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * Whether edits can be queued here; outside the browser they are rejected instead
+ */
+export function canQueueMutations(): boolean {
+  return typeof window !== 'undefined';
+}
+
+/**
+ * Get all queued edits, oldest first
+ */
+export async function getQueuedMutations(): Promise<QueuedMutation[]> {
+  if (!canQueueMutations()) return [];
+
+  const mutations = await loadQueuedRecords<QueuedMutation>();
+  return mutations.sort((a, b) => a.createdAt.localeCompare(b.createdAt) || a.id.localeCompare(b.id));
+}
+
+async function notifyListeners(): Promise<void> {
+  const mutations = await getQueuedMutations();
+  listeners.forEach(listener => {
+    try {
+      listener(mutations);
+    } catch (err) {
+      console.error('[MutationQueue] Error notifying listener:', err);
+    }
+  });
+}
+
+async function save(mutation: QueuedMutation): Promise<void> {
+  await saveQueuedRecord(mutation);
+  await notifyListeners();
+}
+
+/**
+ * Listen for changes to the queue; the listener is called with the whole queue
+ */
+export function addQueueListener(listener: QueueListener): void {
+  listeners.add(listener);
+}
+
+export function removeQueueListener(listener: QueueListener): void {
+  listeners.delete(listener);
+}
+
+/**
+ * Queue a new calendar entry and return it with its temporary ID
+ */
+export async function queueCreateEntry(tableName: string, entry: Omit<CalendarEntry, 'id'>): Promise<CalendarEntry> {
+  const id = nextId();
+  // Temporary IDs are negative so they never clash with database rows
+  const tempId = -(Date.now() * 100 + (idCounter % 100));
+  await save({
+    kind: 'create-entry',
+    id,
+    createdAt: new Date().toISOString(),
+    status: 'pending',
+    tableName,
+    tempId,
+    entry
+  });
+  return { ...entry, id: tempId } as CalendarEntry;
+}
+
+/**
+ * Queue changes to a calendar entry. Changes to an entry that was itself created offline
+ * are folded into its queued creation.
+ */
+export async function queueUpdateEntry(
+  tableName: string,
+  base: CalendarEntry,
+  changes: Partial<Omit<CalendarEntry, 'id'>>
+): Promise<CalendarEntry> {
+  const creation = base.id < 0 ? await findQueuedCreation(tableName, base.id) : undefined;
+
+  if (creation) {
+    await save({ ...creation, entry: { ...creation.entry, ...changes } });
+  } else {
+    await save({
+      kind: 'update-entry',
+      id: nextId(),
+      createdAt: new Date().toISOString(),
+      status: 'pending',
+      tableName,
+      entryId: base.id,
+      base,
+      changes
+    });
+  }
+  return { ...base, ...changes };
+}
+
+/**
+ * Queue the deletion of a calendar entry. Deleting an entry created offline drops its creation.
+ */
+export async function queueDeleteEntry(tableName: string, base: CalendarEntry): Promise<void> {
+  const creation = base.id < 0 ? await findQueuedCreation(tableName, base.id) : undefined;
+
+  if (creation) {
+    await removeQueuedMutation(creation.id);
+    return;
+  }
+
+  await save({
+    kind: 'delete-entry',
+    id: nextId(),
+    createdAt: new Date().toISOString(),
+    status: 'pending',
+    tableName,
+    entryId: base.id,
+    base
+  });
+}
+
+/**
+ * Queue a substitution recorded while offline
+ */
+export async function queueSubstitution(substitution: Substitution): Promise<void> {
+  await save({
+    kind: 'record-substitution',
+    id: nextId(),
+    createdAt: substitution.createdAt,
+    status: 'pending',
+    substitution
+  });
+}
+
+async function findQueuedCreation(tableName: string, tempId: number): Promise<CreateEntryMutation | undefined> {
+  const mutations = await getQueuedMutations();
+  return mutations.find((mutation): mutation is CreateEntryMutation =>
+    mutation.kind === 'create-entry' && mutation.tableName === tableName && mutation.tempId === tempId
+  );
+}
+
+/**
+ * Substitutions recorded offline that are still waiting to be written
+ */
+export async function getQueuedSubstitutions(): Promise<Substitution[]> {
+  const mutations = await getQueuedMutations();
+  return mutations
+    .filter((mutation): mutation is RecordSubstitutionMutation => mutation.kind === 'record-substitution')
+    .map(mutation => mutation.substitution);
+}
+
+/**
+ * Show queued edits on top of a table's entries, in the order they were made
+ */
+export async function applyQueuedMutations(tableName: string, entries: CalendarEntry[]): Promise<CalendarEntry[]> {
+  const mutations = await getQueuedMutations();
+  let result = entries;
+
+  mutations.forEach(mutation => {
+    if (mutation.kind === 'record-substitution' || mutation.tableName !== tableName) return;
+
+    if (mutation.kind === 'create-entry') {
+      result = [...result, { ...mutation.entry, id: mutation.tempId } as CalendarEntry];
+    } else if (mutation.kind === 'update-entry') {
+      result = result.map(entry => (entry.id === mutation.entryId ? { ...entry, ...mutation.changes } : entry));
+    } else {
+      result = result.filter(entry => entry.id !== mutation.entryId);
+    }
+  });
+
+  return result;
+}
+
+/**
+ * Key of the row a mutation writes to; later edits of the same row wait for earlier ones
+ */
+export function getMutationRowKey(mutation: QueuedMutation): string | null {
+  switch (mutation.kind) {
+    case 'update-entry':
+    case 'delete-entry':
+      return `${mutation.tableName}|${mutation.entryId}`;
+    case 'create-entry':
+      return `${mutation.tableName}|${mutation.tempId}`;
+    default:
+      return null;
+  }
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  const normalize = (value: unknown) => (value === undefined || value === '' ? null : value);
+  return normalize(a) === normalize(b);
+}
+
+/**
+ * Find the fields changed on the server since a queued edit was made that the edit would overwrite.
+ * For an update these are the fields it changes that the server changed to a different value;
+ * for a delete, any field the server changed.
+ */
+export function findConflictingFields(
+  mutation: UpdateEntryMutation | DeleteEntryMutation,
+  server: CalendarEntry
+): string[] {
+  const base: Record<string, unknown> = { ...mutation.base };
+  const current: Record<string, unknown> = { ...server };
+
+  if (mutation.kind === 'delete-entry') {
+    return Object.keys(base).filter(field => field !== 'id' && !sameValue(base[field], current[field]));
+  }
+
+  const changes = mutation.changes as Record<string, unknown>;
+  return Object.keys(changes).filter(field =>
+    !sameValue(base[field], current[field]) && !sameValue(changes[field], current[field])
+  );
+}
+
+/**
+ * Record that a queued edit conflicts with the server's current row
+ */
+export async function markMutationConflict(
+  mutation: QueuedMutation,
+  server: CalendarEntry | null,
+  fields: string[]
+): Promise<void> {
+  await save({
+    ...mutation,
+    status: 'conflict',
+    conflict: { server, fields, detectedAt: new Date().toISOString() },
+    error: undefined
+  });
+}
+
+/**
+ * Record that a queued edit could not be written
+ */
+export async function markMutationFailed(mutation: QueuedMutation, error: string): Promise<void> {
+  await save({ ...mutation, status: 'failed', error });
+}
+
+/**
+ * Remove a queued edit after it was written or discarded
+ */
+export async function removeQueuedMutation(id: string): Promise<void> {
+  await deleteQueuedRecord(id);
+  await notifyListeners();
+}
@@ -0,0 +1,212 @@
+/**
+ * Browser-side store of the last data successfully fetched from Supabase and of edits
+ * waiting to be written. Snapshots are kept in IndexedDB so they survive reloads and are
+ * served instead of synthetic fallback data while the database is unreachable. Outside the
+ * browser (server rendering, API routes) snapshot operations are no-ops.
+ */
+
+export interface Snapshot<T> {
+  key: string;
+  data: T;
+  /** ISO timestamp of when the data was fetched */
+  savedAt: string;
+}
+
+type SnapshotListener = () => void;
+
+const DB_NAME = 'teaching-scheduler';
+const DB_VERSION = 2;
+const SNAPSHOT_STORE = 'snapshots';
+const MUTATION_STORE = 'mutations';
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+// savedAt of every snapshot served since its data was last refreshed from the database
+const servedSnapshots = new Map<string, string>();
+const listeners = new Set<SnapshotListener>();
+
+/**
+ * Snapshot key of a calendar table's entries
+ */
+export function calendarSnapshotKey(tableName: string): string {
+  return `calendar:${tableName}`;
+}
+
+function openDatabase(): Promise<IDBDatabase | null> {
+  if (typeof window === 'undefined' || !window.indexedDB) {
+    return Promise.resolve(null);
+  }
+
+  if (!dbPromise) {
+    dbPromise = new Promise(resolve => {
+      const request = window.indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SNAPSHOT_STORE)) {
+          db.createObjectStore(SNAPSHOT_STORE, { keyPath: 'key' });
+        }
+        if (!db.objectStoreNames.contains(MUTATION_STORE)) {
+          db.createObjectStore(MUTATION_STORE, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        console.warn('[OfflineStore] Could not open IndexedDB, offline snapshots are disabled:', request.error);
+        resolve(null);
+      };
+    });
+  }
+
+  return dbPromise;
+}
+
+function notifyListeners(): void {
+  listeners.forEach(listener => {
+    try {
+      listener();
+    } catch (err) {
+      console.error('[OfflineStore] Error notifying listener:', err);
+    }
+  });
+}
+
+/**
+ * Persist freshly fetched data. Failures are logged and otherwise ignored.
+ */
+export async function saveSnapshot<T>(key: string, data: T): Promise<void> {
+  const db = await openDatabase();
+  if (!db) return;
+
+  const snapshot: Snapshot<T> = { key, data, savedAt: new Date().toISOString() };
+  await new Promise<void>(resolve => {
+    try {
+      const transaction = db.transaction(SNAPSHOT_STORE, 'readwrite');
+      transaction.objectStore(SNAPSHOT_STORE).put(snapshot);
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => {
+        console.warn(`[OfflineStore] Could not save snapshot ${key}:`, transaction.error);
+        resolve();
+      };
+    } catch (err) {
+      console.warn(`[OfflineStore] Could not save snapshot ${key}:`, err);
+      resolve();
+    }
+  });
+
+  if (servedSnapshots.delete(key)) {
+    notifyListeners();
+  }
+}
+
+/**
+ * Read a snapshot without marking it as served
+ */
+export async function loadSnapshot<T>(key: string): Promise<Snapshot<T> | null> {
+  const db = await openDatabase();
+  if (!db) return null;
+
+  return new Promise(resolve => {
+    try {
+      const request = db.transaction(SNAPSHOT_STORE, 'readonly').objectStore(SNAPSHOT_STORE).get(key);
+      request.onsuccess = () => resolve((request.result as Snapshot<T> | undefined) ?? null);
+      request.onerror = () => {
+        console.warn(`[OfflineStore] Could not read snapshot ${key}:`, request.error);
+        resolve(null);
+      };
+    } catch (err) {
+      console.warn(`[OfflineStore] Could not read snapshot ${key}:`, err);
+      resolve(null);
+    }
+  });
+}
+
+/**
+ * Read a snapshot to show in place of live data, recording its age for the "data as of" marker
+ */
+export async function serveSnapshot<T>(key: string): Promise<Snapshot<T> | null> {
+  const snapshot = await loadSnapshot<T>(key);
+  if (snapshot && servedSnapshots.get(key) !== snapshot.savedAt) {
+    servedSnapshots.set(key, snapshot.savedAt);
+    notifyListeners();
+  }
+  return snapshot;
+}
+
+/**
+ * Age of the data currently shown from snapshots: the oldest savedAt of the served snapshots,
+ * or null when no snapshot is being served
+ */
+export function getServedDataAsOf(): string | null {
+  let oldest: string | null = null;
+  servedSnapshots.forEach(savedAt => {
+    if (oldest === null || savedAt < oldest) oldest = savedAt;
+  });
+  return oldest;
+}
+
+/**
+ * Listen for changes to which snapshots are being served
+ */
+export function addSnapshotListener(listener: SnapshotListener): void {
+  listeners.add(listener);
+}
+
+export function removeSnapshotListener(listener: SnapshotListener): void {
+  listeners.delete(listener);
+}
+
+// Queued edits kept for this session only when IndexedDB is unavailable (e.g. private browsing)
+const memoryMutations = new Map<string, { id: string }>();
+
+/**
+ * Save a queued edit (see mutationQueue.ts), replacing any record with the same id
+ */
+export async function saveQueuedRecord<T extends { id: string }>(record: T): Promise<void> {
+  const db = await openDatabase();
+  if (!db) {
+    memoryMutations.set(record.id, record);
+    return;
+  }
+
+  await new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction(MUTATION_STORE, 'readwrite');
+    transaction.objectStore(MUTATION_STORE).put(record);
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+/**
+ * Load all queued edits in no particular order
+ */
+export async function loadQueuedRecords<T extends { id: string }>(): Promise<T[]> {
+  const db = await openDatabase();
+  if (!db) {
+    return Array.from(memoryMutations.values()) as T[];
+  }
+
+  return new Promise((resolve, reject) => {
+    const request = db.transaction(MUTATION_STORE, 'readonly').objectStore(MUTATION_STORE).getAll();
+    request.onsuccess = () => resolve(request.result as T[]);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Remove a queued edit after it was written or discarded
+ */
+export async function deleteQueuedRecord(id: string): Promise<void> {
+  const db = await openDatabase();
+  if (!db) {
+    memoryMutations.delete(id);
+    return;
+  }
+
+  await new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction(MUTATION_STORE, 'readwrite');
+    transaction.objectStore(MUTATION_STORE).delete(id);
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
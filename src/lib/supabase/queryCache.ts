@@ -0,0 +1,291 @@
+/**
+ * In-memory cache of query results for the data layer.
+ * Entries are keyed by query (entity plus table and filters), expire per entity, are served
+ * stale while a background refresh runs, and are evicted least recently used first.
+ */
+
+export type CacheEntity =
+  | 'tables'
+  | 'teachers'
+  | 'calendar'
+  | 'assignments'
+  | 'substitutions'
+  | 'availability'
+  | 'payRates'
+  | 'courseFamilies';
+
+interface CachePolicy {
+  /** How long an entry is served without refreshing, in milliseconds */
+  ttl: number;
+  /** How long after that an entry is still served while it refreshes in the background */
+  staleTtl: number;
+}
+
+const MINUTE = 60 * 1000;
+
+// Calendars and assignments change during the day; table lists and teachers rarely do
+const CACHE_POLICIES: Record<CacheEntity, CachePolicy> = {
+  tables: { ttl: 30 * MINUTE, staleTtl: 6 * 60 * MINUTE },
+  teachers: { ttl: 10 * MINUTE, staleTtl: 60 * MINUTE },
+  calendar: { ttl: 5 * MINUTE, staleTtl: 30 * MINUTE },
+  assignments: { ttl: 5 * MINUTE, staleTtl: 30 * MINUTE },
+  substitutions: { ttl: 2 * MINUTE, staleTtl: 10 * MINUTE },
+  availability: { ttl: 10 * MINUTE, staleTtl: 60 * MINUTE },
+  payRates: { ttl: 30 * MINUTE, staleTtl: 6 * 60 * MINUTE },
+  courseFamilies: { ttl: 30 * MINUTE, staleTtl: 6 * 60 * MINUTE }
+};
+
+// Most entries kept at once; the least recently used entry is evicted beyond this
+const MAX_ENTRIES = 200;
+
+interface CacheEntry<T = unknown> {
+  entity: CacheEntity;
+  /** Tables the entry was derived from, for invalidation after writes */
+  tags: string[];
+  data: T;
+  freshUntil: number;
+  staleUntil: number;
+}
+
+/**
+ * Selects cache entries by entity, by table tag, or both
+ */
+export interface CacheFilter {
+  entity?: CacheEntity;
+  tag?: string;
+}
+
+export interface CacheEntityStats {
+  entries: number;
+  hits: number;
+  staleHits: number;
+  misses: number;
+}
+
+export interface CacheStats {
+  entries: number;
+  maxEntries: number;
+  hits: number;
+  staleHits: number;
+  misses: number;
+  /** Share of lookups answered from the cache, fresh or stale (0-1) */
+  hitRate: number;
+  revalidations: number;
+  revalidationFailures: number;
+  evictions: number;
+  invalidations: number;
+  byEntity: Record<CacheEntity, CacheEntityStats>;
+}
+
+// Map iteration follows insertion order, so re-inserting on use keeps the least recently used first
+const entries = new Map<string, CacheEntry>();
+
+// Loads in flight, by key, so concurrent callers share one query
+const pending = new Map<string, { entity: CacheEntity; tags: string[]; promise: Promise<unknown> }>();
+
+const counters = {
+  revalidations: 0,
+  revalidationFailures: 0,
+  evictions: 0,
+  invalidations: 0
+};
+
+const entityCounters = Object.fromEntries(
+  (Object.keys(CACHE_POLICIES) as CacheEntity[]).map(entity => [entity, { hits: 0, staleHits: 0, misses: 0 }])
+) as Record<CacheEntity, Omit<CacheEntityStats, 'entries'>>;
+
+/**
+ * Build a cache key from an entity and the parts of a query, e.g. ('calendar', table, range)
+ */
+export function cacheKey(entity: CacheEntity, ...parts: (string | number | undefined)[]): string {
+  return [entity, ...parts.map(part => (part === undefined ? '' : String(part)))].join('|');
+}
+
+function matches(entry: { entity: CacheEntity; tags: string[] }, filter: CacheFilter): boolean {
+  return (!filter.entity || entry.entity === filter.entity) && (!filter.tag || entry.tags.includes(filter.tag));
+}
+
+function touch(key: string, entry: CacheEntry): void {
+  entries.delete(key);
+  entries.set(key, entry);
+}
+
+/**
+ * Store a query result, evicting the least recently used entries beyond the size bound
+ */
+export function writeCache<T>(entity: CacheEntity, key: string, data: T, tags: string[] = []): void {
+  const now = Date.now();
+  const policy = CACHE_POLICIES[entity];
+  entries.delete(key);
+  entries.set(key, { entity, tags, data, freshUntil: now + policy.ttl, staleUntil: now + policy.ttl + policy.staleTtl });
+
+  while (entries.size > MAX_ENTRIES) {
+    const oldest = entries.keys().next().value as string;
+    entries.delete(oldest);
+    counters.evictions++;
+  }
+}
+
+/**
+ * Get a fresh cached result, counting the lookup as a hit; null when there is none
+ */
+export function readCache<T>(key: string): T | null {
+  const entry = entries.get(key);
+  if (!entry || Date.now() >= entry.freshUntil) return null;
+
+  entityCounters[entry.entity].hits++;
+  touch(key, entry);
+  return entry.data as T;
+}
+
+/**
+ * Find a fresh cached result among the entries selected by a filter, e.g. a cached date range
+ * covering the one asked for; counts as a hit when found
+ */
+export function findCached<T>(filter: CacheFilter, predicate: (data: T) => boolean): T | null {
+  const now = Date.now();
+  for (const [key, entry] of Array.from(entries)) {
+    if (matches(entry, filter) && now < entry.freshUntil && predicate(entry.data as T)) {
+      entityCounters[entry.entity].hits++;
+      touch(key, entry);
+      return entry.data as T;
+    }
+  }
+  return null;
+}
+
+/**
+ * Load a result, sharing the query with concurrent callers and caching what it returns.
+ * Failed loads are not cached.
+ */
+function load<T>(entity: CacheEntity, key: string, loader: () => Promise<T>, tags: string[]): Promise<T> {
+  const inFlight = pending.get(key);
+  if (inFlight) return inFlight.promise as Promise<T>;
+
+  const query: Promise<T> = loader()
+    .then(data => {
+      // A write may have invalidated the table while the query ran; its result is already outdated
+      if (pending.get(key)?.promise === query) {
+        writeCache(entity, key, data, tags);
+      }
+      return data;
+    })
+    .finally(() => {
+      if (pending.get(key)?.promise === query) {
+        pending.delete(key);
+      }
+    });
+  pending.set(key, { entity, tags, promise: query });
+  return query;
+}
+
+/**
+ * Get a query result through the cache.
+ * Fresh results are returned as they are; stale results are returned at once while the query
+ * runs again in the background; anything older is loaded before returning.
+ */
+export async function cachedQuery<T>(
+  entity: CacheEntity,
+  key: string,
+  loader: () => Promise<T>,
+  tags: string[] = []
+): Promise<T> {
+  const entry = entries.get(key);
+  const now = Date.now();
+
+  if (entry && now < entry.freshUntil) {
+    entityCounters[entity].hits++;
+    touch(key, entry);
+    return entry.data as T;
+  }
+
+  if (entry && now < entry.staleUntil) {
+    entityCounters[entity].staleHits++;
+    touch(key, entry);
+    if (!pending.has(key)) {
+      counters.revalidations++;
+      load(entity, key, loader, tags).catch(err => {
+        counters.revalidationFailures++;
+        console.warn(`[Cache] Refreshing ${key} failed, keeping the stale result:`, err);
+      });
+    }
+    return entry.data as T;
+  }
+
+  entityCounters[entity].misses++;
+  return load(entity, key, loader, tags);
+}
+
+/**
+ * Change cached results in place, keeping their expiry, e.g. to apply a row pushed by Realtime
+ */
+export function updateCache<T>(filter: CacheFilter, update: (data: T) => T): void {
+  entries.forEach(entry => {
+    if (matches(entry, filter)) {
+      entry.data = update(entry.data as T);
+    }
+  });
+}
+
+/**
+ * Drop the cached results selected by a filter, e.g. everything derived from a table after a write.
+ * Loads in flight for those results are not cached when they finish.
+ * Returns the number of entries dropped.
+ */
+export function invalidateCache(filter: CacheFilter): number {
+  let dropped = 0;
+  Array.from(entries).forEach(([key, entry]) => {
+    if (matches(entry, filter)) {
+      entries.delete(key);
+      dropped++;
+    }
+  });
+  Array.from(pending).forEach(([key, load]) => {
+    if (matches(load, filter)) {
+      pending.delete(key);
+    }
+  });
+  counters.invalidations += dropped;
+  return dropped;
+}
+
+/**
+ * Drop every cached result; statistics are kept
+ */
+export function clearQueryCache(): void {
+  counters.invalidations += entries.size;
+  entries.clear();
+  pending.clear();
+}
+
+/**
+ * Hit, miss and eviction counts since startup, with the current size of the cache
+ */
+export function getCacheStats(): CacheStats {
+  const byEntity = {} as Record<CacheEntity, CacheEntityStats>;
+  (Object.keys(CACHE_POLICIES) as CacheEntity[]).forEach(entity => {
+    byEntity[entity] = { entries: 0, ...entityCounters[entity] };
+  });
+  entries.forEach(entry => {
+    byEntity[entry.entity].entries++;
+  });
+
+  const totals = Object.values(byEntity).reduce(
+    (sum, stats) => ({
+      hits: sum.hits + stats.hits,
+      staleHits: sum.staleHits + stats.staleHits,
+      misses: sum.misses + stats.misses
+    }),
+    { hits: 0, staleHits: 0, misses: 0 }
+  );
+  const lookups = totals.hits + totals.staleHits + totals.misses;
+
+  return {
+    entries: entries.size,
+    maxEntries: MAX_ENTRIES,
+    ...totals,
+    hitRate: lookups > 0 ? (totals.hits + totals.staleHits) / lookups : 0,
+    ...counters,
+    byEntity
+  };
+}
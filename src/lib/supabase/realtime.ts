@@ -0,0 +1,137 @@
+/**
+ * Row changes pushed by the database while the app is open.
+ * The Supabase source listens to Postgres changes through Supabase Realtime; the fake source
+ * is driven by hand so the change handling can be exercised without a live project.
+ */
+
+export type DataChangeType = 'INSERT' | 'UPDATE' | 'DELETE';
+
+export interface DataChange {
+  table: string;
+  type: DataChangeType;
+  /** The row after the change; null for deletes */
+  record: Record<string, any> | null;
+  /**
+   * The row before the change; null for inserts. Unless the table uses REPLICA IDENTITY FULL,
+   * Postgres only includes the primary key here.
+   */
+  oldRecord: Record<string, any> | null;
+}
+
+export type DataChangeHandler = (change: DataChange) => void;
+
+/**
+ * A source of row changes for a set of tables
+ */
+export interface RealtimeSource {
+  /** Start listening; returns a function that stops listening */
+  subscribe(tables: string[], handler: DataChangeHandler): () => void;
+}
+
+interface PostgresChangePayload {
+  table: string;
+  eventType: DataChangeType;
+  new: Record<string, any>;
+  old: Record<string, any>;
+}
+
+// The parts of a Supabase realtime channel used here
+interface ChannelLike {
+  on(
+    type: 'postgres_changes',
+    filter: { event: '*'; schema: string; table: string },
+    callback: (payload: PostgresChangePayload) => void
+  ): ChannelLike;
+  subscribe(callback?: (status: string, err?: Error) => void): ChannelLike;
+}
+
+interface RealtimeClientLike {
+  channel(name: string): ChannelLike;
+  removeChannel(channel: ChannelLike): Promise<unknown>;
+}
+
+function isEmpty(row: Record<string, any> | null | undefined): boolean {
+  return !row || Object.keys(row).length === 0;
+}
+
+/**
+ * Listen to Postgres changes of the given tables in the public schema.
+ * Returns null when the client has no realtime support (e.g. the fallback client).
+ */
+export function createSupabaseRealtimeSource(client: unknown): RealtimeSource | null {
+  if (
+    typeof client !== 'object' || client === null ||
+    !('channel' in client) || typeof client.channel !== 'function' ||
+    !('removeChannel' in client) || typeof client.removeChannel !== 'function'
+  ) {
+    return null;
+  }
+  const realtimeClient = client as RealtimeClientLike;
+
+  return {
+    subscribe(tables, handler) {
+      let channel = realtimeClient.channel('schedule-changes');
+      tables.forEach(table => {
+        channel = channel.on('postgres_changes', { event: '*', schema: 'public', table }, payload => {
+          handler({
+            table: payload.table,
+            type: payload.eventType,
+            record: isEmpty(payload.new) ? null : payload.new,
+            oldRecord: isEmpty(payload.old) ? null : payload.old
+          });
+        });
+      });
+
+      channel.subscribe((status, err) => {
+        if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+          console.warn(`[Realtime] Subscription ${status.toLowerCase()}:`, err?.message || '');
+        } else if (status === 'SUBSCRIBED') {
+          console.log(`[Realtime] Listening for changes to ${tables.length} tables`);
+        }
+      });
+
+      return () => {
+        realtimeClient.removeChannel(channel).catch(error => {
+          console.warn('[Realtime] Error removing channel:', error);
+        });
+      };
+    }
+  };
+}
+
+/**
+ * In-memory realtime source for tests and local development.
+ * Install it with `supabaseService.setRealtimeSource(fake)` and call `emit` to simulate
+ * a colleague's change.
+ */
+export class FakeRealtimeSource implements RealtimeSource {
+  private subscriptions = new Set<{ tables: string[]; handler: DataChangeHandler }>();
+
+  subscribe(tables: string[], handler: DataChangeHandler): () => void {
+    const subscription = { tables, handler };
+    this.subscriptions.add(subscription);
+    return () => {
+      this.subscriptions.delete(subscription);
+    };
+  }
+
+  /**
+   * Tables currently listened to
+   */
+  get subscribedTables(): string[] {
+    const tables = new Set<string>();
+    this.subscriptions.forEach(subscription => subscription.tables.forEach(table => tables.add(table)));
+    return Array.from(tables);
+  }
+
+  /**
+   * Deliver a change to every subscription that listens to its table
+   */
+  emit(change: DataChange): void {
+    this.subscriptions.forEach(subscription => {
+      if (subscription.tables.includes(change.table)) {
+        subscription.handler(change);
+      }
+    });
+  }
+}
@@ -1,16 +1,7 @@
-import { createClient } from '@supabase/supabase-js';
-import { supabaseUrl, supabaseKey, supabase } from './client';
-
-// Define default tables for offline mode - EXACT MATCH with database
-const DEFAULT_TABLES = [
-  'Teachers',
-  'Students-English',
-  'Sprouts1-Course-Calendar',
-  'Sprouts2-Course-Calendar',
-  'Clovers1A-Course-Calendar',
-  'Clovers2A-Course-Calendar',
-  'Guardians3-Course-Calendar'
-];
+import { getRepository } from '@/lib/repository';
+import { KNOWN_TABLES } from '@/lib/schema';
+import { getQueuedMutations } from './mutationQueue';
+import { DataChange, RealtimeSource } from './realtime';
 
 /**
  * Status of the Supabase connection
@@ -24,14 +15,18 @@ export interface ConnectionObserver {
   onConnectionStatusChanged: (status: ConnectionStatus, error?: Error) => void;
   onSynchronizationStart?: () => void;
   onSynchronizationComplete?: () => void;
+  /** Rows changed in the database by someone else; the data cache already reflects them */
+  onDataChanged?: (changes: DataChange[]) => void;
 }
 
+// Realtime changes arriving within this window are delivered to observers together
+const DATA_CHANGE_BATCH_MS = 250;
+
 /**
  * Enhanced Supabase service with connection reliability features
  */
 export class SupabaseService {
   private static instance: SupabaseService;
-  private client = supabase; // Use the pre-initialized client
   
   private status: ConnectionStatus = 'disconnected';
   private lastError?: Error;
@@ -45,6 +40,11 @@ export class SupabaseService {
   private retryTimeoutIds: NodeJS.Timeout[] = []; // Track timeout IDs for cleanup
   private isSynchronizing = false;
   private componentsUsingFallback: Set<string> = new Set();
+  private realtimeSource: RealtimeSource | null = null;
+  private stopRealtime?: () => void;
+  private realtimeStarting = false;
+  private pendingDataChanges: DataChange[] = [];
+  private dataChangeTimeout?: NodeJS.Timeout;
   
   /**
    * Get the singleton instance of SupabaseService
@@ -60,7 +60,7 @@ export class SupabaseService {
    * Private constructor for singleton pattern
    */
   private constructor() {
-    console.log(`[DB] Initializing Supabase service with client at ${supabaseUrl}`);
+    console.log('[DB] Initializing database service');
     this.startPingInterval();
 
     // Attempt to detect network connectivity changes
@@ -85,9 +85,14 @@ export class SupabaseService {
       console.log('[DB] Browser reports online status, attempting reconnection');
       this.useOfflineMode = false;
       this.connectionAttempts = 0;
-      this.ping().catch(error => {
-        console.error('[DB] Reconnection attempt failed:', this.formatError(error));
-      });
+      this.ping()
+        .then(connected => {
+          // Write edits queued while offline and reload data
+          if (connected) return this.synchronizeData();
+        })
+        .catch(error => {
+          console.error('[DB] Reconnection attempt failed:', this.formatError(error));
+        });
     } else {
       console.log('[DB] Browser reports offline status, entering offline mode');
       this.useOfflineMode = true;
@@ -140,7 +145,7 @@ export class SupabaseService {
   }
   
   /**
-   * Ping the Supabase server to check connectivity
+   * Ping the data backend to check connectivity
    */
   public async ping(): Promise<boolean> {
     try {
@@ -154,44 +159,20 @@ export class SupabaseService {
       this.connectionAttempts++;
       
       // Create a promise with timeout
-      const timeoutPromise = new Promise<{data: null, error: Error}>((_, reject) => {
-        setTimeout(() => reject(new Error('Connection timeout after 5000ms')), 5000);
+      let timeoutId: NodeJS.Timeout | undefined;
+      const timeoutPromise = new Promise<never>((_, reject) => {
+        timeoutId = setTimeout(() => reject(new Error('Connection timeout after 5000ms')), 5000);
       });
       
-      // Create an array of table queries to try in sequence
-      const tablesToTry = [
-        'Clovers1A-Course-Calendar', 
-        'Teachers', 
-        'Students-English', 
-        'Sprouts1-Course-Calendar'
-      ];
-      
       let connectionSuccessful = false;
-      
-      // Try each table until one succeeds
-      for (const table of tablesToTry) {
-        if (connectionSuccessful) break;
-        
-        console.log(`[DB] Testing connection with ${table} table query...`);
-        
-        try {
-          // Race the query against the timeout
-          const queryPromise = this.client
-            .from(table)
-            .select('count', { count: 'exact', head: true });
-            
-          const result = await Promise.race([queryPromise, timeoutPromise]) as any;
-          
-          // If no error, connection is successful
-          if (!result.error) {
-            connectionSuccessful = true;
-            console.log(`[DB] Connection successful using ${table} table`);
-            break;
-          }
-        } catch (error) {
-          console.log(`[DB] Connection failed using ${table} table, trying next option...`);
-          // Continue to the next table
-        }
+      try {
+        // Race the backend's connectivity check against the timeout
+        await Promise.race([getRepository().ping(), timeoutPromise]);
+        connectionSuccessful = true;
+      } catch (error) {
+        console.log(`[DB] Connection check failed: ${this.formatError(error)}`);
+      } finally {
+        clearTimeout(timeoutId);
       }
       
       if (connectionSuccessful) {
@@ -229,44 +210,32 @@ export class SupabaseService {
    * Periodically check if we should exit offline mode
    */
   private async checkOfflineStatus(): Promise<void> {
-    console.log('[DB] Checking if Supabase is available...');
+    console.log('[DB] Checking if the database is available...');
     try {
-      // Try a simple fetch to see if Supabase is reachable
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), 5000);
+      // Try the backend's connectivity check, giving up after 5 seconds
+      let timeoutId: NodeJS.Timeout | undefined;
+      const timeoutPromise = new Promise<never>((_, reject) => {
+        timeoutId = setTimeout(() => reject(new Error('Connection timeout after 5000ms')), 5000);
+      });
       
       try {
-        const response = await fetch(`${supabaseUrl}/rest/v1/?apikey=${supabaseKey}`, {
-          method: 'HEAD',
-          headers: {
-            'apikey': supabaseKey,
-          },
-          signal: controller.signal
-        });
+        await Promise.race([getRepository().ping(), timeoutPromise]);
         
-        clearTimeout(timeoutId);
+        // If we get here, we might be able to connect
+        console.log('[DB] Database is reachable, attempting reconnection');
+        this.useOfflineMode = false;
+        this.connectionAttempts = 0;
         
-        // Check if response is ok (2xx status)
-        if (response.ok) {
-          // If we get here, we might be able to connect
-          console.log('[DB] Supabase is reachable, attempting reconnection');
-          this.useOfflineMode = false;
-          this.connectionAttempts = 0;
-          
-          // Clear current interval and restart normal ping cycle
-          if (this.pingInterval) {
-            clearInterval(this.pingInterval);
-            this.startPingInterval();
-          }
-        } else {
-          console.log(`[DB] Supabase returned status ${response.status}, remaining in offline mode`);
+        // Clear current interval and restart normal ping cycle
+        if (this.pingInterval) {
+          clearInterval(this.pingInterval);
+          this.startPingInterval();
         }
-      } catch (fetchError) {
+      } finally {
         clearTimeout(timeoutId);
-        throw fetchError;
       }
     } catch (e) {
-      console.log('[DB] Supabase still unreachable, remaining in offline mode:', 
+      console.log('[DB] Database still unreachable, remaining in offline mode:', 
         e instanceof Error ? e.message : String(e));
     }
   }
@@ -382,7 +351,95 @@ export class SupabaseService {
       });
       
       console.log(`[DB] Connection status changed: ${oldStatus} → ${status}${error ? ` (${error.message})` : ''}`);
+      
+      // Periodic pings pass through 'connecting', which keeps the subscription
+      if (status === 'connected') {
+        this.startRealtime();
+      } else if (status === 'disconnected' || status === 'error') {
+        this.endRealtime();
+      }
+    }
+  }
+  
+  /**
+   * Replace the source of realtime row changes, e.g. with a FakeRealtimeSource in tests.
+   * Restarts the subscription if one is running.
+   */
+  public setRealtimeSource(source: RealtimeSource | null): void {
+    const wasListening = this.stopRealtime !== undefined;
+    this.endRealtime();
+    this.realtimeSource = source;
+    if (wasListening || (source && this.status === 'connected')) {
+      this.startRealtime();
+    }
+  }
+  
+  /**
+   * Listen for changes to the Teachers and calendar tables (browser only)
+   */
+  private async startRealtime(): Promise<void> {
+    if (typeof window === 'undefined' || this.stopRealtime || this.realtimeStarting) return;
+    
+    if (!this.realtimeSource) {
+      this.realtimeSource = getRepository().createRealtimeSource?.() ?? null;
+      if (!this.realtimeSource) {
+        console.log('[DB] Data backend has no realtime support, changes are picked up on refresh');
+        return;
+      }
+    }
+    
+    this.realtimeStarting = true;
+    try {
+      const { getCalendarTables } = await import('./data');
+      const tables = ['Teachers', ...(await getCalendarTables())];
+      // The connection may have dropped while the tables were loading
+      if (this.stopRealtime || !this.realtimeSource || this.status !== 'connected') return;
+      this.stopRealtime = this.realtimeSource.subscribe(tables, change => this.handleDataChange(change));
+    } catch (error) {
+      console.error('[DB] Error starting realtime subscription:', this.formatError(error));
+    } finally {
+      this.realtimeStarting = false;
+    }
+  }
+  
+  private endRealtime(): void {
+    if (this.stopRealtime) {
+      this.stopRealtime();
+      this.stopRealtime = undefined;
+    }
+  }
+  
+  /**
+   * Apply a realtime change to the data cache and queue it for observers
+   */
+  private async handleDataChange(change: DataChange): Promise<void> {
+    try {
+      const { applyRealtimeChange } = await import('./data');
+      applyRealtimeChange(change);
+    } catch (error) {
+      console.error('[DB] Error applying realtime change:', this.formatError(error));
+      return;
     }
+    
+    this.pendingDataChanges.push(change);
+    if (!this.dataChangeTimeout) {
+      this.dataChangeTimeout = setTimeout(() => this.flushDataChanges(), DATA_CHANGE_BATCH_MS);
+    }
+  }
+  
+  private flushDataChanges(): void {
+    const changes = this.pendingDataChanges;
+    this.pendingDataChanges = [];
+    this.dataChangeTimeout = undefined;
+    
+    this.observers.forEach(observer => {
+      if (!observer.onDataChanged) return;
+      try {
+        observer.onDataChanged(changes);
+      } catch (obsError) {
+        console.error('[DB] Error in observer notification:', obsError);
+      }
+    });
   }
   
   /**
@@ -403,13 +460,6 @@ export class SupabaseService {
     this.observers = this.observers.filter(obs => obs !== observer);
   }
   
-  /**
-   * Get the Supabase client instance
-   */
-  public getClient() {
-    return this.client;
-  }
-  
   /**
    * Manually trigger a reconnection attempt and return the result
    */
@@ -426,10 +476,13 @@ export class SupabaseService {
       // Attempt to connect
       const result = await this.ping();
       
-      // If connection successful and there are components using fallback data, synchronize
+      // If connection successful and there are components using fallback data or queued edits, synchronize
       if (result && this.hasFallbackComponents()) {
         console.log(`[DB] Connection restored. ${this.getFallbackComponentCount()} components are using fallback data. Starting synchronization...`);
         await this.synchronizeData();
+      } else if (result && (await getQueuedMutations()).length > 0) {
+        console.log('[DB] Connection restored with queued offline edits. Starting synchronization...');
+        await this.synchronizeData();
       }
       
       return result;
@@ -453,6 +506,12 @@ export class SupabaseService {
     });
     this.retryTimeoutIds = [];
     
+    this.endRealtime();
+    if (this.dataChangeTimeout) {
+      clearTimeout(this.dataChangeTimeout);
+      this.dataChangeTimeout = undefined;
+    }
+    
     // Remove event listeners if we added them
     if (typeof window !== 'undefined') {
       window.removeEventListener('online', this.handleNetworkChange.bind(this, true));
@@ -464,122 +523,28 @@ export class SupabaseService {
   }
   
   /**
-   * List all available tables in the Supabase database
+   * List all available tables in the database
    */
   public async listTables(): Promise<string[]> {
     if (this.useOfflineMode) {
-      console.log('[DB] Using default tables list for offline mode');
-      return DEFAULT_TABLES;
+      console.log('[DB] Using known tables list for offline mode');
+      return KNOWN_TABLES;
     }
 
     try {
-      // Check for non-existent client
-      if (!this.client) {
-        console.log('[DB] No client available, using default tables list');
-        return DEFAULT_TABLES;
-      }
-
-      let discoveredTables: string[] = [];
-
-      // First attempt: via RPC
-      try {
-        console.log('[DB] Attempting to list tables via RPC');
-        // Check if rpc method exists on client
-        if ('rpc' in this.client && typeof this.client.rpc === 'function') {
-          const { data, error } = await this.client.rpc('get_tables');
-          if (!error && data) {
-            discoveredTables = Array.isArray(data) ? data.map((row: any) => row.table_name) : [];
-            console.log('[DB] Successfully retrieved tables via RPC:', discoveredTables);
-            if (discoveredTables.length > 0) {
-              return discoveredTables;
-            }
-          }
-        } else {
-          console.log('[DB] rpc method not available on client');
-        }
-      } catch (err) {
-        console.warn('[DB] Failed to list tables via RPC:', err);
-      }
-
-      // Second attempt: via information_schema
-      try {
-        console.log('[DB] Attempting to list tables via information_schema');
-        const query = this.client.from('information_schema.tables').select('table_name');
-        
-        // Check if the query object has the eq method (type guard)
-        if ('eq' in query && typeof query.eq === 'function') {
-          const response = await query.eq('table_schema', 'public');
-          
-          if (!response.error && response.data) {
-            discoveredTables = response.data.map((row: {table_name: string}) => row.table_name);
-            console.log('[DB] Successfully retrieved tables via information_schema:', discoveredTables);
-            if (discoveredTables.length > 0) {
-              return discoveredTables;
-            }
-          }
-        } else {
-          // Fallback if eq method isn't available - just try to get all tables
-          const response = await query;
-          
-          if (!response.error && response.data) {
-            // Filter for public schema tables manually
-            discoveredTables = response.data
-              .filter((row: any) => row.table_schema === 'public')
-              .map((row: {table_name: string}) => row.table_name);
-              
-            console.log('[DB] Successfully retrieved tables via information_schema (without filter):', discoveredTables);
-            if (discoveredTables.length > 0) {
-              return discoveredTables;
-            }
-          }
-        }
-      } catch (err) {
-        console.warn('[DB] Failed to list tables via information_schema:', err);
-      }
-
-      // Final attempt: directly probe tables that actually exist in the database
-      console.log('[DB] Attempting to detect tables by direct queries');
-      let detectedTables: string[] = [];
-      
-      // List of EXACT tables that exist in the Supabase database (from table editor screenshot)
-      const tablesToCheck = [
-        'Teachers',
-        'Students-English',
-        'Sprouts1-Course-Calendar',
-        'Sprouts2-Course-Calendar',
-        'Clovers1A-Course-Calendar',
-        'Clovers2A-Course-Calendar', // Fixed from 1B/2 to 2A
-        'Guardians3-Course-Calendar' // Fixed to only include Guardians3
-      ];
-      
-      // Check each table by directly querying it
-      for (const tableName of tablesToCheck) {
-        try {
-          const { error } = await this.client
-            .from(tableName)
-            .select('count', { count: 'exact', head: true });
-          
-          if (!error) {
-            detectedTables.push(tableName);
-          }
-        } catch (err) {
-          // Ignore errors and continue to next table
-        }
-      }
-      
-      if (detectedTables.length > 0) {
-        console.log(`[DB] Detected ${detectedTables.length} tables via direct queries:`, detectedTables);
-        return detectedTables;
+      const tables = await getRepository().listTables();
+      if (tables.length > 0) {
+        return tables;
       }
       
       // Only if all methods failed and we're potentially offline
       console.warn('[DB] All methods to list tables failed, app might be offline');
       this.useOfflineMode = true; // Set offline mode since we couldn't connect
-      return DEFAULT_TABLES;
+      return KNOWN_TABLES;
     } catch (error) {
       console.error('[DB] Unexpected error in listTables:', this.formatError(error));
       this.useOfflineMode = true; // Set offline mode since we couldn't connect
-      return DEFAULT_TABLES;
+      return KNOWN_TABLES;
     }
   }
 
@@ -624,7 +589,7 @@ export class SupabaseService {
 
   /**
    * Synchronize data after a reconnection
-   * This clears cache and notifies components to reload their data
+   * This replays edits queued while offline, clears cache and notifies components to reload their data
    */
   public async synchronizeData(): Promise<boolean> {
     if (this.status !== 'connected') {
@@ -648,6 +613,8 @@ export class SupabaseService {
         }
       });
 
+      await this.replayQueuedEdits();
+
       // Clear all cached data to force fresh data retrieval
       await this.clearCache();
       
@@ -672,6 +639,18 @@ export class SupabaseService {
     }
   }
 
+  /**
+   * Write edits queued while offline; conflicts stay queued for the user to resolve
+   */
+  private async replayQueuedEdits(): Promise<void> {
+    try {
+      const { replayQueuedMutations } = await import('./data');
+      await replayQueuedMutations();
+    } catch (error) {
+      console.error('[DB] Error replaying queued edits:', this.formatError(error));
+    }
+  }
+
   /**
    * Clear all cached data
    */